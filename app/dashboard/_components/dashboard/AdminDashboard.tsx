@@ -22,26 +22,22 @@ import { AdminStatsCard } from "../card/AdminStatsCard";
 import { useMemo } from "react";
 
 export function AdminDashboard() {
-  // For now, we'll use the current user's tasks as a base
-  // In a real implementation, you'd want a separate admin endpoint that fetches ALL tasks
-  const { data: allTasks, isLoading, error } = api.tasks.getMyTasks.useQuery();
+  const { data: stats, isLoading, error } = api.adminTasks.stats.useQuery();
 
   // Calculate platform-wide statistics
   const platformStats = useMemo(() => {
-    if (!allTasks) {
+    if (!stats) {
       return { total: 0, completed: 0, incomplete: 0, completionRate: 0 };
     }
 
-    const total = allTasks.length;
-    const completed = allTasks.filter(
-      (task) => task.Status === "Completed"
-    ).length;
+    const total = stats.total;
+    const completed = stats.byStatus.Completed;
     const incomplete = total - completed; // Everything that's not completed
     const completionRate =
       total > 0 ? Math.round((completed / total) * 100) : 0;
 
     return { total, completed, incomplete, completionRate };
-  }, [allTasks]);
+  }, [stats]);
 
   if (isLoading) {
     return (
@@ -202,7 +198,7 @@ export function AdminDashboard() {
               className="w-full group-hover:shadow-md transition-all duration-200"
             >
               <Link
-                href="/dashboard/tasks/submitted"
+                href="/dashboard/admin/tasks"
                 className="flex items-center justify-center"
               >
                 View Tasks
@@ -0,0 +1,210 @@
+"use client";
+
+import React from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, Search } from "lucide-react";
+
+import {
+  getStatusDisplayInfo,
+  ProfessionalSector,
+  TaskStatus,
+} from "@/lib/schemas/task";
+import { TaskListFilters } from "@/lib/schemas/task-query.schema";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+
+export interface TaskFilterForm {
+  statuses: TaskStatus[];
+  sectors: ProfessionalSector[];
+  trainer: string;
+  createdFrom: string; // yyyy-mm-dd from the date input
+  createdTo: string;
+  minAlignment: string;
+  maxAlignment: string;
+}
+
+export const EMPTY_TASK_FILTER_FORM: TaskFilterForm = {
+  statuses: [],
+  sectors: [],
+  trainer: "",
+  createdFrom: "",
+  createdTo: "",
+  minAlignment: "",
+  maxAlignment: "",
+};
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+// Turn the form into API filters; dates cover whole days in local time
+export function toTaskListFilters(form: TaskFilterForm): TaskListFilters {
+  return {
+    statuses: form.statuses.length > 0 ? form.statuses : undefined,
+    sectors: form.sectors.length > 0 ? form.sectors : undefined,
+    trainer: form.trainer.trim() || undefined,
+    createdFrom: form.createdFrom
+      ? new Date(`${form.createdFrom}T00:00:00`).toISOString()
+      : undefined,
+    createdTo: form.createdTo
+      ? new Date(`${form.createdTo}T23:59:59.999`).toISOString()
+      : undefined,
+    minAlignment: form.minAlignment ? Number(form.minAlignment) : undefined,
+    maxAlignment: form.maxAlignment ? Number(form.maxAlignment) : undefined,
+  };
+}
+
+export function TaskFilterFields({
+  form,
+  onChange,
+  showStatus = true,
+  showTrainer = true,
+}: {
+  form: TaskFilterForm;
+  onChange: (form: TaskFilterForm) => void;
+  showStatus?: boolean;
+  showTrainer?: boolean;
+}) {
+  const { sectors } = useSectorCatalog();
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      {showStatus && (
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-full justify-between">
+                {form.statuses.length > 0
+                  ? `${form.statuses.length} selected`
+                  : "All statuses"}
+                <ChevronDown className="h-4 w-4 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-56">
+              {TaskStatus.options.map((status) => (
+                <DropdownMenuCheckboxItem
+                  key={status}
+                  checked={form.statuses.includes(status)}
+                  onCheckedChange={() =>
+                    onChange({
+                      ...form,
+                      statuses: toggle(form.statuses, status),
+                    })
+                  }
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {getStatusDisplayInfo(status).label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Sector</Label>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-full justify-between">
+              {form.sectors.length > 0
+                ? `${form.sectors.length} selected`
+                : "All sectors"}
+              <ChevronDown className="h-4 w-4 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="w-56">
+            {sectors.map((sector) => (
+              <DropdownMenuCheckboxItem
+                key={sector.value}
+                checked={form.sectors.includes(sector.value)}
+                onCheckedChange={() =>
+                  onChange({
+                    ...form,
+                    sectors: toggle(form.sectors, sector.value),
+                  })
+                }
+                onSelect={(e) => e.preventDefault()}
+              >
+                {sector.icon} {sector.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {showTrainer && (
+        <div className="space-y-2">
+          <Label htmlFor="trainer-filter">Trainer</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="trainer-filter"
+              placeholder="Email contains..."
+              value={form.trainer}
+              onChange={(e) => onChange({ ...form, trainer: e.target.value })}
+              className="pl-9"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Primary Alignment (%)</Label>
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Min"
+            value={form.minAlignment}
+            onChange={(e) =>
+              onChange({ ...form, minAlignment: e.target.value })
+            }
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Max"
+            value={form.maxAlignment}
+            onChange={(e) =>
+              onChange({ ...form, maxAlignment: e.target.value })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="created-from">Created From</Label>
+        <Input
+          id="created-from"
+          type="date"
+          value={form.createdFrom}
+          onChange={(e) => onChange({ ...form, createdFrom: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="created-to">Created To</Label>
+        <Input
+          id="created-to"
+          type="date"
+          value={form.createdTo}
+          onChange={(e) => onChange({ ...form, createdTo: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Combine,
+  GripVertical,
+  Plus,
+  Scissors,
+  Tag,
+  Trash2,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  addItem,
+  getRubricKey,
+  mergeItems,
+  moveItem,
+  removeItems,
+  retagItems,
+  RubricEditorItem,
+  splitItem,
+  updateItem,
+} from "@/lib/utils/rubric-editor";
+import {
+  DEFAULT_RUBRIC_WEIGHT,
+  MAX_RUBRIC_WEIGHT,
+} from "@/lib/utils/weighted-score";
+import { cn } from "@/lib/utils";
+
+// Item-by-item rubric editing; keys are renumbered from the order on save
+export function RubricItemEditor({
+  items,
+  onChange,
+  tagSuggestions = [],
+  flaggedKeys = [],
+}: {
+  items: RubricEditorItem[];
+  onChange: (items: RubricEditorItem[]) => void;
+  tagSuggestions?: string[];
+  // Previous-version keys to highlight, e.g. misaligned items
+  flaggedKeys?: string[];
+}) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkTag, setBulkTag] = useState("");
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Rows only drag from their handle so the text fields stay selectable
+  const [handleId, setHandleId] = useState<string | null>(null);
+
+  const selected = selectedIds.filter((id) =>
+    items.some((item) => item.id === id)
+  );
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((ids) =>
+      checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id)
+    );
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      onChange(moveItem(items, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+    setHandleId(null);
+  };
+
+  const handleMerge = () => {
+    onChange(mergeItems(items, selected));
+    setSelectedIds([]);
+  };
+
+  const handleRetag = () => {
+    onChange(retagItems(items, selected, bulkTag));
+    setBulkTag("");
+  };
+
+  const handleRemoveSelected = () => {
+    onChange(removeItems(items, selected));
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Bulk actions on the checked items */}
+      <div className="flex flex-wrap items-center gap-2 p-2 bg-background/50 rounded-lg border border-border/30">
+        <span className="text-xs text-muted-foreground mr-auto">
+          {selected.length > 0
+            ? `${selected.length} selected`
+            : "Check items to merge, retag or delete them"}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleMerge}
+          disabled={selected.length < 2}
+        >
+          <Combine className="w-4 h-4 mr-1" />
+          Merge
+        </Button>
+        <Input
+          value={bulkTag}
+          onChange={(e) => setBulkTag(e.target.value)}
+          placeholder="new_tag"
+          list="rubric-tag-suggestions"
+          className="h-8 w-32 text-xs"
+          disabled={selected.length === 0}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleRetag}
+          disabled={selected.length === 0 || !bulkTag.trim()}
+        >
+          <Tag className="w-4 h-4 mr-1" />
+          Retag
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleRemoveSelected}
+          disabled={selected.length === 0}
+          className="text-red-600"
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Delete
+        </Button>
+      </div>
+
+      <datalist id="rubric-tag-suggestions">
+        {tagSuggestions.map((tag) => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+
+      <div className="space-y-2 max-h-[600px] overflow-y-auto custom-scrollbar">
+        {items.map((item, index) => {
+          const isFlagged = item.sourceKeys.some((key) =>
+            flaggedKeys.includes(key)
+          );
+          return (
+            <div
+              key={item.id}
+              draggable={handleId === item.id}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+                setHandleId(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              className={cn(
+                "p-3 bg-background/50 rounded-lg border border-border/30 space-y-2",
+                dragIndex === index && "opacity-50",
+                dropIndex === index &&
+                  dragIndex !== index &&
+                  "border-blue-500 border-dashed"
+              )}
+            >
+              <div className="flex items-center space-x-2">
+                <GripVertical
+                  className="h-4 w-4 text-muted-foreground cursor-grab shrink-0"
+                  onMouseDown={() => setHandleId(item.id)}
+                  onMouseUp={() => setHandleId(null)}
+                />
+                <Checkbox
+                  checked={selected.includes(item.id)}
+                  onCheckedChange={(checked) =>
+                    toggleSelected(item.id, checked === true)
+                  }
+                  aria-label={`Select ${getRubricKey(index)}`}
+                />
+                <Badge variant="outline" className="font-mono text-xs">
+                  {getRubricKey(index)}
+                </Badge>
+                <span className="text-xs text-muted-foreground truncate">
+                  {item.sourceKeys.length > 0
+                    ? `from ${item.sourceKeys.join(", ")}`
+                    : "new"}
+                </span>
+                {isFlagged && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs text-red-500 dark:text-red-300 border-red-600"
+                  >
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    Misaligned
+                  </Badge>
+                )}
+                <div className="flex items-center ml-auto">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onChange(moveItem(items, index, index - 1))}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onChange(moveItem(items, index, index + 1))}
+                    disabled={index === items.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onChange(splitItem(items, item.id))}
+                    aria-label="Split into two items"
+                    title="Split into two items"
+                  >
+                    <Scissors className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-red-600"
+                    onClick={() => onChange(removeItems(items, [item.id]))}
+                    aria-label="Delete item"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                value={item.question}
+                onChange={(e) =>
+                  onChange(
+                    updateItem(items, item.id, { question: e.target.value })
+                  )
+                }
+                placeholder="Does the response ...?"
+                className="min-h-[60px] text-sm"
+              />
+              <div className="flex items-center space-x-3">
+                <Input
+                  value={item.tag}
+                  onChange={(e) =>
+                    onChange(
+                      updateItem(items, item.id, { tag: e.target.value })
+                    )
+                  }
+                  placeholder="tag"
+                  list="rubric-tag-suggestions"
+                  className="h-8 w-48 text-xs"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={MAX_RUBRIC_WEIGHT}
+                  step="any"
+                  value={item.weight ?? ""}
+                  onChange={(e) =>
+                    onChange(
+                      updateItem(items, item.id, {
+                        weight:
+                          e.target.value === ""
+                            ? undefined
+                            : Number(e.target.value),
+                      })
+                    )
+                  }
+                  placeholder={`weight ${DEFAULT_RUBRIC_WEIGHT}`}
+                  aria-label="Weight"
+                  className="h-8 w-24 text-xs"
+                />
+                <label className="flex items-center space-x-2 text-xs">
+                  <Checkbox
+                    checked={!!item.critical}
+                    onCheckedChange={(checked) =>
+                      onChange(
+                        updateItem(items, item.id, {
+                          critical: checked === true || undefined,
+                        })
+                      )
+                    }
+                  />
+                  <span>Critical</span>
+                </label>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange(addItem(items))}
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add Item
+      </Button>
+    </div>
+  );
+}
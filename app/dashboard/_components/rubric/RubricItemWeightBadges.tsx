@@ -0,0 +1,31 @@
+import React from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { DEFAULT_RUBRIC_WEIGHT } from "@/lib/utils/weighted-score";
+
+// Marks items that count more than once or fail the response on a "No"
+export function RubricItemWeightBadges({
+  weight,
+  critical,
+}: {
+  weight?: number;
+  critical?: boolean;
+}) {
+  const showWeight = weight !== undefined && weight !== DEFAULT_RUBRIC_WEIGHT;
+  if (!critical && !showWeight) return null;
+
+  return (
+    <>
+      {critical && (
+        <Badge variant="destructive" className="text-xs">
+          Critical
+        </Badge>
+      )}
+      {showWeight && (
+        <Badge variant="outline" className="text-xs">
+          Weight ×{weight}
+        </Badge>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import type { ProfessionalSector } from "@/lib/schemas/task";
+import { getLintRuleLabel, lintRubricContent } from "@/lib/utils/rubric-lint";
+
+// Inline rubric quality warnings for the rubric editors; they never block saving
+export function RubricLintWarnings({
+  rubricContent,
+  sector,
+}: {
+  rubricContent: string;
+  sector?: ProfessionalSector;
+}) {
+  const warnings = useMemo(
+    () => lintRubricContent(rubricContent, sector),
+    [rubricContent, sector]
+  );
+
+  if (!rubricContent.trim()) return null;
+
+  if (warnings.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-green-700 dark:text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        <span>No rubric quality warnings</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800 space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-medium text-amber-800 dark:text-amber-400">
+        <AlertTriangle className="w-4 h-4" />
+        <span>
+          {warnings.length} quality warning{warnings.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+      <ul className="space-y-1 max-h-64 overflow-y-auto text-sm text-amber-900 dark:text-amber-300">
+        {warnings.map((warning, index) => (
+          <li key={index} className="flex items-start space-x-2">
+            <Badge
+              variant="outline"
+              className="shrink-0 font-mono text-xs border-amber-400"
+            >
+              {warning.key}
+            </Badge>
+            <span>
+              <span className="font-medium">
+                {getLintRuleLabel(warning.rule)}:
+              </span>{" "}
+              {warning.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
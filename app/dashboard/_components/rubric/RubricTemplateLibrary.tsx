@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  Library,
+  Loader2,
+  Plus,
+  Search,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { api } from "@/lib/trpc/client";
+import type { ProfessionalSector } from "@/lib/schemas/task";
+import type { RubricTemplateItem } from "@/lib/schemas/rubric-template.schema";
+import { RubricItemWeightBadges } from "./RubricItemWeightBadges";
+import { cn } from "@/lib/utils";
+
+function getSelectionId(templateId: string, index: number) {
+  return `${templateId}:${index}`;
+}
+
+// Searchable templates of the task's sector; inserted items are appended
+export function RubricTemplateLibrary({
+  sector,
+  onInsert,
+}: {
+  sector: ProfessionalSector;
+  onInsert: (items: RubricTemplateItem[]) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [tag, setTag] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { data, isLoading } = api.rubricTemplates.list.useQuery(
+    {
+      sector,
+      tag: tag || undefined,
+      query: query.trim() || undefined,
+    },
+    { enabled: isOpen }
+  );
+
+  const templates = data?.templates || [];
+
+  const selectedItems = templates.flatMap((template) =>
+    template.items.filter((_, index) =>
+      selectedIds.includes(getSelectionId(template.id, index))
+    )
+  );
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((ids) =>
+      checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id)
+    );
+  };
+
+  const insert = (items: RubricTemplateItem[]) => {
+    onInsert(items);
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-background/50">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between p-3 text-sm font-medium"
+      >
+        <span className="flex items-center space-x-2">
+          <Library className="h-4 w-4" />
+          <span>Template Library</span>
+        </span>
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-3 border-t border-border/50 p-3">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search templates and questions..."
+              className="h-9 pl-8 text-sm"
+            />
+          </div>
+
+          {data && data.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {data.tags.map((t) => (
+                <Badge
+                  key={t}
+                  variant={tag === t ? "default" : "outline"}
+                  className="cursor-pointer text-xs"
+                  onClick={() => setTag(tag === t ? "" : t)}
+                >
+                  {t}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="py-2 text-sm text-muted-foreground">
+              No templates match for this sector yet.
+            </p>
+          ) : (
+            <div className="max-h-[400px] space-y-2 overflow-y-auto custom-scrollbar">
+              {templates.map((template) => {
+                const isExpanded = expandedId === template.id;
+                return (
+                  <div
+                    key={template.id}
+                    className="rounded-md border border-border/30 p-2"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setExpandedId(isExpanded ? null : template.id)
+                        }
+                        className="flex min-w-0 flex-1 items-center space-x-2 text-left"
+                      >
+                        {isExpanded ? (
+                          <ChevronDown className="h-4 w-4 shrink-0" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4 shrink-0" />
+                        )}
+                        <span className="truncate text-sm font-medium">
+                          {template.name}
+                        </span>
+                        <Badge variant="outline" className="text-xs">
+                          {template.items.length} item
+                          {template.items.length !== 1 ? "s" : ""}
+                        </Badge>
+                      </button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => insert(template.items)}
+                      >
+                        <Plus className="mr-1 h-3 w-3" />
+                        Insert All
+                      </Button>
+                    </div>
+
+                    {template.description && (
+                      <p className="mt-1 pl-6 text-xs text-muted-foreground">
+                        {template.description}
+                      </p>
+                    )}
+
+                    {isExpanded && (
+                      <ul className="mt-2 space-y-1 pl-6">
+                        {template.items.map((item, index) => {
+                          const id = getSelectionId(template.id, index);
+                          return (
+                            <li
+                              key={id}
+                              className={cn(
+                                "flex items-start space-x-2 text-sm",
+                                tag && item.tag !== tag && "opacity-50"
+                              )}
+                            >
+                              <Checkbox
+                                checked={selectedIds.includes(id)}
+                                onCheckedChange={(checked) =>
+                                  toggleSelected(id, checked === true)
+                                }
+                                className="mt-0.5"
+                              />
+                              <span className="flex-1">{item.question}</span>
+                              <RubricItemWeightBadges
+                                weight={item.weight}
+                                critical={item.critical}
+                              />
+                              <Badge variant="outline" className="text-xs">
+                                {item.tag}
+                              </Badge>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              Inserted items are added after the last one and count as new
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => insert(selectedItems)}
+              disabled={selectedItems.length === 0}
+            >
+              Insert {selectedItems.length || ""} Selected
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useState } from "react";
+import { useUser } from "@auth0/nextjs-auth0";
+import { toast } from "sonner";
+import { ArrowRightLeft, Loader2, UserX, Users } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/lib/trpc/client";
+import { AirtableTaskRecord, getStatusDisplayInfo } from "@/lib/schemas/task";
+import {
+  AbandonTaskInputSchema,
+  AssignmentAction,
+  AssignTaskInputSchema,
+  canReassignTask,
+  getAssignmentActionLabel,
+  parseAssignmentHistory,
+} from "@/lib/schemas/task-assignment.schema";
+import { isSameEmail } from "@/lib/schemas/users.schema";
+import { checkTransition } from "@/lib/workflow/task-workflow";
+import { cn } from "@/lib/utils";
+
+const ACTION_STYLES: Record<AssignmentAction, string> = {
+  assigned: "text-blue-600 border-blue-600",
+  abandoned: "text-muted-foreground",
+};
+
+// Who holds the task, with hand-over for leads and abandonment for the trainer
+export function TaskAssignmentCard({
+  task,
+  onUpdated,
+}: {
+  task: AirtableTaskRecord;
+  onUpdated: () => void;
+}) {
+  const { user } = useUser();
+  const [mode, setMode] = useState<"abandon" | "assign" | null>(null);
+  const [trainerEmail, setTrainerEmail] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: canAssign } = api.taskAssignments.canAssign.useQuery();
+
+  const onSuccess = (data: { message: string }) => {
+    toast.success(data.message);
+    setMode(null);
+    setTrainerEmail("");
+    setReason("");
+    onUpdated();
+  };
+
+  const abandonMutation = api.taskAssignments.abandon.useMutation({
+    onSuccess,
+    onError: (error) => {
+      toast.error("Failed to abandon task", { description: error.message });
+    },
+  });
+
+  const assignMutation = api.taskAssignments.assign.useMutation({
+    onSuccess,
+    onError: (error) => {
+      toast.error("Failed to assign task", { description: error.message });
+    },
+  });
+
+  const history = parseAssignmentHistory(task);
+  const isOwner = isSameEmail(user?.email, task.TrainerEmail);
+  const isAbandoned = task.Status === "Abandoned";
+  const canAbandon =
+    (isOwner || !!canAssign) &&
+    checkTransition("abandonTask", { task }).allowed;
+  const canHandOver = !!canAssign && canReassignTask(task);
+  const isPending = abandonMutation.isPending || assignMutation.isPending;
+
+  if (!canAbandon && !canHandOver && history.length === 0) {
+    return null;
+  }
+
+  const handleSubmit = () => {
+    if (mode === "abandon") {
+      const parsed = AbandonTaskInputSchema.safeParse({
+        taskId: task.TaskID,
+        reason,
+      });
+      if (!parsed.success) {
+        toast.error("Invalid reason", {
+          description: parsed.error.errors[0]?.message,
+        });
+        return;
+      }
+      abandonMutation.mutate(parsed.data);
+    } else if (mode === "assign") {
+      const parsed = AssignTaskInputSchema.safeParse({
+        taskId: task.TaskID,
+        trainerEmail,
+        reason: reason || undefined,
+      });
+      if (!parsed.success) {
+        toast.error("Invalid assignment", {
+          description: parsed.error.errors[0]?.message,
+        });
+        return;
+      }
+      assignMutation.mutate(parsed.data);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>Assignment</span>
+        </CardTitle>
+        <CardDescription>
+          {isAbandoned
+            ? `Abandoned by ${task.TrainerEmail}. Assigning it to a trainer reopens it where it was left.`
+            : `Assigned to ${task.TrainerEmail}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {history.length > 0 && (
+          <div className="space-y-2">
+            {history.map((entry, index) => (
+              <div
+                key={index}
+                className="flex items-start justify-between rounded-lg border border-border/50 p-3 text-sm"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Badge
+                      variant="outline"
+                      className={cn("text-xs", ACTION_STYLES[entry.action])}
+                    >
+                      {getAssignmentActionLabel(entry.action)}
+                    </Badge>
+                    <span>
+                      {entry.action === "assigned"
+                        ? `${entry.fromEmail} → ${entry.toEmail}`
+                        : `at ${getStatusDisplayInfo(entry.status).label}`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    by {entry.byName || entry.byEmail}
+                  </p>
+                  {entry.reason && (
+                    <p className="whitespace-pre-wrap">{entry.reason}</p>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mode ? (
+          <div className="space-y-3 rounded-lg border border-border/50 p-4">
+            {mode === "assign" && (
+              <div className="space-y-2">
+                <Label htmlFor="assign-trainer">Trainer email</Label>
+                <Input
+                  id="assign-trainer"
+                  type="email"
+                  value={trainerEmail}
+                  onChange={(e) => setTrainerEmail(e.target.value)}
+                  placeholder="trainer@invisible.email"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="assignment-reason">
+                {mode === "abandon" ? "Why is the task abandoned?" : "Reason"}
+              </Label>
+              <Textarea
+                id="assignment-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setMode(null)}
+                disabled={isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                variant={mode === "abandon" ? "destructive" : "default"}
+                onClick={handleSubmit}
+                disabled={isPending}
+              >
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {mode === "abandon"
+                  ? "Abandon Task"
+                  : isAbandoned
+                  ? "Reopen for Trainer"
+                  : "Hand Over"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          (canAbandon || canHandOver) && (
+            <div className="flex justify-end space-x-2">
+              {canHandOver && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMode("assign")}
+                >
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  {isAbandoned ? "Reassign" : "Hand Over"}
+                </Button>
+              )}
+              {canAbandon && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => setMode("abandon")}
+                >
+                  <UserX className="h-4 w-4 mr-2" />
+                  Abandon
+                </Button>
+              )}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
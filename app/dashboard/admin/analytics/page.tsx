@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useState } from "react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertCircle,
+  BarChart3,
+  Filter,
+  Loader2,
+  RotateCcw,
+  Tags,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import {
+  TaskListFilters,
+  TaskListFiltersSchema,
+} from "@/lib/schemas/task-query.schema";
+import {
+  AnalyticsModelScope,
+  getModelScopeLabel,
+} from "@/lib/schemas/analytics.schema";
+import type { AggregatedTagAlignment } from "@/lib/utils/tag-alignment";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { cn } from "@/lib/utils";
+import {
+  EMPTY_TASK_FILTER_FORM,
+  TaskFilterFields,
+  TaskFilterForm,
+  toTaskListFilters,
+} from "../../_components/filters/TaskFilterFields";
+
+function TagAlignmentTable({ tags }: { tags: AggregatedTagAlignment[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">Tag</th>
+            <th className="py-2 pr-4 font-medium w-1/3">Alignment</th>
+            <th className="py-2 pr-4 font-medium">Aligned items</th>
+            <th className="py-2 font-medium">Tasks</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tags.map((entry) => (
+            <tr key={entry.tag} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                <Badge variant="outline" className="text-xs">
+                  {entry.tag}
+                </Badge>
+              </td>
+              <td className="py-2 pr-4">
+                <div className="flex items-center space-x-3">
+                  <Progress value={entry.percentage} className="h-2 flex-1" />
+                  <span
+                    className={cn(
+                      "w-10 text-right font-medium",
+                      entry.percentage >= 80
+                        ? "text-green-600"
+                        : entry.percentage >= 60
+                        ? "text-yellow-600"
+                        : "text-red-600"
+                    )}
+                  >
+                    {entry.percentage}%
+                  </span>
+                </div>
+              </td>
+              <td className="py-2 pr-4 text-muted-foreground">
+                {entry.aligned}/{entry.total}
+              </td>
+              <td className="py-2 text-muted-foreground">{entry.taskCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function TagAnalyticsPage() {
+  const { getSector } = useSectorCatalog();
+  const [form, setForm] = useState<TaskFilterForm>(EMPTY_TASK_FILTER_FORM);
+  const [scope, setScope] = useState<AnalyticsModelScope>("primary");
+
+  const parsedFilters = TaskListFiltersSchema.safeParse(
+    toTaskListFilters(form)
+  );
+  const filters: TaskListFilters | null = parsedFilters.success
+    ? parsedFilters.data
+    : null;
+
+  const { data, isLoading, error } = api.analytics.tagAlignment.useQuery(
+    { filters: filters ?? {}, scope },
+    { enabled: filters !== null }
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Tag Analytics
+        </h1>
+        <p className="text-muted-foreground">
+          Where humans and the grader disagree, by rubric tag. Tags with the
+          lowest alignment are listed first.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Filter className="h-5 w-5" />
+            <span>Filters</span>
+          </CardTitle>
+          <CardDescription>
+            Only models with both a human and a model evaluation are counted,
+            against each task&apos;s current rubric.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TaskFilterFields form={form} onChange={setForm} />
+
+          <div className="space-y-2">
+            <Label>Models</Label>
+            <RadioGroup
+              value={scope}
+              onValueChange={(value) => setScope(value as AnalyticsModelScope)}
+              className="flex items-center space-x-6"
+            >
+              {AnalyticsModelScope.options.map((option) => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={`scope-${option}`} />
+                  <Label
+                    htmlFor={`scope-${option}`}
+                    className="cursor-pointer font-normal"
+                  >
+                    {getModelScopeLabel(option)}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {!parsedFilters.success && (
+            <p className="text-sm text-destructive">
+              {parsedFilters.error.errors[0]?.message || "Invalid filters"}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setForm(EMPTY_TASK_FILTER_FORM);
+                setScope("primary");
+              }}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="flex items-center space-x-2 py-6 text-destructive">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error.message}</span>
+          </CardContent>
+        </Card>
+      ) : isLoading || !data ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : data.overall.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No evaluated tasks match the filters.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* All sectors */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <BarChart3 className="h-5 w-5" />
+                <span>All Sectors</span>
+              </CardTitle>
+              <CardDescription>
+                {data.taskCount} matching task
+                {data.taskCount !== 1 ? "s" : ""},{" "}
+                {getModelScopeLabel(scope).toLowerCase()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TagAlignmentTable tags={data.overall} />
+            </CardContent>
+          </Card>
+
+          {/* Per sector */}
+          {data.bySector.map((sector) => {
+            const sectorInfo = getSector(sector.sector);
+            return (
+              <Card key={sector.sector}>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Tags className="h-5 w-5" />
+                    <span>
+                      {sectorInfo
+                        ? `${sectorInfo.icon} ${sectorInfo.label}`
+                        : sector.sector}
+                    </span>
+                  </CardTitle>
+                  <CardDescription>
+                    {sector.taskCount} task{sector.taskCount !== 1 ? "s" : ""}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TagAlignmentTable tags={sector.tags} />
+                </CardContent>
+              </Card>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
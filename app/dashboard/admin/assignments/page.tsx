@@ -0,0 +1,523 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertTriangle,
+  ArrowRightLeft,
+  Loader2,
+  RotateCcw,
+  Save,
+  UserX,
+  Users,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { getStatusDisplayInfo } from "@/lib/schemas/task";
+import {
+  AssignTaskInputSchema,
+  TrainerQuotaSchema,
+} from "@/lib/schemas/task-assignment.schema";
+import type {
+  AbandonedTaskSummary,
+  TrainerWorkloadSummary,
+} from "@/lib/utils/trainer-workload";
+import { truncateText } from "@/lib/utils/task-utils";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+
+const TRAINER_LIST_ID = "assignment-trainers";
+
+function AssignTaskForm({
+  taskId: fixedTaskId,
+  onAssigned,
+}: {
+  // Set when assigning a specific task, e.g. an abandoned one
+  taskId?: string;
+  onAssigned: () => void;
+}) {
+  const [taskId, setTaskId] = useState(fixedTaskId || "");
+  const [trainerEmail, setTrainerEmail] = useState("");
+  const [reason, setReason] = useState("");
+
+  const assignMutation = api.taskAssignments.assign.useMutation({
+    onSuccess: (data) => {
+      toast.success("Task assigned", { description: data.message });
+      setTaskId(fixedTaskId || "");
+      setTrainerEmail("");
+      setReason("");
+      onAssigned();
+    },
+    onError: (error) => {
+      toast.error("Failed to assign task", { description: error.message });
+    },
+  });
+
+  const handleAssign = () => {
+    const parsed = AssignTaskInputSchema.safeParse({
+      taskId: taskId.trim(),
+      trainerEmail,
+      reason: reason || undefined,
+    });
+    if (!parsed.success || !parsed.data.taskId) {
+      toast.error("Invalid assignment", {
+        description: parsed.success
+          ? "Enter the task ID"
+          : parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+    assignMutation.mutate(parsed.data);
+  };
+
+  return (
+    <div className="grid gap-3 md:grid-cols-4 md:items-end">
+      {!fixedTaskId && (
+        <div className="space-y-2">
+          <Label htmlFor="assign-task-id">Task ID</Label>
+          <Input
+            id="assign-task-id"
+            value={taskId}
+            onChange={(e) => setTaskId(e.target.value)}
+          />
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor={`assign-trainer-${fixedTaskId || "any"}`}>
+          Trainer email
+        </Label>
+        <Input
+          id={`assign-trainer-${fixedTaskId || "any"}`}
+          type="email"
+          list={TRAINER_LIST_ID}
+          value={trainerEmail}
+          onChange={(e) => setTrainerEmail(e.target.value)}
+          placeholder="trainer@invisible.email"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`assign-reason-${fixedTaskId || "any"}`}>
+          Reason (optional)
+        </Label>
+        <Input
+          id={`assign-reason-${fixedTaskId || "any"}`}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </div>
+      <Button onClick={handleAssign} disabled={assignMutation.isPending}>
+        {assignMutation.isPending ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <ArrowRightLeft className="w-4 h-4 mr-2" />
+        )}
+        {fixedTaskId ? "Reassign" : "Assign"}
+      </Button>
+    </div>
+  );
+}
+
+function AbandonedTaskRow({
+  task,
+  onAssigned,
+}: {
+  task: AbandonedTaskSummary;
+  onAssigned: () => void;
+}) {
+  const { getSector } = useSectorCatalog();
+  const sectorInfo = getSector(task.ProfessionalSector);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-4">
+      <div className="flex items-start justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center space-x-2 text-sm">
+            <Link
+              href={`/dashboard/tasks/${task.TaskID}`}
+              className="font-medium hover:underline"
+            >
+              {task.TaskID}
+            </Link>
+            {sectorInfo && (
+              <span className="text-muted-foreground">
+                {sectorInfo.icon} {sectorInfo.label}
+              </span>
+            )}
+            {task.abandonedFrom && (
+              <Badge variant="outline" className="text-xs">
+                at {getStatusDisplayInfo(task.abandonedFrom).label}
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {truncateText(task.Prompt, 140)}
+          </p>
+          {task.reason && (
+            <p className="text-sm italic">&ldquo;{task.reason}&rdquo;</p>
+          )}
+        </div>
+        <div className="text-right text-xs text-muted-foreground">
+          <p>{task.TrainerEmail}</p>
+          {task.abandonedAt && (
+            <p>{new Date(task.abandonedAt).toLocaleDateString()}</p>
+          )}
+        </div>
+      </div>
+      <AssignTaskForm taskId={task.TaskID} onAssigned={onAssigned} />
+    </div>
+  );
+}
+
+function TrainerQuotaRow({
+  trainer,
+  canEdit,
+  onSaved,
+}: {
+  trainer: TrainerWorkloadSummary;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [limit, setLimit] = useState(String(trainer.maxConcurrentTasks));
+
+  const onSuccess = (data: { message: string }) => {
+    toast.success("Quota saved", { description: data.message });
+    onSaved();
+  };
+  const onError = (error: { message: string }) => {
+    toast.error("Failed to save quota", { description: error.message });
+  };
+
+  const setQuotaMutation = api.taskAssignments.setQuota.useMutation({
+    onSuccess,
+    onError,
+  });
+  const resetQuotaMutation = api.taskAssignments.resetQuota.useMutation({
+    onSuccess,
+    onError,
+  });
+
+  const handleSave = () => {
+    const parsed = TrainerQuotaSchema.safeParse({
+      email: trainer.email,
+      maxConcurrentTasks: Number(limit),
+    });
+    if (!parsed.success) {
+      toast.error("Invalid quota", {
+        description: parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+    setQuotaMutation.mutate(parsed.data);
+  };
+
+  const active = trainer.activeTasks.length;
+  const isPending = setQuotaMutation.isPending || resetQuotaMutation.isPending;
+
+  return (
+    <tr className="border-b last:border-0 align-top">
+      <td className="py-2 pr-4">
+        <div className="flex items-center space-x-2">
+          <span className="font-medium">{trainer.email}</span>
+          {!trainer.isDefault && (
+            <Badge variant="secondary" className="text-xs">
+              Custom
+            </Badge>
+          )}
+        </div>
+        <div className="mt-1 flex flex-wrap gap-1">
+          {trainer.activeTasks.map((task) => (
+            <Link key={task.TaskID} href={`/dashboard/tasks/${task.TaskID}`}>
+              <Badge
+                variant="outline"
+                className={`text-xs ${getStatusDisplayInfo(task.Status).color}`}
+              >
+                {task.TaskID}
+              </Badge>
+            </Link>
+          ))}
+        </div>
+      </td>
+      <td className="py-2 pr-4 w-1/4">
+        <div className="flex items-center space-x-3">
+          <Progress
+            value={Math.min((active / trainer.maxConcurrentTasks) * 100, 100)}
+            className="h-2 flex-1"
+          />
+          <span className="w-12 text-right font-medium">
+            {active}/{trainer.maxConcurrentTasks}
+          </span>
+        </div>
+      </td>
+      <td className="py-2 pr-4 text-muted-foreground">
+        {trainer.completedCount}
+      </td>
+      {canEdit && (
+        <td className="py-2">
+          <div className="flex items-center justify-end space-x-2">
+            <Input
+              type="number"
+              min={1}
+              max={20}
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              className="h-8 w-20"
+            />
+            <Button size="sm" onClick={handleSave} disabled={isPending}>
+              <Save className="w-4 h-4" />
+            </Button>
+            {!trainer.isDefault && (
+              <Button
+                size="sm"
+                variant="outline"
+                title="Back to the default limit"
+                onClick={() =>
+                  resetQuotaMutation.mutate({ email: trainer.email })
+                }
+                disabled={isPending}
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </td>
+      )}
+    </tr>
+  );
+}
+
+// Quota for a trainer who has no tasks yet
+function NewTrainerQuotaForm({ onSaved }: { onSaved: () => void }) {
+  const [email, setEmail] = useState("");
+  const [limit, setLimit] = useState("");
+
+  const setQuotaMutation = api.taskAssignments.setQuota.useMutation({
+    onSuccess: (data) => {
+      toast.success("Quota saved", { description: data.message });
+      setEmail("");
+      setLimit("");
+      onSaved();
+    },
+    onError: (error) => {
+      toast.error("Failed to save quota", { description: error.message });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = TrainerQuotaSchema.safeParse({
+      email,
+      maxConcurrentTasks: Number(limit),
+    });
+    if (!parsed.success) {
+      toast.error("Invalid quota", {
+        description: parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+    setQuotaMutation.mutate(parsed.data);
+  };
+
+  return (
+    <div className="flex items-end space-x-2 border-t border-border/30 pt-4">
+      <div className="flex-1 space-y-2">
+        <Label htmlFor="new-quota-email">Another trainer</Label>
+        <Input
+          id="new-quota-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="trainer@invisible.email"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-quota-limit">Quota</Label>
+        <Input
+          id="new-quota-limit"
+          type="number"
+          min={1}
+          max={20}
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          className="w-20"
+        />
+      </div>
+      <Button onClick={handleSave} disabled={setQuotaMutation.isPending}>
+        {setQuotaMutation.isPending ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Save className="w-4 h-4 mr-2" />
+        )}
+        Save
+      </Button>
+    </div>
+  );
+}
+
+export default function TaskAssignmentsPage() {
+  const { data: userRole } = api.users.getCurrentUserRole.useQuery();
+  const { data, isLoading, error, refetch } =
+    api.taskAssignments.workloads.useQuery();
+
+  const isAdmin = !!userRole?.isAdmin;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Task Assignments
+        </h1>
+        <p className="text-muted-foreground">
+          Hand tasks between trainers, reopen abandoned ones and set how many
+          tasks each trainer can hold at once.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Assignments</AlertTitle>
+          <AlertDescription>
+            {error.message}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {data && (
+        <>
+          <datalist id={TRAINER_LIST_ID}>
+            {data.trainers.map((trainer) => (
+              <option key={trainer.email} value={trainer.email} />
+            ))}
+          </datalist>
+
+          {/* Assign */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ArrowRightLeft className="h-5 w-5" />
+                <span>Assign a Task</span>
+              </CardTitle>
+              <CardDescription>
+                Moves any task that is not completed to another trainer, within
+                their quota. The task keeps its rubrics and evaluations.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AssignTaskForm onAssigned={() => refetch()} />
+            </CardContent>
+          </Card>
+
+          {/* Abandoned */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <UserX className="h-5 w-5" />
+                <span>Abandoned Tasks</span>
+                <Badge variant="outline" className="text-xs">
+                  {data.abandoned.length}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Reassigning an abandoned task reopens it at the step it was
+                abandoned from.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {data.abandoned.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No abandoned tasks.
+                </p>
+              ) : (
+                data.abandoned.map((task) => (
+                  <AbandonedTaskRow
+                    key={task.TaskID}
+                    task={task}
+                    onAssigned={() => refetch()}
+                  />
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Quotas */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Users className="h-5 w-5" />
+                <span>Trainer Workloads</span>
+              </CardTitle>
+              <CardDescription>
+                Open tasks count toward the quota until they are submitted for
+                review. Trainers without a custom quota can hold{" "}
+                {data.defaultLimit} task{data.defaultLimit !== 1 ? "s" : ""} at
+                once.
+                {!isAdmin && " Only admins can change quotas."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {data.trainers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No trainers have tasks yet.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Trainer</th>
+                        <th className="py-2 pr-4 font-medium">Open Tasks</th>
+                        <th className="py-2 pr-4 font-medium">Completed</th>
+                        {isAdmin && (
+                          <th className="py-2 text-right font-medium">Quota</th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.trainers.map((trainer) => (
+                        <TrainerQuotaRow
+                          key={`${trainer.email}-${trainer.maxConcurrentTasks}-${trainer.isDefault}`}
+                          trainer={trainer}
+                          canEdit={isAdmin}
+                          onSaved={() => refetch()}
+                        />
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {isAdmin && <NewTrainerQuotaForm onSaved={() => refetch()} />}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
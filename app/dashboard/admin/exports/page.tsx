@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Download, Filter, Loader2, RotateCcw } from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import {
+  TaskListFilters,
+  TaskListFiltersSchema,
+} from "@/lib/schemas/task-query.schema";
+import {
+  DatasetExportFormat,
+  getExportFormatInfo,
+} from "@/lib/schemas/dataset-export.schema";
+import {
+  EMPTY_TASK_FILTER_FORM,
+  TaskFilterFields,
+  TaskFilterForm,
+  toTaskListFilters,
+} from "../../_components/filters/TaskFilterFields";
+
+function downloadFile(file: {
+  filename: string;
+  contentType: string;
+  encoding: "utf8" | "base64";
+  content: string;
+}) {
+  const data =
+    file.encoding === "base64"
+      ? Uint8Array.from(atob(file.content), (c) => c.charCodeAt(0))
+      : file.content;
+  const url = URL.createObjectURL(new Blob([data], { type: file.contentType }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function DatasetExportPage() {
+  const [form, setForm] = useState<TaskFilterForm>(EMPTY_TASK_FILTER_FORM);
+  const [format, setFormat] = useState<DatasetExportFormat>("jsonl");
+
+  const parsedFilters = TaskListFiltersSchema.safeParse(
+    toTaskListFilters({ ...form, statuses: [] })
+  );
+  const filters: TaskListFilters | null = parsedFilters.success
+    ? parsedFilters.data
+    : null;
+
+  const { data: stats, isLoading: isCounting } = api.adminTasks.stats.useQuery(
+    { filters: { ...filters, statuses: ["Completed"] } },
+    { enabled: filters !== null }
+  );
+
+  const exportMutation = api.exports.createDataset.useMutation({
+    onSuccess: (file) => {
+      downloadFile(file);
+      toast.success("Dataset exported", {
+        description: `${file.recordCount} completed task${
+          file.recordCount !== 1 ? "s" : ""
+        } saved to ${file.filename}`,
+      });
+    },
+    onError: (error) => {
+      toast.error("Failed to export dataset", {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleExport = () => {
+    if (filters) {
+      exportMutation.mutate({ format, filters });
+    }
+  };
+
+  const matchingCount = stats?.total ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Dataset Export
+        </h1>
+        <p className="text-muted-foreground">
+          Download completed tasks with their final rubrics, model responses,
+          scores and alignment history.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Filter className="h-5 w-5" />
+            <span>Filters</span>
+          </CardTitle>
+          <CardDescription>
+            Only tasks with status Completed are exported.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TaskFilterFields form={form} onChange={setForm} showStatus={false} />
+
+          {!parsedFilters.success && (
+            <p className="text-sm text-destructive">
+              {parsedFilters.error.errors[0]?.message || "Invalid filters"}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(EMPTY_TASK_FILTER_FORM)}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Format */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Download className="h-5 w-5" />
+            <span>Format</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <RadioGroup
+            value={format}
+            onValueChange={(value) => setFormat(value as DatasetExportFormat)}
+            className="space-y-3"
+          >
+            {DatasetExportFormat.options.map((option) => {
+              const info = getExportFormatInfo(option);
+              return (
+                <div key={option} className="flex items-start space-x-3">
+                  <RadioGroupItem
+                    value={option}
+                    id={`format-${option}`}
+                    className="mt-1"
+                  />
+                  <Label
+                    htmlFor={`format-${option}`}
+                    className="cursor-pointer space-y-1"
+                  >
+                    <span className="block font-medium">{info.label}</span>
+                    <span className="block text-sm font-normal text-muted-foreground">
+                      {info.description}
+                    </span>
+                  </Label>
+                </div>
+              );
+            })}
+          </RadioGroup>
+
+          <div className="flex items-center justify-between border-t pt-4">
+            <p className="text-sm text-muted-foreground">
+              {filters === null
+                ? "Fix the filters to see matching tasks."
+                : isCounting
+                ? "Counting matching tasks..."
+                : `${matchingCount} completed task${
+                    matchingCount !== 1 ? "s" : ""
+                  } match the filters`}
+            </p>
+            <Button
+              onClick={handleExport}
+              disabled={exportMutation.isPending || matchingCount === 0}
+            >
+              {exportMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              Export {getExportFormatInfo(format).label}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
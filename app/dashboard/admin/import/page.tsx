@@ -0,0 +1,401 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  CheckCircle,
+  ChevronDown,
+  FileCheck,
+  Loader2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import {
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS,
+  TaskImportCreateResult,
+  TaskImportFormat,
+  TaskImportRowResult,
+} from "@/lib/schemas/task-import.schema";
+import { truncateText } from "@/lib/utils/task-utils";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+
+interface ImportFile {
+  name: string;
+  format: TaskImportFormat;
+  content: string;
+}
+
+function getImportFormat(fileName: string): TaskImportFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "csv") return "csv";
+  if (extension === "jsonl" || extension === "ndjson") return "jsonl";
+  return null;
+}
+
+export default function TaskImportPage() {
+  const { activeSectors, getSector } = useSectorCatalog();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [trainers, setTrainers] = useState<string[]>([]);
+  const [openSourceConfirmed, setOpenSourceConfirmed] = useState(false);
+  const [ignoreTrainerLimits, setIgnoreTrainerLimits] = useState(false);
+  const [report, setReport] = useState<TaskImportRowResult[] | null>(null);
+  const [created, setCreated] = useState<TaskImportCreateResult[] | null>(null);
+
+  const { data: usersData } = api.users.getAllUsers.useQuery();
+  const userEmails: string[] = (usersData?.users ?? [])
+    .map((user: { email?: string }) => user.email)
+    .filter((email: string | undefined): email is string => !!email)
+    .sort();
+
+  const previewMutation = api.taskImports.preview.useMutation({
+    onSuccess: (data) => setReport(data.rows),
+    onError: (error) => {
+      toast.error("Failed to validate file", { description: error.message });
+    },
+  });
+
+  const runMutation = api.taskImports.run.useMutation({
+    onSuccess: (data) => {
+      setCreated(data.created);
+      const createdCount = data.created.filter((r) => r.taskId).length;
+      toast.success("Import finished", {
+        description: `${createdCount} task${
+          createdCount !== 1 ? "s" : ""
+        } created`,
+      });
+    },
+    onError: (error) => {
+      toast.error("Failed to import tasks", { description: error.message });
+    },
+  });
+
+  // Any change to the inputs invalidates the last report, and with it the
+  // choice to import past trainer limits
+  const resetReport = () => {
+    setReport(null);
+    setCreated(null);
+    setIgnoreTrainerLimits(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    resetReport();
+    const selected = e.target.files?.[0];
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    const format = getImportFormat(selected.name);
+    if (!format) {
+      toast.error("Unsupported file type", {
+        description: "Upload a .csv or .jsonl file",
+      });
+      setFile(null);
+      return;
+    }
+    if (selected.size > MAX_IMPORT_FILE_SIZE) {
+      toast.error("File too large", {
+        description: "Import files must be 5MB or smaller",
+      });
+      setFile(null);
+      return;
+    }
+
+    setFile({ name: selected.name, format, content: await selected.text() });
+  };
+
+  const importInput = file && {
+    format: file.format,
+    content: file.content,
+    trainers,
+    OpenSourceConfirmed: openSourceConfirmed,
+    ignoreTrainerLimits,
+  };
+
+  const validCount = report?.filter((row) => row.errors.length === 0).length;
+  const overLimitCount = report?.filter((row) => row.overLimit).length;
+  const isBusy = previewMutation.isPending || runMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Bulk Import
+        </h1>
+        <p className="text-muted-foreground">
+          Create tasks from a CSV or JSONL file and assign them to trainers.
+        </p>
+      </div>
+
+      {/* File Format */}
+      <Card>
+        <CardHeader>
+          <CardTitle>File Format</CardTitle>
+          <CardDescription>
+            Up to {MAX_IMPORT_ROWS} tasks per file. Sectors can be given by
+            name, e.g. &quot;
+            {activeSectors[0]?.label}&quot;.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm text-muted-foreground">
+          <p>
+            <span className="font-medium text-foreground">CSV:</span> a header
+            row with <code>prompt</code>, <code>sector</code>,{" "}
+            <code>model_1</code>, <code>response_1</code>, <code>model_2</code>,{" "}
+            <code>response_2</code>… and optionally <code>license_notes</code>{" "}
+            and <code>trainer_email</code>. The first model is the primary
+            model.
+          </p>
+          <p>
+            <span className="font-medium text-foreground">JSONL:</span> one
+            object per line with <code>prompt</code>, <code>sector</code>,{" "}
+            <code>models</code> (a list of <code>{"{ label, response }"}</code>)
+            and optionally <code>license_notes</code> and{" "}
+            <code>trainer_email</code>.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Import Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Upload className="h-5 w-5" />
+            <span>Import Settings</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.jsonl,.ndjson"
+                onChange={handleFileChange}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Trainers</Label>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="w-full justify-between">
+                    {trainers.length > 0
+                      ? `${trainers.length} selected`
+                      : "Use trainer_email from the file"}
+                    <ChevronDown className="h-4 w-4 opacity-50" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="w-72 max-h-80 overflow-y-auto">
+                  {userEmails.map((email) => (
+                    <DropdownMenuCheckboxItem
+                      key={email}
+                      checked={trainers.includes(email)}
+                      onCheckedChange={() => {
+                        resetReport();
+                        setTrainers(
+                          trainers.includes(email)
+                            ? trainers.filter((t) => t !== email)
+                            : [...trainers, email]
+                        );
+                      }}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {email}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <p className="text-xs text-muted-foreground">
+                Rows without a trainer_email are assigned to these trainers in
+                turn.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-row items-start space-x-3 rounded-md border p-4 bg-green-50/50 dark:bg-green-950/20">
+            <Checkbox
+              id="open-source-confirmed"
+              checked={openSourceConfirmed}
+              onCheckedChange={(checked) => {
+                resetReport();
+                setOpenSourceConfirmed(checked === true);
+              }}
+            />
+            <div className="space-y-1 leading-none">
+              <Label htmlFor="open-source-confirmed">
+                Open Source Confirmation *
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                I confirm that all sources in this file are properly licensed
+                for commercial use.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => importInput && previewMutation.mutate(importInput)}
+              disabled={!importInput || isBusy}
+            >
+              {previewMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <FileCheck className="w-4 h-4 mr-2" />
+              )}
+              Validate File
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Validation Report */}
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Validation Report</CardTitle>
+            <CardDescription>
+              {validCount} of {report.length} row
+              {report.length !== 1 ? "s" : ""} ready to import
+              {file && ` from ${file.name}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(overLimitCount || ignoreTrainerLimits) && !created && (
+              <div className="flex flex-row items-start space-x-3 p-3 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800">
+                <Checkbox
+                  id="ignore-trainer-limits"
+                  checked={ignoreTrainerLimits}
+                  disabled={isBusy}
+                  onCheckedChange={(checked) => {
+                    setIgnoreTrainerLimits(checked === true);
+                    // The limits change which rows are valid, so re-validate
+                    if (importInput) {
+                      previewMutation.mutate({
+                        ...importInput,
+                        ignoreTrainerLimits: checked === true,
+                      });
+                    }
+                  }}
+                />
+                <div className="space-y-1 leading-none">
+                  <Label htmlFor="ignore-trainer-limits">
+                    Ignore trainer limits
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {ignoreTrainerLimits
+                      ? "Rows are imported even when their trainer is at their concurrent task limit."
+                      : `${overLimitCount} row${
+                          overLimitCount !== 1 ? "s" : ""
+                        } would put a trainer over their concurrent task limit. Raise the limit on the Assignments page, or import them anyway.`}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {report.map((row) => {
+                const result = created?.find(
+                  (r) => r.rowNumber === row.rowNumber
+                );
+                const sectorInfo = row.task
+                  ? getSector(row.task.ProfessionalSector)
+                  : undefined;
+
+                return (
+                  <div
+                    key={row.rowNumber}
+                    className="grid grid-cols-12 gap-4 p-3 rounded-lg border text-sm"
+                  >
+                    <div className="col-span-1 font-medium text-muted-foreground">
+                      Row {row.rowNumber}
+                    </div>
+                    {row.task ? (
+                      <>
+                        <div className="col-span-5 min-w-0">
+                          <p className="truncate">
+                            {truncateText(row.task.Prompt, 100)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {sectorInfo?.label} · {row.task.models.join(", ")}
+                          </p>
+                        </div>
+                        <div className="col-span-3 truncate text-muted-foreground">
+                          {row.task.TrainerEmail}
+                        </div>
+                        <div className="col-span-3 flex justify-end">
+                          {result?.taskId ? (
+                            <Link href={`/dashboard/tasks/${result.taskId}`}>
+                              <Badge className="bg-green-100 text-green-800 border-green-200">
+                                <CheckCircle className="w-3 h-3 mr-1" />
+                                Created
+                              </Badge>
+                            </Link>
+                          ) : result?.error ? (
+                            <Badge variant="destructive">
+                              <XCircle className="w-3 h-3 mr-1" />
+                              {result.error}
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">Ready</Badge>
+                          )}
+                        </div>
+                      </>
+                    ) : (
+                      <ul className="col-span-11 list-disc pl-4 text-destructive space-y-0.5">
+                        {row.errors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {!created && (
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => importInput && runMutation.mutate(importInput)}
+                  disabled={!importInput || !validCount || isBusy}
+                >
+                  {runMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="w-4 h-4 mr-2" />
+                  )}
+                  Import {validCount} Task{validCount !== 1 ? "s" : ""}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useState } from "react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, Filter, Loader2, RotateCcw, Trophy } from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import {
+  TaskListFilters,
+  TaskListFiltersSchema,
+} from "@/lib/schemas/task-query.schema";
+import type { LeaderboardEntry } from "@/lib/utils/model-comparison";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import {
+  EMPTY_TASK_FILTER_FORM,
+  TaskFilterFields,
+  TaskFilterForm,
+  toTaskListFilters,
+} from "../../_components/filters/TaskFilterFields";
+
+function LeaderboardTable({ models }: { models: LeaderboardEntry[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">#</th>
+            <th className="py-2 pr-4 font-medium">Model</th>
+            <th className="py-2 pr-4 font-medium w-1/3">Pass Rate</th>
+            <th className="py-2 pr-4 font-medium">Item Wins</th>
+            <th className="py-2 pr-4 font-medium">Item Losses</th>
+            <th className="py-2 pr-4 font-medium">Task Wins</th>
+            <th className="py-2 font-medium">Tasks</th>
+          </tr>
+        </thead>
+        <tbody>
+          {models.map((entry, index) => (
+            <tr key={entry.modelId} className="border-b last:border-0">
+              <td className="py-2 pr-4 text-muted-foreground">{index + 1}</td>
+              <td className="py-2 pr-4">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{entry.label}</span>
+                  {index === 0 && models.length > 1 && (
+                    <Trophy className="h-4 w-4 text-yellow-500" />
+                  )}
+                </div>
+              </td>
+              <td className="py-2 pr-4">
+                <div className="flex items-center space-x-3">
+                  <Progress value={entry.passRate} className="h-2 flex-1" />
+                  <span className="w-10 text-right font-medium">
+                    {entry.passRate}%
+                  </span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {entry.passed}/{entry.total} items
+                </span>
+              </td>
+              <td className="py-2 pr-4 text-green-600">{entry.itemWins}</td>
+              <td className="py-2 pr-4 text-red-600">{entry.itemLosses}</td>
+              <td className="py-2 pr-4">{entry.taskWins}</td>
+              <td className="py-2 text-muted-foreground">{entry.taskCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ModelLeaderboardPage() {
+  const { getSector } = useSectorCatalog();
+  const [form, setForm] = useState<TaskFilterForm>(EMPTY_TASK_FILTER_FORM);
+
+  const parsedFilters = TaskListFiltersSchema.safeParse(
+    toTaskListFilters(form)
+  );
+  const filters: TaskListFilters | null = parsedFilters.success
+    ? parsedFilters.data
+    : null;
+
+  const { data, isLoading, error } = api.analytics.modelLeaderboard.useQuery(
+    { filters: filters ?? {} },
+    { enabled: filters !== null }
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Model Leaderboard
+        </h1>
+        <p className="text-muted-foreground">
+          How often each model&apos;s response satisfied the rubric according to
+          the human evaluations, head to head on the same tasks.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Filter className="h-5 w-5" />
+            <span>Filters</span>
+          </CardTitle>
+          <CardDescription>
+            Completed tasks unless statuses are selected. Only tasks with at
+            least two human-evaluated models count, against each task&apos;s
+            current rubric.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TaskFilterFields form={form} onChange={setForm} />
+
+          {!parsedFilters.success && (
+            <p className="text-sm text-destructive">
+              {parsedFilters.error.errors[0]?.message || "Invalid filters"}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(EMPTY_TASK_FILTER_FORM)}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="flex items-center space-x-2 py-6 text-destructive">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error.message}</span>
+          </CardContent>
+        </Card>
+      ) : isLoading || !data ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : data.overall.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No tasks with two or more evaluated models match the filters.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* All sectors */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Trophy className="h-5 w-5" />
+                <span>All Sectors</span>
+              </CardTitle>
+              <CardDescription>
+                {data.taskCount} task{data.taskCount !== 1 ? "s" : ""} compared.
+                An item win is a rubric item the model satisfied where another
+                model on the same task did not.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeaderboardTable models={data.overall} />
+            </CardContent>
+          </Card>
+
+          {/* Per sector */}
+          {data.bySector.map((sector) => {
+            const sectorInfo = getSector(sector.sector);
+            return (
+              <Card key={sector.sector}>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <span>
+                      {sectorInfo
+                        ? `${sectorInfo.icon} ${sectorInfo.label}`
+                        : sector.sector}
+                    </span>
+                    <Badge variant="outline" className="text-xs">
+                      {sector.taskCount} task
+                      {sector.taskCount !== 1 ? "s" : ""}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <LeaderboardTable models={sector.models} />
+                </CardContent>
+              </Card>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
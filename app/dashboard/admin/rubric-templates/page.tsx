@@ -0,0 +1,540 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertTriangle,
+  Edit3,
+  Library,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { ProfessionalSector } from "@/lib/schemas/task";
+import {
+  RubricTemplate,
+  RubricTemplateInputSchema,
+  RubricTemplateItem,
+} from "@/lib/schemas/rubric-template.schema";
+import { truncateText } from "@/lib/utils/task-utils";
+import { MAX_RUBRIC_WEIGHT } from "@/lib/utils/weighted-score";
+import { getSectorRubricTags } from "@/constants/RubricTags";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { RubricItemWeightBadges } from "../../_components/rubric/RubricItemWeightBadges";
+
+interface TemplateForm {
+  id?: string;
+  name: string;
+  description: string;
+  items: RubricTemplateItem[];
+  sourceTaskId?: string;
+}
+
+const EMPTY_TEMPLATE_FORM: TemplateForm = {
+  name: "",
+  description: "",
+  items: [],
+};
+
+function toTemplateForm(template: RubricTemplate): TemplateForm {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description || "",
+    items: template.items,
+    sourceTaskId: template.sourceTaskId,
+  };
+}
+
+function TemplateEditorCard({
+  sector,
+  form,
+  onChange,
+  onSaved,
+}: {
+  sector: ProfessionalSector;
+  form: TemplateForm;
+  onChange: (form: TemplateForm) => void;
+  onSaved: () => void;
+}) {
+  const saveMutation = api.rubricTemplates.save.useMutation({
+    onSuccess: (data) => {
+      toast.success("Template saved", {
+        description: data.message,
+      });
+      onSaved();
+    },
+    onError: (error) => {
+      toast.error("Failed to save template", {
+        description: error.message,
+      });
+    },
+  });
+
+  const updateItem = (index: number, changes: Partial<RubricTemplateItem>) => {
+    onChange({
+      ...form,
+      items: form.items.map((item, i) =>
+        i === index ? { ...item, ...changes } : item
+      ),
+    });
+  };
+
+  const handleSave = () => {
+    const parsed = RubricTemplateInputSchema.safeParse({
+      id: form.id,
+      name: form.name,
+      sector,
+      description: form.description.trim() || undefined,
+      items: form.items,
+      sourceTaskId: form.sourceTaskId,
+    });
+
+    if (!parsed.success) {
+      toast.error("Invalid template", {
+        description: parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+
+    saveMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Edit3 className="h-5 w-5" />
+          <span>{form.id ? "Edit Template" : "New Template"}</span>
+        </CardTitle>
+        <CardDescription>
+          Write items by hand or add them from completed tasks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={form.name}
+              onChange={(e) => onChange({ ...form, name: e.target.value })}
+              placeholder="e.g. Citing sources"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Input
+              id="template-description"
+              value={form.description}
+              onChange={(e) =>
+                onChange({ ...form, description: e.target.value })
+              }
+              placeholder="When trainers should use it"
+            />
+          </div>
+        </div>
+
+        <datalist id="template-tag-suggestions">
+          {getSectorRubricTags(sector).map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+
+        <div className="space-y-2 max-h-[500px] overflow-y-auto custom-scrollbar">
+          {form.items.map((item, index) => (
+            <div
+              key={index}
+              className="p-3 bg-background/50 rounded-lg border border-border/30 space-y-2"
+            >
+              <div className="flex items-start space-x-2">
+                <Textarea
+                  value={item.question}
+                  onChange={(e) =>
+                    updateItem(index, { question: e.target.value })
+                  }
+                  placeholder="Does the response ...?"
+                  className="min-h-[50px] text-sm"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-600"
+                  onClick={() =>
+                    onChange({
+                      ...form,
+                      items: form.items.filter((_, i) => i !== index),
+                    })
+                  }
+                  aria-label="Remove item"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Input
+                  value={item.tag}
+                  onChange={(e) => updateItem(index, { tag: e.target.value })}
+                  placeholder="tag"
+                  list="template-tag-suggestions"
+                  className="h-8 w-48 text-xs"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={MAX_RUBRIC_WEIGHT}
+                  step="any"
+                  value={item.weight ?? ""}
+                  onChange={(e) =>
+                    updateItem(index, {
+                      weight:
+                        e.target.value === ""
+                          ? undefined
+                          : Number(e.target.value),
+                    })
+                  }
+                  placeholder="weight"
+                  aria-label="Weight"
+                  className="h-8 w-24 text-xs"
+                />
+                <label className="flex items-center space-x-2 text-xs">
+                  <Checkbox
+                    checked={!!item.critical}
+                    onCheckedChange={(checked) =>
+                      updateItem(index, {
+                        critical: checked === true || undefined,
+                      })
+                    }
+                  />
+                  <span>Critical</span>
+                </label>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                onChange({
+                  ...form,
+                  items: [...form.items, { question: "", tag: "" }],
+                })
+              }
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Item
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(EMPTY_TEMPLATE_FORM)}
+            >
+              Clear
+            </Button>
+          </div>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save Template
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CompletedRubricsCard({
+  sector,
+  onAdd,
+}: {
+  sector: ProfessionalSector;
+  onAdd: (items: RubricTemplateItem[], taskIds: string[]) => void;
+}) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { data: tasks, isLoading } =
+    api.rubricTemplates.completedRubrics.useQuery({ sector });
+
+  const selected = (tasks || []).flatMap((task) =>
+    task.items
+      .filter((item) => selectedIds.includes(`${task.taskId}:${item.key}`))
+      .map((item) => ({ taskId: task.taskId, item }))
+  );
+
+  const handleAdd = () => {
+    onAdd(
+      selected.map(({ item }) => ({
+        question: item.question,
+        tag: item.tag,
+        weight: item.weight,
+        critical: item.critical,
+      })),
+      Array.from(new Set(selected.map(({ taskId }) => taskId)))
+    );
+    setSelectedIds([]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>From Completed Tasks</span>
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            disabled={selected.length === 0}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add {selected.length || ""} to Template
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Final rubrics of the sector&apos;s most recently completed tasks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !tasks || tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No completed tasks in this sector yet.
+          </p>
+        ) : (
+          <div className="space-y-4 max-h-[600px] overflow-y-auto custom-scrollbar">
+            {tasks.map((task) => (
+              <div key={task.taskId} className="space-y-2">
+                <p className="text-sm font-medium">
+                  {truncateText(task.prompt, 120)}
+                </p>
+                <ul className="space-y-1">
+                  {task.items.map((item) => {
+                    const id = `${task.taskId}:${item.key}`;
+                    return (
+                      <li key={id} className="flex items-start space-x-2">
+                        <Checkbox
+                          checked={selectedIds.includes(id)}
+                          onCheckedChange={(checked) =>
+                            setSelectedIds((ids) =>
+                              checked === true
+                                ? [...ids, id]
+                                : ids.filter((selectedId) => selectedId !== id)
+                            )
+                          }
+                          className="mt-0.5"
+                        />
+                        <span className="flex-1 text-sm">{item.question}</span>
+                        <RubricItemWeightBadges
+                          weight={item.weight}
+                          critical={item.critical}
+                        />
+                        <Badge variant="outline" className="text-xs">
+                          {item.tag}
+                        </Badge>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RubricTemplatesPage() {
+  const { activeSectors } = useSectorCatalog();
+  const [sector, setSector] = useState<ProfessionalSector>(
+    activeSectors[0]?.value || ""
+  );
+  const [form, setForm] = useState<TemplateForm>(EMPTY_TEMPLATE_FORM);
+
+  const { data, isLoading, error, refetch } = api.rubricTemplates.list.useQuery(
+    { sector }
+  );
+
+  const deleteMutation = api.rubricTemplates.delete.useMutation({
+    onSuccess: (result, { id }) => {
+      toast.success(result.message);
+      if (form.id === id) setForm(EMPTY_TEMPLATE_FORM);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error("Failed to delete template", {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleSectorChange = (value: string) => {
+    setSector(value as ProfessionalSector);
+    setForm(EMPTY_TEMPLATE_FORM);
+  };
+
+  // A template whose items all come from one task records it as the source
+  const handleAddCompletedItems = (
+    items: RubricTemplateItem[],
+    taskIds: string[]
+  ) => {
+    const previousSource =
+      form.items.length === 0 ? taskIds[0] : form.sourceTaskId;
+    setForm({
+      ...form,
+      items: [...form.items, ...items],
+      sourceTaskId:
+        taskIds.length === 1 && taskIds[0] === previousSource
+          ? previousSource
+          : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Rubric Templates
+        </h1>
+        <p className="text-muted-foreground">
+          Reusable rubric items per sector that trainers can insert into their
+          V1 and enhanced rubrics.
+        </p>
+      </div>
+
+      <div className="max-w-xs space-y-2">
+        <Label>Sector</Label>
+        <Select value={sector} onValueChange={handleSectorChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {activeSectors.map((s) => (
+              <SelectItem key={s.value} value={s.value}>
+                {s.icon} {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Templates</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Library className="h-5 w-5" />
+            <span>Templates</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !data || data.templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No templates for this sector yet.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {data.templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="flex items-center justify-between py-2"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">{template.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {template.items.length} item
+                      {template.items.length !== 1 ? "s" : ""} · by{" "}
+                      {template.createdBy}
+                      {template.description && ` · ${template.description}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm(toTemplateForm(template))}
+                    >
+                      <Edit3 className="w-4 h-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => deleteMutation.mutate({ id: template.id })}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <TemplateEditorCard
+          key={`${sector}-${form.id || "new"}`}
+          sector={sector}
+          form={form}
+          onChange={setForm}
+          onSaved={() => {
+            setForm(EMPTY_TEMPLATE_FORM);
+            refetch();
+          }}
+        />
+        <CompletedRubricsCard sector={sector} onAdd={handleAddCompletedItems} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Loader2, Save, SlidersHorizontal } from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import {
+  EscalationAction,
+  SectorPolicy,
+  SectorPolicySchema,
+  getEscalationActionInfo,
+} from "@/lib/schemas/sector-policy.schema";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+
+function SectorPolicyCard({
+  policy,
+  onSaved,
+}: {
+  policy: SectorPolicy;
+  onSaved: () => void;
+}) {
+  const [alignmentThreshold, setAlignmentThreshold] = useState(
+    String(policy.alignmentThreshold)
+  );
+  const [maxRubricVersions, setMaxRubricVersions] = useState(
+    String(policy.maxRubricVersions)
+  );
+  const [escalationAction, setEscalationAction] = useState<EscalationAction>(
+    policy.escalationAction
+  );
+  const [kappaThreshold, setKappaThreshold] = useState(
+    policy.kappaThreshold !== undefined ? String(policy.kappaThreshold) : ""
+  );
+
+  const { getSector } = useSectorCatalog();
+  const sectorInfo = getSector(policy.sector);
+
+  const updateMutation = api.sectorPolicies.update.useMutation({
+    onSuccess: (data) => {
+      toast.success("Policy saved", {
+        description: data.message,
+      });
+      onSaved();
+    },
+    onError: (error) => {
+      toast.error("Failed to save policy", {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = SectorPolicySchema.safeParse({
+      sector: policy.sector,
+      alignmentThreshold: Number(alignmentThreshold),
+      maxRubricVersions: Number(maxRubricVersions),
+      escalationAction,
+      kappaThreshold:
+        kappaThreshold.trim() === "" ? undefined : Number(kappaThreshold),
+    });
+
+    if (!parsed.success) {
+      toast.error("Invalid policy", {
+        description:
+          "Threshold must be 50-100%, max versions between 2 and 50 and minimum kappa between 0 and 1.",
+      });
+      return;
+    }
+
+    updateMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            {sectorInfo && <span>{sectorInfo.icon}</span>}
+            <span>{sectorInfo?.label || policy.sector}</span>
+          </span>
+          {policy.isDefault ? (
+            <Badge variant="outline" className="text-xs">
+              Default
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="text-xs">
+              Custom
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {policy.updatedBy
+            ? `Last updated by ${policy.updatedBy}${
+                policy.updatedAt
+                  ? ` on ${new Date(policy.updatedAt).toLocaleDateString()}`
+                  : ""
+              }`
+            : "Using built-in defaults"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor={`${policy.sector}-threshold`}>
+              Alignment Threshold (%)
+            </Label>
+            <Input
+              id={`${policy.sector}-threshold`}
+              type="number"
+              min={50}
+              max={100}
+              value={alignmentThreshold}
+              onChange={(e) => setAlignmentThreshold(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${policy.sector}-versions`}>
+              Max Rubric Versions
+            </Label>
+            <Input
+              id={`${policy.sector}-versions`}
+              type="number"
+              min={2}
+              max={50}
+              value={maxRubricVersions}
+              onChange={(e) => setMaxRubricVersions(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor={`${policy.sector}-kappa`}>
+              Minimum Cohen&apos;s Kappa (optional, display only)
+            </Label>
+            <Input
+              id={`${policy.sector}-kappa`}
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              placeholder="No kappa target"
+              value={kappaThreshold}
+              onChange={(e) => setKappaThreshold(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              The results page flags a primary model whose kappa is below this
+              value. It does not change the workflow: the rubric loop and
+              comparison evaluation still gate on the alignment threshold only.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>When the limit is reached below threshold</Label>
+          <Select
+            value={escalationAction}
+            onValueChange={(value) =>
+              setEscalationAction(value as EscalationAction)
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EscalationAction.options.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {getEscalationActionInfo(action).label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {getEscalationActionInfo(escalationAction).description}
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={updateMutation.isPending}
+          >
+            {updateMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SectorPoliciesPage() {
+  const {
+    data: policies,
+    isLoading,
+    error,
+    refetch,
+  } = api.sectorPolicies.list.useQuery();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Sector Policies
+        </h1>
+        <p className="text-muted-foreground">
+          Alignment thresholds and rubric iteration limits for each professional
+          sector.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Policies</AlertTitle>
+          <AlertDescription>
+            {error.message}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center space-y-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading policies...</p>
+          </div>
+        </div>
+      )}
+
+      {policies && (
+        <>
+          <Alert>
+            <SlidersHorizontal className="h-4 w-4" />
+            <AlertTitle>How policies apply</AlertTitle>
+            <AlertDescription>
+              Changes apply to the next evaluation submitted for a task in the
+              sector. Tasks that already passed their primary model evaluation
+              are not re-checked.
+            </AlertDescription>
+          </Alert>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {policies.map((policy) => (
+              <SectorPolicyCard
+                key={`${policy.sector}-${policy.updatedAt || "default"}`}
+                policy={policy}
+                onSaved={() => refetch()}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,501 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertTriangle,
+  ArrowRight,
+  Layers,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Save,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import {
+  getSectorColorClasses,
+  Sector,
+  SectorColor,
+  SectorInput,
+  SectorInputSchema,
+} from "@/lib/schemas/sector.schema";
+import { cn } from "@/lib/utils";
+
+const EMPTY_SECTOR_FORM: SectorInput = {
+  value: "",
+  label: "",
+  description: "",
+  icon: "📁",
+  color: "slate",
+  archived: false,
+};
+
+function SectorFields({
+  form,
+  onChange,
+  idPrefix,
+}: {
+  form: SectorInput;
+  onChange: (form: SectorInput) => void;
+  idPrefix: string;
+}) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-label`}>Label</Label>
+        <Input
+          id={`${idPrefix}-label`}
+          value={form.label}
+          onChange={(e) => onChange({ ...form, label: e.target.value })}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-icon`}>Icon</Label>
+          <Input
+            id={`${idPrefix}-icon`}
+            value={form.icon}
+            onChange={(e) => onChange({ ...form, icon: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Colour</Label>
+          <Select
+            value={form.color}
+            onValueChange={(value) =>
+              onChange({ ...form, color: value as SectorColor })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SectorColor.options.map((color) => (
+                <SelectItem key={color} value={color}>
+                  <span className="flex items-center space-x-2">
+                    <span
+                      className={cn(
+                        "h-3 w-3 rounded-full",
+                        getSectorColorClasses(color).color
+                      )}
+                    />
+                    <span className="capitalize">{color}</span>
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Input
+          id={`${idPrefix}-description`}
+          value={form.description}
+          onChange={(e) => onChange({ ...form, description: e.target.value })}
+          placeholder="What tasks in this sector cover"
+        />
+      </div>
+    </div>
+  );
+}
+
+function SectorCard({
+  sector,
+  taskCount,
+  onSaved,
+}: {
+  sector: Sector;
+  taskCount?: number;
+  onSaved: () => void;
+}) {
+  const [form, setForm] = useState<SectorInput>({
+    value: sector.value,
+    label: sector.label,
+    description: sector.description,
+    icon: sector.icon,
+    color: sector.color,
+    archived: sector.archived,
+  });
+
+  const colors = getSectorColorClasses(form.color);
+
+  const updateMutation = api.sectors.update.useMutation({
+    onSuccess: (data) => {
+      toast.success("Sector saved", {
+        description: data.message,
+      });
+      onSaved();
+    },
+    onError: (error) => {
+      toast.error("Failed to save sector", {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const parsed = SectorInputSchema.safeParse(form);
+    if (!parsed.success) {
+      toast.error("Invalid sector", {
+        description: parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+    updateMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Card className={cn(form.archived && "opacity-70")}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span
+            className={cn(
+              "flex items-center space-x-2 rounded-md px-2 py-1",
+              colors.lightColor,
+              colors.textColor
+            )}
+          >
+            <span>{form.icon}</span>
+            <span>{form.label}</span>
+          </span>
+          <span className="flex items-center space-x-2">
+            {form.archived && (
+              <Badge variant="outline" className="text-xs">
+                Archived
+              </Badge>
+            )}
+            <Badge
+              variant={sector.isDefault ? "outline" : "secondary"}
+              className="text-xs"
+            >
+              {sector.isDefault ? "Built-in" : "Custom"}
+            </Badge>
+          </span>
+        </CardTitle>
+        <CardDescription>
+          Stored on tasks as &quot;{sector.value}&quot;
+          {taskCount !== undefined &&
+            ` · ${taskCount} task${taskCount !== 1 ? "s" : ""}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <SectorFields
+          form={form}
+          onChange={setForm}
+          idPrefix={`sector-${sector.value}`}
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              checked={form.archived}
+              onCheckedChange={(checked) =>
+                setForm({ ...form, archived: checked === true })
+              }
+            />
+            <span>Archived: hidden when creating or importing tasks</span>
+          </label>
+          <Button onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NewSectorCard({
+  form,
+  onChange,
+  onCreated,
+}: {
+  form: SectorInput;
+  onChange: (form: SectorInput) => void;
+  onCreated: () => void;
+}) {
+  const createMutation = api.sectors.create.useMutation({
+    onSuccess: (data) => {
+      toast.success("Sector added", {
+        description: data.message,
+      });
+      onChange(EMPTY_SECTOR_FORM);
+      onCreated();
+    },
+    onError: (error) => {
+      toast.error("Failed to add sector", {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    // The label doubles as the stored value unless one is given
+    const parsed = SectorInputSchema.safeParse({
+      ...form,
+      value: form.value.trim() || form.label,
+    });
+    if (!parsed.success) {
+      toast.error("Invalid sector", {
+        description: parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+    createMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Plus className="h-5 w-5" />
+          <span>Add Sector</span>
+        </CardTitle>
+        <CardDescription>
+          The stored value can&apos;t be changed later; relabel the sector
+          instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="new-sector-value">Stored Value</Label>
+          <Input
+            id="new-sector-value"
+            value={form.value}
+            onChange={(e) => onChange({ ...form, value: e.target.value })}
+            placeholder={form.label || "Same as the label"}
+          />
+        </div>
+        <SectorFields form={form} onChange={onChange} idPrefix="new-sector" />
+        <div className="flex justify-end">
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            Add Sector
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SectorsPage() {
+  const [newSector, setNewSector] = useState<SectorInput>(EMPTY_SECTOR_FORM);
+
+  const {
+    data: sectors,
+    isLoading,
+    error,
+    refetch,
+  } = api.sectors.list.useQuery();
+  const { data: migration, refetch: refetchMigration } =
+    api.sectors.migrationPreview.useQuery();
+
+  const migrateMutation = api.sectors.migrateTasks.useMutation({
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success("Tasks migrated", { description: data.message });
+      } else {
+        toast.error("Some tasks were not migrated", {
+          description: `${data.message} Failed: ${data.failed.join(", ")}`,
+        });
+      }
+      refetchMigration();
+    },
+    onError: (error) => {
+      toast.error("Failed to migrate tasks", {
+        description: error.message,
+      });
+    },
+  });
+
+  // Shares its cache with the catalog every other page reads
+  const handleSaved = () => {
+    refetch();
+    refetchMigration();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Sectors
+        </h1>
+        <p className="text-muted-foreground">
+          The professional sectors tasks are created in, with their labels,
+          icons and colours.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Sectors</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Migration of existing tasks */}
+      {migration &&
+        (migration.changes.length > 0 || migration.unknown.length > 0) && (
+          <Card className="border-amber-200 dark:border-amber-800">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <RefreshCw className="h-5 w-5" />
+                <span>Task Migration</span>
+              </CardTitle>
+              <CardDescription>
+                Some tasks store a sector that isn&apos;t a catalog value.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {migration.changes.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    {migration.changes.length} task
+                    {migration.changes.length !== 1 ? "s" : ""} can be rewritten
+                    to their catalog value:
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {Array.from(
+                      new Map(
+                        migration.changes.map((change) => [
+                          change.from,
+                          change.to,
+                        ])
+                      )
+                    ).map(([from, to]) => (
+                      <li key={from} className="flex items-center space-x-2">
+                        <Badge variant="outline">{from}</Badge>
+                        <ArrowRight className="h-3 w-3" />
+                        <Badge variant="secondary">{to}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                  <Button
+                    onClick={() => migrateMutation.mutate()}
+                    disabled={migrateMutation.isPending}
+                  >
+                    {migrateMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                    )}
+                    Migrate {migration.changes.length} Task
+                    {migration.changes.length !== 1 ? "s" : ""}
+                  </Button>
+                </div>
+              )}
+              {migration.unknown.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    These sectors match nothing in the catalog. Add them as
+                    sectors, or relabel an existing one so they resolve:
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {migration.unknown.map((unknown) => (
+                      <li
+                        key={unknown.sector}
+                        className="flex items-center space-x-2"
+                      >
+                        <Badge variant="outline">
+                          {unknown.sector || "(empty)"}
+                        </Badge>
+                        <span className="text-muted-foreground">
+                          {unknown.taskIds.length} task
+                          {unknown.taskIds.length !== 1 ? "s" : ""}
+                        </span>
+                        {unknown.sector && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setNewSector({
+                                ...EMPTY_SECTOR_FORM,
+                                value: unknown.sector,
+                                label: unknown.sector,
+                              })
+                            }
+                          >
+                            <Plus className="w-3 h-3 mr-1" />
+                            Add as Sector
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {sectors && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {sectors.map((sector) => (
+            <SectorCard
+              key={`${sector.value}-${sector.updatedAt || "default"}`}
+              sector={sector}
+              taskCount={
+                migration ? migration.taskCounts[sector.value] || 0 : undefined
+              }
+              onSaved={handleSaved}
+            />
+          ))}
+          <NewSectorCard
+            form={newSector}
+            onChange={setNewSector}
+            onCreated={handleSaved}
+          />
+        </div>
+      )}
+
+      <Alert>
+        <Layers className="h-4 w-4" />
+        <AlertTitle>Renaming and archiving</AlertTitle>
+        <AlertDescription>
+          Tasks keep the stored value, so a new label shows on every existing
+          task at once. Archived sectors stay on their tasks, policies and
+          templates but can no longer be picked for new tasks.
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
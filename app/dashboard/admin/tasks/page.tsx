@@ -0,0 +1,280 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  FileText,
+  Filter,
+  Loader2,
+  RotateCcw,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { getStatusDisplayInfo } from "@/lib/schemas/task";
+import {
+  SortDirection,
+  TaskListFilters,
+  TaskListFiltersSchema,
+  TaskSortField,
+  getTaskSortFieldLabel,
+} from "@/lib/schemas/task-query.schema";
+import { truncateText } from "@/lib/utils/task-utils";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import {
+  EMPTY_TASK_FILTER_FORM,
+  TaskFilterFields,
+  TaskFilterForm,
+  toTaskListFilters,
+} from "../../_components/filters/TaskFilterFields";
+
+// Column layout of the task table; sortable columns carry their sort field
+const COLUMNS: { label: string; span: string; sortBy?: TaskSortField }[] = [
+  { label: "Task", span: "col-span-4", sortBy: "Created" },
+  { label: "Status", span: "col-span-2", sortBy: "Status" },
+  { label: "Sector", span: "col-span-2", sortBy: "ProfessionalSector" },
+  { label: "Trainer", span: "col-span-2", sortBy: "TrainerEmail" },
+  {
+    label: getTaskSortFieldLabel("primaryAlignment"),
+    span: "col-span-2 text-right",
+    sortBy: "primaryAlignment",
+  },
+];
+
+export default function AdminTasksPage() {
+  const { getSector } = useSectorCatalog();
+  const router = useRouter();
+  const [form, setForm] = useState<TaskFilterForm>(EMPTY_TASK_FILTER_FORM);
+  const [filters, setFilters] = useState<TaskListFilters>({});
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<TaskSortField>("Created");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = api.adminTasks.list.useInfiniteQuery(
+    { filters, sortBy, sortDirection },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    }
+  );
+
+  const tasks = data?.pages.flatMap((page) => page.items) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  const handleApply = () => {
+    const parsed = TaskListFiltersSchema.safeParse(toTaskListFilters(form));
+    if (!parsed.success) {
+      setFilterError(parsed.error.errors[0]?.message || "Invalid filters");
+      return;
+    }
+    setFilterError(null);
+    setFilters(parsed.data);
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_TASK_FILTER_FORM);
+    setFilters({});
+    setFilterError(null);
+  };
+
+  const handleSort = (newSortBy: TaskSortField) => {
+    if (sortBy === newSortBy) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(newSortBy);
+      setSortDirection("desc");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          All Tasks
+        </h1>
+        <p className="text-muted-foreground">
+          Every trainer&apos;s evaluation tasks across the platform.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Filter className="h-5 w-5" />
+            <span>Filters</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TaskFilterFields form={form} onChange={setForm} />
+
+          {filterError && (
+            <p className="text-sm text-destructive">{filterError}</p>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+            <Button size="sm" onClick={handleApply}>
+              <Filter className="w-4 h-4 mr-2" />
+              Apply Filters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Tasks</AlertTitle>
+          <AlertDescription>
+            {error.message}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Tasks Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tasks</CardTitle>
+          <CardDescription>
+            {total} task{total !== 1 ? "s" : ""} found · sorted by{" "}
+            {getTaskSortFieldLabel(sortBy).toLowerCase()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="flex flex-col items-center space-y-4">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                <p className="text-muted-foreground">Loading tasks...</p>
+              </div>
+            </div>
+          ) : tasks.length === 0 ? (
+            <div className="text-center py-12">
+              <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No tasks found</h3>
+              <p className="text-muted-foreground">
+                Try adjusting your filter criteria.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {/* Table Header */}
+              <div className="grid grid-cols-12 gap-4 p-4 bg-muted/30 rounded-lg text-sm font-medium text-muted-foreground">
+                {COLUMNS.map((column) => (
+                  <div key={column.label} className={column.span}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => column.sortBy && handleSort(column.sortBy)}
+                      className="h-auto p-0 hover:bg-transparent"
+                    >
+                      {column.label}
+                      {sortBy === column.sortBy &&
+                        (sortDirection === "asc" ? (
+                          <ChevronUp className="ml-1 h-3 w-3" />
+                        ) : (
+                          <ChevronDown className="ml-1 h-3 w-3" />
+                        ))}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {/* Table Rows */}
+              {tasks.map((task) => {
+                const statusInfo = getStatusDisplayInfo(task.Status);
+                const sectorInfo = getSector(task.ProfessionalSector);
+
+                return (
+                  <div
+                    key={task.id}
+                    className="grid grid-cols-12 gap-4 p-4 rounded-lg border transition-colors hover:bg-muted/30 cursor-pointer"
+                    onClick={() =>
+                      router.push(`/dashboard/tasks/${task.TaskID}`)
+                    }
+                  >
+                    <div className="col-span-4 min-w-0 space-y-1">
+                      <p className="font-medium text-foreground truncate">
+                        {truncateText(task.Prompt, 80)}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {task.TaskID}
+                        {task.Created &&
+                          ` · ${new Date(task.Created).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <div className="col-span-2 flex items-center">
+                      <Badge variant="outline" className={statusInfo.color}>
+                        {statusInfo.label}
+                      </Badge>
+                    </div>
+                    <div className="col-span-2 flex items-center text-sm">
+                      {sectorInfo?.icon}{" "}
+                      {sectorInfo?.label || task.ProfessionalSector}
+                    </div>
+                    <div className="col-span-2 flex items-center text-sm text-muted-foreground truncate">
+                      {task.TrainerEmail}
+                    </div>
+                    <div className="col-span-2 flex items-center justify-end text-sm font-medium">
+                      {task.primaryAlignment !== undefined
+                        ? `${task.primaryAlignment}%`
+                        : "—"}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage && (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    )}
+                    Load More
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
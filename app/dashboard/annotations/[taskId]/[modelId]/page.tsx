@@ -0,0 +1,362 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import ReactMarkdown from "react-markdown";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Bot,
+  FileText,
+  Loader2,
+  Save,
+  ThumbsDown,
+  ThumbsUp,
+  User,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { parseScores } from "@/lib/schemas/task-models";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { cn } from "@/lib/utils";
+
+type Vote = "Yes" | "No";
+
+export default function AnnotationPage() {
+  const { getSector } = useSectorCatalog();
+  const params = useParams();
+  const router = useRouter();
+  const taskId = params.taskId as string;
+  const modelId = params.modelId as string;
+
+  const [evaluations, setEvaluations] = useState<Record<string, Vote>>({});
+
+  const { data, isLoading, error, refetch } =
+    api.annotations.getAssignment.useQuery(
+      { taskId, modelId },
+      { enabled: !!taskId && !!modelId }
+    );
+
+  // Load earlier scores for items still in the rubric
+  useEffect(() => {
+    if (!data) return;
+    const stored = parseScores<Vote>(data.scores);
+    setEvaluations(
+      Object.fromEntries(
+        data.questions
+          .filter((q) => stored[q.key])
+          .map((q) => [q.key, stored[q.key]])
+      )
+    );
+  }, [data]);
+
+  const submitMutation = api.annotations.submit.useMutation({
+    onSuccess: () => {
+      toast.success("Evaluation saved");
+      router.push("/dashboard/annotations");
+    },
+    onError: (error) => {
+      toast.error("Failed to save evaluation", {
+        description: error.message,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading assignment...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push("/dashboard/annotations")}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">
+            Assignment Not Found
+          </h1>
+        </div>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Assignment</AlertTitle>
+          <AlertDescription>
+            {error?.message || "You are not assigned to evaluate this task."}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const sectorInfo = getSector(data.sector);
+  const completedCount = data.questions.filter(
+    (q) => evaluations[q.key]
+  ).length;
+  const progressPercentage =
+    data.questions.length > 0
+      ? Math.round((completedCount / data.questions.length) * 100)
+      : 0;
+
+  return (
+    <div className="space-y-6 pb-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => router.push("/dashboard/annotations")}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="space-y-1">
+          <div className="flex items-center space-x-3">
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">
+              Evaluate {data.model.label}
+            </h1>
+            <Badge
+              variant="outline"
+              className="text-purple-600 border-purple-600"
+            >
+              Rubric V{data.rubricVersion}
+            </Badge>
+          </div>
+          <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+            <span>{data.taskId}</span>
+            {sectorInfo && (
+              <div className="flex items-center space-x-1">
+                <span>{sectorInfo.icon}</span>
+                <span>{sectorInfo.label}</span>
+              </div>
+            )}
+            <div className="flex items-center space-x-1">
+              <FileText className="w-3 h-3" />
+              <span>{data.questions.length} criteria</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <Alert>
+        <User className="h-4 w-4" />
+        <AlertTitle>Independent evaluation</AlertTitle>
+        <AlertDescription>
+          Score the response on your own judgment. Other evaluators&apos;
+          answers are hidden so agreement between evaluators can be measured.
+        </AlertDescription>
+      </Alert>
+
+      {data.questions.length === 0 ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>No Rubric Yet</AlertTitle>
+          <AlertDescription>
+            The trainer has not written a rubric for this task yet. Check back
+            later.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          {/* Task Prompt */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileText className="h-5 w-5" />
+                <span>Task Prompt</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-foreground leading-relaxed bg-muted/30 p-4 rounded-lg">
+                {data.prompt}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Progress */}
+          <Card className="bg-gradient-to-br from-primary/5 to-primary/10 border-primary/20">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  {completedCount} of {data.questions.length} questions answered
+                </p>
+                <p className="text-2xl font-bold text-primary">
+                  {progressPercentage}%
+                </p>
+              </div>
+              <Progress value={progressPercentage} className="h-3" />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* Model Response */}
+            <Card className="bg-gradient-to-br from-green-50/50 to-emerald-50/50 dark:from-green-950/20 dark:to-emerald-950/20 border-green-200 dark:border-green-800">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Bot className="h-5 w-5 text-green-600" />
+                  <span>{data.model.label} Response</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="bg-background/50 p-4 rounded-lg border border-border/30 h-96">
+                  <div className="prose dark:prose-invert max-w-none text-sm">
+                    <ReactMarkdown>{data.response}</ReactMarkdown>
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+
+            {/* Rubric Questions */}
+            <Card className="bg-gradient-to-br from-blue-50/50 to-indigo-50/50 dark:from-blue-950/20 dark:to-indigo-950/20 border-blue-200 dark:border-blue-800">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <User className="h-5 w-5 text-blue-600" />
+                  <span>Rubric Criteria</span>
+                </CardTitle>
+                <CardDescription>
+                  Answer each question based on the {data.model.label} response
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-96">
+                  {data.questions.map((question, index) => {
+                    const currentValue = evaluations[question.key];
+                    return (
+                      <div
+                        key={question.key}
+                        className="space-y-3 p-4 rounded-lg border border-border/30 bg-background/30"
+                      >
+                        <div className="flex items-start space-x-3">
+                          <span className="bg-blue-600 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs font-medium mt-0.5 shrink-0">
+                            {index + 1}
+                          </span>
+                          <div className="flex-1 space-y-2">
+                            <p className="text-sm font-medium leading-relaxed text-foreground">
+                              {question.question}
+                            </p>
+                            <Badge variant="outline" className="text-xs">
+                              {question.tag}
+                            </Badge>
+                          </div>
+                        </div>
+
+                        <RadioGroup
+                          value={currentValue || ""}
+                          onValueChange={(value) =>
+                            setEvaluations((prev) => ({
+                              ...prev,
+                              [question.key]: value as Vote,
+                            }))
+                          }
+                          className="ml-9 flex items-center space-x-6"
+                        >
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem
+                              value="Yes"
+                              id={`${question.key}-yes`}
+                              className="text-green-600 border-green-600"
+                            />
+                            <Label
+                              htmlFor={`${question.key}-yes`}
+                              className={cn(
+                                "flex items-center space-x-2 cursor-pointer text-sm",
+                                currentValue === "Yes" &&
+                                  "text-green-600 font-medium"
+                              )}
+                            >
+                              <ThumbsUp className="h-4 w-4" />
+                              <span>Yes</span>
+                            </Label>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem
+                              value="No"
+                              id={`${question.key}-no`}
+                              className="text-red-600 border-red-600"
+                            />
+                            <Label
+                              htmlFor={`${question.key}-no`}
+                              className={cn(
+                                "flex items-center space-x-2 cursor-pointer text-sm",
+                                currentValue === "No" &&
+                                  "text-red-600 font-medium"
+                              )}
+                            >
+                              <ThumbsDown className="h-4 w-4" />
+                              <span>No</span>
+                            </Label>
+                          </div>
+                        </RadioGroup>
+                      </div>
+                    );
+                  })}
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Submit */}
+          <div className="flex items-center justify-end space-x-4">
+            <span className="text-sm text-muted-foreground">
+              {completedCount}/{data.questions.length} questions completed
+            </span>
+            <Button
+              onClick={() =>
+                submitMutation.mutate({
+                  taskId,
+                  modelId,
+                  scores: JSON.stringify(evaluations),
+                })
+              }
+              disabled={
+                submitMutation.isPending ||
+                completedCount !== data.questions.length
+              }
+              className="min-w-[180px]"
+            >
+              {submitMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Evaluation
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertTriangle,
+  Calendar,
+  CheckCircle,
+  Loader2,
+  UserCheck,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { truncateText } from "@/lib/utils/task-utils";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+
+export default function PeerEvaluationsPage() {
+  const { getSector } = useSectorCatalog();
+  const router = useRouter();
+  const {
+    data: assignments,
+    isLoading,
+    error,
+    refetch,
+  } = api.annotations.myAssignments.useQuery();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Peer Evaluations
+        </h1>
+        <p className="text-muted-foreground">
+          Tasks you were asked to score independently. Your answers are compared
+          with the trainer&apos;s and other evaluators&apos; to measure
+          agreement.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Assignments</AlertTitle>
+          <AlertDescription>
+            {error.message}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center space-y-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading assignments...</p>
+          </div>
+        </div>
+      )}
+
+      {assignments && assignments.length === 0 && (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <UserCheck className="h-8 w-8 mx-auto mb-2" />
+            You have not been asked to evaluate any tasks.
+          </CardContent>
+        </Card>
+      )}
+
+      {assignments?.map((assignment) => {
+        const sectorInfo = getSector(assignment.sector);
+        const scoredCount = assignment.models.filter((m) => m.scored).length;
+
+        return (
+          <Card key={assignment.taskId}>
+            <CardHeader className="pb-2">
+              <div className="flex items-start justify-between">
+                <div className="space-y-2">
+                  <h3 className="text-lg font-semibold text-foreground">
+                    {assignment.taskId}
+                  </h3>
+                  <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                    <div className="flex items-center space-x-1">
+                      <span>{sectorInfo?.icon || "📋"}</span>
+                      <span>{assignment.sector}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="w-3 h-3" />
+                      <span>
+                        Assigned{" "}
+                        {new Date(assignment.assignedAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <Badge variant="outline">
+                  {scoredCount}/{assignment.models.length} models scored
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {truncateText(assignment.prompt, 150)}
+              </p>
+              {assignment.rubricReady ? (
+                <div className="flex flex-wrap gap-2">
+                  {assignment.models.map((model) => (
+                    <Button
+                      key={model.id}
+                      variant={model.scored ? "outline" : "default"}
+                      size="sm"
+                      onClick={() =>
+                        router.push(
+                          `/dashboard/annotations/${assignment.taskId}/${model.id}`
+                        )
+                      }
+                    >
+                      {model.scored && (
+                        <CheckCircle className="w-4 h-4 mr-2 text-green-600" />
+                      )}
+                      {model.scored ? `Revise ${model.label}` : model.label}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground italic">
+                  Waiting for the trainer to write a rubric.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
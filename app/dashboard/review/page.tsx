@@ -0,0 +1,298 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertTriangle,
+  Calendar,
+  ClipboardCheck,
+  Loader2,
+  MessageSquare,
+  ShieldAlert,
+  User,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { getStatusDisplayInfo, TaskStatus } from "@/lib/schemas/task";
+import { truncateText } from "@/lib/utils/task-utils";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+
+const QUEUE_TABS: { status: TaskStatus; label: string; empty: string }[] = [
+  {
+    status: "In_Review",
+    label: "In Review",
+    empty: "No tasks are waiting for review.",
+  },
+  {
+    status: "Changes_Requested",
+    label: "Changes Requested",
+    empty: "No tasks are waiting on their trainer.",
+  },
+  {
+    status: "Completed",
+    label: "Approved",
+    empty: "No tasks have been approved yet.",
+  },
+];
+
+export default function ReviewQueuePage() {
+  const { getSector } = useSectorCatalog();
+  const router = useRouter();
+  const {
+    data: tasks,
+    isLoading,
+    error,
+    refetch,
+  } = api.reviews.listQueue.useQuery();
+  const { data: escalatedTasks } = api.reviews.listEscalated.useQuery();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">
+          Review Queue
+        </h1>
+        <p className="text-muted-foreground">
+          Approve finished tasks, send them back to the trainer with comments,
+          or resolve escalated tasks.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Review Queue</AlertTitle>
+          <AlertDescription>
+            {error.message}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center space-y-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading review queue...</p>
+          </div>
+        </div>
+      )}
+
+      {tasks && (
+        <Tabs defaultValue="In_Review">
+          <TabsList>
+            {QUEUE_TABS.map((tab) => (
+              <TabsTrigger key={tab.status} value={tab.status}>
+                {tab.label} (
+                {tasks.filter((task) => task.Status === tab.status).length})
+              </TabsTrigger>
+            ))}
+            <TabsTrigger value="Escalated">
+              Escalated ({escalatedTasks?.length ?? 0})
+            </TabsTrigger>
+          </TabsList>
+
+          {QUEUE_TABS.map((tab) => {
+            const tabTasks = tasks.filter((task) => task.Status === tab.status);
+
+            return (
+              <TabsContent
+                key={tab.status}
+                value={tab.status}
+                className="space-y-4"
+              >
+                {tabTasks.length === 0 ? (
+                  <Card>
+                    <CardContent className="py-12 text-center text-muted-foreground">
+                      <ClipboardCheck className="h-8 w-8 mx-auto mb-2" />
+                      {tab.empty}
+                    </CardContent>
+                  </Card>
+                ) : (
+                  tabTasks.map((task) => {
+                    const statusInfo = getStatusDisplayInfo(task.Status);
+                    const sectorInfo = getSector(task.ProfessionalSector);
+
+                    return (
+                      <Card
+                        key={task.id}
+                        className="hover:shadow-lg transition-all duration-200 cursor-pointer"
+                        onClick={() =>
+                          router.push(`/dashboard/tasks/${task.TaskID}/review`)
+                        }
+                      >
+                        <CardHeader className="pb-2">
+                          <div className="flex items-start justify-between">
+                            <div className="space-y-2">
+                              <div className="flex items-center space-x-3">
+                                <h3 className="text-lg font-semibold text-foreground">
+                                  {task.TaskID}
+                                </h3>
+                                <Badge
+                                  className={statusInfo.color}
+                                  variant="outline"
+                                >
+                                  {statusInfo.label}
+                                </Badge>
+                              </div>
+                              <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                                <div className="flex items-center space-x-1">
+                                  <span>{sectorInfo?.icon || "📋"}</span>
+                                  <span>{task.ProfessionalSector}</span>
+                                </div>
+                                <div className="flex items-center space-x-1">
+                                  <User className="w-3 h-3" />
+                                  <span>{task.TrainerEmail}</span>
+                                </div>
+                                {task.Submitted_For_Review_At && (
+                                  <div className="flex items-center space-x-1">
+                                    <Calendar className="w-3 h-3" />
+                                    <span>
+                                      Submitted{" "}
+                                      {new Date(
+                                        task.Submitted_For_Review_At
+                                      ).toLocaleDateString()}
+                                    </span>
+                                  </div>
+                                )}
+                                {task.commentCount > 0 && (
+                                  <div className="flex items-center space-x-1">
+                                    <MessageSquare className="w-3 h-3" />
+                                    <span>{task.commentCount}</span>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                            <div className="text-right text-sm">
+                              <p className="font-semibold">
+                                {task.primaryAlignment !== undefined
+                                  ? `${task.primaryAlignment}%`
+                                  : "—"}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                Primary alignment · {task.modelCount} models
+                              </p>
+                            </div>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="space-y-1">
+                          <p className="text-sm text-muted-foreground">
+                            {truncateText(task.Prompt, 150)}
+                          </p>
+                          {task.Reviewed_By && (
+                            <p className="text-xs text-muted-foreground">
+                              Last reviewed by {task.Reviewed_By}
+                              {task.Reviewed_At &&
+                                ` on ${new Date(
+                                  task.Reviewed_At
+                                ).toLocaleDateString()}`}
+                            </p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })
+                )}
+              </TabsContent>
+            );
+          })}
+
+          <TabsContent value="Escalated" className="space-y-4">
+            {!escalatedTasks?.length ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <ShieldAlert className="h-8 w-8 mx-auto mb-2" />
+                  No tasks are waiting on an escalation.
+                </CardContent>
+              </Card>
+            ) : (
+              escalatedTasks.map((task) => {
+                const statusInfo = getStatusDisplayInfo(task.Status);
+                const sectorInfo = getSector(task.ProfessionalSector);
+
+                return (
+                  <Card
+                    key={task.id}
+                    className="hover:shadow-lg transition-all duration-200 cursor-pointer border-red-200 dark:border-red-800"
+                    onClick={() =>
+                      router.push(`/dashboard/tasks/${task.TaskID}/review`)
+                    }
+                  >
+                    <CardHeader className="pb-2">
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-2">
+                          <div className="flex items-center space-x-3">
+                            <h3 className="text-lg font-semibold text-foreground">
+                              {task.TaskID}
+                            </h3>
+                            <Badge
+                              className={statusInfo.color}
+                              variant="outline"
+                            >
+                              {statusInfo.label}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                            <div className="flex items-center space-x-1">
+                              <span>{sectorInfo?.icon || "📋"}</span>
+                              <span>{task.ProfessionalSector}</span>
+                            </div>
+                            <div className="flex items-center space-x-1">
+                              <User className="w-3 h-3" />
+                              <span>{task.TrainerEmail}</span>
+                            </div>
+                            {task.Escalated_At && (
+                              <div className="flex items-center space-x-1">
+                                <Calendar className="w-3 h-3" />
+                                <span>
+                                  Escalated{" "}
+                                  {new Date(
+                                    task.Escalated_At
+                                  ).toLocaleDateString()}
+                                </span>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-right text-sm">
+                          <p className="font-semibold">
+                            {task.primaryAlignment !== undefined
+                              ? `${task.primaryAlignment}%`
+                              : "—"}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Primary alignment · V
+                            {task.Current_Rubric_Version || 1}
+                          </p>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-red-700 dark:text-red-400">
+                        {task.Escalation_Reason}
+                      </p>
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
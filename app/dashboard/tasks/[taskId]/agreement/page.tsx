@@ -0,0 +1,410 @@
+"use client";
+
+import React, { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Loader2,
+  Trash2,
+  UserPlus,
+  Users,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { AssignAnnotatorInputSchema } from "@/lib/schemas/annotation.schema";
+import { getKappaLabel, type ModelAgreement } from "@/lib/utils/agreement";
+import { cn } from "@/lib/utils";
+
+function VoteCell({ vote }: { vote?: "Yes" | "No" | null }) {
+  if (!vote) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  return (
+    <span
+      className={cn(
+        "font-medium",
+        vote === "Yes" ? "text-green-600" : "text-red-600"
+      )}
+    >
+      {vote}
+    </span>
+  );
+}
+
+function formatKappa(kappa: number | null) {
+  return kappa === null ? "—" : `${kappa} (${getKappaLabel(kappa)})`;
+}
+
+function formatPercent(value: number | null | undefined) {
+  return value === null || value === undefined ? "—" : `${value}%`;
+}
+
+function ModelAgreementView({ agreement }: { agreement: ModelAgreement }) {
+  if (agreement.raters.length < 2) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Agreement needs at least two human evaluations of {agreement.label}.{" "}
+          {agreement.raters.length === 1
+            ? "Only one has been submitted so far."
+            : "None have been submitted yet."}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const stats = [
+    {
+      label: "Percent agreement",
+      value: formatPercent(agreement.percentAgreement),
+    },
+    { label: "Fleiss' kappa", value: formatKappa(agreement.fleissKappa) },
+    {
+      label: "Trainer vs model",
+      value: formatPercent(agreement.trainerModelAlignment),
+    },
+    {
+      label: "Consensus vs model",
+      value: formatPercent(agreement.consensusModelAlignment),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-6 space-y-1">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-xl font-bold text-foreground">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Overall statistics use the {agreement.completeItems} of{" "}
+        {agreement.items.length} items scored by all {agreement.raters.length}{" "}
+        evaluators.
+      </p>
+
+      {/* Pairwise */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Pairwise Agreement</CardTitle>
+          <CardDescription>
+            Cohen&apos;s kappa for each pair of evaluators, over the items both
+            scored
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Evaluators</th>
+                  <th className="py-2 pr-4 font-medium">Items</th>
+                  <th className="py-2 pr-4 font-medium">Agreement</th>
+                  <th className="py-2 font-medium">Cohen&apos;s kappa</th>
+                </tr>
+              </thead>
+              <tbody>
+                {agreement.pairwise.map((pair) => (
+                  <tr
+                    key={`${pair.raterA}-${pair.raterB}`}
+                    className="border-b last:border-0"
+                  >
+                    <td className="py-2 pr-4">
+                      {pair.raterA} · {pair.raterB}
+                    </td>
+                    <td className="py-2 pr-4">{pair.items}</td>
+                    <td className="py-2 pr-4">
+                      {formatPercent(pair.percentAgreement)}
+                    </td>
+                    <td className="py-2">{formatKappa(pair.cohensKappa)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Per item */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Item Votes</CardTitle>
+          <CardDescription>
+            The consensus label is the majority human vote; ties have none
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Item</th>
+                  {agreement.raters.map((rater) => (
+                    <th key={rater.email} className="py-2 pr-4 font-medium">
+                      {rater.email}
+                      {rater.isTrainer && (
+                        <Badge variant="outline" className="ml-1 text-xs">
+                          Trainer
+                        </Badge>
+                      )}
+                    </th>
+                  ))}
+                  <th className="py-2 pr-4 font-medium">Consensus</th>
+                  <th className="py-2 font-medium">Model</th>
+                </tr>
+              </thead>
+              <tbody>
+                {agreement.items.map((item) => (
+                  <tr
+                    key={item.key}
+                    className={cn(
+                      "border-b last:border-0",
+                      item.yes > 0 &&
+                        item.no > 0 &&
+                        "bg-amber-50/50 dark:bg-amber-950/20"
+                    )}
+                  >
+                    <td className="py-2 pr-4 max-w-md">
+                      <p>{item.question}</p>
+                      <Badge variant="outline" className="mt-1 text-xs">
+                        {item.tag}
+                      </Badge>
+                    </td>
+                    {agreement.raters.map((rater) => (
+                      <td key={rater.email} className="py-2 pr-4">
+                        <VoteCell vote={item.votes[rater.email]} />
+                      </td>
+                    ))}
+                    <td className="py-2 pr-4">
+                      <VoteCell vote={item.consensus} />
+                    </td>
+                    <td className="py-2">
+                      <VoteCell vote={item.modelScore} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function AgreementPage() {
+  const params = useParams();
+  const router = useRouter();
+  const taskId = params.taskId as string;
+
+  const [evaluatorEmail, setEvaluatorEmail] = useState("");
+
+  const { data, isLoading, error, refetch } = api.annotations.forTask.useQuery(
+    { taskId },
+    { enabled: !!taskId }
+  );
+
+  const assignMutation = api.annotations.assign.useMutation({
+    onSuccess: () => {
+      toast.success("Evaluator assigned");
+      setEvaluatorEmail("");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error("Failed to assign evaluator", {
+        description: error.message,
+      });
+    },
+  });
+
+  const unassignMutation = api.annotations.unassign.useMutation({
+    onSuccess: () => {
+      toast.success("Evaluator removed");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error("Failed to remove evaluator", {
+        description: error.message,
+      });
+    },
+  });
+
+  const handleAssign = () => {
+    const parsed = AssignAnnotatorInputSchema.safeParse({
+      taskId,
+      evaluatorEmail,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.errors[0]?.message || "Invalid email address");
+      return;
+    }
+    assignMutation.mutate(parsed.data);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => router.push(`/dashboard/tasks/${taskId}`)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">
+            Evaluator Agreement
+          </h1>
+          <p className="text-muted-foreground">
+            {taskId} · how often independent human evaluators agree, and how
+            their consensus compares with the model
+          </p>
+        </div>
+      </div>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Agreement</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      ) : isLoading || !data ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          {/* Evaluators */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Users className="h-5 w-5" />
+                <span>Additional Evaluators</span>
+              </CardTitle>
+              <CardDescription>
+                Evaluators score each model against rubric V{data.rubricVersion}{" "}
+                without seeing anyone else&apos;s answers
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {data.annotators.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No additional evaluators assigned yet.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {data.annotators.map((annotator) => (
+                    <div
+                      key={annotator.email}
+                      className="flex items-center justify-between rounded-lg border p-3"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium">{annotator.email}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Assigned by {annotator.assignedBy} on{" "}
+                          {new Date(annotator.assignedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <Badge variant="outline">
+                          {annotator.scoredModels.length}/
+                          {data.agreement.length} models scored
+                        </Badge>
+                        {data.canManage && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={unassignMutation.isPending}
+                            onClick={() =>
+                              unassignMutation.mutate({
+                                taskId,
+                                evaluatorEmail: annotator.email,
+                              })
+                            }
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {data.canManage && (
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="email"
+                    placeholder="evaluator@example.com"
+                    value={evaluatorEmail}
+                    onChange={(e) => setEvaluatorEmail(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleAssign();
+                    }}
+                    className="max-w-sm"
+                  />
+                  <Button
+                    onClick={handleAssign}
+                    disabled={!evaluatorEmail || assignMutation.isPending}
+                  >
+                    {assignMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <UserPlus className="w-4 h-4 mr-2" />
+                    )}
+                    Assign
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Agreement per model */}
+          {data.agreement.length > 0 && (
+            <Tabs defaultValue={data.agreement[0].modelId}>
+              <TabsList>
+                {data.agreement.map((agreement) => (
+                  <TabsTrigger
+                    key={agreement.modelId}
+                    value={agreement.modelId}
+                  >
+                    {agreement.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {data.agreement.map((agreement) => (
+                <TabsContent
+                  key={agreement.modelId}
+                  value={agreement.modelId}
+                  className="space-y-4"
+                >
+                  <ModelAgreementView agreement={agreement} />
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,14 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import {
@@ -31,15 +39,36 @@ import {
   ThumbsDown,
   Lightbulb,
   Edit,
+  CheckCircle,
 } from "lucide-react";
+import { DraftStatus } from "@/components/DraftStatus";
 
 import { api } from "@/lib/trpc/client";
+import { useDraftAutosave } from "@/lib/services/useDraftAutosave";
 import {
   getStatusDisplayInfo,
   getCurrentRubricVersionName,
+  getConfidenceLabel,
   AirtableTaskRecord,
+  ConfidenceLevel,
+  ItemRationales,
+  MAX_RATIONALE_LENGTH,
 } from "@/lib/schemas/task";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import {
+  checkTransition,
+  getEvaluationRoute,
+  getPolicyThreshold,
+} from "@/lib/workflow/task-workflow";
+import {
+  getActiveComparisonModel,
+  getHumanRationales,
+  getModelEvaluation,
+  getModelResponse,
+  getPrimaryModel,
+  getTaskModel,
+} from "@/lib/schemas/task-models";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { RubricItemWeightBadges } from "../../../../../_components/rubric/RubricItemWeightBadges";
 import { cn } from "@/lib/utils";
 
 // Import our reusable utilities
@@ -54,12 +83,30 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 interface HumanEvalFormData {
   taskId: string;
   evaluations: Record<string, "Yes" | "No">;
+  rationales: ItemRationales;
+}
+
+// Select has no empty item, so this stands for "no confidence given"
+const NO_CONFIDENCE = "none";
+
+// Notes from an earlier submission, for items still in the rubric
+function loadExistingRationales(
+  task: AirtableTaskRecord,
+  modelId: string,
+  questions: RubricQuestion[]
+): ItemRationales {
+  const stored = getHumanRationales(getModelEvaluation(task, modelId));
+  return Object.fromEntries(
+    questions.filter((q) => stored[q.key]).map((q) => [q.key, stored[q.key]])
+  );
 }
 
-export default function HumanEvalGeminiPage() {
+export default function HumanEvalPage() {
+  const { getSector } = useSectorCatalog();
   const params = useParams();
   const router = useRouter();
   const taskId = params.taskId as string;
+  const modelId = params.modelId as string;
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [rubricQuestions, setRubricQuestions] = useState<RubricQuestion[]>([]);
@@ -79,11 +126,22 @@ export default function HumanEvalGeminiPage() {
     }
   );
 
+  const { data: policy } = api.sectorPolicies.getBySector.useQuery(
+    {
+      sector:
+        task?.ProfessionalSector as AirtableTaskRecord["ProfessionalSector"],
+    },
+    {
+      enabled: !!task?.ProfessionalSector,
+    }
+  );
+
   // Form setup
   const form = useForm<HumanEvalFormData>({
     defaultValues: {
       taskId,
       evaluations: {},
+      rationales: {},
     },
   });
 
@@ -100,12 +158,17 @@ export default function HumanEvalGeminiPage() {
       // Load existing evaluations if available using the utility function
       const existingEvals = loadExistingEvaluationScores(
         task as AirtableTaskRecord,
-        "human-gemini",
+        modelId,
+        "human",
         questions
       );
       form.setValue("evaluations", existingEvals);
+      form.setValue(
+        "rationales",
+        loadExistingRationales(task as AirtableTaskRecord, modelId, questions)
+      );
     }
-  }, [task, form]);
+  }, [task, form, modelId]);
 
   // Watch form changes to update progress
   const allFormValues = form.watch();
@@ -122,14 +185,14 @@ export default function HumanEvalGeminiPage() {
   }, [allFormValues, rubricQuestions]);
 
   // Mutation for updating human evaluation
-  const updateHumanEvalMutation = api.tasks.updateHumanEvalGemini.useMutation({
+  const updateHumanEvalMutation = api.tasks.updateHumanEval.useMutation({
     onSuccess: (data) => {
       toast.success("Human evaluation saved successfully!", {
         description: data.message,
       });
       setIsSubmitting(false);
-      // Navigate to model evaluation for Gemini
-      router.push(`/dashboard/tasks/${taskId}/evaluation/model-gemini`);
+      // Navigate to model evaluation for the same model
+      router.push(getEvaluationRoute(taskId, modelId, "model"));
     },
     onError: (error) => {
       setIsSubmitting(false);
@@ -139,6 +202,39 @@ export default function HumanEvalGeminiPage() {
     },
   });
 
+  // Keep unsubmitted answers across reloads, for items still in the rubric
+  const autosave = useDraftAutosave({
+    draftKey: { taskId, stage: "human_eval", modelId },
+    value: {
+      evaluations: allFormValues.evaluations || {},
+      rationales: allFormValues.rationales || {},
+    },
+    onRestore: (draft) => {
+      const evaluations = Object.fromEntries(
+        rubricQuestions
+          .filter((q) => draft.evaluations[q.key])
+          .map((q) => [q.key, draft.evaluations[q.key]])
+      );
+      const rationales = Object.fromEntries(
+        rubricQuestions
+          .filter((q) => draft.rationales?.[q.key])
+          .map((q) => [q.key, draft.rationales[q.key]])
+      );
+      form.setValue("evaluations", {
+        ...form.getValues("evaluations"),
+        ...evaluations,
+      });
+      form.setValue("rationales", {
+        ...form.getValues("rationales"),
+        ...rationales,
+      });
+    },
+    enabled:
+      rubricQuestions.length > 0 &&
+      !isSubmitting &&
+      !updateHumanEvalMutation.isSuccess,
+  });
+
   // Form submission
   const onSubmit = async (data: HumanEvalFormData) => {
     setIsSubmitting(true);
@@ -162,7 +258,9 @@ export default function HumanEvalGeminiPage() {
     try {
       await updateHumanEvalMutation.mutateAsync({
         taskId: data.taskId,
+        modelId,
         humanScores,
+        rationales: data.rationales,
       });
     } catch (error) {
       // Error handling is done in the mutation
@@ -225,13 +323,43 @@ export default function HumanEvalGeminiPage() {
     );
   }
 
+  const model = getTaskModel(task as AirtableTaskRecord, modelId);
+  const primaryModel = getPrimaryModel(task as AirtableTaskRecord);
+  const isPrimary = primaryModel.id === modelId;
+  const modelLabel = model?.label || modelId;
+
   // Check if task is in correct state using the utility function
   const prerequisites = getEvaluationPrerequisites(
     task as AirtableTaskRecord,
-    "human-gemini"
+    modelId,
+    "human",
+    policy
   );
 
   if (prerequisites.missingItems.length > 0) {
+    // Send the trainer to the earliest step that is still missing
+    const activeModel =
+      getActiveComparisonModel(task as AirtableTaskRecord) || primaryModel;
+    const prerequisiteStep = isPrimary
+      ? task.Status === "Rubric_V1"
+        ? {
+            route: `/dashboard/tasks/${taskId}/rubric/enhance`,
+            label: "Create V2 Rubric",
+          }
+        : {
+            route: `/dashboard/tasks/${taskId}/rubric/v1`,
+            label: "Create Rubric",
+          }
+      : !prerequisites.hasAlignment
+      ? {
+          route: `/dashboard/tasks/${taskId}/rubric/enhance`,
+          label: "Enhance Rubric",
+        }
+      : {
+          route: getEvaluationRoute(taskId, activeModel.id, "human"),
+          label: `Complete ${activeModel.label} Evaluation`,
+        };
+
     return (
       <div className="space-y-6">
         <div className="flex items-center space-x-4">
@@ -259,18 +387,10 @@ export default function HumanEvalGeminiPage() {
                 variant="outline"
                 size="sm"
                 className="mt-2"
-                onClick={() => {
-                  const shouldCreateV2 = task.Status === "Rubric_V1";
-                  const route = shouldCreateV2
-                    ? `/dashboard/tasks/${taskId}/rubric/enhance`
-                    : `/dashboard/tasks/${taskId}/rubric/v1`;
-                  router.push(route);
-                }}
+                onClick={() => router.push(prerequisiteStep.route)}
               >
                 <Edit className="h-4 w-4 mr-2" />
-                {task.Status === "Rubric_V1"
-                  ? "Create V2 Rubric"
-                  : "Create Rubric"}
+                {prerequisiteStep.label}
               </Button>
             </div>
           </AlertDescription>
@@ -281,9 +401,14 @@ export default function HumanEvalGeminiPage() {
 
   // Check if task is in correct state
   if (
-    !["Rubric_V2", "Rubric_Enhancing", "Human_Eval_Gemini"].includes(
-      task.Status
-    )
+    !checkTransition(
+      isPrimary ? "submitPrimaryHumanEval" : "submitComparisonHumanEval",
+      {
+        task: task as AirtableTaskRecord,
+        policy,
+        modelId,
+      }
+    ).allowed
   ) {
     return (
       <div className="space-y-6">
@@ -309,9 +434,7 @@ export default function HumanEvalGeminiPage() {
     );
   }
 
-  const sectorInfo = professionalSectors.find(
-    (s) => s.value === task.ProfessionalSector
-  );
+  const sectorInfo = getSector(task.ProfessionalSector);
 
   const progressPercentage =
     rubricQuestions.length > 0
@@ -331,13 +454,17 @@ export default function HumanEvalGeminiPage() {
           <div className="space-y-1">
             <div className="flex items-center space-x-3">
               <h1 className="text-3xl font-bold tracking-tight text-foreground">
-                Human Evaluate Gemini
+                Human Evaluate {modelLabel}
               </h1>
               <Badge
-                className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400"
+                className={
+                  isPrimary
+                    ? "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400"
+                    : "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400"
+                }
                 variant="outline"
               >
-                Step 4
+                {isPrimary ? "Step 4" : "Step 6"}
               </Badge>
               <Badge
                 variant="outline"
@@ -363,23 +490,42 @@ export default function HumanEvalGeminiPage() {
         </div>
       </div>
 
+      {/* Primary alignment passed; comparison models reuse the same rubric */}
+      {!isPrimary && (
+        <Alert className="bg-green-50/50 dark:bg-green-950/20 border-green-200 dark:border-green-800">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          <AlertTitle className="text-green-800 dark:text-green-400">
+            {primaryModel.label} Evaluation Complete
+          </AlertTitle>
+          <AlertDescription className="text-green-700 dark:text-green-300">
+            {`${primaryModel.label} alignment: ${
+              prerequisites.alignmentValue
+            }% ✓ (≥${getPolicyThreshold(policy)}% required). Now
+            evaluate the ${modelLabel} response using the same ${versionName} rubric.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Current Rubric Info */}
-      <Alert className="bg-gradient-to-r from-purple-50/50 to-indigo-50/50 dark:from-purple-950/20 dark:to-indigo-950/20 border-purple-200 dark:border-purple-800">
-        <FileText className="h-4 w-4 text-purple-600" />
-        <AlertTitle className="text-purple-800 dark:text-purple-400">
-          Evaluating with {versionName} Rubric
-        </AlertTitle>
-        <AlertDescription className="text-purple-700 dark:text-purple-300">
-          You&apos;re evaluating the Gemini response using the current{" "}
-          {versionName} rubric with {rubricQuestions.length} evaluation
-          criteria.
-          {currentRubricVersion > 2 && (
-            <span className="block mt-1 font-medium">
-              This is an enhanced version created to improve alignment accuracy.
-            </span>
-          )}
-        </AlertDescription>
-      </Alert>
+      {isPrimary && (
+        <Alert className="bg-gradient-to-r from-purple-50/50 to-indigo-50/50 dark:from-purple-950/20 dark:to-indigo-950/20 border-purple-200 dark:border-purple-800">
+          <FileText className="h-4 w-4 text-purple-600" />
+          <AlertTitle className="text-purple-800 dark:text-purple-400">
+            Evaluating with {versionName} Rubric
+          </AlertTitle>
+          <AlertDescription className="text-purple-700 dark:text-purple-300">
+            You&apos;re evaluating the {modelLabel} response using the current{" "}
+            {versionName} rubric with {rubricQuestions.length} evaluation
+            criteria.
+            {currentRubricVersion > 2 && (
+              <span className="block mt-1 font-medium">
+                This is an enhanced version created to improve alignment
+                accuracy.
+              </span>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
 
       {/* Top Section: Task Prompt and Instructions */}
       <div className="grid gap-6 lg:grid-cols-2">
@@ -426,7 +572,7 @@ export default function HumanEvalGeminiPage() {
                 2
               </span>
               <span>
-                Check if the Gemini response meets that specific criterion
+                Check if the {modelLabel} response meets that specific criterion
               </span>
             </div>
             <div className="flex items-start space-x-2">
@@ -476,14 +622,14 @@ export default function HumanEvalGeminiPage() {
       {/* Main Evaluation Section: Form Container */}
       <div className="min-h-0 max-h-[800px]">
         <div className="space-y-6">
-          {/* Gemini Response + Questions Grid */}
+          {/* Response + Questions Grid */}
           <div className="grid gap-6 lg:grid-cols-2 min-h-0">
-            {/* Left: Gemini Response */}
+            {/* Left: Model Response */}
             <Card className="bg-gradient-to-br from-green-50/50 to-emerald-50/50 dark:from-green-950/20 dark:to-emerald-950/20 border-green-200 dark:border-green-800 min-h-0">
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Bot className="h-5 w-5 text-green-600" />
-                  <span>Gemini Response</span>
+                  <span>{modelLabel} Response</span>
                 </CardTitle>
                 <CardDescription>
                   The AI response you&apos;re evaluating with {versionName}
@@ -540,7 +686,7 @@ export default function HumanEvalGeminiPage() {
                         ),
                       }}
                     >
-                      {task.GeminiResponse}
+                      {getModelResponse(task as AirtableTaskRecord, modelId)}
                     </ReactMarkdown>
                   </ScrollArea>
                 </div>
@@ -555,7 +701,7 @@ export default function HumanEvalGeminiPage() {
                   <span>{versionName} Criteria</span>
                 </CardTitle>
                 <CardDescription>
-                  Answer each question based on the Gemini response
+                  Answer each question based on the {modelLabel} response
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -564,6 +710,7 @@ export default function HumanEvalGeminiPage() {
                     const currentValue = form.watch(
                       `evaluations.${question.key}`
                     );
+                    const rationale = form.watch(`rationales.${question.key}`);
 
                     return (
                       <div
@@ -578,9 +725,15 @@ export default function HumanEvalGeminiPage() {
                             <p className="text-sm font-medium leading-relaxed text-foreground">
                               {question.question}
                             </p>
-                            <Badge variant="outline" className="text-xs">
-                              {question.tag}
-                            </Badge>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className="text-xs">
+                                {question.tag}
+                              </Badge>
+                              <RubricItemWeightBadges
+                                weight={question.weight}
+                                critical={question.critical}
+                              />
+                            </div>
                           </div>
                         </div>
 
@@ -633,6 +786,49 @@ export default function HumanEvalGeminiPage() {
                             </div>
                           </RadioGroup>
                         </div>
+
+                        {/* Optional justification for this answer */}
+                        <div className="ml-9 space-y-2">
+                          <Textarea
+                            value={rationale?.justification || ""}
+                            onChange={(e) =>
+                              form.setValue(`rationales.${question.key}`, {
+                                ...rationale,
+                                justification: e.target.value,
+                              })
+                            }
+                            placeholder="Why did you answer this way? (optional)"
+                            maxLength={MAX_RATIONALE_LENGTH}
+                            rows={2}
+                            className="text-sm resize-none"
+                          />
+                          <Select
+                            value={rationale?.confidence || NO_CONFIDENCE}
+                            onValueChange={(value) =>
+                              form.setValue(`rationales.${question.key}`, {
+                                ...rationale,
+                                confidence:
+                                  value === NO_CONFIDENCE
+                                    ? undefined
+                                    : (value as ConfidenceLevel),
+                              })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-[180px] text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_CONFIDENCE}>
+                                Confidence not set
+                              </SelectItem>
+                              {ConfidenceLevel.options.map((level) => (
+                                <SelectItem key={level} value={level}>
+                                  {getConfidenceLabel(level)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                     );
                   })}
@@ -643,7 +839,31 @@ export default function HumanEvalGeminiPage() {
 
           {/* Submit Section */}
           <Card className="bg-background/80 border-border/50">
-            <CardContent className="p-6">
+            <CardContent className="p-6 space-y-4">
+              <DraftStatus
+                status={autosave.status}
+                savedAt={autosave.savedAt}
+                restoredAt={autosave.restoredAt}
+                onDiscard={() => {
+                  const existingEvals = loadExistingEvaluationScores(
+                    task as AirtableTaskRecord,
+                    modelId,
+                    "human",
+                    rubricQuestions
+                  );
+                  const existingRationales = loadExistingRationales(
+                    task as AirtableTaskRecord,
+                    modelId,
+                    rubricQuestions
+                  );
+                  autosave.discard({
+                    evaluations: existingEvals,
+                    rationales: existingRationales,
+                  });
+                  form.setValue("evaluations", existingEvals);
+                  form.setValue("rationales", existingRationales);
+                }}
+              />
               <div className="flex items-center justify-between">
                 <Button
                   variant="outline"
@@ -16,6 +16,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   ArrowLeft,
@@ -33,6 +34,8 @@ import {
   X,
   AlertTriangle,
   Check,
+  Sparkles,
+  Trophy,
 } from "lucide-react";
 
 import { api } from "@/lib/trpc/client";
@@ -41,11 +44,23 @@ import {
   getCurrentRubricVersionName,
   AirtableTaskRecord,
 } from "@/lib/schemas/task";
+import {
+  checkTransition,
+  getEvaluationRoute,
+} from "@/lib/workflow/task-workflow";
+import {
+  getComparisonModels,
+  getModelEvaluation,
+  getModelReasoning,
+  getModelResponse,
+  getTaskModel,
+  isPrimaryModel,
+} from "@/lib/schemas/task-models";
 import {
   generateRubricCheckerPrompt,
   validateEvaluationJSON,
 } from "@/lib/utils/rubric-prompts";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
 import { cn } from "@/lib/utils";
 
 import {
@@ -60,10 +75,12 @@ interface ModelEvalFormData {
   jsonInput: string;
 }
 
-export default function ModelEvalGeminiPage() {
+export default function ModelEvalPage() {
+  const { getSector } = useSectorCatalog();
   const params = useParams();
   const router = useRouter();
   const taskId = params.taskId as string;
+  const modelId = params.modelId as string;
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [promptCopied, setPromptCopied] = useState(false);
@@ -73,6 +90,8 @@ export default function ModelEvalGeminiPage() {
   const [jsonError, setJsonError] = useState("");
   const [jsonWarnings, setJsonWarnings] = useState<string[]>([]);
   const [jsonValid, setJsonValid] = useState(false);
+  // Ask the AI tool for reasoning with each verdict
+  const [explained, setExplained] = useState(false);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [validationSummary, setValidationSummary] = useState<any>(null);
 
@@ -106,17 +125,34 @@ export default function ModelEvalGeminiPage() {
       // Load existing model evaluations if available
       const existingEvals = loadExistingEvaluationScores(
         task as AirtableTaskRecord,
-        "model-gemini",
+        modelId,
+        "model",
         questions
       );
 
       if (Object.keys(existingEvals).length > 0) {
-        const jsonString = JSON.stringify(existingEvals);
+        const reasoning = getModelReasoning(
+          getModelEvaluation(task as AirtableTaskRecord, modelId)
+        );
+        const hasReasoning = Object.keys(reasoning).length > 0;
+        const jsonString = JSON.stringify(
+          hasReasoning
+            ? Object.fromEntries(
+                Object.entries(existingEvals).map(([key, verdict]) => [
+                  key,
+                  reasoning[key]
+                    ? { verdict, reasoning: reasoning[key] }
+                    : verdict,
+                ])
+              )
+            : existingEvals
+        );
+        setExplained(hasReasoning);
         setJsonInput(jsonString);
         form.setValue("jsonInput", jsonString);
       }
     }
-  }, [task, form]);
+  }, [task, form, modelId]);
 
   useEffect(() => {
     if (!jsonInput.trim() || rubricQuestions.length === 0) {
@@ -144,27 +180,58 @@ export default function ModelEvalGeminiPage() {
     setValidationSummary(validation.summary);
   }, [jsonInput, rubricQuestions.length]);
 
-  // Mutation for updating model evaluation
-  const updateModelEvalMutation = api.tasks.updateModelEvalGemini.useMutation({
-    onSuccess: (data) => {
-      toast.success("Model evaluation saved successfully!", {
+  // Shared by manual submission and automated grading
+  const handleEvaluationSaved = (data: {
+    message: string;
+    alignment: number;
+    needsRevision?: boolean;
+    escalated?: boolean;
+    nextModelId?: string;
+    completed: boolean;
+  }) => {
+    toast.success(
+      data.completed
+        ? "Task submitted for review! 🎉"
+        : "Model evaluation saved successfully!",
+      {
         description: data.message,
+      }
+    );
+    setIsSubmitting(false);
+
+    const nextRoute = data.nextModelId
+      ? getEvaluationRoute(taskId, data.nextModelId, "human")
+      : `/dashboard/tasks/${taskId}`;
+
+    // Handle routing based on alignment
+    if (data.completed) {
+      // Navigate back to task details to show the review stage
+      router.push(`/dashboard/tasks/${taskId}`);
+    } else if (data.needsRevision) {
+      toast.warning(`Alignment is ${data.alignment}% - revision required`, {
+        description: "Redirecting to rubric enhancement...",
       });
-      setIsSubmitting(false);
-
-      // Handle routing based on alignment
-      if (data.needsRevision) {
-        toast.warning(`Alignment is ${data.alignment}% - revision required`, {
-          description: "Redirecting to rubric enhancement...",
-        });
-        router.push(`/dashboard/tasks/${taskId}/rubric/enhance`);
-      } else {
+      router.push(`/dashboard/tasks/${taskId}/rubric/enhance`);
+    } else if (data.escalated) {
+      toast.warning(`Alignment is ${data.alignment}% - task escalated`, {
+        description:
+          "Proceeding to comparison evaluation under the sector policy...",
+      });
+      router.push(nextRoute);
+    } else {
+      // Only the primary model's alignment gates the workflow
+      if (data.needsRevision === false) {
         toast.success(`Great alignment: ${data.alignment}%!`, {
-          description: "Proceeding to GPT evaluation...",
+          description: "Proceeding to comparison evaluation...",
         });
-        router.push(`/dashboard/tasks/${taskId}/evaluation/human-gpt`);
       }
-    },
+      router.push(nextRoute);
+    }
+  };
+
+  // Mutation for updating model evaluation
+  const updateModelEvalMutation = api.tasks.updateModelEval.useMutation({
+    onSuccess: handleEvaluationSaved,
     onError: (error) => {
       setIsSubmitting(false);
       toast.error("Failed to save model evaluation", {
@@ -173,6 +240,23 @@ export default function ModelEvalGeminiPage() {
     },
   });
 
+  const { data: graderStatus } = api.tasks.graderStatus.useQuery();
+
+  const autoGradeMutation = api.tasks.autoGradeModelEval.useMutation({
+    onSuccess: handleEvaluationSaved,
+    onError: (error) => {
+      setIsSubmitting(false);
+      toast.error("Automated grading failed", {
+        description: error.message,
+      });
+    },
+  });
+
+  const gradeAutomatically = () => {
+    setIsSubmitting(true);
+    autoGradeMutation.mutate({ taskId, modelId });
+  };
+
   // Generate the checker prompt
   const checkerPrompt = React.useMemo(() => {
     if (!task || !rubricQuestions.length) return "";
@@ -180,16 +264,16 @@ export default function ModelEvalGeminiPage() {
     return generateRubricCheckerPrompt(
       {
         Prompt: task.Prompt,
-        GeminiResponse: task.GeminiResponse,
-        GPTResponse: task.GPTResponse,
+        Response: getModelResponse(task as AirtableTaskRecord, modelId),
       },
       rubricQuestions.map((q) => ({
         id: q.key,
         question: q.question,
         tag: q.tag,
-      }))
+      })),
+      { explained }
     );
-  }, [task, rubricQuestions]);
+  }, [task, rubricQuestions, modelId, explained]);
 
   // Copy prompt to clipboard
   const copyPromptToClipboard = async () => {
@@ -212,12 +296,16 @@ export default function ModelEvalGeminiPage() {
   const exampleJson = useMemo(() => {
     if (rubricQuestions.length === 0) return "";
 
-    const example: Record<string, string> = {};
+    const example: Record<
+      string,
+      string | { verdict: string; reasoning: string }
+    > = {};
     rubricQuestions.forEach((q, index) => {
-      example[q.key] = index % 2 === 0 ? "Yes" : "No";
+      const verdict = index % 2 === 0 ? "Yes" : "No";
+      example[q.key] = explained ? { verdict, reasoning: "..." } : verdict;
     });
     return JSON.stringify(example);
-  }, [rubricQuestions]);
+  }, [rubricQuestions, explained]);
 
   // Form submission
   const onSubmit = async (data: ModelEvalFormData) => {
@@ -227,10 +315,18 @@ export default function ModelEvalGeminiPage() {
     }
     setIsSubmitting(true);
 
+    // Split explained values into verdicts and reasoning
+    const validation = validateEvaluationJSON(
+      jsonInput,
+      rubricQuestions.length
+    );
+
     try {
       await updateModelEvalMutation.mutateAsync({
         taskId: data.taskId,
-        modelScores: jsonInput,
+        modelId,
+        modelScores: JSON.stringify(validation.parsedData),
+        modelReasoning: validation.reasoning,
       });
     } catch (error) {
       console.error("Model evaluation submission error:", error);
@@ -294,8 +390,28 @@ export default function ModelEvalGeminiPage() {
     );
   }
 
+  const modelLabel =
+    getTaskModel(task as AirtableTaskRecord, modelId)?.label || modelId;
+  const isPrimary = isPrimaryModel(task as AirtableTaskRecord, modelId);
+  // The last comparison model to be evaluated completes the task
+  const isFinalEvaluation =
+    !isPrimary &&
+    getComparisonModels(task as AirtableTaskRecord).every(
+      (model) =>
+        model.id === modelId ||
+        !!getModelEvaluation(task as AirtableTaskRecord, model.id).modelScores
+    );
+
   // Check if task is in correct state
-  if (!["Human_Eval_Gemini", "Model_Eval_Gemini"].includes(task.Status)) {
+  if (
+    !checkTransition(
+      isPrimary ? "submitPrimaryModelEval" : "submitComparisonModelEval",
+      {
+        task: task as AirtableTaskRecord,
+        modelId,
+      }
+    ).allowed
+  ) {
     return (
       <div className="space-y-6">
         <div className="flex items-center space-x-4">
@@ -323,7 +439,8 @@ export default function ModelEvalGeminiPage() {
   // Check for required prerequisites using dynamic validation
   const prerequisites = getEvaluationPrerequisites(
     task as AirtableTaskRecord,
-    "model-gemini"
+    modelId,
+    "model"
   );
 
   if (prerequisites.missingItems.length > 0) {
@@ -355,9 +472,7 @@ export default function ModelEvalGeminiPage() {
                 size="sm"
                 className="mt-2"
                 onClick={() =>
-                  router.push(
-                    `/dashboard/tasks/${taskId}/evaluation/human-gemini`
-                  )
+                  router.push(getEvaluationRoute(taskId, modelId, "human"))
                 }
               >
                 <Edit className="h-4 w-4 mr-2" />
@@ -370,9 +485,7 @@ export default function ModelEvalGeminiPage() {
     );
   }
 
-  const sectorInfo = professionalSectors.find(
-    (s) => s.value === task.ProfessionalSector
-  );
+  const sectorInfo = getSector(task.ProfessionalSector);
 
   const versionName = getCurrentRubricVersionName(task as AirtableTaskRecord);
 
@@ -387,13 +500,21 @@ export default function ModelEvalGeminiPage() {
           <div className="space-y-1">
             <div className="flex items-center space-x-3">
               <h1 className="text-3xl font-bold tracking-tight text-foreground">
-                Model Evaluate Gemini
+                Model Evaluate {modelLabel}
               </h1>
               <Badge
-                className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                className={
+                  isPrimary
+                    ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                    : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
+                }
                 variant="outline"
               >
-                Step 5
+                {isPrimary
+                  ? "Step 5"
+                  : isFinalEvaluation
+                  ? "Final Step"
+                  : "Step 7"}
               </Badge>
               <Badge
                 variant="outline"
@@ -415,6 +536,21 @@ export default function ModelEvalGeminiPage() {
         </div>
       </div>
 
+      {/* Final Step Alert */}
+      {isFinalEvaluation && (
+        <Alert className="bg-gradient-to-r from-green-50/50 to-emerald-50/50 dark:from-green-950/20 dark:to-emerald-950/20 border-green-200 dark:border-green-800">
+          <Trophy className="h-4 w-4 text-green-600" />
+          <AlertTitle className="text-green-800 dark:text-green-400">
+            Final Evaluation Step
+          </AlertTitle>
+          <AlertDescription className="text-green-700 dark:text-green-300">
+            This is the last step! After completing the {modelLabel} model
+            evaluation using {versionName}, your task will be submitted to a
+            lead for review.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Instructions */}
       <Card className="bg-gradient-to-br from-amber-50/50 to-orange-50/50 dark:from-amber-950/20 dark:to-orange-950/20 border-amber-200 dark:border-amber-800">
         <CardHeader>
@@ -423,7 +559,7 @@ export default function ModelEvalGeminiPage() {
             <span>Model Evaluation Process</span>
           </CardTitle>
           <CardDescription>
-            How to get the model&apos;s evaluation of the Gemini response
+            How to get the model&apos;s evaluation of the {modelLabel} response
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-3 text-sm">
@@ -437,7 +573,10 @@ export default function ModelEvalGeminiPage() {
             <span className="bg-amber-600 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-medium mt-0.5">
               2
             </span>
-            <span>The AI will evaluate each rubric criterion with Yes/No</span>
+            <span>
+              The AI will evaluate each rubric criterion with Yes/No
+              {explained && ", explaining each verdict"}
+            </span>
           </div>
           <div className="flex items-start space-x-2">
             <span className="bg-amber-600 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs font-medium mt-0.5">
@@ -454,6 +593,39 @@ export default function ModelEvalGeminiPage() {
         </CardContent>
       </Card>
 
+      {/* Automated Grading */}
+      {graderStatus?.enabled && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Sparkles className="h-5 w-5 text-primary" />
+                <div>
+                  <CardTitle>Automated Grading</CardTitle>
+                  <CardDescription>
+                    Grade the {modelLabel} response with{" "}
+                    {graderStatus.model || graderStatus.provider} instead of
+                    pasting JSON from your AI tool
+                  </CardDescription>
+                </div>
+              </div>
+              <Button
+                type="button"
+                onClick={gradeAutomatically}
+                disabled={isSubmitting}
+              >
+                {autoGradeMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-2" />
+                )}
+                Grade Automatically
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+      )}
+
       {/* Rubric Checker Prompt */}
       <Card className="bg-gradient-to-br from-purple-50/50 to-indigo-50/50 dark:from-purple-950/20 dark:to-indigo-950/20 border-purple-200 dark:border-purple-800">
         <CardHeader>
@@ -497,6 +669,18 @@ export default function ModelEvalGeminiPage() {
             </div>
           </div>
         </CardHeader>
+        <CardContent>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="explained-prompt"
+              checked={explained}
+              onCheckedChange={(checked) => setExplained(checked === true)}
+            />
+            <Label htmlFor="explained-prompt" className="text-sm font-normal">
+              Ask for reasoning with each verdict
+            </Label>
+          </div>
+        </CardContent>
         {promptVisible && (
           <CardContent>
             <div className="space-y-4">
@@ -651,7 +835,7 @@ export default function ModelEvalGeminiPage() {
               </>
             ) : (
               <>
-                Submit Evaluation
+                {isFinalEvaluation ? "Submit for Review" : "Submit Evaluation"}
                 <ArrowRight className="h-4 w-4 ml-2" />
               </>
             )}
@@ -36,6 +36,10 @@ import {
   History,
   RefreshCw,
   CheckCheckIcon,
+  ClipboardCheck,
+  MessageSquare,
+  Users,
+  UserX,
 } from "lucide-react";
 
 import { api } from "@/lib/trpc/client";
@@ -44,14 +48,30 @@ import {
   TaskStatus,
   calculateTaskProgress,
   getWorkflowSteps,
-  getNextStatus,
   needsRubricIteration,
   getCurrentRubricVersionName,
-  AlignmentHistoryEntry,
   AirtableTaskRecord,
 } from "@/lib/schemas/task";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import {
+  getPolicyThreshold,
+  getStepRoute,
+  getWorkflowState,
+  meetsAlignmentThreshold,
+  WorkflowCategory as WorkflowStepCategory,
+} from "@/lib/workflow/task-workflow";
+import {
+  getPrimaryAlignment,
+  getPrimaryModel,
+} from "@/lib/schemas/task-models";
+import { parseAlignmentHistory } from "@/lib/utils/rubric-history";
+import {
+  getLatestChangeRequest,
+  getReturnStageInfo,
+  REVIEW_QUEUE_STATUSES,
+} from "@/lib/schemas/review.schema";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
 import { cn } from "@/lib/utils";
+import { TaskAssignmentCard } from "../../_components/tasks/TaskAssignmentCard";
 
 type StepCardState = "locked" | "current" | "completed" | "needs_revision";
 
@@ -64,7 +84,7 @@ interface StepCard {
   state: StepCardState;
   icon: React.ComponentType<{ className?: string }>;
   estimatedTime: string;
-  category: "setup" | "rubric" | "evaluation" | "completion";
+  category: WorkflowStepCategory;
   isIterative?: boolean;
   iterationInfo?: {
     currentVersion: number;
@@ -84,6 +104,7 @@ interface WorkflowCategory {
 }
 
 export default function TaskDetailsPage() {
+  const { getSector } = useSectorCatalog();
   const params = useParams();
   const router = useRouter();
   const taskId = params.taskId as string;
@@ -100,6 +121,16 @@ export default function TaskDetailsPage() {
     }
   );
 
+  const { data: policy } = api.sectorPolicies.getBySector.useQuery(
+    {
+      sector:
+        task?.ProfessionalSector as AirtableTaskRecord["ProfessionalSector"],
+    },
+    {
+      enabled: !!task?.ProfessionalSector,
+    }
+  );
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -157,9 +188,7 @@ export default function TaskDetailsPage() {
 
   // Get task metadata
   const statusInfo = getStatusDisplayInfo(task.Status);
-  const sectorInfo = professionalSectors.find(
-    (s) => s.value === task.ProfessionalSector
-  );
+  const sectorInfo = getSector(task.ProfessionalSector);
   const progress = calculateTaskProgress(
     task.Status,
     task.Current_Rubric_Version
@@ -168,54 +197,26 @@ export default function TaskDetailsPage() {
   const versionName = getCurrentRubricVersionName(task as AirtableTaskRecord);
 
   // Check for alignment issues that require revision
-  const hasGeminiAlignment = task.Alignment_Gemini !== undefined;
-  const geminiAlignmentLow =
-    hasGeminiAlignment && (task.Alignment_Gemini as number) < 80;
-  const needsRevision = needsRubricIteration(task as AirtableTaskRecord);
-  const nextStatus = getNextStatus(
-    task.Status,
-    task.Alignment_Gemini as number,
-    currentVersion
+  const threshold = getPolicyThreshold(policy);
+  const primaryModel = getPrimaryModel(task as AirtableTaskRecord);
+  const primaryAlignment = getPrimaryAlignment(task as AirtableTaskRecord);
+  const primaryAlignmentLow =
+    primaryAlignment !== undefined &&
+    !meetsAlignmentThreshold(primaryAlignment, threshold);
+  const needsRevision = needsRubricIteration(
+    task as AirtableTaskRecord,
+    threshold
   );
 
-  // Parse alignment history
-  let alignmentHistory: AlignmentHistoryEntry[] = [];
-  try {
-    if (task.Alignment_History && typeof task.Alignment_History === "string") {
-      alignmentHistory = JSON.parse(task.Alignment_History);
-    }
-  } catch (error) {
-    console.error("Error parsing alignment history:", error);
-  }
+  const alignmentHistory = parseAlignmentHistory(task as AirtableTaskRecord);
+  const changeRequest =
+    task.Status === "Changes_Requested" || task.Review_Return_Stage
+      ? getLatestChangeRequest(task as AirtableTaskRecord)
+      : undefined;
 
   // Generate workflow steps with dynamic iterations
-  const workflowSteps = getWorkflowSteps(task as AirtableTaskRecord);
-  const completedStepNumber = statusInfo.step;
-
-  // Route generation function
-  const getRouteForStep = (status: TaskStatus): string => {
-    switch (status) {
-      case "Task_Creation":
-        return `/dashboard/tasks/${taskId}`;
-      case "Rubric_V1":
-        return `/dashboard/tasks/${taskId}/rubric/v1`;
-      case "Rubric_V2":
-      case "Rubric_Enhancing":
-        return `/dashboard/tasks/${taskId}/rubric/enhance`;
-      case "Human_Eval_Gemini":
-        return `/dashboard/tasks/${taskId}/evaluation/human-gemini`;
-      case "Model_Eval_Gemini":
-        return `/dashboard/tasks/${taskId}/evaluation/model-gemini`;
-      case "Human_Eval_GPT":
-        return `/dashboard/tasks/${taskId}/evaluation/human-gpt`;
-      case "Model_Eval_GPT":
-        return `/dashboard/tasks/${taskId}/evaluation/model-gpt`;
-      case "Completed":
-        return `/dashboard/tasks/${taskId}/results`;
-      default:
-        return `/dashboard/tasks/${taskId}`;
-    }
-  };
+  const workflowSteps = getWorkflowSteps(task as AirtableTaskRecord, threshold);
+  const currentStepIndex = workflowSteps.findIndex((step) => !step.isComplete);
 
   // Icon mapping for each step
   const getIconForStep = (
@@ -234,8 +235,14 @@ export default function TaskDetailsPage() {
       case "Model_Eval_Gemini":
       case "Model_Eval_GPT":
         return Bot;
+      case "In_Review":
+        return ClipboardCheck;
+      case "Changes_Requested":
+        return MessageSquare;
       case "Completed":
         return CheckCircle;
+      case "Abandoned":
+        return UserX;
       default:
         return FileText;
     }
@@ -243,18 +250,17 @@ export default function TaskDetailsPage() {
 
   // Generate step cards
   const stepCards: StepCard[] = workflowSteps.map((step, index) => {
-    const stepNumber = index + 1;
     let state: StepCardState = "locked";
 
-    if (stepNumber <= completedStepNumber) {
+    if (step.isComplete) {
       state = "completed";
-    } else if (stepNumber === completedStepNumber + 1) {
+    } else if (index === currentStepIndex) {
       if (
         (step.status === "Rubric_V2" || step.status === "Rubric_Enhancing") &&
         needsRevision
       ) {
         state = "needs_revision";
-      } else if (nextStatus && step.status === nextStatus) {
+      } else {
         state = "current";
       }
     }
@@ -264,33 +270,19 @@ export default function TaskDetailsPage() {
       state = "needs_revision";
     }
 
-    // Determine category
-    let category: StepCard["category"] = "setup";
-    if (["Rubric_V1", "Rubric_V2", "Rubric_Enhancing"].includes(step.status)) {
-      category = "rubric";
-    } else if (
-      [
-        "Human_Eval_Gemini",
-        "Model_Eval_Gemini",
-        "Human_Eval_GPT",
-        "Model_Eval_GPT",
-      ].includes(step.status)
-    ) {
-      category = "evaluation";
-    } else if (step.status === "Completed") {
-      category = "completion";
-    }
-
     return {
-      id: step.status.toLowerCase(),
+      // Evaluation statuses repeat once per model
+      id: step.modelId
+        ? `${step.status.toLowerCase()}-${step.modelId}`
+        : step.status.toLowerCase(),
       status: step.status,
       title: step.label,
       description: step.description,
-      route: getRouteForStep(step.status),
+      route: getStepRoute(taskId, step),
       state,
       icon: getIconForStep(step.status),
       estimatedTime: step.estimatedTime,
-      category,
+      category: getWorkflowState(step.status)?.category || "setup",
       isIterative: step.isIterative,
       iterationInfo: step.iterationInfo,
     };
@@ -486,7 +478,13 @@ export default function TaskDetailsPage() {
               View Sources
             </Link>
           </Button>
-          {task.Status === "Completed" && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/dashboard/tasks/${taskId}/agreement`}>
+              <Users className="w-4 h-4 mr-2" />
+              Agreement
+            </Link>
+          </Button>
+          {REVIEW_QUEUE_STATUSES.includes(task.Status) && (
             <Button size="sm" asChild>
               <Link href={`/dashboard/tasks/${taskId}/results`}>
                 <BarChart3 className="w-4 h-4 mr-2" />
@@ -535,15 +533,80 @@ export default function TaskDetailsPage() {
         </CardContent>
       </Card>
 
+      {/* Lead Review */}
+      {task.Status === "In_Review" && (
+        <Alert>
+          <ClipboardCheck className="h-4 w-4" />
+          <AlertTitle>Awaiting Lead Review</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>
+              All evaluations are done. A lead will approve the task or request
+              changes.
+            </p>
+            <Button size="sm" variant="outline" asChild className="mt-2">
+              <Link href={`/dashboard/tasks/${taskId}/review`}>
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Open Review
+              </Link>
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {task.Status === "Abandoned" && (
+        <Alert>
+          <UserX className="h-4 w-4" />
+          <AlertTitle>Task Abandoned</AlertTitle>
+          <AlertDescription>
+            No one is working on this task. A lead can assign it to a trainer to
+            pick it up where it was left.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {changeRequest && (
+        <Alert className="border-rose-500/50 text-rose-800 dark:text-rose-300">
+          <MessageSquare className="h-4 w-4" />
+          <AlertTitle>
+            {task.Status === "Changes_Requested"
+              ? "Changes Requested"
+              : "Revising After Lead Review"}
+          </AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>
+              {changeRequest.authorName || changeRequest.authorEmail} sent the
+              task back to{" "}
+              {changeRequest.returnStage
+                ? getReturnStageInfo(
+                    changeRequest.returnStage
+                  ).label.toLowerCase()
+                : "an earlier stage"}
+              :
+            </p>
+            <p className="whitespace-pre-wrap italic">
+              {changeRequest.message}
+            </p>
+            {task.Status === "Changes_Requested" && (
+              <Button size="sm" variant="outline" asChild className="mt-2">
+                <Link href={`/dashboard/tasks/${taskId}/review`}>
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Address Feedback
+                </Link>
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Alignment Warning */}
-      {geminiAlignmentLow && (
+      {primaryAlignmentLow && (
         <Alert variant="destructive">
           <AlertTriangle className="h-4 w-4" />
           <AlertTitle>Alignment Below Threshold</AlertTitle>
           <AlertDescription className="space-y-2">
             <p>
-              {`Gemini evaluation alignment is ${task.Alignment_Gemini}% (minimum 80% required). 
-              You need to enhance your rubric and re-evaluate before proceeding to GPT evaluation.`}
+              {`${primaryModel.label} evaluation alignment is ${primaryAlignment}% (minimum ${threshold}% required). 
+              You need to enhance your rubric and re-evaluate before proceeding to comparison evaluation.`}
             </p>
             {alignmentHistory.length > 0 && (
               <div className="flex items-center space-x-2 text-sm">
@@ -577,8 +640,18 @@ export default function TaskDetailsPage() {
               <History className="h-5 w-5 text-sky-600 dark:text-sky-400" />
               <span>Rubric Iteration Progress</span>
             </CardTitle>
-            <CardDescription>
-              Alignment improvement across rubric versions
+            <CardDescription className="flex items-center justify-between">
+              <span>Alignment improvement across rubric versions</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  router.push(`/dashboard/tasks/${taskId}/rubric/history`)
+                }
+              >
+                <History className="h-4 w-4 mr-2" />
+                Compare Versions
+              </Button>
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -591,7 +664,7 @@ export default function TaskDetailsPage() {
                   <div
                     className={cn(
                       "w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold mb-2",
-                      entry.alignment >= 80
+                      meetsAlignmentThreshold(entry.alignment, threshold)
                         ? "bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400"
                         : "bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400"
                     )}
@@ -605,7 +678,7 @@ export default function TaskDetailsPage() {
                     {entry.misalignedCount} issues
                   </p>
                   {index === alignmentHistory.length - 1 &&
-                    entry.alignment < 80 && (
+                    !meetsAlignmentThreshold(entry.alignment, threshold) && (
                       <Badge
                         variant="outline"
                         className="text-xs mt-1 text-amber-600 dark:text-amber-400 border-amber-500 dark:border-amber-600"
@@ -622,7 +695,7 @@ export default function TaskDetailsPage() {
                   <Target className="w-4 h-4" />
                 </div>
                 <p className="text-lg font-bold text-center text-green-600">
-                  80%
+                  {threshold}%
                 </p>
                 <p className="text-xs text-muted-foreground text-center">
                   Target
@@ -861,17 +934,17 @@ export default function TaskDetailsPage() {
               <p className="text-xs text-muted-foreground">Current Version</p>
               <div className="flex items-center space-x-2">
                 <p className="text-sm font-medium">{versionName}</p>
-                {task.Alignment_Gemini && (
+                {primaryAlignment !== undefined && (
                   <Badge
                     variant="outline"
                     className={cn(
                       "text-xs",
-                      (task.Alignment_Gemini as number) >= 80
+                      meetsAlignmentThreshold(primaryAlignment, threshold)
                         ? "text-green-600 dark:text-green-400 border-green-500 dark:border-green-600"
                         : "text-amber-600 dark:text-amber-400 border-amber-500 dark:border-amber-600"
                     )}
                   >
-                    {`${task.Alignment_Gemini}% aligned`}
+                    {`${primaryModel.label} ${primaryAlignment}% aligned`}
                   </Badge>
                 )}
               </div>
@@ -879,6 +952,11 @@ export default function TaskDetailsPage() {
           </div>
         </CardContent>
       </Card>
+
+      <TaskAssignmentCard
+        task={task as AirtableTaskRecord}
+        onUpdated={() => refetch()}
+      />
     </div>
   );
 }
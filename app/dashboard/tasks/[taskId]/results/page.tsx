@@ -33,15 +33,28 @@ import {
   Eye,
   EyeOff,
   Target,
+  MessageSquare,
+  Tags,
+  History,
+  Scale,
+  ShieldAlert,
+  Swords,
 } from "lucide-react";
 
 import { api } from "@/lib/trpc/client";
 import {
   getStatusDisplayInfo,
   getCurrentRubricVersionName,
+  getConfidenceLabel,
   AirtableTaskRecord,
+  ItemRationale,
+  ItemRationales,
+  ModelReasoning,
+  getCurrentRubricContent,
+  parseRubricContent,
 } from "@/lib/schemas/task";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { RubricItemWeightBadges } from "../../../_components/rubric/RubricItemWeightBadges";
 import { cn } from "@/lib/utils";
 
 // Import our reusable utilities
@@ -49,20 +62,118 @@ import {
   parseCurrentRubricQuestions,
   type RubricQuestion,
 } from "@/lib/utils/evaluation-utils";
+import {
+  getAlignmentMetrics,
+  getCandidateResponses,
+  getHumanRationales,
+  getModelEvaluation,
+  getModelReasoning,
+  getWeightedScores,
+} from "@/lib/schemas/task-models";
+import { REVIEW_QUEUE_STATUSES } from "@/lib/schemas/review.schema";
+import { getTaskTagAlignment } from "@/lib/utils/tag-alignment";
+import { getTaskModelComparison } from "@/lib/utils/model-comparison";
+import { parseAlignmentHistory } from "@/lib/utils/rubric-history";
+import type { AlignmentMetrics } from "@/lib/utils/alignment-metrics";
+import {
+  getPolicyKappaThreshold,
+  getPolicyThreshold,
+  meetsAlignmentThreshold,
+  meetsKappaThreshold,
+} from "@/lib/workflow/task-workflow";
+
+// Card colors per model, in task order (primary first)
+const MODEL_COLORS = [
+  {
+    text: "text-green-600",
+    bullet: "bg-green-600",
+    badge: "text-green-600 border-green-600",
+    card: "border-green-200 dark:border-green-800",
+  },
+  {
+    text: "text-orange-600",
+    bullet: "bg-orange-600",
+    badge: "text-orange-600 border-orange-600",
+    card: "bg-gradient-to-br from-orange-50/50 to-red-50/50 dark:from-orange-950/20 dark:to-red-950/20 border-orange-200 dark:border-orange-800",
+  },
+  {
+    text: "text-blue-600",
+    bullet: "bg-blue-600",
+    badge: "text-blue-600 border-blue-600",
+    card: "border-blue-200 dark:border-blue-800",
+  },
+  {
+    text: "text-purple-600",
+    bullet: "bg-purple-600",
+    badge: "text-purple-600 border-purple-600",
+    card: "border-purple-200 dark:border-purple-800",
+  },
+];
+
+function formatMetric(value: number | null | undefined, suffix = "") {
+  return value === null || value === undefined ? "—" : `${value}${suffix}`;
+}
+
+// Human labels as rows, grader verdicts as columns
+function ConfusionMatrixTable({ metrics }: { metrics: AlignmentMetrics }) {
+  const { truePositive, falsePositive, falseNegative, trueNegative } =
+    metrics.confusion;
+  return (
+    <table className="text-sm">
+      <thead>
+        <tr className="text-muted-foreground">
+          <th className="py-1 pr-4" />
+          <th className="py-1 px-4 font-medium">AI: Yes</th>
+          <th className="py-1 px-4 font-medium">AI: No</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <th className="py-1 pr-4 text-left font-medium text-muted-foreground">
+            Human: Yes
+          </th>
+          <td className="py-1 px-4 text-center font-semibold text-green-600">
+            {truePositive}
+          </td>
+          <td className="py-1 px-4 text-center font-semibold text-red-600">
+            {falseNegative}
+          </td>
+        </tr>
+        <tr>
+          <th className="py-1 pr-4 text-left font-medium text-muted-foreground">
+            Human: No
+          </th>
+          <td className="py-1 px-4 text-center font-semibold text-red-600">
+            {falsePositive}
+          </td>
+          <td className="py-1 px-4 text-center font-semibold text-green-600">
+            {trueNegative}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
 
 interface EvaluationResult {
   question: string;
+  weight?: number;
+  critical?: boolean;
   humanScore: "Yes" | "No";
   modelScore: "Yes" | "No";
   isAligned: boolean;
+  rationale?: ItemRationale;
+  modelReasoning?: string;
 }
 
 export default function TaskResultsPage() {
+  const { getSector } = useSectorCatalog();
   const params = useParams();
   const router = useRouter();
   const taskId = params.taskId as string;
 
   const [showPrompt, setShowPrompt] = useState(false);
+  const [showAllItems, setShowAllItems] = useState(false);
 
   // Fetch task data
   const {
@@ -77,6 +188,16 @@ export default function TaskResultsPage() {
     }
   );
 
+  const { data: policy } = api.sectorPolicies.getBySector.useQuery(
+    {
+      sector:
+        task?.ProfessionalSector as AirtableTaskRecord["ProfessionalSector"],
+    },
+    {
+      enabled: !!task?.ProfessionalSector,
+    }
+  );
+
   if (taskLoading) {
     return (
       <div className="space-y-6">
@@ -132,8 +253,9 @@ export default function TaskResultsPage() {
     );
   }
 
-  // Check if task is completed
-  if (task.Status !== "Completed") {
+  // Results are available once every evaluation is done, including while the
+  // task is with a lead for review
+  if (!REVIEW_QUEUE_STATUSES.includes(task.Status)) {
     return (
       <div className="space-y-6">
         <div className="flex items-center space-x-4">
@@ -171,11 +293,19 @@ export default function TaskResultsPage() {
     task as AirtableTaskRecord
   );
   const versionName = getCurrentRubricVersionName(task as AirtableTaskRecord);
+  const currentRubricContent = getCurrentRubricContent(
+    task as AirtableTaskRecord
+  );
+  const currentRubric = currentRubricContent
+    ? parseRubricContent(currentRubricContent)
+    : null;
 
   const parseEvaluationResults = (
     humanScores: string,
     modelScores: string,
-    rubricQuestions: RubricQuestion[]
+    rubricQuestions: RubricQuestion[],
+    rationales: ItemRationales,
+    reasoning: ModelReasoning
   ): EvaluationResult[] => {
     try {
       const human = JSON.parse(humanScores);
@@ -183,39 +313,70 @@ export default function TaskResultsPage() {
 
       return rubricQuestions.map((q) => ({
         question: q.question,
+        weight: q.weight,
+        critical: q.critical,
         humanScore: human[q.key] as "Yes" | "No",
         modelScore: model[q.key] as "Yes" | "No",
         isAligned: human[q.key] === model[q.key],
+        rationale: rationales[q.key],
+        modelReasoning: reasoning[q.key],
       }));
     } catch {
       return [];
     }
   };
 
-  const geminiResults =
-    task.Human_Eval_Gemini && task.Model_Eval_Gemini
-      ? parseEvaluationResults(
-          task.Human_Eval_Gemini as string,
-          task.Model_Eval_Gemini as string,
-          rubricQuestions
-        )
-      : [];
-  const gptResults =
-    task.Human_Eval_GPT && task.Model_Eval_GPT
-      ? parseEvaluationResults(
-          task.Human_Eval_GPT as string,
-          task.Model_Eval_GPT as string,
-          rubricQuestions
-        )
-      : [];
-
-  const sectorInfo = professionalSectors.find(
-    (s) => s.value === task.ProfessionalSector
+  const modelResults = getCandidateResponses(task as AirtableTaskRecord).map(
+    (candidate, index) => {
+      const evaluation = getModelEvaluation(
+        task as AirtableTaskRecord,
+        candidate.id
+      );
+      return {
+        ...candidate,
+        isPrimary: index === 0,
+        colors: MODEL_COLORS[index % MODEL_COLORS.length],
+        alignment: evaluation.alignment || 0,
+        metrics: getAlignmentMetrics(evaluation),
+        weightedScores: getWeightedScores(evaluation, currentRubric),
+        results:
+          evaluation.humanScores && evaluation.modelScores
+            ? parseEvaluationResults(
+                evaluation.humanScores,
+                evaluation.modelScores,
+                rubricQuestions,
+                getHumanRationales(evaluation),
+                getModelReasoning(evaluation)
+              )
+            : [],
+      };
+    }
   );
 
-  const geminiAlignment = (task.Alignment_Gemini as number) || 0;
-  const gptAlignment = (task.Alignment_GPT as number) || 0;
-  const averageAlignment = Math.round((geminiAlignment + gptAlignment) / 2);
+  // Human pass rates and the items where the models' responses differed
+  const headToHead = getTaskModelComparison(task as AirtableTaskRecord);
+  const contestedItems = headToHead.items.filter(
+    (item) => item.winners.length > 0
+  );
+  const visibleItems = showAllItems ? headToHead.items : contestedItems;
+
+  // Tags in order of first appearance across models, weakest first per model
+  const tagAlignment = getTaskTagAlignment(task as AirtableTaskRecord);
+  const tagRows = Array.from(
+    new Set(tagAlignment.flatMap((model) => model.tags.map((t) => t.tag)))
+  );
+
+  const sectorInfo = getSector(task.ProfessionalSector);
+
+  // The sector gates the primary model on percent match and, optionally, kappa
+  const threshold = getPolicyThreshold(policy);
+  const kappaThreshold = getPolicyKappaThreshold(policy);
+  const alignmentHistory = parseAlignmentHistory(task as AirtableTaskRecord);
+
+  const averageAlignment = Math.round(
+    modelResults.reduce((sum, model) => sum + model.alignment, 0) /
+      modelResults.length
+  );
 
   const exportResults = () => {
     const exportData = {
@@ -224,12 +385,19 @@ export default function TaskResultsPage() {
       sector: task.ProfessionalSector,
       prompt: task.Prompt,
       rubricVersion: versionName,
-      geminiAlignment: geminiAlignment,
-      gptAlignment: gptAlignment,
       averageAlignment: averageAlignment,
       rubricQuestions: rubricQuestions.length,
-      geminiResults: geminiResults,
-      gptResults: gptResults,
+      alignmentHistory,
+      models: modelResults.map((model) => ({
+        id: model.id,
+        label: model.label,
+        alignment: model.alignment,
+        metrics: model.metrics,
+        weightedScores: model.weightedScores,
+        results: model.results,
+        tagAlignment: tagAlignment.find((t) => t.modelId === model.id)?.tags,
+        headToHead: headToHead.models.find((m) => m.modelId === model.id),
+      })),
     };
 
     const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -263,7 +431,7 @@ export default function TaskResultsPage() {
                 className="border-green-300 text-green-700 dark:border-green-700 dark:text-green-400"
               >
                 <Trophy className="w-3 h-3 mr-1" />
-                Completed
+                {getStatusDisplayInfo(task.Status).label}
               </Badge>
               <Badge
                 variant="outline"
@@ -354,68 +522,70 @@ export default function TaskResultsPage() {
           </CardContent>
         </Card>
 
-        {/* Gemini Results */}
-        <Card className="border-green-200 dark:border-green-800">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Bot className="h-5 w-5 text-green-600" />
-              <span>Gemini Alignment</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="text-center">
-                <p className="text-4xl font-bold text-green-600">
-                  {geminiAlignment}%
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Human-AI Agreement
-                </p>
-              </div>
-              <Progress value={geminiAlignment} className="h-2" />
-              <div className="flex justify-between text-sm">
-                <span>Status</span>
-                <span
-                  className={cn(
-                    "font-medium",
-                    geminiAlignment >= 80 ? "text-green-600" : "text-red-600"
+        {/* Per-model Results */}
+        {modelResults.map((model) => (
+          <Card key={model.id} className={model.colors.card}>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Bot className={cn("h-5 w-5", model.colors.text)} />
+                <span>{model.label} Alignment</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="text-center">
+                  <p className={cn("text-4xl font-bold", model.colors.text)}>
+                    {model.alignment}%
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Human-AI Agreement
+                  </p>
+                </div>
+                <Progress value={model.alignment} className="h-2" />
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Cohen&apos;s Kappa</span>
+                    <span className="font-medium">
+                      {formatMetric(model.metrics?.kappa)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>AI Precision / Recall</span>
+                    <span className="font-medium">
+                      {formatMetric(model.metrics?.precision, "%")} /{" "}
+                      {formatMetric(model.metrics?.recall, "%")}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Status</span>
+                  {model.isPrimary ? (
+                    !meetsAlignmentThreshold(model.alignment, threshold) ? (
+                      <span className="font-medium text-red-600">
+                        ⚠ Below {threshold}% Threshold
+                      </span>
+                    ) : !meetsKappaThreshold(
+                        model.metrics?.kappa,
+                        kappaThreshold
+                      ) ? (
+                      <span className="font-medium text-red-600">
+                        ⚠ Kappa Below {kappaThreshold}
+                      </span>
+                    ) : (
+                      <span className="font-medium text-green-600">
+                        ✓ Passed
+                      </span>
+                    )
+                  ) : (
+                    <span className="font-medium text-blue-600">
+                      📊 Analysis Complete
+                    </span>
                   )}
-                >
-                  {geminiAlignment >= 80 ? "✓ Passed" : "⚠ Below Threshold"}
-                </span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* GPT Results */}
-        <Card className="bg-gradient-to-br from-orange-50/50 to-red-50/50 dark:from-orange-950/20 dark:to-red-950/20 border-orange-200 dark:border-orange-800">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Bot className="h-5 w-5 text-orange-600" />
-              <span>GPT Alignment</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="text-center">
-                <p className="text-4xl font-bold text-orange-600">
-                  {gptAlignment}%
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Human-AI Agreement
-                </p>
-              </div>
-              <Progress value={gptAlignment} className="h-2" />
-              <div className="flex justify-between text-sm">
-                <span>Status</span>
-                <span className="font-medium text-blue-600">
-                  📊 Analysis Complete
-                </span>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* Task Overview */}
@@ -465,59 +635,52 @@ export default function TaskResultsPage() {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="comparison" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList
+              className="grid w-full"
+              style={{
+                gridTemplateColumns: `repeat(${
+                  modelResults.length + 1
+                }, minmax(0, 1fr))`,
+              }}
+            >
               <TabsTrigger value="comparison">Model Comparison</TabsTrigger>
-              <TabsTrigger value="gemini">Gemini Analysis</TabsTrigger>
-              <TabsTrigger value="gpt">GPT Analysis</TabsTrigger>
+              {modelResults.map((model) => (
+                <TabsTrigger key={model.id} value={model.id}>
+                  {model.label} Analysis
+                </TabsTrigger>
+              ))}
             </TabsList>
 
             <TabsContent value="comparison" className="space-y-6">
               <div className="grid gap-6 lg:grid-cols-2">
-                {/* Gemini Response */}
-                <Card className="border-green-200 dark:border-green-800">
-                  <CardHeader>
-                    <CardTitle className="flex items-center space-x-2">
-                      <Bot className="h-5 w-5 text-green-600" />
-                      <span>Gemini Response</span>
-                      <Badge
-                        variant="outline"
-                        className="text-green-600 border-green-600"
-                      >
-                        {geminiAlignment}% Aligned
-                      </Badge>
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="prose dark:prose-invert max-w-none text-sm">
-                      <div className="bg-background/50 p-4 rounded-lg border border-border/30 max-h-64 custom-scrollbar overflow-y-auto">
-                        <ReactMarkdown>{task.GeminiResponse}</ReactMarkdown>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-
-                {/* GPT Response */}
-                <Card className="bg-gradient-to-br from-orange-50/50 to-red-50/50 dark:from-orange-950/20 dark:to-red-950/20 border-orange-200 dark:border-orange-800">
-                  <CardHeader>
-                    <CardTitle className="flex items-center space-x-2">
-                      <Bot className="h-5 w-5 text-orange-600" />
-                      <span>GPT Response</span>
-                      <Badge
-                        variant="outline"
-                        className="text-orange-600 border-orange-600"
-                      >
-                        {gptAlignment}% Aligned
-                      </Badge>
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="prose dark:prose-invert max-w-none text-sm">
-                      <div className="bg-background/50 p-4 custom-scrollbar  rounded-lg border border-border/30 max-h-64 overflow-y-auto">
-                        <ReactMarkdown>{task.GPTResponse}</ReactMarkdown>
+                {modelResults.map((model) => (
+                  <Card key={model.id} className={model.colors.card}>
+                    <CardHeader>
+                      <CardTitle className="flex items-center space-x-2">
+                        <Bot className={cn("h-5 w-5", model.colors.text)} />
+                        <span>{model.label} Response</span>
+                        <Badge variant="outline" className={model.colors.badge}>
+                          {model.alignment}% Aligned
+                        </Badge>
+                        {model.weightedScores &&
+                          model.weightedScores.human.criticalFailures.length >
+                            0 && (
+                            <Badge variant="destructive">
+                              <ShieldAlert className="w-3 h-3 mr-1" />
+                              Fails critical item
+                            </Badge>
+                          )}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="prose dark:prose-invert max-w-none text-sm">
+                        <div className="bg-background/50 p-4 rounded-lg border border-border/30 max-h-64 custom-scrollbar overflow-y-auto">
+                          <ReactMarkdown>{model.response}</ReactMarkdown>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
+                    </CardContent>
+                  </Card>
+                ))}
               </div>
 
               {/* Alignment Comparison */}
@@ -534,24 +697,19 @@ export default function TaskResultsPage() {
                 <CardContent>
                   <div className="space-y-4">
                     <div className="grid gap-4 md:grid-cols-2">
-                      <div className="space-y-2">
-                        <div className="flex justify-between text-sm">
-                          <span>Gemini Alignment</span>
-                          <span className="font-semibold text-green-600">
-                            {geminiAlignment}%
-                          </span>
-                        </div>
-                        <Progress value={geminiAlignment} className="h-2" />
-                      </div>
-                      <div className="space-y-2">
-                        <div className="flex justify-between text-sm">
-                          <span>GPT Alignment</span>
-                          <span className="font-semibold text-orange-600">
-                            {gptAlignment}%
-                          </span>
+                      {modelResults.map((model) => (
+                        <div key={model.id} className="space-y-2">
+                          <div className="flex justify-between text-sm">
+                            <span>{model.label} Alignment</span>
+                            <span
+                              className={cn("font-semibold", model.colors.text)}
+                            >
+                              {model.alignment}%
+                            </span>
+                          </div>
+                          <Progress value={model.alignment} className="h-2" />
                         </div>
-                        <Progress value={gptAlignment} className="h-2" />
-                      </div>
+                      ))}
                     </div>
                     <div className="text-center p-4 bg-primary/5 rounded-lg">
                       <p className="text-lg font-semibold text-primary">
@@ -568,191 +726,569 @@ export default function TaskResultsPage() {
                   </div>
                 </CardContent>
               </Card>
-            </TabsContent>
 
-            <TabsContent value="gemini" className="space-y-6">
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-semibold">
-                    Gemini Evaluation Breakdown ({versionName})
-                  </h3>
-                  <Badge
-                    className="text-green-600 border-green-600"
-                    variant="outline"
-                  >
-                    {geminiResults.filter((r) => r.isAligned).length}/
-                    {geminiResults.length} Aligned
-                  </Badge>
-                </div>
+              {/* Head-to-Head */}
+              {headToHead.models.length >= 2 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Swords className="h-5 w-5" />
+                      <span>Head-to-Head</span>
+                    </CardTitle>
+                    <CardDescription>
+                      How often each response satisfied the rubric according to
+                      the human evaluation. A model wins an item when it got
+                      &ldquo;Yes&rdquo; and another model got &ldquo;No&rdquo;.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="grid gap-4 md:grid-cols-2">
+                      {headToHead.models.map((entry) => {
+                        const colors = modelResults.find(
+                          (model) => model.id === entry.modelId
+                        )?.colors;
+                        return (
+                          <div key={entry.modelId} className="space-y-2">
+                            <div className="flex justify-between text-sm">
+                              <span>{entry.label} Pass Rate</span>
+                              <span
+                                className={cn("font-semibold", colors?.text)}
+                              >
+                                {entry.passRate}% ({entry.passed}/{entry.total})
+                              </span>
+                            </div>
+                            <Progress value={entry.passRate} className="h-2" />
+                            <p className="text-xs text-muted-foreground">
+                              <span className="text-green-600">
+                                {entry.itemWins} item wins
+                              </span>
+                              {" · "}
+                              <span className="text-red-600">
+                                {entry.itemLosses} item losses
+                              </span>
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </div>
 
-                {geminiResults.map((result, index) => (
-                  <Card
-                    key={index}
-                    className={cn(
-                      "border transition-all duration-200",
-                      result.isAligned
-                        ? "border-green-200 dark:border-green-800 bg-green-50/30 dark:bg-green-950/20"
-                        : "border-red-200 dark:border-red-800 bg-red-50/30 dark:bg-red-950/20"
-                    )}
-                  >
-                    <CardContent className="p-4">
-                      <div className="space-y-3">
-                        <div className="flex items-start space-x-3">
-                          <span className="bg-green-600 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs font-medium mt-0.5 shrink-0">
-                            {index + 1}
-                          </span>
-                          <p className="text-sm font-medium leading-relaxed text-foreground">
-                            {result.question}
-                          </p>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">
+                          {showAllItems
+                            ? `All ${headToHead.items.length} items`
+                            : `${contestedItems.length} contested item${
+                                contestedItems.length !== 1 ? "s" : ""
+                              }`}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowAllItems(!showAllItems)}
+                        >
+                          {showAllItems ? "Contested only" : "Show all items"}
+                        </Button>
+                      </div>
+                      {visibleItems.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          Every model got the same answer on every item.
+                        </p>
+                      ) : (
+                        <div className="overflow-x-auto max-h-96 custom-scrollbar overflow-y-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="border-b text-left text-muted-foreground">
+                                <th className="py-2 pr-4 font-medium">Item</th>
+                                {headToHead.models.map((entry) => (
+                                  <th
+                                    key={entry.modelId}
+                                    className="py-2 pr-4 font-medium"
+                                  >
+                                    {entry.label}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {visibleItems.map((item) => (
+                                <tr
+                                  key={item.key}
+                                  className="border-b last:border-0"
+                                >
+                                  <td className="py-2 pr-4">
+                                    <span className="text-xs text-muted-foreground">
+                                      {item.key}
+                                    </span>
+                                    <p>{item.question}</p>
+                                  </td>
+                                  {headToHead.models.map((entry) => {
+                                    const score = item.scores[entry.modelId];
+                                    return (
+                                      <td
+                                        key={entry.modelId}
+                                        className="py-2 pr-4"
+                                      >
+                                        {score ? (
+                                          <Badge
+                                            variant="outline"
+                                            className={cn(
+                                              score === "Yes"
+                                                ? "text-green-600 border-green-600"
+                                                : "text-red-600 border-red-600"
+                                            )}
+                                          >
+                                            {item.winners.includes(
+                                              entry.modelId
+                                            ) && (
+                                              <Trophy className="w-3 h-3 mr-1" />
+                                            )}
+                                            {score}
+                                          </Badge>
+                                        ) : (
+                                          <span className="text-muted-foreground">
+                                            -
+                                          </span>
+                                        )}
+                                      </td>
+                                    );
+                                  })}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
                         </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
 
-                        <div className="ml-9 flex items-center space-x-6">
-                          <div className="flex items-center space-x-2">
-                            <User className="h-4 w-4 text-blue-600" />
-                            <span className="text-sm font-medium">Human:</span>
-                            <Badge
-                              variant="outline"
-                              className={cn(
-                                result.humanScore === "Yes"
-                                  ? "text-green-600 border-green-600"
-                                  : "text-red-600 border-red-600"
-                              )}
-                            >
-                              {result.humanScore}
-                            </Badge>
-                          </div>
+              {/* Weighted Score */}
+              {modelResults.some((model) => model.weightedScores) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Scale className="h-5 w-5" />
+                      <span>Weighted Score</span>
+                    </CardTitle>
+                    <CardDescription>
+                      Share of the rubric&apos;s weight answered
+                      &ldquo;Yes&rdquo;. A &ldquo;No&rdquo; on any critical item
+                      fails the response whatever its score; the verdict follows
+                      the human evaluation.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-muted-foreground">
+                            <th className="py-2 pr-4 font-medium">Model</th>
+                            <th className="py-2 pr-4 font-medium">Human</th>
+                            <th className="py-2 pr-4 font-medium">AI</th>
+                            <th className="py-2 pr-4 font-medium">
+                              Critical Failures
+                            </th>
+                            <th className="py-2 font-medium">Verdict</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {modelResults.map((model) => {
+                            const scores = model.weightedScores;
+                            return (
+                              <tr
+                                key={model.id}
+                                className="border-b last:border-0"
+                              >
+                                <td className="py-2 pr-4 font-medium">
+                                  {model.label}
+                                </td>
+                                {scores ? (
+                                  <>
+                                    <td className="py-2 pr-4">
+                                      {scores.human.score}%{" "}
+                                      <span className="text-muted-foreground">
+                                        ({scores.human.earnedWeight}/
+                                        {scores.human.totalWeight})
+                                      </span>
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                      {scores.model.score}%{" "}
+                                      <span className="text-muted-foreground">
+                                        ({scores.model.earnedWeight}/
+                                        {scores.model.totalWeight})
+                                      </span>
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                      {scores.human.criticalFailures.length >
+                                      0 ? (
+                                        <span className="text-red-600">
+                                          {scores.human.criticalFailures.join(
+                                            ", "
+                                          )}
+                                        </span>
+                                      ) : (
+                                        <span className="text-muted-foreground">
+                                          None
+                                        </span>
+                                      )}
+                                      {scores.model.passed !==
+                                        scores.human.passed && (
+                                        <span className="block text-xs text-muted-foreground">
+                                          AI:{" "}
+                                          {scores.model.criticalFailures
+                                            .length > 0
+                                            ? scores.model.criticalFailures.join(
+                                                ", "
+                                              )
+                                            : "none"}
+                                        </span>
+                                      )}
+                                    </td>
+                                    <td className="py-2">
+                                      <Badge
+                                        variant="outline"
+                                        className={
+                                          scores.human.passed
+                                            ? "text-green-600 border-green-600"
+                                            : "text-red-600 border-red-600"
+                                        }
+                                      >
+                                        {scores.human.passed ? "Pass" : "Fail"}
+                                      </Badge>
+                                    </td>
+                                  </>
+                                ) : (
+                                  <td
+                                    colSpan={4}
+                                    className="py-2 text-muted-foreground"
+                                  >
+                                    Not evaluated yet
+                                  </td>
+                                )}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
 
-                          <div className="flex items-center space-x-2">
-                            <Bot className="h-4 w-4 text-purple-600" />
-                            <span className="text-sm font-medium">AI:</span>
-                            <Badge
-                              variant="outline"
-                              className={cn(
-                                result.modelScore === "Yes"
-                                  ? "text-green-600 border-green-600"
-                                  : "text-red-600 border-red-600"
-                              )}
+              {/* Alignment by Tag */}
+              {tagRows.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Tags className="h-5 w-5" />
+                      <span>Alignment by Tag</span>
+                    </CardTitle>
+                    <CardDescription>
+                      Human and AI agreement per rubric tag - low scores show
+                      the kinds of criteria to clarify
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-muted-foreground">
+                            <th className="py-2 pr-4 font-medium">Tag</th>
+                            {tagAlignment.map((model) => (
+                              <th
+                                key={model.modelId}
+                                className="py-2 pr-4 font-medium"
+                              >
+                                {model.label}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {tagRows.map((tag) => (
+                            <tr key={tag} className="border-b last:border-0">
+                              <td className="py-2 pr-4">
+                                <Badge variant="outline" className="text-xs">
+                                  {tag}
+                                </Badge>
+                              </td>
+                              {tagAlignment.map((model) => {
+                                const entry = model.tags.find(
+                                  (t) => t.tag === tag
+                                );
+                                return (
+                                  <td key={model.modelId} className="py-2 pr-4">
+                                    {entry ? (
+                                      <span
+                                        className={cn(
+                                          "font-medium",
+                                          entry.percentage >= 80
+                                            ? "text-green-600"
+                                            : entry.percentage >= 60
+                                            ? "text-yellow-600"
+                                            : "text-red-600"
+                                        )}
+                                      >
+                                        {entry.percentage}%{" "}
+                                        <span className="font-normal text-muted-foreground">
+                                          ({entry.aligned}/{entry.total})
+                                        </span>
+                                      </span>
+                                    ) : (
+                                      <span className="text-muted-foreground">
+                                        -
+                                      </span>
+                                    )}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Alignment History */}
+              {alignmentHistory.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <History className="h-5 w-5" />
+                      <span>Alignment by Rubric Version</span>
+                    </CardTitle>
+                    <CardDescription>
+                      How the primary model&apos;s agreement changed as the
+                      rubric was revised. Kappa corrects for agreement expected
+                      by chance, so a rubric that is nearly all
+                      &ldquo;Yes&rdquo; cannot look aligned by default.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-muted-foreground">
+                            <th className="py-2 pr-4 font-medium">Version</th>
+                            <th className="py-2 pr-4 font-medium">Alignment</th>
+                            <th className="py-2 pr-4 font-medium">Kappa</th>
+                            <th className="py-2 pr-4 font-medium">Precision</th>
+                            <th className="py-2 pr-4 font-medium">Recall</th>
+                            <th className="py-2 font-medium">Misaligned</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {alignmentHistory.map((entry) => (
+                            <tr
+                              key={entry.version}
+                              className="border-b last:border-0"
                             >
-                              {result.modelScore}
-                            </Badge>
+                              <td className="py-2 pr-4 font-medium">
+                                V{entry.version}
+                              </td>
+                              <td className="py-2 pr-4">{entry.alignment}%</td>
+                              <td className="py-2 pr-4">
+                                {formatMetric(entry.kappa)}
+                              </td>
+                              <td className="py-2 pr-4">
+                                {formatMetric(entry.precision, "%")}
+                              </td>
+                              <td className="py-2 pr-4">
+                                {formatMetric(entry.recall, "%")}
+                              </td>
+                              <td className="py-2">{entry.misalignedCount}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {modelResults.map((model) => (
+              <TabsContent
+                key={model.id}
+                value={model.id}
+                className="space-y-6"
+              >
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold">
+                      {model.label} Evaluation Breakdown ({versionName})
+                    </h3>
+                    <Badge className={model.colors.badge} variant="outline">
+                      {model.results.filter((r) => r.isAligned).length}/
+                      {model.results.length} Aligned
+                    </Badge>
+                  </div>
+
+                  {model.metrics && (
+                    <Card>
+                      <CardContent className="p-4">
+                        <div className="flex flex-wrap items-center gap-8">
+                          <ConfusionMatrixTable metrics={model.metrics} />
+                          <div className="space-y-1 text-sm">
+                            <p>
+                              <span className="text-muted-foreground">
+                                Cohen&apos;s kappa:
+                              </span>{" "}
+                              <span className="font-medium">
+                                {formatMetric(model.metrics.kappa)}
+                              </span>
+                            </p>
+                            <p>
+                              <span className="text-muted-foreground">
+                                AI precision:
+                              </span>{" "}
+                              <span className="font-medium">
+                                {formatMetric(model.metrics.precision, "%")}
+                              </span>
+                            </p>
+                            <p>
+                              <span className="text-muted-foreground">
+                                AI recall:
+                              </span>{" "}
+                              <span className="font-medium">
+                                {formatMetric(model.metrics.recall, "%")}
+                              </span>
+                            </p>
                           </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
 
-                          <div className="flex items-center space-x-2">
-                            {result.isAligned ? (
-                              <CheckCircle className="h-4 w-4 text-green-600" />
-                            ) : (
-                              <X className="h-4 w-4 text-red-600" />
-                            )}
+                  {model.results.map((result, index) => (
+                    <Card
+                      key={index}
+                      className={cn(
+                        "border transition-all duration-200",
+                        result.isAligned
+                          ? "border-green-200 dark:border-green-800 bg-green-50/30 dark:bg-green-950/20"
+                          : "border-red-200 dark:border-red-800 bg-red-50/30 dark:bg-red-950/20"
+                      )}
+                    >
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          <div className="flex items-start space-x-3">
                             <span
                               className={cn(
-                                "text-sm font-medium",
-                                result.isAligned
-                                  ? "text-green-600"
-                                  : "text-red-600"
+                                "text-white rounded-full w-6 h-6 flex items-center justify-center text-xs font-medium mt-0.5 shrink-0",
+                                model.colors.bullet
                               )}
                             >
-                              {result.isAligned ? "Aligned" : "Misaligned"}
+                              {index + 1}
                             </span>
+                            <p className="text-sm font-medium leading-relaxed text-foreground">
+                              {result.question}
+                            </p>
+                            <RubricItemWeightBadges
+                              weight={result.weight}
+                              critical={result.critical}
+                            />
                           </div>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            </TabsContent>
 
-            <TabsContent value="gpt" className="space-y-6">
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-semibold">
-                    GPT Evaluation Breakdown ({versionName})
-                  </h3>
-                  <Badge
-                    className="text-orange-600 border-orange-600"
-                    variant="outline"
-                  >
-                    {gptResults.filter((r) => r.isAligned).length}/
-                    {gptResults.length} Aligned
-                  </Badge>
-                </div>
+                          <div className="ml-9 flex items-center space-x-6">
+                            <div className="flex items-center space-x-2">
+                              <User className="h-4 w-4 text-blue-600" />
+                              <span className="text-sm font-medium">
+                                Human:
+                              </span>
+                              <Badge
+                                variant="outline"
+                                className={cn(
+                                  result.humanScore === "Yes"
+                                    ? "text-green-600 border-green-600"
+                                    : "text-red-600 border-red-600"
+                                )}
+                              >
+                                {result.humanScore}
+                              </Badge>
+                            </div>
 
-                {gptResults.map((result, index) => (
-                  <Card
-                    key={index}
-                    className={cn(
-                      "border transition-all duration-200",
-                      result.isAligned
-                        ? "border-green-200 dark:border-green-800 bg-green-50/30 dark:bg-green-950/20"
-                        : "border-red-200 dark:border-red-800 bg-red-50/30 dark:bg-red-950/20"
-                    )}
-                  >
-                    <CardContent className="p-4">
-                      <div className="space-y-3">
-                        <div className="flex items-start space-x-3">
-                          <span className="bg-orange-600 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs font-medium mt-0.5 shrink-0">
-                            {index + 1}
-                          </span>
-                          <p className="text-sm font-medium leading-relaxed text-foreground">
-                            {result.question}
-                          </p>
-                        </div>
+                            <div className="flex items-center space-x-2">
+                              <Bot className="h-4 w-4 text-purple-600" />
+                              <span className="text-sm font-medium">AI:</span>
+                              <Badge
+                                variant="outline"
+                                className={cn(
+                                  result.modelScore === "Yes"
+                                    ? "text-green-600 border-green-600"
+                                    : "text-red-600 border-red-600"
+                                )}
+                              >
+                                {result.modelScore}
+                              </Badge>
+                            </div>
 
-                        <div className="ml-9 flex items-center space-x-6">
-                          <div className="flex items-center space-x-2">
-                            <User className="h-4 w-4 text-blue-600" />
-                            <span className="text-sm font-medium">Human:</span>
-                            <Badge
-                              variant="outline"
-                              className={cn(
-                                result.humanScore === "Yes"
-                                  ? "text-green-600 border-green-600"
-                                  : "text-red-600 border-red-600"
+                            <div className="flex items-center space-x-2">
+                              {result.isAligned ? (
+                                <CheckCircle className="h-4 w-4 text-green-600" />
+                              ) : (
+                                <X className="h-4 w-4 text-red-600" />
                               )}
-                            >
-                              {result.humanScore}
-                            </Badge>
+                              <span
+                                className={cn(
+                                  "text-sm font-medium",
+                                  result.isAligned
+                                    ? "text-green-600"
+                                    : "text-red-600"
+                                )}
+                              >
+                                {result.isAligned ? "Aligned" : "Misaligned"}
+                              </span>
+                            </div>
                           </div>
 
-                          <div className="flex items-center space-x-2">
-                            <Bot className="h-4 w-4 text-purple-600" />
-                            <span className="text-sm font-medium">AI:</span>
-                            <Badge
-                              variant="outline"
-                              className={cn(
-                                result.modelScore === "Yes"
-                                  ? "text-green-600 border-green-600"
-                                  : "text-red-600 border-red-600"
-                              )}
-                            >
-                              {result.modelScore}
-                            </Badge>
-                          </div>
+                          {/* Grader's reasoning for items it disagreed on */}
+                          {!result.isAligned && result.modelReasoning && (
+                            <div className="ml-9 flex items-start space-x-2 rounded-md p-2 text-sm bg-background/60 border border-red-200 dark:border-red-800">
+                              <Bot className="h-4 w-4 mt-0.5 shrink-0 text-purple-600" />
+                              <p className="leading-relaxed">
+                                {result.modelReasoning}
+                              </p>
+                            </div>
+                          )}
 
-                          <div className="flex items-center space-x-2">
-                            {result.isAligned ? (
-                              <CheckCircle className="h-4 w-4 text-green-600" />
-                            ) : (
-                              <X className="h-4 w-4 text-red-600" />
-                            )}
-                            <span
+                          {/* Evaluator's note, most useful where the grader disagreed */}
+                          {result.rationale && (
+                            <div
                               className={cn(
-                                "text-sm font-medium",
+                                "ml-9 flex items-start space-x-2 rounded-md p-2 text-sm",
                                 result.isAligned
-                                  ? "text-green-600"
-                                  : "text-red-600"
+                                  ? "text-muted-foreground"
+                                  : "bg-background/60 border border-red-200 dark:border-red-800"
                               )}
                             >
-                              {result.isAligned ? "Aligned" : "Misaligned"}
-                            </span>
-                          </div>
+                              <MessageSquare className="h-4 w-4 mt-0.5 shrink-0 text-blue-600" />
+                              <div className="space-y-1">
+                                {result.rationale.justification && (
+                                  <p className="leading-relaxed">
+                                    {result.rationale.justification}
+                                  </p>
+                                )}
+                                {result.rationale.confidence && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {getConfidenceLabel(
+                                      result.rationale.confidence
+                                    )}
+                                  </Badge>
+                                )}
+                              </div>
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            </TabsContent>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </TabsContent>
+            ))}
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,683 @@
+"use client";
+
+import React, { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useUser } from "@auth0/nextjs-auth0";
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  BarChart3,
+  CheckCircle,
+  ClipboardCheck,
+  FileText,
+  History,
+  Loader2,
+  MessageSquare,
+  PlayCircle,
+  Send,
+  ShieldAlert,
+  Undo2,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import {
+  AirtableTaskRecord,
+  getCurrentRubricVersionName,
+  getStatusDisplayInfo,
+} from "@/lib/schemas/task";
+import { getModelEvaluation, getTaskModels } from "@/lib/schemas/task-models";
+import {
+  EscalationResolution,
+  getEscalationResolutionInfo,
+  getReturnStageInfo,
+  getReviewActionLabel,
+  parseReviewThread,
+  RequestChangesInputSchema,
+  ResolveEscalationInputSchema,
+  ReviewAction,
+  ReviewReturnStage,
+} from "@/lib/schemas/review.schema";
+import {
+  checkTransition,
+  getPolicyThreshold,
+  meetsAlignmentThreshold,
+} from "@/lib/workflow/task-workflow";
+import { isSameEmail } from "@/lib/schemas/users.schema";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { cn } from "@/lib/utils";
+
+const ACTION_STYLES: Record<ReviewAction, string> = {
+  submitted: "text-blue-600 border-blue-600",
+  approved: "text-green-600 border-green-600",
+  changes_requested: "text-rose-600 border-rose-600",
+  resumed: "text-amber-600 border-amber-600",
+  comment: "text-muted-foreground",
+  escalation_resolved: "text-red-600 border-red-600",
+};
+
+export default function TaskReviewPage() {
+  const { getSector } = useSectorCatalog();
+  const params = useParams();
+  const router = useRouter();
+  const taskId = params.taskId as string;
+  const { user } = useUser();
+
+  const [comment, setComment] = useState("");
+  const [decisionComment, setDecisionComment] = useState("");
+  const [returnStage, setReturnStage] = useState<ReviewReturnStage>("rubric");
+  const [resolution, setResolution] = useState<EscalationResolution>("extend");
+  const [extraVersions, setExtraVersions] = useState("2");
+  const [resolutionComment, setResolutionComment] = useState("");
+
+  const {
+    data: task,
+    isLoading,
+    error,
+    refetch,
+  } = api.tasks.getTaskById.useQuery(
+    { taskId },
+    {
+      enabled: !!taskId,
+    }
+  );
+
+  const { data: canReview } = api.reviews.canReview.useQuery();
+
+  const { data: policy } = api.sectorPolicies.getBySector.useQuery(
+    {
+      sector:
+        task?.ProfessionalSector as AirtableTaskRecord["ProfessionalSector"],
+    },
+    {
+      enabled: !!task?.ProfessionalSector,
+    }
+  );
+
+  const onReviewUpdated = () => {
+    setDecisionComment("");
+    refetch();
+  };
+
+  const approveMutation = api.reviews.approve.useMutation({
+    onSuccess: (data) => {
+      toast.success("Task approved", { description: data.message });
+      onReviewUpdated();
+    },
+    onError: (error) => {
+      toast.error("Failed to approve task", { description: error.message });
+    },
+  });
+
+  const requestChangesMutation = api.reviews.requestChanges.useMutation({
+    onSuccess: (data) => {
+      toast.success("Changes requested", { description: data.message });
+      onReviewUpdated();
+    },
+    onError: (error) => {
+      toast.error("Failed to request changes", {
+        description: error.message,
+      });
+    },
+  });
+
+  const resolveEscalationMutation = api.reviews.resolveEscalation.useMutation({
+    onSuccess: (data) => {
+      toast.success("Escalation resolved", { description: data.message });
+      setResolutionComment("");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error("Failed to resolve escalation", {
+        description: error.message,
+      });
+    },
+  });
+
+  const commentMutation = api.reviews.addComment.useMutation({
+    onSuccess: () => {
+      setComment("");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error("Failed to add comment", { description: error.message });
+    },
+  });
+
+  const resumeMutation = api.reviews.resume.useMutation({
+    onSuccess: (data) => {
+      toast.success("Revisions started", { description: data.message });
+      router.push(`/dashboard/tasks/${taskId}`);
+    },
+    onError: (error) => {
+      toast.error("Failed to start revisions", {
+        description: error.message,
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">
+              Loading Review...
+            </h1>
+          </div>
+        </div>
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center space-y-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading task review...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !task) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">
+              Task Not Found
+            </h1>
+          </div>
+        </div>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Task</AlertTitle>
+          <AlertDescription>
+            {error?.message || "Task not found or access denied."}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const record = task as AirtableTaskRecord;
+  const statusInfo = getStatusDisplayInfo(task.Status);
+  const sectorInfo = getSector(task.ProfessionalSector);
+  const threshold = getPolicyThreshold(policy);
+  const thread = parseReviewThread(record);
+  const models = getTaskModels(record);
+
+  const isOwner = isSameEmail(user?.email, task.TrainerEmail);
+  const canDecide = !!canReview && !isOwner && task.Status === "In_Review";
+  const canResume = isOwner && task.Status === "Changes_Requested";
+  const canResolveEscalation =
+    !!canReview &&
+    checkTransition("resolveEscalation", {
+      task: record,
+      reviewerEmail: user?.email || undefined,
+      resolution,
+    }).allowed;
+  const isDeciding =
+    approveMutation.isPending || requestChangesMutation.isPending;
+
+  const handleRequestChanges = () => {
+    const parsed = RequestChangesInputSchema.safeParse({
+      taskId,
+      returnStage,
+      comment: decisionComment,
+    });
+    if (!parsed.success) {
+      toast.error("Invalid change request", {
+        description: parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+    requestChangesMutation.mutate(parsed.data);
+  };
+
+  const handleResolveEscalation = () => {
+    const parsed = ResolveEscalationInputSchema.safeParse({
+      taskId,
+      resolution,
+      extraVersions: Number(extraVersions),
+      comment: resolutionComment,
+    });
+    if (!parsed.success) {
+      toast.error("Invalid resolution", {
+        description: parsed.error.errors[0]?.message,
+      });
+      return;
+    }
+    resolveEscalationMutation.mutate(parsed.data);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/dashboard/tasks/${taskId}`)}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="space-y-1">
+            <div className="flex items-center space-x-3">
+              <h1 className="text-3xl font-bold tracking-tight text-foreground">
+                Lead Review
+              </h1>
+              <Badge className={statusInfo.color} variant="outline">
+                {statusInfo.label}
+              </Badge>
+            </div>
+            <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+              <span>{task.TaskID}</span>
+              {sectorInfo && (
+                <div className="flex items-center space-x-1">
+                  <span>{sectorInfo.icon}</span>
+                  <span>{sectorInfo.label}</span>
+                </div>
+              )}
+              <span>{task.TrainerEmail}</span>
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              router.push(`/dashboard/tasks/${taskId}/rubric/history`)
+            }
+          >
+            <History className="w-4 h-4 mr-2" />
+            Rubric History
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => router.push(`/dashboard/tasks/${taskId}/results`)}
+          >
+            <BarChart3 className="w-4 h-4 mr-2" />
+            View Results
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <FileText className="h-5 w-5" />
+            <span>Submission</span>
+          </CardTitle>
+          <CardDescription>
+            {getCurrentRubricVersionName(record)} rubric · alignment threshold{" "}
+            {threshold}%
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+            {task.Prompt}
+          </p>
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {models.map((model, index) => {
+              const alignment = getModelEvaluation(record, model.id).alignment;
+              return (
+                <div
+                  key={model.id}
+                  className="p-4 bg-muted/30 rounded-lg border border-border/30 space-y-1"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{model.label}</span>
+                    {index === 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        Primary
+                      </Badge>
+                    )}
+                  </div>
+                  <p
+                    className={cn(
+                      "text-2xl font-bold",
+                      alignment === undefined
+                        ? "text-muted-foreground"
+                        : meetsAlignmentThreshold(alignment, threshold)
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-amber-600 dark:text-amber-400"
+                    )}
+                  >
+                    {alignment === undefined ? "—" : `${alignment}%`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Human/model alignment
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Decision */}
+      {canDecide && (
+        <Card className="border-violet-200 dark:border-violet-800">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ClipboardCheck className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+              <span>Decision</span>
+            </CardTitle>
+            <CardDescription>
+              Approve the task or send it back to the stage that needs work
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="decision-comment">Comment</Label>
+              <Textarea
+                id="decision-comment"
+                placeholder="Optional when approving; required when requesting changes"
+                value={decisionComment}
+                onChange={(e) => setDecisionComment(e.target.value)}
+                rows={4}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Send back to</Label>
+              <Select
+                value={returnStage}
+                onValueChange={(value) =>
+                  setReturnStage(value as ReviewReturnStage)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ReviewReturnStage.options.map((stage) => (
+                    <SelectItem key={stage} value={stage}>
+                      {getReturnStageInfo(stage).label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {getReturnStageInfo(returnStage).description}
+              </p>
+            </div>
+
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Comparison model evaluations are redone whichever stage the task
+                is sent back to.
+              </AlertDescription>
+            </Alert>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                onClick={handleRequestChanges}
+                disabled={isDeciding}
+              >
+                {requestChangesMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Undo2 className="w-4 h-4 mr-2" />
+                )}
+                Request Changes
+              </Button>
+              <Button
+                onClick={() =>
+                  approveMutation.mutate({
+                    taskId,
+                    comment: decisionComment || undefined,
+                  })
+                }
+                disabled={isDeciding}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                {approveMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                )}
+                Approve
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Escalation */}
+      {canResolveEscalation && (
+        <Card className="border-red-200 dark:border-red-800">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ShieldAlert className="h-5 w-5 text-red-600 dark:text-red-400" />
+              <span>Escalation</span>
+            </CardTitle>
+            <CardDescription>{record.Escalation_Reason}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Resolution</Label>
+              <Select
+                value={resolution}
+                onValueChange={(value) =>
+                  setResolution(value as EscalationResolution)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EscalationResolution.options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {getEscalationResolutionInfo(option).label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {getEscalationResolutionInfo(resolution).description}
+              </p>
+            </div>
+
+            {resolution === "extend" && (
+              <div className="space-y-2">
+                <Label htmlFor="extra-versions">Extra rubric versions</Label>
+                <Input
+                  id="extra-versions"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={extraVersions}
+                  onChange={(e) => setExtraVersions(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="resolution-comment">Comment</Label>
+              <Textarea
+                id="resolution-comment"
+                placeholder="Tell the trainer why, shown in the review thread"
+                value={resolutionComment}
+                onChange={(e) => setResolutionComment(e.target.value)}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleResolveEscalation}
+                disabled={resolveEscalationMutation.isPending}
+              >
+                {resolveEscalationMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                )}
+                Resolve Escalation
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {task.Status === "In_Review" && isOwner && (
+        <Alert>
+          <ClipboardCheck className="h-4 w-4" />
+          <AlertTitle>Awaiting Lead Review</AlertTitle>
+          <AlertDescription>
+            A lead will approve the task or request changes. You can reply in
+            the thread below meanwhile.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {canResume && (
+        <Alert className="border-rose-500/50">
+          <MessageSquare className="h-4 w-4" />
+          <AlertTitle>Changes Requested</AlertTitle>
+          <AlertDescription className="space-y-2">
+            {record.Review_Return_Stage && (
+              <p>
+                {getReturnStageInfo(record.Review_Return_Stage).description}.
+              </p>
+            )}
+            <p>
+              Read the lead&apos;s comments below. Starting revisions clears the
+              comparison model evaluations.
+            </p>
+            <Button
+              size="sm"
+              onClick={() => resumeMutation.mutate({ taskId })}
+              disabled={resumeMutation.isPending}
+            >
+              {resumeMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <PlayCircle className="w-4 h-4 mr-2" />
+              )}
+              Start Revisions
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Thread */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <MessageSquare className="h-5 w-5" />
+            <span>Review Thread</span>
+          </CardTitle>
+          <CardDescription>
+            Submissions, decisions and comments, oldest first
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {thread.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No activity yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {thread.map((entry, index) => (
+                <div
+                  key={index}
+                  className="p-4 rounded-lg border border-border/50 space-y-2"
+                >
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">
+                        {entry.authorName || entry.authorEmail}
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className={cn("text-xs", ACTION_STYLES[entry.action])}
+                      >
+                        {getReviewActionLabel(entry.action)}
+                        {entry.returnStage &&
+                          ` · ${getReturnStageInfo(entry.returnStage).label}`}
+                      </Badge>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  {entry.message && (
+                    <p className="text-sm whitespace-pre-wrap">
+                      {entry.message}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Add a comment</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  commentMutation.mutate({ taskId, message: comment })
+                }
+                disabled={!comment.trim() || commentMutation.isPending}
+              >
+                {commentMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 mr-2" />
+                )}
+                Comment
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
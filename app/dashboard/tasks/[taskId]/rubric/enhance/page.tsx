@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
@@ -17,6 +17,7 @@ import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   ArrowLeft,
   AlertCircle,
@@ -32,9 +33,15 @@ import {
   History,
   RotateCcw,
   Eye,
+  ShieldAlert,
+  MessageSquare,
+  Braces,
+  ListOrdered,
 } from "lucide-react";
+import { DraftStatus } from "@/components/DraftStatus";
 
 import { api } from "@/lib/trpc/client";
+import { useDraftAutosave } from "@/lib/services/useDraftAutosave";
 import {
   getStatusDisplayInfo,
   getCurrentRubricVersionName,
@@ -44,7 +51,37 @@ import {
   parseRubricContent,
   needsRubricIteration,
 } from "@/lib/schemas/task";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import {
+  checkTransition,
+  getEvaluationRoute,
+  getPolicyThreshold,
+  getRubricVersionLimit,
+  isEscalated,
+  isRevisingForReview,
+  meetsAlignmentThreshold,
+} from "@/lib/workflow/task-workflow";
+import {
+  EscalationResolution,
+  getEscalationResolutionInfo,
+  getLatestChangeRequest,
+} from "@/lib/schemas/review.schema";
+import { getModelEvaluation, getPrimaryModel } from "@/lib/schemas/task-models";
+import { getEscalationActionInfo } from "@/lib/schemas/sector-policy.schema";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { RubricLintWarnings } from "../../../../_components/rubric/RubricLintWarnings";
+import { RubricItemEditor } from "../../../../_components/rubric/RubricItemEditor";
+import { RubricTemplateLibrary } from "../../../../_components/rubric/RubricTemplateLibrary";
+import type { RubricTemplateItem } from "@/lib/schemas/rubric-template.schema";
+import { appendRubricItems } from "@/lib/utils/rubric-templates";
+import {
+  fromRubric,
+  insertItems,
+  matchesRubricItems,
+  RubricEditorItem,
+  serializeRubricItems,
+  toRubric,
+} from "@/lib/utils/rubric-editor";
+import { getSectorRubricTags } from "@/constants/RubricTags";
 import { cn } from "@/lib/utils";
 import { MisalignedItem } from "@/lib/types/rubric";
 
@@ -62,6 +99,7 @@ interface RubricQuestion {
 }
 
 export default function RubricEnhancePage() {
+  const { getSector } = useSectorCatalog();
   const params = useParams();
   const router = useRouter();
   const taskId = params.taskId as string;
@@ -78,6 +116,10 @@ export default function RubricEnhancePage() {
   >([]);
   const [previousVersionName, setPreviousVersionName] = useState<string>("");
   const [loadedRubricContent, setLoadedRubricContent] = useState<string>("");
+  const [editorMode, setEditorMode] = useState<"structured" | "json">(
+    "structured"
+  );
+  const [rubricItems, setRubricItems] = useState<RubricEditorItem[]>([]);
 
   // Fetch task data
   const {
@@ -92,6 +134,16 @@ export default function RubricEnhancePage() {
     }
   );
 
+  const { data: policy } = api.sectorPolicies.getBySector.useQuery(
+    {
+      sector:
+        task?.ProfessionalSector as AirtableTaskRecord["ProfessionalSector"],
+    },
+    {
+      enabled: !!task?.ProfessionalSector,
+    }
+  );
+
   // Form setup
   const form = useForm<RubricEnhanceFormData>({
     defaultValues: {
@@ -142,6 +194,7 @@ export default function RubricEnhancePage() {
         try {
           const rubric = parseRubricContent(rubricToLoad);
           if (rubric) {
+            setRubricItems(fromRubric(rubric));
             const questions = Object.entries(rubric)
               .filter(([key]) => key.startsWith("rubric_"))
               .map(([key, rubricItem]) => ({
@@ -186,10 +239,67 @@ export default function RubricEnhancePage() {
     }
   }, [rubricContent]);
 
+  // The key map only describes the rubric while JSON edits haven't diverged
+  const itemsInSync = useMemo(
+    () =>
+      rubricItems.length > 0 && matchesRubricItems(rubricContent, rubricItems),
+    [rubricContent, rubricItems]
+  );
+
+  const handleItemsChange = (items: RubricEditorItem[]) => {
+    setRubricItems(items);
+    form.setValue("rubricContent", serializeRubricItems(items));
+  };
+
+  const handleEditorModeChange = (mode: string) => {
+    if (mode === "structured" && !itemsInSync) {
+      // Edited as JSON: items keep the previous version's key they still use
+      const rubric = rubricContent.trim()
+        ? parseRubricContent(rubricContent)
+        : {};
+      if (!rubric) {
+        toast.error("Fix the rubric JSON before switching to the item editor");
+        return;
+      }
+      handleItemsChange(
+        fromRubric(
+          rubric,
+          previousRubricQuestions.map((question) => question.key)
+        )
+      );
+    }
+    setEditorMode(mode as "structured" | "json");
+  };
+
+  // Template library items are appended as new items in either editor
+  const insertTemplateItems = (items: RubricTemplateItem[]) => {
+    if (editorMode === "structured") {
+      handleItemsChange(insertItems(rubricItems, items));
+    } else {
+      const content = appendRubricItems(rubricContent, items);
+      if (content === null) {
+        toast.error("Fix the rubric JSON before inserting template items");
+        return;
+      }
+      form.setValue("rubricContent", content);
+    }
+    toast.success(
+      `Inserted ${items.length} template item${items.length !== 1 ? "s" : ""}`
+    );
+  };
+
   // Function to load the previous version back into the editor
+  const resetToLoadedRubric = () => {
+    const rubric = parseRubricContent(loadedRubricContent);
+    const items = rubric ? fromRubric(rubric) : [];
+    form.setValue("rubricContent", loadedRubricContent);
+    setRubricItems(items);
+    return items;
+  };
+
   const loadPreviousVersion = () => {
     if (loadedRubricContent) {
-      form.setValue("rubricContent", loadedRubricContent);
+      resetToLoadedRubric();
       toast.success(`${previousVersionName} rubric loaded into editor`);
     }
   };
@@ -208,8 +318,14 @@ export default function RubricEnhancePage() {
         }
       );
       setIsSubmitting(false);
-      // Navigate to human evaluation
-      router.push(`/dashboard/tasks/${taskId}/evaluation/human-gemini`);
+      // Navigate to human evaluation of the primary model
+      router.push(
+        getEvaluationRoute(
+          taskId,
+          getPrimaryModel(data.task as AirtableTaskRecord).id,
+          "human"
+        )
+      );
     },
     onError: (error) => {
       setIsSubmitting(false);
@@ -219,6 +335,28 @@ export default function RubricEnhancePage() {
     },
   });
 
+  // Keep the unsubmitted rubric across reloads. A draft made for another
+  // version is stale once the task has moved on.
+  const autosave = useDraftAutosave({
+    draftKey: { taskId, stage: "rubric_enhance" },
+    value: {
+      rubricContent,
+      targetVersion: form.watch("targetVersion"),
+      rubricItems,
+    },
+    onRestore: (draft) => {
+      if (draft.targetVersion !== form.getValues("targetVersion")) {
+        return false;
+      }
+      form.setValue("rubricContent", draft.rubricContent);
+      // Drafts saved before the item editor existed have no items
+      if (draft.rubricItems) {
+        setRubricItems(draft.rubricItems);
+      }
+    },
+    enabled: !!task && !isSubmitting && !updateRubricMutation.isSuccess,
+  });
+
   // Form submission
   const onSubmit = async (data: RubricEnhanceFormData) => {
     if (!rubricValidation.isValid) {
@@ -233,6 +371,7 @@ export default function RubricEnhancePage() {
         taskId: data.taskId,
         rubricContent: data.rubricContent,
         targetVersion: data.targetVersion,
+        keyMap: itemsInSync ? toRubric(rubricItems).keyMap : undefined,
       });
     } catch (error) {
       console.error("Rubric enhancement submission error:", error);
@@ -295,7 +434,12 @@ export default function RubricEnhancePage() {
   }
 
   // Check if task is in correct state
-  if (!["Rubric_V1", "Rubric_Enhancing"].includes(task.Status)) {
+  const enhanceTransition = checkTransition("submitRubricEnhanced", {
+    task: task as AirtableTaskRecord,
+    policy,
+  });
+
+  if (!enhanceTransition.allowed) {
     return (
       <div className="space-y-6">
         <div className="flex items-center space-x-4">
@@ -312,8 +456,8 @@ export default function RubricEnhancePage() {
           <AlertCircle className="h-4 w-4" />
           <AlertTitle>Cannot Enhance Rubric</AlertTitle>
           <AlertDescription>
-            This task is not in the correct state for rubric enhancement.
-            Current status: {getStatusDisplayInfo(task.Status).label}
+            {enhanceTransition.reason} Current status:{" "}
+            {getStatusDisplayInfo(task.Status).label}
           </AlertDescription>
         </Alert>
       </div>
@@ -325,9 +469,7 @@ export default function RubricEnhancePage() {
   const isIterating = task?.Status === "Rubric_Enhancing";
   const targetVersion = isCreatingV2 ? 2 : currentVersion + 1;
   const versionName = getCurrentRubricVersionName(task as AirtableTaskRecord);
-  const sectorInfo = professionalSectors.find(
-    (s) => s.value === task.ProfessionalSector
-  );
+  const sectorInfo = getSector(task.ProfessionalSector);
 
   // Parse alignment history
   let alignmentHistory: AlignmentHistoryEntry[] = [];
@@ -340,20 +482,33 @@ export default function RubricEnhancePage() {
   }
 
   const lastAlignment = alignmentHistory[alignmentHistory.length - 1];
+  const threshold = getPolicyThreshold(policy);
   const needsIteration = needsRubricIteration(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (task as AirtableTaskRecord) || ({} as any)
+    (task as AirtableTaskRecord) || ({} as any),
+    threshold
   );
 
+  // A lead can ask for a new version even when alignment met the threshold
+  const changeRequest =
+    task &&
+    isRevisingForReview(task as AirtableTaskRecord, "rubric") &&
+    lastAlignment &&
+    meetsAlignmentThreshold(lastAlignment.alignment, threshold)
+      ? getLatestChangeRequest(task as AirtableTaskRecord)
+      : undefined;
+
   // Parse misaligned items for enhancement guidanceAdd commentMore actions
   let misalignedItems: MisalignedItem[] = [];
-  if (
-    task?.Misaligned_Gemini &&
-    needsIteration &&
-    typeof task.Misaligned_Gemini === "string"
-  ) {
+  const primaryMisaligned = task
+    ? getModelEvaluation(
+        task as AirtableTaskRecord,
+        getPrimaryModel(task as AirtableTaskRecord).id
+      ).misaligned
+    : undefined;
+  if (primaryMisaligned && needsIteration) {
     try {
-      misalignedItems = JSON.parse(task.Misaligned_Gemini);
+      misalignedItems = JSON.parse(primaryMisaligned);
     } catch (error) {
       console.error("Error parsing misaligned items:", error);
     }
@@ -425,6 +580,25 @@ export default function RubricEnhancePage() {
             for better human-AI alignment.
           </AlertDescription>
         </Alert>
+      ) : changeRequest ? (
+        <Alert className="bg-gradient-to-r from-rose-50/50 to-pink-50/50 dark:from-rose-950/20 dark:to-pink-950/20 border-rose-200 dark:border-rose-800">
+          <MessageSquare className="h-4 w-4 text-rose-600" />
+          <AlertTitle className="text-rose-800 dark:text-rose-400">
+            Changes Requested in Lead Review
+          </AlertTitle>
+          <AlertDescription className="space-y-1 text-rose-700 dark:text-rose-300">
+            <p>
+              {changeRequest.authorName || changeRequest.authorEmail} asked for
+              a new rubric version. Create V{targetVersion}, then redo every
+              evaluation.
+            </p>
+            {changeRequest.message && (
+              <p className="whitespace-pre-wrap italic">
+                {changeRequest.message}
+              </p>
+            )}
+          </AlertDescription>
+        </Alert>
       ) : (
         <Alert className="bg-gradient-to-r from-amber-50/50 to-orange-50/50 dark:from-amber-950/20 dark:to-orange-950/20 border-amber-200 dark:border-amber-800">
           <AlertTriangle className="h-4 w-4 text-amber-600" />
@@ -434,8 +608,53 @@ export default function RubricEnhancePage() {
           <AlertDescription className="text-amber-700 dark:text-amber-300">
             {versionName} achieved {lastAlignment?.alignment || 0}% alignment
             with {lastAlignment?.misalignedCount || 0} misaligned items. Create
-            V{targetVersion} to improve alignment ≥80% before proceeding to GPT
-            evaluation.
+            V{targetVersion} to improve alignment ≥{threshold}% before
+            proceeding to comparison evaluation.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Sector Policy */}
+      {policy && (
+        <Alert
+          className={cn(
+            isEscalated(task as AirtableTaskRecord)
+              ? "bg-red-50/50 dark:bg-red-950/20 border-red-200 dark:border-red-800"
+              : "bg-muted/30 border-border/50"
+          )}
+        >
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>
+            {task.ProfessionalSector} Policy
+            {policy.isDefault && (
+              <Badge variant="outline" className="ml-2 text-xs">
+                Default
+              </Badge>
+            )}
+          </AlertTitle>
+          <AlertDescription className="space-y-1">
+            <p>
+              Alignment threshold: {policy.alignmentThreshold}% · Rubric
+              versions: V{targetVersion} of{" "}
+              {getRubricVersionLimit(task as AirtableTaskRecord, policy)}{" "}
+              allowed · At the limit:{" "}
+              {getEscalationActionInfo(policy.escalationAction).label}
+            </p>
+            {isEscalated(task as AirtableTaskRecord) && (
+              <p className="font-medium text-red-700 dark:text-red-400">
+                Escalated: {task.Escalation_Reason as string}
+              </p>
+            )}
+            {!isEscalated(task as AirtableTaskRecord) &&
+              task.Escalation_Resolution && (
+                <p>
+                  Escalation resolved by {task.Escalation_Resolved_By as string}
+                  :{" "}
+                  {getEscalationResolutionInfo(
+                    task.Escalation_Resolution as EscalationResolution
+                  ).label.toLowerCase()}
+                </p>
+              )}
           </AlertDescription>
         </Alert>
       )}
@@ -462,7 +681,7 @@ export default function RubricEnhancePage() {
                   <div
                     className={cn(
                       "w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold mb-2",
-                      entry.alignment >= 80
+                      meetsAlignmentThreshold(entry.alignment, threshold)
                         ? "bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400"
                         : "bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400"
                     )}
@@ -475,6 +694,11 @@ export default function RubricEnhancePage() {
                   <p className="text-xs text-muted-foreground text-center">
                     {entry.misalignedCount} issues
                   </p>
+                  {entry.kappa !== undefined && (
+                    <p className="text-xs text-muted-foreground text-center">
+                      κ {entry.kappa ?? "—"}
+                    </p>
+                  )}
                 </div>
               ))}
 
@@ -484,7 +708,7 @@ export default function RubricEnhancePage() {
                   <Target className="w-4 h-4" />
                 </div>
                 <p className="text-lg font-bold text-center text-green-600">
-                  80%
+                  {threshold}%
                 </p>
                 <p className="text-xs text-muted-foreground text-center">
                   Target
@@ -597,6 +821,11 @@ export default function RubricEnhancePage() {
                           </span>
                         </span>
                       </div>
+                      {item.model_reasoning && (
+                        <p className="mt-1 text-xs text-muted-foreground italic">
+                          Model reasoning: {item.model_reasoning}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -704,25 +933,59 @@ export default function RubricEnhancePage() {
           </CardContent>
         </Card>
 
-        {/* Right: JSON Editor */}
+        {/* Right: Item / JSON Editor */}
         <Card className="bg-gradient-to-br from-blue-50/50 to-indigo-50/50 dark:from-blue-950/20 dark:to-indigo-950/20 border-blue-200 dark:border-blue-800">
           <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <FileText className="h-5 w-5 text-blue-600" />
-              <span>V{targetVersion} Rubric JSON Editor</span>
-            </CardTitle>
-            <CardDescription>
-              Edit the JSON to create your enhanced V{targetVersion} rubric
-            </CardDescription>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center space-x-2">
+                  <FileText className="h-5 w-5 text-blue-600" />
+                  <span>V{targetVersion} Rubric Editor</span>
+                </CardTitle>
+                <CardDescription>
+                  Edit the items or the JSON to create your enhanced V
+                  {targetVersion} rubric
+                </CardDescription>
+              </div>
+              <Tabs value={editorMode} onValueChange={handleEditorModeChange}>
+                <TabsList>
+                  <TabsTrigger value="structured">
+                    <ListOrdered className="w-4 h-4 mr-1" />
+                    Items
+                  </TabsTrigger>
+                  <TabsTrigger value="json">
+                    <Braces className="w-4 h-4 mr-1" />
+                    JSON
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="rubricContent">Enhanced Rubric JSON</Label>
-              <Textarea
-                id="rubricContent"
-                value={rubricContent}
-                onChange={(e) => form.setValue("rubricContent", e.target.value)}
-                placeholder={`{
+            {editorMode === "structured" ? (
+              <div className="space-y-2">
+                <RubricItemEditor
+                  items={rubricItems}
+                  onChange={handleItemsChange}
+                  tagSuggestions={getSectorRubricTags(task.ProfessionalSector)}
+                  flaggedKeys={misalignedItems.map((item) => item.id)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  💡 Items are renumbered from their order when saved, and V
+                  {targetVersion} records which {previousVersionName} items each
+                  one came from
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="rubricContent">Enhanced Rubric JSON</Label>
+                <Textarea
+                  id="rubricContent"
+                  value={rubricContent}
+                  onChange={(e) =>
+                    form.setValue("rubricContent", e.target.value)
+                  }
+                  placeholder={`{
   "rubric_1": {
     "question": "Does the response clearly explain the main concept?",
     "tag": "clarity"
@@ -733,12 +996,38 @@ export default function RubricEnhancePage() {
   },
   ...
 }`}
-                className="min-h-[300px] font-mono text-sm"
+                  className="min-h-[300px] font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  💡 Use the Load button on the left to restore the{" "}
+                  {previousVersionName} rubric anytime
+                </p>
+                {!itemsInSync && rubricItems.length > 0 && (
+                  <p className="text-xs text-amber-700 dark:text-amber-400">
+                    Edited as JSON: items are matched to {previousVersionName}{" "}
+                    by key only. Switch back to Items to track moves, splits and
+                    merges.
+                  </p>
+                )}
+              </div>
+            )}
+            <RubricTemplateLibrary
+              sector={task.ProfessionalSector}
+              onInsert={insertTemplateItems}
+            />
+            <div className="space-y-2">
+              <DraftStatus
+                status={autosave.status}
+                savedAt={autosave.savedAt}
+                restoredAt={autosave.restoredAt}
+                onDiscard={() => {
+                  autosave.discard({
+                    rubricContent: loadedRubricContent,
+                    targetVersion: form.getValues("targetVersion"),
+                    rubricItems: resetToLoadedRubric(),
+                  });
+                }}
               />
-              <p className="text-xs text-muted-foreground">
-                💡 Use the Load button on the left to restore the{" "}
-                {previousVersionName} rubric anytime
-              </p>
             </div>
 
             {/* Validation Status */}
@@ -792,6 +1081,11 @@ export default function RubricEnhancePage() {
                     </div>
                   </div>
                 )}
+
+              <RubricLintWarnings
+                rubricContent={rubricContent}
+                sector={task.ProfessionalSector}
+              />
             </div>
           </CardContent>
         </Card>
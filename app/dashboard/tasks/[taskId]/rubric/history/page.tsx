@@ -0,0 +1,515 @@
+"use client";
+
+import React, { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  FileText,
+  GitCompare,
+  History,
+  Loader2,
+} from "lucide-react";
+
+import { api } from "@/lib/trpc/client";
+import { AirtableTaskRecord } from "@/lib/schemas/task";
+import {
+  getPolicyThreshold,
+  meetsAlignmentThreshold,
+} from "@/lib/workflow/task-workflow";
+import {
+  diffRubricVersions,
+  diffWords,
+  getRubricKeyMap,
+  getRubricVersions,
+  RubricItemChange,
+  RubricItemDiff,
+  summarizeRubricDiff,
+} from "@/lib/utils/rubric-history";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { cn } from "@/lib/utils";
+
+const CHANGE_STYLES: Record<
+  RubricItemChange,
+  { label: string; badge: string; card: string }
+> = {
+  added: {
+    label: "Added",
+    badge: "text-green-600 border-green-600",
+    card: "border-green-200 dark:border-green-800 bg-green-50/50 dark:bg-green-950/20",
+  },
+  removed: {
+    label: "Removed",
+    badge: "text-red-600 border-red-600",
+    card: "border-red-200 dark:border-red-800 bg-red-50/50 dark:bg-red-950/20",
+  },
+  reworded: {
+    label: "Reworded",
+    badge: "text-amber-600 border-amber-600",
+    card: "border-amber-200 dark:border-amber-800 bg-amber-50/50 dark:bg-amber-950/20",
+  },
+  retagged: {
+    label: "Tag Changed",
+    badge: "text-blue-600 border-blue-600",
+    card: "border-blue-200 dark:border-blue-800 bg-blue-50/50 dark:bg-blue-950/20",
+  },
+  split: {
+    label: "Split",
+    badge: "text-purple-600 border-purple-600",
+    card: "border-purple-200 dark:border-purple-800 bg-purple-50/50 dark:bg-purple-950/20",
+  },
+  merged: {
+    label: "Merged",
+    badge: "text-indigo-600 border-indigo-600",
+    card: "border-indigo-200 dark:border-indigo-800 bg-indigo-50/50 dark:bg-indigo-950/20",
+  },
+  unchanged: {
+    label: "Unchanged",
+    badge: "text-muted-foreground",
+    card: "border-border/50",
+  },
+};
+
+function RubricItemDiffRow({ diff }: { diff: RubricItemDiff }) {
+  const style = CHANGE_STYLES[diff.change];
+  const item = diff.to || diff.from!;
+  // Split and merged items always show where they came from
+  const keyChanged =
+    !!diff.sources ||
+    (!!diff.from && !!diff.to && diff.from.key !== diff.to.key);
+
+  return (
+    <div className={cn("p-4 rounded-lg border space-y-2", style.card)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+          {diff.from && (
+            <span>
+              {diff.sources
+                ? diff.sources.map((source) => source.key).join(" + ")
+                : diff.from.key}
+            </span>
+          )}
+          {diff.from && diff.to && keyChanged && (
+            <ArrowRight className="h-3 w-3" />
+          )}
+          {diff.to && (!diff.from || keyChanged) && <span>{diff.to.key}</span>}
+        </div>
+        <Badge variant="outline" className={cn("text-xs", style.badge)}>
+          {style.label}
+        </Badge>
+      </div>
+
+      {diff.change === "merged" && (
+        <div className="space-y-1">
+          {diff.sources!.map((source) => (
+            <p
+              key={source.key}
+              className="text-xs line-through text-muted-foreground"
+            >
+              {source.key}: {source.question}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {diff.change === "reworded" || diff.change === "split" ? (
+        <p className="text-sm">
+          {diffWords(diff.from!.question, diff.to!.question).map(
+            (part, index) => (
+              <span
+                key={index}
+                className={cn(
+                  part.type === "added" &&
+                    "bg-green-200/70 dark:bg-green-800/50 rounded px-0.5",
+                  part.type === "removed" &&
+                    "bg-red-200/70 dark:bg-red-800/50 rounded px-0.5 line-through"
+                )}
+              >
+                {part.text}{" "}
+              </span>
+            )
+          )}
+        </p>
+      ) : (
+        <p
+          className={cn(
+            "text-sm",
+            diff.change === "removed" && "line-through text-muted-foreground"
+          )}
+        >
+          {item.question}
+        </p>
+      )}
+
+      <div className="flex items-center space-x-2 text-xs">
+        {diff.tagChanged ? (
+          <>
+            <Badge variant="secondary" className="line-through">
+              {diff.from!.tag}
+            </Badge>
+            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+            <Badge variant="secondary">{diff.to!.tag}</Badge>
+          </>
+        ) : (
+          <Badge variant="secondary">{item.tag}</Badge>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function RubricHistoryPage() {
+  const { getSector } = useSectorCatalog();
+  const params = useParams();
+  const router = useRouter();
+  const taskId = params.taskId as string;
+
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const {
+    data: task,
+    isLoading,
+    error,
+    refetch,
+  } = api.tasks.getTaskById.useQuery(
+    { taskId },
+    {
+      enabled: !!taskId,
+    }
+  );
+
+  const { data: policy } = api.sectorPolicies.getBySector.useQuery(
+    {
+      sector:
+        task?.ProfessionalSector as AirtableTaskRecord["ProfessionalSector"],
+    },
+    {
+      enabled: !!task?.ProfessionalSector,
+    }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">
+              Loading Rubric History...
+            </h1>
+          </div>
+        </div>
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center space-y-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading rubric versions...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !task) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">
+              Task Not Found
+            </h1>
+          </div>
+        </div>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Task</AlertTitle>
+          <AlertDescription>
+            {error?.message || "Task not found or access denied."}
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => refetch()}
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const versions = getRubricVersions(task as AirtableTaskRecord);
+  const threshold = getPolicyThreshold(policy);
+  const sectorInfo = getSector(task.ProfessionalSector);
+
+  // Compare the two latest versions unless the trainer picks others
+  const latest = versions[versions.length - 1]?.version;
+  const selectedTo = toVersion ?? latest;
+  const selectedFrom =
+    fromVersion ??
+    versions[versions.length - 2]?.version ??
+    versions[0]?.version;
+
+  const from = versions.find((v) => v.version === selectedFrom);
+  const to = versions.find((v) => v.version === selectedTo);
+  const diffs =
+    from && to
+      ? diffRubricVersions(
+          from.questions,
+          to.questions,
+          getRubricKeyMap(task as AirtableTaskRecord, from.version, to.version)
+        )
+      : [];
+  const summary = summarizeRubricDiff(diffs);
+  const visibleDiffs = showUnchanged
+    ? diffs
+    : diffs.filter((diff) => diff.change !== "unchanged");
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/dashboard/tasks/${taskId}`)}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">
+              Rubric History
+            </h1>
+            <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+              <span>{task.TaskID}</span>
+              {sectorInfo && (
+                <div className="flex items-center space-x-1">
+                  <span>{sectorInfo.icon}</span>
+                  <span>{sectorInfo.label}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => router.push(`/dashboard/tasks/${taskId}`)}
+        >
+          <FileText className="w-4 h-4 mr-2" />
+          View Task Details
+        </Button>
+      </div>
+
+      {versions.length === 0 ? (
+        <Alert>
+          <History className="h-4 w-4" />
+          <AlertTitle>No Rubric Yet</AlertTitle>
+          <AlertDescription>
+            Versions will appear here once the V1 rubric has been submitted.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          {/* Version List */}
+          <Card className="bg-gradient-to-br from-sky-50/40 to-sky-100/40 dark:from-sky-900/20 dark:to-sky-800/20 border-sky-500/30 dark:border-sky-700/30">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="h-5 w-5 text-sky-600 dark:text-sky-400" />
+                <span>Versions</span>
+              </CardTitle>
+              <CardDescription>
+                Every saved rubric version with the alignment recorded for it
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+                {versions.map((version) => (
+                  <div
+                    key={version.version}
+                    className="p-4 bg-background/50 rounded-lg border border-border/30 space-y-2"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold">V{version.version}</span>
+                      <div className="flex items-center space-x-2">
+                        {version.version === latest && (
+                          <Badge variant="outline" className="text-xs">
+                            Current
+                          </Badge>
+                        )}
+                        {version.alignment ? (
+                          <Badge
+                            variant="outline"
+                            className={cn(
+                              "text-xs",
+                              meetsAlignmentThreshold(
+                                version.alignment.alignment,
+                                threshold
+                              )
+                                ? "text-green-600 border-green-600"
+                                : "text-amber-600 border-amber-600"
+                            )}
+                          >
+                            {version.alignment.alignment}% aligned
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">
+                            Not evaluated
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-sm text-muted-foreground space-y-1">
+                      <p>
+                        {version.questions.length} items · {version.tags.length}{" "}
+                        tags
+                      </p>
+                      {version.alignment && (
+                        <>
+                          <p>
+                            {version.alignment.misalignedCount} misaligned items
+                          </p>
+                          <p>
+                            Evaluated{" "}
+                            {new Date(
+                              version.alignment.timestamp
+                            ).toLocaleString()}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Diff */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <GitCompare className="h-5 w-5" />
+                <span>Compare Versions</span>
+              </CardTitle>
+              <CardDescription>
+                Item-level changes between two rubric versions
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={selectedFrom ? String(selectedFrom) : undefined}
+                  onValueChange={(value) => setFromVersion(Number(value))}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue placeholder="From" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem
+                        key={version.version}
+                        value={String(version.version)}
+                      >
+                        V{version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <Select
+                  value={selectedTo ? String(selectedTo) : undefined}
+                  onValueChange={(value) => setToVersion(Number(value))}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue placeholder="To" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem
+                        key={version.version}
+                        value={String(version.version)}
+                      >
+                        V{version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <label className="flex items-center space-x-2 text-sm ml-auto">
+                  <Checkbox
+                    checked={showUnchanged}
+                    onCheckedChange={(checked) =>
+                      setShowUnchanged(checked === true)
+                    }
+                  />
+                  <span>Show unchanged items</span>
+                </label>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(CHANGE_STYLES) as RubricItemChange[]).map(
+                  (change) => (
+                    <Badge
+                      key={change}
+                      variant="outline"
+                      className={CHANGE_STYLES[change].badge}
+                    >
+                      {summary[change]} {CHANGE_STYLES[change].label}
+                    </Badge>
+                  )
+                )}
+              </div>
+
+              {selectedFrom === selectedTo ? (
+                <p className="text-sm text-muted-foreground">
+                  Select two different versions to see what changed.
+                </p>
+              ) : visibleDiffs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No changes between V{selectedFrom} and V{selectedTo}.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {visibleDiffs.map((diff) => (
+                    <RubricItemDiffRow
+                      key={`${diff.from?.key}-${diff.to?.key}`}
+                      diff={diff}
+                    />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -38,18 +38,29 @@ import {
   Sparkles,
   Eye,
   EyeOff,
+  Wand2,
 } from "lucide-react";
 
+import { DraftStatus } from "@/components/DraftStatus";
+
 import { api } from "@/lib/trpc/client";
+import { useDraftAutosave } from "@/lib/services/useDraftAutosave";
 import { generateRubricDecomposerPrompt } from "@/lib/utils/rubric-prompts";
 import {
+  AirtableTaskRecord,
   RubricV1Input,
   RubricV1InputSchema,
   validateRubricJSON,
 } from "@/lib/schemas/task";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import { getModelResponse, getPrimaryModel } from "@/lib/schemas/task-models";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
+import { RubricLintWarnings } from "../../../../_components/rubric/RubricLintWarnings";
+import { RubricTemplateLibrary } from "../../../../_components/rubric/RubricTemplateLibrary";
+import type { RubricTemplateItem } from "@/lib/schemas/rubric-template.schema";
+import { appendRubricItems } from "@/lib/utils/rubric-templates";
 
 export default function RubricV1Page() {
+  const { getSector } = useSectorCatalog();
   const params = useParams();
   const router = useRouter();
   const taskId = params.taskId as string;
@@ -58,6 +69,7 @@ export default function RubricV1Page() {
   const [promptCopied, setPromptCopied] = useState(false);
   const [promptVisible, setPromptVisible] = useState(false);
   const [exampleVisible, setExampleVisible] = useState(false);
+  const [draftTags, setDraftTags] = useState<string[]>([]);
 
   // Fetch task data
   const {
@@ -99,14 +111,56 @@ export default function RubricV1Page() {
     },
   });
 
+  // Keep the unsubmitted rubric across reloads
+  const autosave = useDraftAutosave({
+    draftKey: { taskId, stage: "rubric_v1" },
+    value: { rubricV1: form.watch("rubricV1") },
+    onRestore: (draft) => form.setValue("rubricV1", draft.rubricV1),
+    enabled: !!task && !isSubmitting && !updateRubricV1Mutation.isSuccess,
+  });
+
+  const { data: drafterStatus } = api.tasks.rubricDrafterStatus.useQuery();
+
+  // Draft the rubric server-side and pre-fill the editor for review
+  const draftRubricMutation = api.tasks.draftRubricV1.useMutation({
+    onSuccess: (data) => {
+      form.setValue("rubricV1", data.draft.rubric, { shouldValidate: true });
+      setDraftTags(data.draft.tags);
+      toast.success("Rubric drafted", {
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      toast.error("Failed to draft rubric", {
+        description: error.message,
+      });
+    },
+  });
+
+  // Append items from the template library to the rubric JSON
+  const insertTemplateItems = (items: RubricTemplateItem[]) => {
+    const content = appendRubricItems(form.getValues("rubricV1"), items);
+    if (content === null) {
+      toast.error("Fix the rubric JSON before inserting template items");
+      return;
+    }
+    form.setValue("rubricV1", content, { shouldValidate: true });
+    toast.success(
+      `Inserted ${items.length} template item${items.length !== 1 ? "s" : ""}`
+    );
+  };
+
   // Generate the decomposer prompt
   const generatePrompt = () => {
     if (!task) return "";
 
     const taskData = {
       Prompt: task.Prompt,
-      GeminiResponse: task.GeminiResponse,
-      GPTResponse: task.GPTResponse,
+      // The rubric is built around the primary model's response
+      Response: getModelResponse(
+        task as AirtableTaskRecord,
+        getPrimaryModel(task as AirtableTaskRecord).id
+      ),
     };
 
     return generateRubricDecomposerPrompt(taskData);
@@ -260,9 +314,7 @@ export default function RubricV1Page() {
     );
   }
 
-  const sectorInfo = professionalSectors.find(
-    (s) => s.value === task.ProfessionalSector
-  );
+  const sectorInfo = getSector(task.ProfessionalSector);
 
   return (
     <div className="space-y-8">
@@ -370,6 +422,23 @@ export default function RubricV1Page() {
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              {drafterStatus?.enabled && (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => draftRubricMutation.mutate({ taskId })}
+                  disabled={draftRubricMutation.isPending || isSubmitting}
+                >
+                  {draftRubricMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Wand2 className="h-4 w-4" />
+                  )}
+                  {draftRubricMutation.isPending
+                    ? "Drafting..."
+                    : "Draft Rubric"}
+                </Button>
+              )}
               <Button
                 type="button"
                 variant="outline"
@@ -514,6 +583,45 @@ export default function RubricV1Page() {
                   </FormItem>
                 )}
               />
+              <div className="mt-4">
+                <RubricTemplateLibrary
+                  sector={task.ProfessionalSector}
+                  onInsert={insertTemplateItems}
+                />
+              </div>
+              <div className="mt-4">
+                <RubricLintWarnings
+                  rubricContent={form.watch("rubricV1")}
+                  sector={task.ProfessionalSector}
+                />
+              </div>
+              <div className="mt-2">
+                <DraftStatus
+                  status={autosave.status}
+                  savedAt={autosave.savedAt}
+                  restoredAt={autosave.restoredAt}
+                  onDiscard={() => {
+                    autosave.discard({ rubricV1: "" });
+                    form.setValue("rubricV1", "");
+                  }}
+                />
+              </div>
+              {draftTags.length > 0 && (
+                <div className="mt-4 p-3 bg-muted rounded-lg space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Drafted by {drafterStatus?.model || "the rubric drafter"}.
+                    Review and edit every item before submitting. Tags in this
+                    draft:
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {draftTags.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
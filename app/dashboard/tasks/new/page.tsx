@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
@@ -25,6 +25,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -49,6 +50,7 @@ import {
   Upload,
   ExternalLinkIcon,
   CheckCircleIcon,
+  X,
 } from "lucide-react";
 
 import {
@@ -57,28 +59,53 @@ import {
   getWorkflowSteps,
   getStatusDisplayInfo,
 } from "@/lib/schemas/task";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import {
+  LEGACY_TASK_MODELS,
+  MAX_TASK_MODELS,
+  MIN_TASK_MODELS,
+  SUGGESTED_TASK_MODELS,
+  TaskModelSchema,
+  toModelId,
+} from "@/lib/schemas/task-models";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
 import { api } from "@/lib/trpc/client";
 import { useUser } from "@auth0/nextjs-auth0";
 import { DirectFileUpload } from "@/components/DirectFileUpload"; // Import the new component
+import { DraftStatus } from "@/components/DraftStatus";
+import { useDraftAutosave } from "@/lib/services/useDraftAutosave";
+import { NEW_TASK_DRAFT_ID } from "@/lib/schemas/draft.schema";
+
+// Uploaded files live in the Drive folder of this visit, so drafts only keep
+// the text fields
+function toTaskDraft(values: CreateTaskInput) {
+  return {
+    Prompt: values.Prompt,
+    ProfessionalSector: values.ProfessionalSector,
+    LicenseNotes: values.LicenseNotes,
+    candidates: values.candidates.map(({ id, label, response }) => ({
+      id,
+      label,
+      response,
+    })),
+  };
+}
 
 export default function NewTaskPage() {
+  const { activeSectors, getSector } = useSectorCatalog();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [folderInfo, setFolderInfo] = useState<{
     taskId: string;
     taskFolderId: string;
     requestFolderId: string;
-    responseGeminiFolderId: string;
-    responseGptFolderId: string;
+    responseFolderIds: Record<string, string>;
     taskFolderUrl: string;
   } | null>(null);
   const [createdTaskInfo, setCreatedTaskInfo] = useState<{
     taskId: string;
     folderUrl: string;
     requestFileCount: number;
-    responseGeminiFileCount: number;
-    responseGptFileCount: number;
+    responseFiles: Array<{ id: string; label: string; count: number }>;
   } | null>(null);
 
   const router = useRouter();
@@ -92,28 +119,61 @@ export default function NewTaskPage() {
       ProfessionalSector: undefined,
       OpenSourceConfirmed: false,
       LicenseNotes: "",
-      GPTResponse: "",
-      GeminiResponse: "",
       requestFiles: [],
-      responseGeminiFiles: [],
-      responseGptFiles: [],
+      candidates: LEGACY_TASK_MODELS.map((model) => ({
+        ...model,
+        response: "",
+        files: [],
+      })),
     },
   });
 
+  // Models are chosen before the folders are created, one response folder each
+  const candidateFields = useFieldArray({
+    control: form.control,
+    name: "candidates",
+  });
+  const candidates = form.watch("candidates");
+  const availableSuggestions = SUGGESTED_TASK_MODELS.filter(
+    (model) => !candidates.some((candidate) => candidate.id === model.id)
+  );
+
+  const addCandidate = (model: { id: string; label: string }) => {
+    candidateFields.append({ ...model, response: "", files: [] });
+  };
+
   const workflowSteps = getWorkflowSteps();
 
-  // Query for existing incomplete tasks
+  // The trainer's open tasks against their concurrent task limit
   const {
-    data: existingTasks,
+    data: taskQuota,
     isLoading: tasksLoading,
     error: tasksError,
-  } = api.tasks.getMyTasks.useQuery();
+  } = api.taskAssignments.myQuota.useQuery();
 
-  // Check if user has any incomplete tasks
-  const incompleteTasks =
-    existingTasks?.filter((task) => task.Status !== "Completed") || [];
-  const hasIncompleteTasks = incompleteTasks.length > 0;
-  const currentIncompleteTask = incompleteTasks[0];
+  const isAtTaskQuota = !!taskQuota && !taskQuota.hasCapacity;
+  const currentIncompleteTask = taskQuota?.activeTasks[0];
+  const taskQuotaSummary = taskQuota
+    ? `${taskQuota.activeTasks.length} of ${taskQuota.maxConcurrentTasks} task${
+        taskQuota.maxConcurrentTasks !== 1 ? "s" : ""
+      }`
+    : "";
+
+  const autosave = useDraftAutosave({
+    draftKey: { taskId: NEW_TASK_DRAFT_ID, stage: "task_creation" },
+    value: toTaskDraft(form.watch()),
+    onRestore: (draft) =>
+      form.reset({
+        ...form.getValues(),
+        ...draft,
+        candidates: draft.candidates.map((candidate) => ({
+          ...candidate,
+          files: [],
+        })),
+      }),
+    enabled:
+      !tasksLoading && !isAtTaskQuota && !isSubmitting && !createdTaskInfo,
+  });
 
   // Mutation to create folder structure
   const createFoldersMutation = api.tasks.createFolders.useMutation({
@@ -141,8 +201,11 @@ export default function NewTaskPage() {
         taskId: result.taskId,
         folderUrl: result.folderUrl,
         requestFileCount: form.getValues("requestFiles").length,
-        responseGeminiFileCount: form.getValues("responseGeminiFiles").length,
-        responseGptFileCount: form.getValues("responseGptFiles").length,
+        responseFiles: form.getValues("candidates").map((candidate) => ({
+          id: candidate.id,
+          label: candidate.label,
+          count: candidate.files.length,
+        })),
       });
       setIsSubmitting(false);
       setTimeout(() => {
@@ -153,31 +216,28 @@ export default function NewTaskPage() {
       setIsSubmitting(false);
 
       if (error.data?.code === "CONFLICT") {
-        if (error.message.startsWith("INCOMPLETE_TASK_EXISTS:")) {
-          const parts = error.message.split(":");
-          if (parts.length >= 4) {
-            const existingTaskId = parts[1];
-            const existingTaskStatusLabel = parts[3];
+        if (error.message.startsWith("TASK_QUOTA_REACHED:")) {
+          const [, limit, taskIds] = error.message.split(":");
+          const existingTaskId = taskIds?.split(",")[0];
 
-            setSubmitError(
-              `You already have an incomplete task (${existingTaskId}) in status "${existingTaskStatusLabel}". Please complete your current task before creating a new one.`
-            );
+          setSubmitError(
+            `You already have ${limit} task${
+              limit !== "1" ? "s" : ""
+            } in progress, the most you can hold at once. Please complete one before creating a new one.`
+          );
 
-            toast.error("Cannot create new task", {
-              description: `Complete task ${existingTaskId} first`,
+          toast.error("Cannot create new task", {
+            description: existingTaskId
+              ? `Complete task ${existingTaskId} first`
+              : "Complete one of your current tasks first.",
+            ...(existingTaskId && {
               action: {
                 label: "View Task",
                 onClick: () =>
                   router.push(`/dashboard/tasks/${existingTaskId}`),
               },
-            });
-          } else {
-            setSubmitError(error.message);
-            toast.error("Cannot create new task", {
-              description:
-                "You have an incomplete task that must be completed first.",
-            });
-          }
+            }),
+          });
         } else {
           setSubmitError(error.message);
           toast.error("Cannot create new task", {
@@ -197,16 +257,29 @@ export default function NewTaskPage() {
 
   // Step 1: Create folder structure
   const initializeTask = async () => {
-    if (hasIncompleteTasks) {
+    if (isAtTaskQuota) {
       toast.error("Cannot create new task", {
-        description:
-          "You have an incomplete task that must be completed first.",
+        description: `You already have ${taskQuotaSummary} in progress.`,
       });
       return;
     }
 
+    const models = form
+      .getValues("candidates")
+      .map(({ id, label }) => ({ id, label }));
+
+    if (models.some((model) => !TaskModelSchema.safeParse(model).success)) {
+      toast.error("Please give every model a name");
+      return;
+    }
+
+    if (new Set(models.map((model) => model.id)).size !== models.length) {
+      toast.error("Each model can only be added once");
+      return;
+    }
+
     setSubmitError(null);
-    await createFoldersMutation.mutateAsync({});
+    await createFoldersMutation.mutateAsync({ models });
   };
 
   // Step 2: Submit task after files are uploaded
@@ -220,8 +293,7 @@ export default function NewTaskPage() {
     // Check that all files have been uploaded
     const allFiles = [
       ...data.requestFiles,
-      ...data.responseGeminiFiles,
-      ...data.responseGptFiles,
+      ...data.candidates.flatMap((candidate) => candidate.files),
     ];
     const missingUploads = allFiles.filter((file) => !file.driveFileId);
 
@@ -253,15 +325,12 @@ export default function NewTaskPage() {
     }
   };
 
-  const selectedSector = professionalSectors.find(
-    (sector) => sector.value === form.watch("ProfessionalSector")
-  );
+  const selectedSector = getSector(form.watch("ProfessionalSector"));
 
   // Check if all files are uploaded
   const allFiles = [
     ...form.watch("requestFiles"),
-    ...form.watch("responseGeminiFiles"),
-    ...form.watch("responseGptFiles"),
+    ...candidates.flatMap((candidate) => candidate.files),
   ];
   const allFilesUploaded =
     allFiles.length > 0 && allFiles.every((file) => file.driveFileId);
@@ -304,28 +373,19 @@ export default function NewTaskPage() {
                     {createdTaskInfo.requestFileCount}
                   </Badge>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-green-700 dark:text-green-300">
-                    Gemini Files:
-                  </span>
-                  <Badge
-                    variant="secondary"
-                    className="bg-green-200 dark:bg-green-800 text-green-800 dark:text-green-200"
-                  >
-                    {createdTaskInfo.responseGeminiFileCount}
-                  </Badge>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-green-700 dark:text-green-300">
-                    GPT Files:
-                  </span>
-                  <Badge
-                    variant="secondary"
-                    className="bg-green-200 dark:bg-green-800 text-green-800 dark:text-green-200"
-                  >
-                    {createdTaskInfo.responseGptFileCount}
-                  </Badge>
-                </div>
+                {createdTaskInfo.responseFiles.map((model) => (
+                  <div key={model.id} className="flex justify-between text-sm">
+                    <span className="text-green-700 dark:text-green-300">
+                      {model.label} Files:
+                    </span>
+                    <Badge
+                      variant="secondary"
+                      className="bg-green-200 dark:bg-green-800 text-green-800 dark:text-green-200"
+                    >
+                      {model.count}
+                    </Badge>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -361,14 +421,12 @@ export default function NewTaskPage() {
                   📁 {createdTaskInfo.taskId}/request →{" "}
                   {createdTaskInfo.requestFileCount} files
                 </li>
-                <li>
-                  📁 {createdTaskInfo.taskId}/response_gemini →{" "}
-                  {createdTaskInfo.responseGeminiFileCount} files
-                </li>
-                <li>
-                  📁 {createdTaskInfo.taskId}/response_gpt →{" "}
-                  {createdTaskInfo.responseGptFileCount} files
-                </li>
+                {createdTaskInfo.responseFiles.map((model) => (
+                  <li key={model.id}>
+                    📁 {createdTaskInfo.taskId}/response_{model.id} →{" "}
+                    {model.count} files
+                  </li>
+                ))}
               </ul>
               Redirecting to task page in 5 seconds...
             </AlertDescription>
@@ -435,16 +493,18 @@ export default function NewTaskPage() {
           </p>
         </div>
 
-        {/* Incomplete Task Warning */}
-        {hasIncompleteTasks && currentIncompleteTask && (
+        {/* Task Limit Warning */}
+        {isAtTaskQuota && currentIncompleteTask && (
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
             <AlertTitle>Cannot Create New Task</AlertTitle>
             <AlertDescription>
-              You already have an incomplete task (
-              {currentIncompleteTask.TaskID}) in status &ldquo;
+              You already have {taskQuotaSummary} in progress, the most you can
+              hold at once. Your latest is {currentIncompleteTask.TaskID} in
+              status &ldquo;
               {getStatusDisplayInfo(currentIncompleteTask.Status).label}&rdquo;.
-              Please complete your current task before creating a new one.
+              Please complete a task, or ask a lead to hand one over, before
+              creating a new one.
               <div className="mt-3 flex space-x-2">
                 <Button
                   variant="outline"
@@ -456,7 +516,7 @@ export default function NewTaskPage() {
                   }
                 >
                   <Eye className="h-4 w-4 mr-2" />
-                  View Current Task
+                  View Latest Task
                 </Button>
                 <Button
                   variant="outline"
@@ -481,7 +541,7 @@ export default function NewTaskPage() {
         )}
 
         {/* Step indicator */}
-        {!hasIncompleteTasks && (
+        {!isAtTaskQuota && (
           <div className="flex items-center space-x-4 p-4 bg-muted/50 rounded-lg">
             <div
               className={`flex items-center space-x-2 ${
@@ -545,20 +605,125 @@ export default function NewTaskPage() {
         )}
       </div>
 
-      {/* Only show form if no incomplete tasks exist */}
-      {!hasIncompleteTasks ? (
+      {/* Only show form while under the task limit */}
+      {!isAtTaskQuota ? (
         <>
+          <DraftStatus
+            status={autosave.status}
+            savedAt={autosave.savedAt}
+            restoredAt={autosave.restoredAt}
+            onDiscard={() => {
+              // Models and uploads stay, they may already have Drive folders
+              form.resetField("Prompt");
+              form.resetField("ProfessionalSector");
+              form.resetField("LicenseNotes");
+              form
+                .getValues("candidates")
+                .forEach((_, index) =>
+                  form.setValue(`candidates.${index}.response`, "")
+                );
+              autosave.discard(toTaskDraft(form.getValues()));
+            }}
+          />
+
           {/* Step 1: Initialize Task */}
           {!folderInfo && (
             <Card>
               <CardHeader>
                 <CardTitle>Step 1: Initialize Task</CardTitle>
                 <CardDescription>
-                  First, we&apos;ll create the folder structure in Google Drive
+                  First, choose the models whose responses you will evaluate.
+                  We&apos;ll then create the folder structure in Google Drive
                   for your task.
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-6">
+                <Form {...form}>
+                  <div className="space-y-3">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Candidate Models</p>
+                      <p className="text-sm text-muted-foreground">
+                        The first model is the primary model used to iterate on
+                        the rubric. The others are compared against the final
+                        rubric. Choose between {MIN_TASK_MODELS} and{" "}
+                        {MAX_TASK_MODELS} models.
+                      </p>
+                    </div>
+
+                    {candidateFields.fields.map((field, index) => (
+                      <FormField
+                        key={field.id}
+                        control={form.control}
+                        name={`candidates.${index}.label`}
+                        render={({ field: labelField }) => (
+                          <FormItem>
+                            <div className="flex items-center space-x-2">
+                              <Badge
+                                variant={index === 0 ? "default" : "outline"}
+                                className="w-24 justify-center"
+                              >
+                                {index === 0 ? "Primary" : "Comparison"}
+                              </Badge>
+                              <FormControl>
+                                <Input
+                                  placeholder="Model name"
+                                  {...labelField}
+                                  onChange={(event) => {
+                                    labelField.onChange(event);
+                                    form.setValue(
+                                      `candidates.${index}.id`,
+                                      toModelId(event.target.value)
+                                    );
+                                  }}
+                                />
+                              </FormControl>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                disabled={
+                                  candidateFields.fields.length <=
+                                  MIN_TASK_MODELS
+                                }
+                                onClick={() => candidateFields.remove(index)}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+
+                    {candidateFields.fields.length < MAX_TASK_MODELS && (
+                      <div className="flex flex-wrap gap-2">
+                        {availableSuggestions.map((model) => (
+                          <Button
+                            key={model.id}
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => addCandidate(model)}
+                          >
+                            <Plus className="mr-1 h-3 w-3" />
+                            {model.label}
+                          </Button>
+                        ))}
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => addCandidate({ id: "", label: "" })}
+                        >
+                          <Plus className="mr-1 h-3 w-3" />
+                          Other Model
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </Form>
+
                 <Button
                   onClick={initializeTask}
                   disabled={createFoldersMutation.isPending}
@@ -674,7 +839,7 @@ export default function NewTaskPage() {
                                     </SelectTrigger>
                                   </FormControl>
                                   <SelectContent>
-                                    {professionalSectors.map((sector) => (
+                                    {activeSectors.map((sector) => (
                                       <SelectItem
                                         key={sector.value}
                                         value={sector.value}
@@ -741,55 +906,43 @@ export default function NewTaskPage() {
                             )}
                           />
 
-                          <FormField
-                            control={form.control}
-                            name="responseGeminiFiles"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Gemini Response Files *</FormLabel>
-                                <FormControl>
-                                  <DirectFileUpload
-                                    files={field.value}
-                                    onFilesChange={field.onChange}
-                                    folderId={folderInfo.responseGeminiFolderId}
-                                    label="Upload Gemini Response Files"
-                                    description="Upload files generated by or related to Gemini model responses"
-                                    immediate={true}
-                                  />
-                                </FormControl>
-                                <FormDescription>
-                                  These files will be stored in the
-                                  &lsquo;response_gemini&rsquo; folder.
-                                </FormDescription>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-
-                          <FormField
-                            control={form.control}
-                            name="responseGptFiles"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>GPT Response Files *</FormLabel>
-                                <FormControl>
-                                  <DirectFileUpload
-                                    files={field.value}
-                                    onFilesChange={field.onChange}
-                                    folderId={folderInfo.responseGptFolderId}
-                                    label="Upload GPT Response Files"
-                                    description="Upload files generated by or related to GPT model responses"
-                                    immediate={true}
-                                  />
-                                </FormControl>
-                                <FormDescription>
-                                  These files will be stored in the
-                                  &lsquo;response_gpt&rsquo; folder.
-                                </FormDescription>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                          {candidateFields.fields.map((field, index) => {
+                            const candidate = candidates[index];
+                            return (
+                              <FormField
+                                key={field.id}
+                                control={form.control}
+                                name={`candidates.${index}.files`}
+                                render={({ field: filesField }) => (
+                                  <FormItem>
+                                    <FormLabel>
+                                      {candidate.label} Response Files
+                                    </FormLabel>
+                                    <FormControl>
+                                      <DirectFileUpload
+                                        files={filesField.value}
+                                        onFilesChange={filesField.onChange}
+                                        folderId={
+                                          folderInfo.responseFolderIds[
+                                            candidate.id
+                                          ]
+                                        }
+                                        label={`Upload ${candidate.label} Response Files`}
+                                        description={`Upload files generated by or related to the ${candidate.label} response`}
+                                        immediate={true}
+                                      />
+                                    </FormControl>
+                                    <FormDescription>
+                                      These files will be stored in the
+                                      &lsquo;response_{candidate.id}&rsquo;
+                                      folder.
+                                    </FormDescription>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            );
+                          })}
                         </CardContent>
                       </Card>
 
@@ -801,54 +954,39 @@ export default function NewTaskPage() {
                             <span>AI Model Responses</span>
                           </CardTitle>
                           <CardDescription>
-                            Provide the complete responses from both GPT and
-                            Gemini models.
+                            Provide the complete response from each model.
                           </CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-4">
-                          <FormField
-                            control={form.control}
-                            name="GPTResponse"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>GPT Response *</FormLabel>
-                                <FormControl>
-                                  <Textarea
-                                    placeholder="Paste the complete response from GPT model here..."
-                                    className="min-h-[120px] bg-background/50 font-mono text-sm"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormDescription>
-                                  Include the full response exactly as provided
-                                  by GPT.
-                                </FormDescription>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-
-                          <FormField
-                            control={form.control}
-                            name="GeminiResponse"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Gemini Response *</FormLabel>
-                                <FormControl>
-                                  <Textarea
-                                    placeholder="Paste the complete response from Gemini model here..."
-                                    className="min-h-[120px] bg-background/50 font-mono text-sm"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormDescription>
-                                  Include the full response exactly as provided
-                                  by Gemini.
-                                </FormDescription>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
+                          {candidateFields.fields.map((field, index) => {
+                            const candidate = candidates[index];
+                            return (
+                              <FormField
+                                key={field.id}
+                                control={form.control}
+                                name={`candidates.${index}.response`}
+                                render={({ field: responseField }) => (
+                                  <FormItem>
+                                    <FormLabel>
+                                      {candidate.label} Response *
+                                    </FormLabel>
+                                    <FormControl>
+                                      <Textarea
+                                        placeholder={`Paste the complete response from ${candidate.label} here...`}
+                                        className="min-h-[120px] bg-background/50 font-mono text-sm"
+                                        {...responseField}
+                                      />
+                                    </FormControl>
+                                    <FormDescription>
+                                      Include the full response exactly as
+                                      provided by {candidate.label}.
+                                    </FormDescription>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            );
+                          })}
                         </CardContent>
                       </Card>
 
@@ -935,30 +1073,25 @@ export default function NewTaskPage() {
                               {form.watch("requestFiles").length} files
                             </Badge>
                           </div>
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm">Gemini Files</span>
-                            <Badge
-                              variant={
-                                form.watch("responseGeminiFiles").length > 0
-                                  ? "default"
-                                  : "secondary"
-                              }
+                          {candidates.map((candidate) => (
+                            <div
+                              key={candidate.id}
+                              className="flex items-center justify-between"
                             >
-                              {form.watch("responseGeminiFiles").length} files
-                            </Badge>
-                          </div>
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm">GPT Files</span>
-                            <Badge
-                              variant={
-                                form.watch("responseGptFiles").length > 0
-                                  ? "default"
-                                  : "secondary"
-                              }
-                            >
-                              {form.watch("responseGptFiles").length} files
-                            </Badge>
-                          </div>
+                              <span className="text-sm">
+                                {candidate.label} Files
+                              </span>
+                              <Badge
+                                variant={
+                                  candidate.files.length > 0
+                                    ? "default"
+                                    : "secondary"
+                                }
+                              >
+                                {candidate.files.length} files
+                              </Badge>
+                            </div>
+                          ))}
                           <div className="pt-2 border-t">
                             <div className="flex items-center justify-between">
                               <span className="text-sm font-medium">
@@ -1116,7 +1249,7 @@ export default function NewTaskPage() {
           )}
         </>
       ) : (
-        // Alternative content when incomplete tasks exist
+        // Alternative content when the trainer is at their task limit
         <Card className="bg-gradient-to-br from-muted/30 to-muted/10 border-border/50">
           <CardContent className="py-16">
             <div className="text-center space-y-6">
@@ -1125,12 +1258,13 @@ export default function NewTaskPage() {
               </div>
               <div className="space-y-2">
                 <h3 className="text-xl font-semibold text-foreground">
-                  Complete Your Current Task First
+                  Complete a Current Task First
                 </h3>
                 <p className="text-muted-foreground max-w-md mx-auto">
-                  You can only work on one task at a time. Please complete your
-                  current task &ldquo;
-                  {currentIncompleteTask?.TaskID}&rdquo; before creating a new
+                  You can work on up to {taskQuota?.maxConcurrentTasks} task
+                  {taskQuota?.maxConcurrentTasks !== 1 ? "s" : ""} at a time.
+                  Please complete one of your current tasks, such as &ldquo;
+                  {currentIncompleteTask?.TaskID}&rdquo;, before creating a new
                   one.
                 </p>
               </div>
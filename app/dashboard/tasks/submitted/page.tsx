@@ -24,13 +24,15 @@ import {
   Trophy,
   Activity,
   PlayCircle,
+  MessageSquare,
 } from "lucide-react";
 import { api } from "@/lib/trpc/client";
 import { getStatusDisplayInfo, TaskStatus } from "@/lib/schemas/task";
 import { truncateText } from "@/lib/utils/task-utils";
-import { professionalSectors } from "@/constants/ProfessionalSectors";
+import { useSectorCatalog } from "@/lib/services/useSectorCatalog";
 
 export default function SubmittedTasksPage() {
+  const { getSector } = useSectorCatalog();
   const router = useRouter();
   const {
     data: tasks,
@@ -93,19 +95,24 @@ export default function SubmittedTasksPage() {
   }
 
   const getSectorIcon = (sector: string) => {
-    const sectorData = professionalSectors.find((s) => s.value === sector);
+    const sectorData = getSector(sector);
     return sectorData?.icon || "📋";
   };
 
-  // Group tasks by progress status
-  const inProgressTasks = tasks?.filter((t) => t.Status !== "Completed") || [];
+  // Group tasks by progress status; abandoned tasks need no more work
+  const inProgressTasks =
+    tasks?.filter((t) => !["Completed", "Abandoned"].includes(t.Status)) || [];
   const completedTasks = tasks?.filter((t) => t.Status === "Completed") || [];
 
   // Further categorize in-progress tasks
   const tasksNeedingAttention = inProgressTasks.filter((t) =>
-    ["Task_Creation", "Rubric_V1", "Rubric_V2", "Rubric_Enhancing"].includes(
-      t.Status
-    )
+    [
+      "Task_Creation",
+      "Rubric_V1",
+      "Rubric_V2",
+      "Rubric_Enhancing",
+      "Changes_Requested",
+    ].includes(t.Status)
   );
   const tasksInEvaluation = inProgressTasks.filter((t) =>
     [
@@ -113,6 +120,7 @@ export default function SubmittedTasksPage() {
       "Human_Eval_Gemini",
       "Human_Eval_GPT",
       "Model_Eval_GPT",
+      "In_Review",
     ].includes(t.Status)
   );
 
@@ -133,7 +141,7 @@ export default function SubmittedTasksPage() {
         };
       case "Rubric_V2":
         return {
-          label: "Evaluate Gemini",
+          label: "Evaluate Primary",
           step: "Human Evaluation",
           icon: User,
         };
@@ -144,7 +152,11 @@ export default function SubmittedTasksPage() {
           icon: BarChart3,
         };
       case "Model_Eval_Gemini":
-        return { label: "Evaluate GPT", step: "Human Evaluation", icon: User };
+        return {
+          label: "Evaluate Comparison",
+          step: "Human Evaluation",
+          icon: User,
+        };
       case "Human_Eval_GPT":
         return {
           label: "Final Model Eval",
@@ -153,9 +165,21 @@ export default function SubmittedTasksPage() {
         };
       case "Model_Eval_GPT":
         return {
-          label: "Complete Task",
-          step: "Almost Complete",
-          icon: Trophy,
+          label: "Next Comparison",
+          step: "Human Evaluation",
+          icon: User,
+        };
+      case "In_Review":
+        return {
+          label: "View Review",
+          step: "Lead Review",
+          icon: Eye,
+        };
+      case "Changes_Requested":
+        return {
+          label: "See Feedback",
+          step: "Address Lead Feedback",
+          icon: MessageSquare,
         };
       case "Completed":
         return {
@@ -174,6 +198,7 @@ export default function SubmittedTasksPage() {
     const action = getNextAction(task.Status);
     const isCompleted = task.Status === "Completed";
     const resultsLink = `/dashboard/tasks/${task.TaskID}/results`;
+    const reviewLink = `/dashboard/tasks/${task.TaskID}/review`;
 
     return (
       <Button
@@ -182,7 +207,11 @@ export default function SubmittedTasksPage() {
         onClick={(e) => {
           e.stopPropagation();
           router.push(
-            isCompleted ? resultsLink : `/dashboard/tasks/${task.TaskID}`
+            isCompleted
+              ? resultsLink
+              : task.Status === "Changes_Requested"
+              ? reviewLink
+              : `/dashboard/tasks/${task.TaskID}`
           );
         }}
         className={
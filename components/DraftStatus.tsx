@@ -0,0 +1,67 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, CloudUpload, History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { DraftSaveStatus } from "@/lib/services/useDraftAutosave";
+
+interface DraftStatusProps {
+  status: DraftSaveStatus;
+  savedAt: Date | null;
+  restoredAt: Date | null;
+  onDiscard: () => void;
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+// Autosave state of a form, with a way out of a restored draft
+export function DraftStatus({
+  status,
+  savedAt,
+  restoredAt,
+  onDiscard,
+}: DraftStatusProps) {
+  const message =
+    status === "saving" ? (
+      <>
+        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+        Saving draft...
+      </>
+    ) : status === "error" ? (
+      <span className="flex items-center text-destructive">
+        <AlertTriangle className="w-3 h-3 mr-1" />
+        Draft not saved
+      </span>
+    ) : status === "saved" && savedAt ? (
+      <>
+        <CloudUpload className="w-3 h-3 mr-1" />
+        Draft saved at {formatTime(savedAt)}
+      </>
+    ) : restoredAt ? (
+      <>
+        <History className="w-3 h-3 mr-1" />
+        Restored your draft from {formatTime(restoredAt)}
+      </>
+    ) : null;
+
+  if (!message) return null;
+
+  return (
+    <div className="flex items-center justify-between text-xs text-muted-foreground">
+      <span className="flex items-center">{message}</span>
+      {(restoredAt || savedAt) && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-auto px-2 py-1 text-xs"
+          onClick={onDiscard}
+        >
+          Discard draft
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,53 @@
-export const professionalSectors = [
+import type { SectorColor } from "@/lib/schemas/sector.schema";
+
+// Built-in sectors; the catalog admins edit starts from these
+export const professionalSectors: {
+  value: string;
+  label: string;
+  description: string;
+  icon: string;
+  color: SectorColor;
+}[] = [
   {
-    value: "Data-Science & Analysis" as const,
+    value: "Data-Science & Analysis",
     label: "Data Science & Analysis",
     description: "Building graphs, cleaning datasets, categorizing data",
     icon: "📊",
+    color: "blue",
   },
   {
-    value: "Web development" as const,
+    value: "Web development",
     label: "Web Development",
     description: "Troubleshooting, interactive graphics (Three.js, D3.js)",
     icon: "💻",
+    color: "green",
   },
   {
-    value: "STEM Research" as const,
+    value: "STEM Research",
     label: "STEM Research",
     description: "Grant writing, literature review, experiment design",
     icon: "🔬",
+    color: "purple",
   },
   {
-    value: "Medicine" as const,
+    value: "Medicine",
     label: "Medicine",
     description: "Complex medical queries and case analysis",
     icon: "🏥",
+    color: "red",
   },
   {
-    value: "Law" as const,
+    value: "Law",
     label: "Law",
     description: "Complex legal queries and case research",
     icon: "⚖️",
+    color: "amber",
   },
   {
-    value: "Accounting" as const,
+    value: "Accounting",
     label: "Accounting",
     description: "Complex accounting queries and analysis",
     icon: "💼",
+    color: "indigo",
   },
 ];
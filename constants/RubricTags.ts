@@ -0,0 +1,110 @@
+import type { ProfessionalSector } from "@/lib/schemas/task";
+
+// Tags any sector's rubric can use, matching the decomposer prompt's guidance
+export const COMMON_RUBRIC_TAGS = [
+  "accuracy",
+  "clarity",
+  "completeness",
+  "detail",
+  "examples",
+  "format",
+  "formatting",
+  "instructions",
+  "language",
+  "length",
+  "logic",
+  "relevance",
+  "sources",
+  "structure",
+  "style",
+  "tone",
+  "word_limit",
+];
+
+// Vocabularies of the built-in sectors; the rubric linter warns about tags
+// outside them. Sectors added to the catalog are offered the common tags
+// only, and the linter does not check their tags.
+export const SECTOR_RUBRIC_TAGS: Partial<Record<ProfessionalSector, string[]>> =
+  {
+    "Data-Science & Analysis": [
+      "analysis",
+      "categorization",
+      "chart",
+      "cleaning",
+      "code",
+      "columns",
+      "data_types",
+      "duplicates",
+      "missing_values",
+      "outliers",
+      "statistics",
+      "visualization",
+    ],
+    "Web development": [
+      "accessibility",
+      "api",
+      "code",
+      "code_quality",
+      "compatibility",
+      "debugging",
+      "error_handling",
+      "framework",
+      "interactivity",
+      "library",
+      "performance",
+      "responsiveness",
+      "security",
+    ],
+    "STEM Research": [
+      "background",
+      "budget",
+      "citations",
+      "experiment_design",
+      "goals",
+      "hypothesis",
+      "limitations",
+      "literature",
+      "methodology",
+      "results",
+    ],
+    Medicine: [
+      "contraindications",
+      "diagnosis",
+      "disclaimer",
+      "dosage",
+      "evidence",
+      "guidelines",
+      "patient_care",
+      "safety",
+      "symptoms",
+      "treatment",
+    ],
+    Law: [
+      "case_law",
+      "compliance",
+      "contracts",
+      "disclaimer",
+      "jurisdiction",
+      "legal_reasoning",
+      "liability",
+      "precedent",
+      "rights",
+      "statute",
+    ],
+    Accounting: [
+      "calculations",
+      "compliance",
+      "financial_statements",
+      "gaap",
+      "ifrs",
+      "journal_entries",
+      "reconciliation",
+      "reporting",
+      "standards",
+      "tax",
+    ],
+  };
+
+export function getSectorRubricTags(sector: ProfessionalSector): string[] {
+  return [...COMMON_RUBRIC_TAGS, ...(SECTOR_RUBRIC_TAGS[sector] || [])];
+}
@@ -1,5 +1,21 @@
 import { UserRole } from "@/lib/schemas/users.schema";
-import { FileCheck, Home, Plus, Users } from "lucide-react";
+import {
+  ArrowRightLeft,
+  BarChart3,
+  ClipboardCheck,
+  Download,
+  FileCheck,
+  Home,
+  Layers,
+  Library,
+  ListFilter,
+  Plus,
+  SlidersHorizontal,
+  Trophy,
+  Upload,
+  UserCheck,
+  Users,
+} from "lucide-react";
 
 interface SidebarItem {
   title: string;
@@ -29,6 +45,76 @@ export const sidebarItems: SidebarItem[] = [
     icon: FileCheck,
     description: "Manage submitted tasks",
   },
+  {
+    title: "Peer Evaluations",
+    href: "/dashboard/annotations",
+    icon: UserCheck,
+    description: "Tasks you were asked to score",
+  },
+  {
+    title: "Review Queue",
+    href: "/dashboard/review",
+    icon: ClipboardCheck,
+    roles: ["lead", "admin"],
+    badge: "Lead",
+    description: "Approve submitted tasks",
+  },
+  {
+    title: "Assignments",
+    href: "/dashboard/admin/assignments",
+    icon: ArrowRightLeft,
+    roles: ["lead", "admin"],
+    badge: "Lead",
+    description: "Hand over tasks and set quotas",
+  },
+  {
+    title: "All Tasks",
+    href: "/dashboard/admin/tasks",
+    icon: ListFilter,
+    roles: ["lead", "admin"],
+    badge: "Lead",
+    description: "Browse every trainer's tasks",
+  },
+  {
+    title: "Tag Analytics",
+    href: "/dashboard/admin/analytics",
+    icon: BarChart3,
+    roles: ["lead", "admin"],
+    badge: "Lead",
+    description: "Alignment by rubric tag",
+  },
+  {
+    title: "Model Leaderboard",
+    href: "/dashboard/admin/leaderboard",
+    icon: Trophy,
+    roles: ["lead", "admin"],
+    badge: "Lead",
+    description: "Model pass rates head to head",
+  },
+  {
+    title: "Rubric Templates",
+    href: "/dashboard/admin/rubric-templates",
+    icon: Library,
+    roles: ["admin"],
+    badge: "Admin",
+    description: "Reusable rubric items per sector",
+  },
+  {
+    title: "Dataset Export",
+    href: "/dashboard/admin/exports",
+    icon: Download,
+    roles: ["lead", "admin"],
+    badge: "Lead",
+    description: "Download completed tasks",
+  },
+  {
+    title: "Bulk Import",
+    href: "/dashboard/admin/import",
+    icon: Upload,
+    roles: ["admin"],
+    badge: "Admin",
+    description: "Create tasks from a file",
+  },
   {
     title: "User Management",
     href: "/dashboard/admin/users",
@@ -37,6 +123,22 @@ export const sidebarItems: SidebarItem[] = [
     badge: "Admin",
     description: "Manage platform users",
   },
+  {
+    title: "Sectors",
+    href: "/dashboard/admin/sectors",
+    icon: Layers,
+    roles: ["admin"],
+    badge: "Admin",
+    description: "Sector catalog and task migration",
+  },
+  {
+    title: "Sector Policies",
+    href: "/dashboard/admin/sector-policies",
+    icon: SlidersHorizontal,
+    roles: ["admin"],
+    badge: "Admin",
+    description: "Alignment thresholds per sector",
+  },
 ];
 
 export const getFilteredSidebarItems = (
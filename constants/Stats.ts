@@ -79,52 +79,6 @@ export const adminQuickActions = [
   },
 ];
 
-// Professional sector data for category breakdown
-export const professionalSectorStats = [
-  {
-    name: "Data Science & Analysis",
-    icon: "📊",
-    color: "bg-blue-500",
-    lightColor: "bg-blue-100 dark:bg-blue-950/30",
-    textColor: "text-blue-700 dark:text-blue-400",
-  },
-  {
-    name: "Web Development",
-    icon: "💻",
-    color: "bg-green-500",
-    lightColor: "bg-green-100 dark:bg-green-950/30",
-    textColor: "text-green-700 dark:text-green-400",
-  },
-  {
-    name: "STEM Research",
-    icon: "🔬",
-    color: "bg-purple-500",
-    lightColor: "bg-purple-100 dark:bg-purple-950/30",
-    textColor: "text-purple-700 dark:text-purple-400",
-  },
-  {
-    name: "Medicine",
-    icon: "🏥",
-    color: "bg-red-500",
-    lightColor: "bg-red-100 dark:bg-red-950/30",
-    textColor: "text-red-700 dark:text-red-400",
-  },
-  {
-    name: "Law",
-    icon: "⚖️",
-    color: "bg-amber-500",
-    lightColor: "bg-amber-100 dark:bg-amber-950/30",
-    textColor: "text-amber-700 dark:text-amber-400",
-  },
-  {
-    name: "Accounting",
-    icon: "💼",
-    color: "bg-indigo-500",
-    lightColor: "bg-indigo-100 dark:bg-indigo-950/30",
-    textColor: "text-indigo-700 dark:text-indigo-400",
-  },
-];
-
 export const operatorStatCards = [
   {
     title: "Total Tasks",
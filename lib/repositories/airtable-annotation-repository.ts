@@ -0,0 +1,117 @@
+import type { FieldSet, Record as AirtableRecord, Table } from "airtable";
+import {
+  Annotation,
+  getAnnotationId,
+  ModelAnnotation,
+} from "@/lib/schemas/annotation.schema";
+import type { AnnotationRepository } from "./annotation-repository";
+import { fieldEquals } from "./airtable-formula";
+import { getAirtableBase } from "./airtable-base";
+
+interface AirtableAnnotationRecord extends FieldSet {
+  Annotation_ID: string; // see getAnnotationId
+  TaskID: string;
+  Evaluator_Email: string;
+  Assigned_By: string;
+  Assigned_At: string;
+  Evaluations?: string; // JSON Record<modelId, ModelAnnotation>
+}
+
+function toAnnotation(
+  record: AirtableRecord<AirtableAnnotationRecord>
+): Annotation {
+  let evaluations: Record<string, ModelAnnotation> = {};
+  try {
+    evaluations = JSON.parse(record.fields.Evaluations || "{}");
+  } catch (error) {
+    console.error("Error parsing annotation evaluations:", error);
+  }
+
+  return {
+    taskId: record.fields.TaskID,
+    evaluatorEmail: record.fields.Evaluator_Email,
+    assignedBy: record.fields.Assigned_By,
+    assignedAt: record.fields.Assigned_At,
+    evaluations,
+  };
+}
+
+export class AirtableAnnotationRepository implements AnnotationRepository {
+  private annotationsTable: Table<AirtableAnnotationRecord>;
+
+  constructor() {
+    this.annotationsTable = getAirtableBase()<AirtableAnnotationRecord>(
+      process.env.AIRTABLE_ANNOTATION_TABLE_NAME || "Annotations"
+    );
+  }
+
+  private async findRecord(id: string) {
+    const records = await this.annotationsTable
+      .select({
+        filterByFormula: fieldEquals("Annotation_ID", id),
+        maxRecords: 1,
+      })
+      .all();
+
+    return records[0] || null;
+  }
+
+  async find(taskId: string, evaluatorEmail: string) {
+    const record = await this.findRecord(
+      getAnnotationId(taskId, evaluatorEmail)
+    );
+    return record ? toAnnotation(record) : null;
+  }
+
+  async listByTask(taskId: string) {
+    const records = await this.annotationsTable
+      .select({ filterByFormula: fieldEquals("TaskID", taskId) })
+      .all();
+    return records.map(toAnnotation);
+  }
+
+  async listByEvaluator(evaluatorEmail: string) {
+    const records = await this.annotationsTable
+      .select({
+        filterByFormula: fieldEquals(
+          "Evaluator_Email",
+          evaluatorEmail.toLowerCase()
+        ),
+      })
+      .all();
+    return records.map(toAnnotation);
+  }
+
+  async save(annotation: Annotation) {
+    const id = getAnnotationId(annotation.taskId, annotation.evaluatorEmail);
+    const fields = {
+      Annotation_ID: id,
+      TaskID: annotation.taskId,
+      Evaluator_Email: annotation.evaluatorEmail.toLowerCase(),
+      Assigned_By: annotation.assignedBy,
+      Assigned_At: annotation.assignedAt,
+      Evaluations: JSON.stringify(annotation.evaluations),
+    };
+
+    const existing = await this.findRecord(id);
+
+    if (existing) {
+      const [updated] = await this.annotationsTable.update([
+        { id: existing.id, fields },
+      ]);
+      return toAnnotation(updated);
+    }
+
+    const created = await this.annotationsTable.create(fields);
+    return toAnnotation(created);
+  }
+
+  async delete(taskId: string, evaluatorEmail: string) {
+    const existing = await this.findRecord(
+      getAnnotationId(taskId, evaluatorEmail)
+    );
+    if (existing) {
+      await this.annotationsTable.destroy(existing.id);
+    }
+  }
+}
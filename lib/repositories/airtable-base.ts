@@ -0,0 +1,16 @@
+import Airtable from "airtable";
+
+// Base shared by every Airtable-backed repository
+export function getAirtableBase() {
+  if (!process.env.AIRTABLE_API_KEY) {
+    throw new Error("AIRTABLE_API_KEY environment variable is required");
+  }
+
+  if (!process.env.AIRTABLE_BASE_ID) {
+    throw new Error("AIRTABLE_BASE_ID environment variable is required");
+  }
+
+  return new Airtable({
+    apiKey: process.env.AIRTABLE_API_KEY,
+  }).base(process.env.AIRTABLE_BASE_ID);
+}
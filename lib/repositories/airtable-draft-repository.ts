@@ -0,0 +1,85 @@
+import type { FieldSet, Record as AirtableRecord, Table } from "airtable";
+import {
+  Draft,
+  DraftKey,
+  DraftStage,
+  getDraftId,
+} from "@/lib/schemas/draft.schema";
+import type { DraftRepository } from "./draft-repository";
+import { fieldEquals } from "./airtable-formula";
+import { getAirtableBase } from "./airtable-base";
+
+interface AirtableDraftRecord extends FieldSet {
+  Draft_ID: string; // see getDraftId
+  Owner_Email: string;
+  TaskID: string;
+  Stage: DraftStage;
+  Model_ID?: string;
+  Data: string;
+  LastModified?: string;
+}
+
+function toDraft(record: AirtableRecord<AirtableDraftRecord>): Draft {
+  return {
+    taskId: record.fields.TaskID,
+    stage: record.fields.Stage,
+    modelId: record.fields.Model_ID || undefined,
+    ownerEmail: record.fields.Owner_Email,
+    data: record.fields.Data,
+    updatedAt: record.fields.LastModified,
+  };
+}
+
+export class AirtableDraftRepository implements DraftRepository {
+  private draftsTable: Table<AirtableDraftRecord>;
+
+  constructor() {
+    this.draftsTable = getAirtableBase()<AirtableDraftRecord>(
+      process.env.AIRTABLE_DRAFT_TABLE_NAME || "Drafts"
+    );
+  }
+
+  private async findRecord(id: string) {
+    const records = await this.draftsTable
+      .select({ filterByFormula: fieldEquals("Draft_ID", id), maxRecords: 1 })
+      .all();
+
+    return records[0] || null;
+  }
+
+  async find(key: DraftKey, ownerEmail: string) {
+    const record = await this.findRecord(getDraftId(key, ownerEmail));
+    return record ? toDraft(record) : null;
+  }
+
+  async save(draft: Draft) {
+    const id = getDraftId(draft, draft.ownerEmail);
+    const fields = {
+      Draft_ID: id,
+      Owner_Email: draft.ownerEmail,
+      TaskID: draft.taskId,
+      Stage: draft.stage,
+      Model_ID: draft.modelId || "",
+      Data: draft.data,
+    };
+
+    const existing = await this.findRecord(id);
+
+    if (existing) {
+      const [updated] = await this.draftsTable.update([
+        { id: existing.id, fields },
+      ]);
+      return toDraft(updated);
+    }
+
+    const created = await this.draftsTable.create(fields);
+    return toDraft(created);
+  }
+
+  async delete(key: DraftKey, ownerEmail: string) {
+    const existing = await this.findRecord(getDraftId(key, ownerEmail));
+    if (existing) {
+      await this.draftsTable.destroy(existing.id);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  and,
+  escapeFormulaString,
+  fieldEquals,
+  fieldEqualsIgnoreCase,
+  fieldRef,
+  formulaLiteral,
+} from "./airtable-formula";
+
+describe("escapeFormulaString", () => {
+  it("escapes double quotes and backslashes", () => {
+    expect(escapeFormulaString('a"b\\c')).toBe('a\\"b\\\\c');
+  });
+
+  it("escapes control characters", () => {
+    expect(escapeFormulaString("a\nb\rc\td")).toBe("a\\nb\\rc\\td");
+  });
+
+  it("leaves braces and single quotes as plain text", () => {
+    expect(escapeFormulaString("{TrainerEmail}'")).toBe("{TrainerEmail}'");
+  });
+});
+
+describe("formulaLiteral", () => {
+  it("renders numbers and booleans without quoting", () => {
+    expect(formulaLiteral(3)).toBe("3");
+    expect(formulaLiteral(true)).toBe("TRUE()");
+    expect(formulaLiteral(false)).toBe("FALSE()");
+  });
+
+  it("rejects non-finite numbers", () => {
+    expect(() => formulaLiteral(Number.NaN)).toThrow();
+  });
+});
+
+describe("fieldRef", () => {
+  it("rejects field names that could close the reference", () => {
+    expect(() => fieldRef("TaskID} = 1, {Status")).toThrow(
+      "Invalid Airtable field name"
+    );
+  });
+});
+
+describe("fieldEquals", () => {
+  it("keeps a quote-breaking payload inside the string literal", () => {
+    expect(fieldEquals("TaskID", '" , TRUE()) , OR("')).toBe(
+      '{TaskID} = "\\" , TRUE()) , OR(\\""'
+    );
+  });
+
+  it("keeps single-quoted formula calls inside the string literal", () => {
+    expect(fieldEquals("TaskID", "' , TRUE()) , OR('")).toBe(
+      "{TaskID} = \"' , TRUE()) , OR('\""
+    );
+  });
+
+  it("keeps field references inside the string literal", () => {
+    expect(fieldEquals("TaskID", "} = {TaskID")).toBe(
+      '{TaskID} = "} = {TaskID"'
+    );
+  });
+
+  it("cannot escape the literal with a trailing backslash", () => {
+    expect(fieldEquals("TaskID", 'abc\\", TRUE(), "')).toBe(
+      '{TaskID} = "abc\\\\\\", TRUE(), \\""'
+    );
+  });
+});
+
+describe("fieldEqualsIgnoreCase", () => {
+  it("lowercases both sides and escapes the value", () => {
+    expect(
+      fieldEqualsIgnoreCase("TrainerEmail", 'Jane@X.email" , TRUE(), "')
+    ).toBe('LOWER({TrainerEmail}) = "jane@x.email\\" , true(), \\""');
+  });
+});
+
+describe("owned task formula", () => {
+  it("matches both the task id and the owner whatever the id holds", () => {
+    expect(
+      and(
+        fieldEquals("TaskID", '" , TRUE()) , OR("'),
+        fieldEquals("TrainerEmail", "trainer@invisible.email")
+      )
+    ).toBe(
+      'AND({TaskID} = "\\" , TRUE()) , OR(\\"", {TrainerEmail} = "trainer@invisible.email")'
+    );
+  });
+});
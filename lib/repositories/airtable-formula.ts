@@ -0,0 +1,92 @@
+// Small builder for Airtable `filterByFormula` expressions.
+// Values are always emitted as escaped string literals so user-supplied
+// input (task ids, emails) can never break out of the literal and change
+// the shape of the query.
+
+const FIELD_NAME_PATTERN = /^[A-Za-z0-9_ ]+$/;
+
+export type FormulaValue = string | number | boolean;
+
+/**
+ * Escape a value for use inside a double-quoted Airtable string literal
+ */
+export function escapeFormulaString(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t");
+}
+
+/**
+ * Render a value as a formula literal
+ */
+export function formulaLiteral(value: FormulaValue): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot use non-finite number ${value} in a formula`);
+    }
+    return String(value);
+  }
+
+  if (typeof value === "boolean") {
+    return value ? "TRUE()" : "FALSE()";
+  }
+
+  return `"${escapeFormulaString(value)}"`;
+}
+
+/**
+ * Render a field reference. Field names come from our own schema, so
+ * anything outside the expected character set is a programming error.
+ */
+export function fieldRef(fieldName: string): string {
+  if (!FIELD_NAME_PATTERN.test(fieldName)) {
+    throw new Error(`Invalid Airtable field name: ${fieldName}`);
+  }
+  return `{${fieldName}}`;
+}
+
+export function fieldEquals(fieldName: string, value: FormulaValue): string {
+  return `${fieldRef(fieldName)} = ${formulaLiteral(value)}`;
+}
+
+// Case-insensitive equality, for values such as emails
+export function fieldEqualsIgnoreCase(
+  fieldName: string,
+  value: string
+): string {
+  return `LOWER(${fieldRef(fieldName)}) = ${formulaLiteral(
+    value.toLowerCase()
+  )}`;
+}
+
+export function fieldNotEquals(fieldName: string, value: FormulaValue): string {
+  return `${fieldRef(fieldName)} != ${formulaLiteral(value)}`;
+}
+
+export function and(...conditions: string[]): string {
+  if (conditions.length === 1) return conditions[0];
+  return `AND(${conditions.join(", ")})`;
+}
+
+export function or(...conditions: string[]): string {
+  if (conditions.length === 1) return conditions[0];
+  return `OR(${conditions.join(", ")})`;
+}
+
+// Case-insensitive substring match
+export function fieldContains(fieldName: string, value: string): string {
+  return `FIND(LOWER(${formulaLiteral(value)}), LOWER(${fieldRef(
+    fieldName
+  )})) > 0`;
+}
+
+export function fieldOnOrAfter(fieldName: string, isoDate: string): string {
+  return `NOT(IS_BEFORE(${fieldRef(fieldName)}, ${formulaLiteral(isoDate)}))`;
+}
+
+export function fieldOnOrBefore(fieldName: string, isoDate: string): string {
+  return `NOT(IS_AFTER(${fieldRef(fieldName)}, ${formulaLiteral(isoDate)}))`;
+}
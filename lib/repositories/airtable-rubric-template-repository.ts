@@ -0,0 +1,109 @@
+import type { FieldSet, Record as AirtableRecord, Table } from "airtable";
+import type { ProfessionalSector } from "@/lib/schemas/task";
+import type {
+  RubricTemplate,
+  RubricTemplateItem,
+} from "@/lib/schemas/rubric-template.schema";
+import type { RubricTemplateRepository } from "./rubric-template-repository";
+import { fieldEquals } from "./airtable-formula";
+import { getAirtableBase } from "./airtable-base";
+
+interface AirtableRubricTemplateRecord extends FieldSet {
+  Template_ID: string;
+  Name: string;
+  Sector: ProfessionalSector;
+  Description?: string;
+  Items: string; // JSON RubricTemplateItem[]
+  Source_TaskID?: string;
+  Created_By: string;
+  LastModified?: string;
+}
+
+function toRubricTemplate(
+  record: AirtableRecord<AirtableRubricTemplateRecord>
+): RubricTemplate {
+  let items: RubricTemplateItem[] = [];
+  try {
+    items = JSON.parse(record.fields.Items || "[]");
+  } catch (error) {
+    console.error("Error parsing rubric template items:", error);
+  }
+
+  return {
+    id: record.fields.Template_ID,
+    name: record.fields.Name,
+    sector: record.fields.Sector,
+    description: record.fields.Description,
+    items,
+    sourceTaskId: record.fields.Source_TaskID,
+    createdBy: record.fields.Created_By,
+    updatedAt: record.fields.LastModified || "",
+  };
+}
+
+export class AirtableRubricTemplateRepository
+  implements RubricTemplateRepository
+{
+  private templatesTable: Table<AirtableRubricTemplateRecord>;
+
+  constructor() {
+    this.templatesTable = getAirtableBase()<AirtableRubricTemplateRecord>(
+      process.env.AIRTABLE_TEMPLATE_TABLE_NAME || "Rubric_Templates"
+    );
+  }
+
+  private async findRecord(id: string) {
+    const records = await this.templatesTable
+      .select({
+        filterByFormula: fieldEquals("Template_ID", id),
+        maxRecords: 1,
+      })
+      .all();
+
+    return records[0] || null;
+  }
+
+  async list(sector?: ProfessionalSector) {
+    const records = await this.templatesTable
+      .select(sector ? { filterByFormula: fieldEquals("Sector", sector) } : {})
+      .all();
+    return records.map(toRubricTemplate);
+  }
+
+  async findById(id: string) {
+    const record = await this.findRecord(id);
+    return record ? toRubricTemplate(record) : null;
+  }
+
+  async save(template: RubricTemplate) {
+    const fields = {
+      Template_ID: template.id,
+      Name: template.name,
+      Sector: template.sector,
+      Description: template.description,
+      Items: JSON.stringify(template.items),
+      Source_TaskID: template.sourceTaskId,
+      Created_By: template.createdBy,
+    };
+
+    const existing = await this.findRecord(template.id);
+
+    // Replace rather than update so a cleared description is removed
+    if (existing) {
+      const [updated] = await this.templatesTable.replace([
+        { id: existing.id, fields },
+      ]);
+      return toRubricTemplate(updated);
+    }
+
+    const created = await this.templatesTable.create(fields);
+    return toRubricTemplate(created);
+  }
+
+  async delete(id: string) {
+    const existing = await this.findRecord(id);
+    if (existing) {
+      await this.templatesTable.destroy(existing.id);
+    }
+  }
+}
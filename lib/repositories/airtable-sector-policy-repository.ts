@@ -0,0 +1,85 @@
+import type { FieldSet, Record as AirtableRecord, Table } from "airtable";
+import { ProfessionalSector } from "@/lib/schemas/task";
+import {
+  EscalationAction,
+  SectorPolicy,
+} from "@/lib/schemas/sector-policy.schema";
+import type { SectorPolicyRepository } from "./sector-policy-repository";
+import { fieldEquals } from "./airtable-formula";
+import { getAirtableBase } from "./airtable-base";
+
+interface AirtableSectorPolicyRecord extends FieldSet {
+  Sector: ProfessionalSector;
+  Alignment_Threshold: number;
+  Max_Rubric_Versions: number;
+  Escalation_Action: EscalationAction;
+  Kappa_Threshold?: number;
+  Updated_By?: string;
+  LastModified?: string;
+}
+
+function toSectorPolicy(
+  record: AirtableRecord<AirtableSectorPolicyRecord>
+): SectorPolicy {
+  return {
+    sector: record.fields.Sector,
+    alignmentThreshold: record.fields.Alignment_Threshold,
+    maxRubricVersions: record.fields.Max_Rubric_Versions,
+    escalationAction: record.fields.Escalation_Action,
+    kappaThreshold: record.fields.Kappa_Threshold,
+    updatedBy: record.fields.Updated_By,
+    updatedAt: record.fields.LastModified,
+  };
+}
+
+export class AirtableSectorPolicyRepository implements SectorPolicyRepository {
+  private policiesTable: Table<AirtableSectorPolicyRecord>;
+
+  constructor() {
+    this.policiesTable = getAirtableBase()<AirtableSectorPolicyRecord>(
+      process.env.AIRTABLE_POLICY_TABLE_NAME || "Sector_Policies"
+    );
+  }
+
+  private async findRecord(sector: ProfessionalSector) {
+    const records = await this.policiesTable
+      .select({ filterByFormula: fieldEquals("Sector", sector), maxRecords: 1 })
+      .all();
+
+    return records[0] || null;
+  }
+
+  async list() {
+    const records = await this.policiesTable.select().all();
+    return records.map(toSectorPolicy);
+  }
+
+  async findBySector(sector: ProfessionalSector) {
+    const record = await this.findRecord(sector);
+    return record ? toSectorPolicy(record) : null;
+  }
+
+  async save(policy: SectorPolicy) {
+    const fields = {
+      Sector: policy.sector,
+      Alignment_Threshold: policy.alignmentThreshold,
+      Max_Rubric_Versions: policy.maxRubricVersions,
+      Escalation_Action: policy.escalationAction,
+      Kappa_Threshold: policy.kappaThreshold,
+      Updated_By: policy.updatedBy,
+    };
+
+    const existing = await this.findRecord(policy.sector);
+
+    // Replace rather than update so an unset kappa threshold is cleared
+    if (existing) {
+      const [updated] = await this.policiesTable.replace([
+        { id: existing.id, fields },
+      ]);
+      return toSectorPolicy(updated);
+    }
+
+    const created = await this.policiesTable.create(fields);
+    return toSectorPolicy(created);
+  }
+}
@@ -0,0 +1,73 @@
+import type { FieldSet, Record as AirtableRecord, Table } from "airtable";
+import { Sector, SectorColor } from "@/lib/schemas/sector.schema";
+import type { SectorRepository } from "./sector-repository";
+import { fieldEquals } from "./airtable-formula";
+import { getAirtableBase } from "./airtable-base";
+
+interface AirtableSectorRecord extends FieldSet {
+  Value: string;
+  Label: string;
+  Description?: string;
+  Icon: string;
+  Color: SectorColor;
+  Archived?: boolean;
+  Updated_By?: string;
+  LastModified?: string;
+}
+
+function toSector(record: AirtableRecord<AirtableSectorRecord>): Sector {
+  return {
+    value: record.fields.Value,
+    label: record.fields.Label,
+    description: record.fields.Description || "",
+    icon: record.fields.Icon,
+    color: record.fields.Color,
+    archived: !!record.fields.Archived,
+    updatedBy: record.fields.Updated_By,
+    updatedAt: record.fields.LastModified,
+  };
+}
+
+export class AirtableSectorRepository implements SectorRepository {
+  private sectorsTable: Table<AirtableSectorRecord>;
+
+  constructor() {
+    this.sectorsTable = getAirtableBase()<AirtableSectorRecord>(
+      process.env.AIRTABLE_SECTOR_TABLE_NAME || "Sectors"
+    );
+  }
+
+  async list() {
+    const records = await this.sectorsTable.select().all();
+    return records.map(toSector);
+  }
+
+  async save(sector: Sector) {
+    const fields = {
+      Value: sector.value,
+      Label: sector.label,
+      Description: sector.description,
+      Icon: sector.icon,
+      Color: sector.color,
+      Archived: sector.archived,
+      Updated_By: sector.updatedBy,
+    };
+
+    const [existing] = await this.sectorsTable
+      .select({
+        filterByFormula: fieldEquals("Value", sector.value),
+        maxRecords: 1,
+      })
+      .all();
+
+    if (existing) {
+      const [updated] = await this.sectorsTable.replace([
+        { id: existing.id, fields },
+      ]);
+      return toSector(updated);
+    }
+
+    const created = await this.sectorsTable.create(fields);
+    return toSector(created);
+  }
+}
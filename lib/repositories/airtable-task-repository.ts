@@ -0,0 +1,275 @@
+import type { Record as AirtableRecord, Table } from "airtable";
+import {
+  AirtableTaskRecord,
+  Task,
+  TRAINER_DONE_STATUSES,
+  getRubricFieldName,
+} from "@/lib/schemas/task";
+import type {
+  TaskFields,
+  TaskRepository,
+  TaskSearchFilters,
+} from "./task-repository";
+import {
+  and,
+  fieldContains,
+  fieldEquals,
+  fieldEqualsIgnoreCase,
+  fieldNotEquals,
+  fieldOnOrAfter,
+  fieldOnOrBefore,
+  or,
+} from "./airtable-formula";
+import { getAirtableBase } from "./airtable-base";
+
+class AirtableFieldManager {
+  private baseId: string;
+  private tableId: string;
+  private apiKey: string;
+
+  constructor(baseId: string, tableId: string, apiKey: string) {
+    this.baseId = baseId;
+    this.tableId = tableId;
+    this.apiKey = apiKey;
+  }
+
+  // Check if a field exists in the table
+  async fieldExists(fieldName: string): Promise<boolean> {
+    try {
+      const response = await fetch(
+        `https://api.airtable.com/v0/meta/bases/${this.baseId}/tables`,
+        {
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        console.error("Failed to fetch table schema:", response.statusText);
+        return false;
+      }
+
+      const data = await response.json();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const table = data.tables.find((t: any) => t.id === this.tableId);
+
+      if (!table) {
+        console.error("Table not found in schema");
+        return false;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return table.fields.some((field: any) => field.name === fieldName);
+    } catch (error) {
+      console.error("Error checking field existence:", error);
+      return false;
+    }
+  }
+
+  // Create a new rubric field dynamically
+  async createRubricField(version: number): Promise<boolean> {
+    const fieldName = getRubricFieldName(version);
+
+    try {
+      // First check if field already exists
+      const exists = await this.fieldExists(fieldName);
+      if (exists) {
+        console.log(`Field ${fieldName} already exists`);
+        return true;
+      }
+
+      console.log(`Creating new field: ${fieldName}`);
+
+      const response = await fetch(
+        `https://api.airtable.com/v0/meta/bases/${this.baseId}/tables/${this.tableId}/fields`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            name: fieldName,
+            type: "multilineText",
+            description: `Rubric version ${version} - JSON string with evaluation criteria`,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        console.error(
+          `Failed to create field ${fieldName}:`,
+          response.statusText
+        );
+        return false;
+      }
+
+      console.log(`Successfully created field: ${fieldName}`);
+      return true;
+    } catch (error) {
+      console.error(`Error creating field ${fieldName}:`, error);
+      return false;
+    }
+  }
+
+  // Ensure all required fields exist up to a certain version
+  async ensureRubricFieldsExist(maxVersion: number): Promise<boolean> {
+    for (let version = 1; version <= maxVersion; version++) {
+      const success = await this.createRubricField(version);
+      if (!success) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+function toTask(record: AirtableRecord<AirtableTaskRecord>): Task {
+  return {
+    id: record.id,
+    ...record.fields,
+  };
+}
+
+export class AirtableTaskRepository implements TaskRepository {
+  private tasksTable: Table<AirtableTaskRecord>;
+  private fieldManager: AirtableFieldManager;
+
+  constructor() {
+    const base = getAirtableBase();
+
+    this.tasksTable = base<AirtableTaskRecord>(
+      process.env.AIRTABLE_TABLE_NAME || "Operator"
+    );
+
+    this.fieldManager = new AirtableFieldManager(
+      process.env.AIRTABLE_BASE_ID!,
+      process.env.AIRTABLE_TABLE_ID!,
+      process.env.AIRTABLE_API_KEY!
+    );
+  }
+
+  private async findFirst(filterByFormula: string) {
+    const records = await this.tasksTable
+      .select({ filterByFormula, maxRecords: 1 })
+      .all();
+
+    return records.length > 0 ? toTask(records[0]) : null;
+  }
+
+  async findByTaskId(taskId: string) {
+    return this.findFirst(fieldEquals("TaskID", taskId));
+  }
+
+  async findOwnedTask(taskId: string, ownerEmail: string) {
+    return this.findFirst(
+      and(
+        fieldEquals("TaskID", taskId),
+        fieldEqualsIgnoreCase("TrainerEmail", ownerEmail)
+      )
+    );
+  }
+
+  async listIncompleteByOwner(ownerEmail: string) {
+    const records = await this.tasksTable
+      .select({
+        filterByFormula: and(
+          fieldEqualsIgnoreCase("TrainerEmail", ownerEmail),
+          ...TRAINER_DONE_STATUSES.map((status) =>
+            fieldNotEquals("Status", status)
+          )
+        ),
+        sort: [{ field: "Created", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(toTask);
+  }
+
+  async listByOwner(ownerEmail: string) {
+    const records = await this.tasksTable
+      .select({
+        filterByFormula: fieldEqualsIgnoreCase("TrainerEmail", ownerEmail),
+        sort: [{ field: "Created", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(toTask);
+  }
+
+  async list() {
+    const records = await this.tasksTable
+      .select({
+        sort: [{ field: "Created", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(toTask);
+  }
+
+  async search(filters: TaskSearchFilters) {
+    const conditions: string[] = [];
+
+    if (filters.statuses?.length) {
+      conditions.push(
+        or(...filters.statuses.map((status) => fieldEquals("Status", status)))
+      );
+    }
+    if (filters.sectors?.length) {
+      conditions.push(
+        or(
+          ...filters.sectors.map((sector) =>
+            fieldEquals("ProfessionalSector", sector)
+          )
+        )
+      );
+    }
+    if (filters.trainer) {
+      conditions.push(fieldContains("TrainerEmail", filters.trainer));
+    }
+    if (filters.createdFrom) {
+      conditions.push(fieldOnOrAfter("Created", filters.createdFrom));
+    }
+    if (filters.createdTo) {
+      conditions.push(fieldOnOrBefore("Created", filters.createdTo));
+    }
+
+    if (conditions.length === 0) {
+      return this.list();
+    }
+
+    const records = await this.tasksTable
+      .select({
+        filterByFormula: and(...conditions),
+        sort: [{ field: "Created", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(toTask);
+  }
+
+  // Typecast so sectors added to the catalog become ProfessionalSector options
+  async create(fields: TaskFields) {
+    const createdRecord = await this.tasksTable.create(fields, {
+      typecast: true,
+    });
+    return toTask(createdRecord);
+  }
+
+  async update(id: string, fields: TaskFields) {
+    const updatedRecords = await this.tasksTable.update([{ id, fields }], {
+      typecast: true,
+    });
+
+    if (!updatedRecords[0]) {
+      throw new Error(`Airtable did not return updated record ${id}`);
+    }
+
+    return toTask(updatedRecords[0]);
+  }
+
+  async ensureRubricVersionFields(maxVersion: number) {
+    return this.fieldManager.ensureRubricFieldsExist(maxVersion);
+  }
+}
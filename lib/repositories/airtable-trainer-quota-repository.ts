@@ -0,0 +1,76 @@
+import type { FieldSet, Record as AirtableRecord, Table } from "airtable";
+import { TrainerQuota } from "@/lib/schemas/task-assignment.schema";
+import type { TrainerQuotaRepository } from "./trainer-quota-repository";
+import { fieldEquals } from "./airtable-formula";
+import { getAirtableBase } from "./airtable-base";
+
+interface AirtableTrainerQuotaRecord extends FieldSet {
+  Email: string;
+  Max_Concurrent_Tasks: number;
+  Updated_By?: string;
+  LastModified?: string;
+}
+
+function toTrainerQuota(
+  record: AirtableRecord<AirtableTrainerQuotaRecord>
+): TrainerQuota {
+  return {
+    email: record.fields.Email,
+    maxConcurrentTasks: record.fields.Max_Concurrent_Tasks,
+    updatedBy: record.fields.Updated_By,
+    updatedAt: record.fields.LastModified,
+  };
+}
+
+export class AirtableTrainerQuotaRepository implements TrainerQuotaRepository {
+  private quotasTable: Table<AirtableTrainerQuotaRecord>;
+
+  constructor() {
+    this.quotasTable = getAirtableBase()<AirtableTrainerQuotaRecord>(
+      process.env.AIRTABLE_QUOTA_TABLE_NAME || "Trainer_Quotas"
+    );
+  }
+
+  private async findRecord(email: string) {
+    const records = await this.quotasTable
+      .select({ filterByFormula: fieldEquals("Email", email), maxRecords: 1 })
+      .all();
+
+    return records[0] || null;
+  }
+
+  async list() {
+    const records = await this.quotasTable.select().all();
+    return records.map(toTrainerQuota);
+  }
+
+  async findByEmail(email: string) {
+    const record = await this.findRecord(email);
+    return record ? toTrainerQuota(record) : null;
+  }
+
+  async save(quota: TrainerQuota) {
+    const fields = {
+      Email: quota.email,
+      Max_Concurrent_Tasks: quota.maxConcurrentTasks,
+      Updated_By: quota.updatedBy,
+    };
+
+    const existing = await this.findRecord(quota.email);
+
+    if (existing) {
+      const updated = await this.quotasTable.update(existing.id, fields);
+      return toTrainerQuota(updated);
+    }
+
+    const created = await this.quotasTable.create(fields);
+    return toTrainerQuota(created);
+  }
+
+  async delete(email: string) {
+    const existing = await this.findRecord(email);
+    if (existing) {
+      await this.quotasTable.destroy(existing.id);
+    }
+  }
+}
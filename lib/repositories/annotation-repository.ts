@@ -0,0 +1,32 @@
+import type { Annotation } from "@/lib/schemas/annotation.schema";
+import { getTaskStorageBackend } from "./task-repository";
+import { AirtableAnnotationRepository } from "./airtable-annotation-repository";
+import { FileAnnotationRepository } from "./file-annotation-repository";
+
+// Annotator assignments, one per task and evaluator
+export interface AnnotationRepository {
+  find(taskId: string, evaluatorEmail: string): Promise<Annotation | null>;
+
+  listByTask(taskId: string): Promise<Annotation[]>;
+
+  listByEvaluator(evaluatorEmail: string): Promise<Annotation[]>;
+
+  // Create or replace the assignment for the task and evaluator
+  save(annotation: Annotation): Promise<Annotation>;
+
+  // No-op when the evaluator isn't assigned
+  delete(taskId: string, evaluatorEmail: string): Promise<void>;
+}
+
+// Shares TASK_STORAGE_BACKEND with the task repository
+export function createAnnotationRepository(): AnnotationRepository {
+  const backend = getTaskStorageBackend();
+
+  if (backend === "file") {
+    const filePath =
+      process.env.ANNOTATION_STORAGE_FILE || ".data/annotations.json";
+    return new FileAnnotationRepository(filePath);
+  }
+
+  return new AirtableAnnotationRepository();
+}
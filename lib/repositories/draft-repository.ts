@@ -0,0 +1,41 @@
+import { Draft, DraftKey } from "@/lib/schemas/draft.schema";
+import { getTaskStorageBackend } from "./task-repository";
+import { AirtableDraftRepository } from "./airtable-draft-repository";
+import { FileDraftRepository } from "./file-draft-repository";
+
+// Autosaved form state, keyed by owner, task, stage and model
+export interface DraftRepository {
+  find(key: DraftKey, ownerEmail: string): Promise<Draft | null>;
+
+  // Create or replace the owner's draft for the key
+  save(draft: Draft): Promise<Draft>;
+
+  // No-op when there is no draft
+  delete(key: DraftKey, ownerEmail: string): Promise<void>;
+}
+
+// Called once the form's real mutation succeeds. A leftover draft is only
+// an inconvenience, so failures are logged rather than failing the caller.
+export async function discardDraft(
+  repository: DraftRepository,
+  key: DraftKey,
+  ownerEmail: string
+): Promise<void> {
+  try {
+    await repository.delete(key, ownerEmail);
+  } catch (error) {
+    console.error("Failed to discard draft:", key, error);
+  }
+}
+
+// Shares TASK_STORAGE_BACKEND with the task repository
+export function createDraftRepository(): DraftRepository {
+  const backend = getTaskStorageBackend();
+
+  if (backend === "file") {
+    const filePath = process.env.DRAFT_STORAGE_FILE || ".data/drafts.json";
+    return new FileDraftRepository(filePath);
+  }
+
+  return new AirtableDraftRepository();
+}
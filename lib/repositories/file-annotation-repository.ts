@@ -0,0 +1,56 @@
+import { Annotation, getAnnotationId } from "@/lib/schemas/annotation.schema";
+import { JsonFileStore } from "./json-file-store";
+import type { AnnotationRepository } from "./annotation-repository";
+
+function getId(annotation: Annotation) {
+  return getAnnotationId(annotation.taskId, annotation.evaluatorEmail);
+}
+
+export class FileAnnotationRepository implements AnnotationRepository {
+  private store: JsonFileStore<Annotation>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<Annotation>(filePath);
+  }
+
+  async find(taskId: string, evaluatorEmail: string) {
+    const id = getAnnotationId(taskId, evaluatorEmail);
+    const annotations = await this.store.readAll();
+    return annotations.find((a) => getId(a) === id) || null;
+  }
+
+  async listByTask(taskId: string) {
+    const annotations = await this.store.readAll();
+    return annotations.filter((a) => a.taskId === taskId);
+  }
+
+  async listByEvaluator(evaluatorEmail: string) {
+    const email = evaluatorEmail.toLowerCase();
+    const annotations = await this.store.readAll();
+    return annotations.filter((a) => a.evaluatorEmail.toLowerCase() === email);
+  }
+
+  async save(annotation: Annotation) {
+    return this.store.mutate((annotations) => {
+      const id = getId(annotation);
+      const index = annotations.findIndex((a) => getId(a) === id);
+      if (index === -1) {
+        annotations.push(annotation);
+      } else {
+        annotations[index] = annotation;
+      }
+
+      return annotation;
+    });
+  }
+
+  async delete(taskId: string, evaluatorEmail: string) {
+    const id = getAnnotationId(taskId, evaluatorEmail);
+    await this.store.mutate((annotations) => {
+      const index = annotations.findIndex((a) => getId(a) === id);
+      if (index !== -1) {
+        annotations.splice(index, 1);
+      }
+    });
+  }
+}
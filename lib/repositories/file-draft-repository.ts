@@ -0,0 +1,50 @@
+import { Draft, DraftKey, getDraftId } from "@/lib/schemas/draft.schema";
+import { JsonFileStore } from "./json-file-store";
+import type { DraftRepository } from "./draft-repository";
+
+export class FileDraftRepository implements DraftRepository {
+  private store: JsonFileStore<Draft>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<Draft>(filePath);
+  }
+
+  async find(key: DraftKey, ownerEmail: string) {
+    const id = getDraftId(key, ownerEmail);
+    const drafts = await this.store.readAll();
+    return drafts.find((d) => getDraftId(d, d.ownerEmail) === id) || null;
+  }
+
+  async save(draft: Draft) {
+    return this.store.mutate((drafts) => {
+      const saved: Draft = {
+        taskId: draft.taskId,
+        stage: draft.stage,
+        modelId: draft.modelId,
+        ownerEmail: draft.ownerEmail,
+        data: draft.data,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const id = getDraftId(draft, draft.ownerEmail);
+      const index = drafts.findIndex((d) => getDraftId(d, d.ownerEmail) === id);
+      if (index === -1) {
+        drafts.push(saved);
+      } else {
+        drafts[index] = saved;
+      }
+
+      return saved;
+    });
+  }
+
+  async delete(key: DraftKey, ownerEmail: string) {
+    const id = getDraftId(key, ownerEmail);
+    await this.store.mutate((drafts) => {
+      const index = drafts.findIndex((d) => getDraftId(d, d.ownerEmail) === id);
+      if (index !== -1) {
+        drafts.splice(index, 1);
+      }
+    });
+  }
+}
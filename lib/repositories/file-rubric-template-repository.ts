@@ -0,0 +1,51 @@
+import type { ProfessionalSector } from "@/lib/schemas/task";
+import type { RubricTemplate } from "@/lib/schemas/rubric-template.schema";
+import { JsonFileStore } from "./json-file-store";
+import type { RubricTemplateRepository } from "./rubric-template-repository";
+
+export class FileRubricTemplateRepository implements RubricTemplateRepository {
+  private store: JsonFileStore<RubricTemplate>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<RubricTemplate>(filePath);
+  }
+
+  async list(sector?: ProfessionalSector) {
+    const templates = await this.store.readAll();
+    return sector
+      ? templates.filter((template) => template.sector === sector)
+      : templates;
+  }
+
+  async findById(id: string) {
+    const templates = await this.store.readAll();
+    return templates.find((template) => template.id === id) || null;
+  }
+
+  async save(template: RubricTemplate) {
+    return this.store.mutate((templates) => {
+      const saved: RubricTemplate = {
+        ...template,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const index = templates.findIndex((t) => t.id === template.id);
+      if (index === -1) {
+        templates.push(saved);
+      } else {
+        templates[index] = saved;
+      }
+
+      return saved;
+    });
+  }
+
+  async delete(id: string) {
+    await this.store.mutate((templates) => {
+      const index = templates.findIndex((t) => t.id === id);
+      if (index !== -1) {
+        templates.splice(index, 1);
+      }
+    });
+  }
+}
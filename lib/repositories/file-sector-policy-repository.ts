@@ -0,0 +1,44 @@
+import { ProfessionalSector } from "@/lib/schemas/task";
+import { SectorPolicy } from "@/lib/schemas/sector-policy.schema";
+import { JsonFileStore } from "./json-file-store";
+import type { SectorPolicyRepository } from "./sector-policy-repository";
+
+export class FileSectorPolicyRepository implements SectorPolicyRepository {
+  private store: JsonFileStore<SectorPolicy>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<SectorPolicy>(filePath);
+  }
+
+  async list() {
+    return this.store.readAll();
+  }
+
+  async findBySector(sector: ProfessionalSector) {
+    const policies = await this.store.readAll();
+    return policies.find((policy) => policy.sector === sector) || null;
+  }
+
+  async save(policy: SectorPolicy) {
+    return this.store.mutate((policies) => {
+      const saved: SectorPolicy = {
+        sector: policy.sector,
+        alignmentThreshold: policy.alignmentThreshold,
+        maxRubricVersions: policy.maxRubricVersions,
+        escalationAction: policy.escalationAction,
+        kappaThreshold: policy.kappaThreshold,
+        updatedBy: policy.updatedBy,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const index = policies.findIndex((p) => p.sector === policy.sector);
+      if (index === -1) {
+        policies.push(saved);
+      } else {
+        policies[index] = saved;
+      }
+
+      return saved;
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { Sector } from "@/lib/schemas/sector.schema";
+import { JsonFileStore } from "./json-file-store";
+import type { SectorRepository } from "./sector-repository";
+
+export class FileSectorRepository implements SectorRepository {
+  private store: JsonFileStore<Sector>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<Sector>(filePath);
+  }
+
+  async list() {
+    return this.store.readAll();
+  }
+
+  async save(sector: Sector) {
+    return this.store.mutate((sectors) => {
+      const saved: Sector = {
+        value: sector.value,
+        label: sector.label,
+        description: sector.description,
+        icon: sector.icon,
+        color: sector.color,
+        archived: sector.archived,
+        updatedBy: sector.updatedBy,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const index = sectors.findIndex((s) => s.value === sector.value);
+      if (index === -1) {
+        sectors.push(saved);
+      } else {
+        sectors[index] = saved;
+      }
+
+      return saved;
+    });
+  }
+}
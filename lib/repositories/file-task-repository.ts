@@ -0,0 +1,126 @@
+import { v4 as uuidv4 } from "uuid";
+import { Task, TRAINER_DONE_STATUSES } from "@/lib/schemas/task";
+import { isSameEmail } from "@/lib/schemas/users.schema";
+import { JsonFileStore } from "./json-file-store";
+import type {
+  TaskFields,
+  TaskRepository,
+  TaskSearchFilters,
+} from "./task-repository";
+
+function sortNewestFirst(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) =>
+    (b.Created || "").localeCompare(a.Created || "")
+  );
+}
+
+/**
+ * Task storage backed by a single JSON file on disk.
+ * Intended for local development and tests where no Airtable base is
+ * available.
+ */
+export class FileTaskRepository implements TaskRepository {
+  private store: JsonFileStore<Task>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<Task>(filePath);
+  }
+
+  async findByTaskId(taskId: string) {
+    const tasks = await this.store.readAll();
+    return tasks.find((task) => task.TaskID === taskId) || null;
+  }
+
+  async findOwnedTask(taskId: string, ownerEmail: string) {
+    const tasks = await this.store.readAll();
+    return (
+      tasks.find(
+        (task) =>
+          task.TaskID === taskId && isSameEmail(task.TrainerEmail, ownerEmail)
+      ) || null
+    );
+  }
+
+  async listIncompleteByOwner(ownerEmail: string) {
+    const tasks = await this.store.readAll();
+    return sortNewestFirst(
+      tasks.filter(
+        (task) =>
+          isSameEmail(task.TrainerEmail, ownerEmail) &&
+          !TRAINER_DONE_STATUSES.includes(task.Status)
+      )
+    );
+  }
+
+  async listByOwner(ownerEmail: string) {
+    const tasks = await this.store.readAll();
+    return sortNewestFirst(
+      tasks.filter((task) => isSameEmail(task.TrainerEmail, ownerEmail))
+    );
+  }
+
+  async list() {
+    return sortNewestFirst(await this.store.readAll());
+  }
+
+  async search(filters: TaskSearchFilters) {
+    const trainer = filters.trainer?.toLowerCase();
+    const createdFrom = filters.createdFrom && Date.parse(filters.createdFrom);
+    const createdTo = filters.createdTo && Date.parse(filters.createdTo);
+
+    const tasks = (await this.store.readAll()).filter((task) => {
+      const created = Date.parse(task.Created || "");
+
+      return (
+        (!filters.statuses?.length || filters.statuses.includes(task.Status)) &&
+        (!filters.sectors?.length ||
+          filters.sectors.includes(task.ProfessionalSector)) &&
+        (!trainer || task.TrainerEmail.toLowerCase().includes(trainer)) &&
+        (!createdFrom || created >= createdFrom) &&
+        (!createdTo || created <= createdTo)
+      );
+    });
+
+    return sortNewestFirst(tasks);
+  }
+
+  async create(fields: TaskFields) {
+    return this.store.mutate((tasks) => {
+      const now = new Date().toISOString();
+      const task = {
+        ...fields,
+        id: `rec${uuidv4().replace(/-/g, "")}`,
+        Created: now,
+        LastModified: now,
+      } as Task;
+
+      tasks.push(task);
+      return task;
+    });
+  }
+
+  async update(id: string, fields: TaskFields) {
+    return this.store.mutate((tasks) => {
+      const index = tasks.findIndex((task) => task.id === id);
+
+      if (index === -1) {
+        throw new Error(`Task record ${id} not found`);
+      }
+
+      const updated = {
+        ...tasks[index],
+        ...fields,
+        id,
+        LastModified: new Date().toISOString(),
+      } as Task;
+
+      tasks[index] = updated;
+      return updated;
+    });
+  }
+
+  // Records are schemaless JSON, so any Rubric_VN field can be written
+  async ensureRubricVersionFields() {
+    return true;
+  }
+}
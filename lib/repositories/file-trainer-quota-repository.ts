@@ -0,0 +1,49 @@
+import { TrainerQuota } from "@/lib/schemas/task-assignment.schema";
+import { JsonFileStore } from "./json-file-store";
+import type { TrainerQuotaRepository } from "./trainer-quota-repository";
+
+export class FileTrainerQuotaRepository implements TrainerQuotaRepository {
+  private store: JsonFileStore<TrainerQuota>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<TrainerQuota>(filePath);
+  }
+
+  async list() {
+    return this.store.readAll();
+  }
+
+  async findByEmail(email: string) {
+    const quotas = await this.store.readAll();
+    return quotas.find((quota) => quota.email === email) || null;
+  }
+
+  async save(quota: TrainerQuota) {
+    return this.store.mutate((quotas) => {
+      const saved: TrainerQuota = {
+        email: quota.email,
+        maxConcurrentTasks: quota.maxConcurrentTasks,
+        updatedBy: quota.updatedBy,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const index = quotas.findIndex((q) => q.email === quota.email);
+      if (index === -1) {
+        quotas.push(saved);
+      } else {
+        quotas[index] = saved;
+      }
+
+      return saved;
+    });
+  }
+
+  async delete(email: string) {
+    await this.store.mutate((quotas) => {
+      const index = quotas.findIndex((quota) => quota.email === email);
+      if (index !== -1) {
+        quotas.splice(index, 1);
+      }
+    });
+  }
+}
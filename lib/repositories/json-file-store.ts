@@ -0,0 +1,49 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A JSON array persisted to a single file.
+ * Writes are serialized so concurrent mutations don't clobber each other,
+ * and each write goes through a temp file so readers never see half a file.
+ */
+export class JsonFileStore<T> {
+  private filePath: string;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async readAll(): Promise<T[]> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      return JSON.parse(content) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async writeAll(items: T[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(items, null, 2), "utf-8");
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Read, change in place and write back, one mutation at a time
+  mutate<R>(fn: (items: T[]) => R | Promise<R>): Promise<R> {
+    const run = this.writeQueue.then(async () => {
+      const items = await this.readAll();
+      const result = await fn(items);
+      await this.writeAll(items);
+      return result;
+    });
+
+    // Keep the queue alive even if this mutation fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,32 @@
+import type { ProfessionalSector } from "@/lib/schemas/task";
+import type { RubricTemplate } from "@/lib/schemas/rubric-template.schema";
+import { getTaskStorageBackend } from "./task-repository";
+import { AirtableRubricTemplateRepository } from "./airtable-rubric-template-repository";
+import { FileRubricTemplateRepository } from "./file-rubric-template-repository";
+
+// The rubric template library
+export interface RubricTemplateRepository {
+  // Every sector's templates when no sector is given
+  list(sector?: ProfessionalSector): Promise<RubricTemplate[]>;
+
+  findById(id: string): Promise<RubricTemplate | null>;
+
+  // Create or replace the template with template.id
+  save(template: RubricTemplate): Promise<RubricTemplate>;
+
+  // No-op when the template doesn't exist
+  delete(id: string): Promise<void>;
+}
+
+// Shares TASK_STORAGE_BACKEND with the task repository
+export function createRubricTemplateRepository(): RubricTemplateRepository {
+  const backend = getTaskStorageBackend();
+
+  if (backend === "file") {
+    const filePath =
+      process.env.RUBRIC_TEMPLATE_STORAGE_FILE || ".data/rubric-templates.json";
+    return new FileRubricTemplateRepository(filePath);
+  }
+
+  return new AirtableRubricTemplateRepository();
+}
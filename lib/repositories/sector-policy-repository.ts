@@ -0,0 +1,44 @@
+import { ProfessionalSector } from "@/lib/schemas/task";
+import {
+  SectorPolicy,
+  getDefaultSectorPolicy,
+} from "@/lib/schemas/sector-policy.schema";
+import { getTaskStorageBackend } from "./task-repository";
+import { AirtableSectorPolicyRepository } from "./airtable-sector-policy-repository";
+import { FileSectorPolicyRepository } from "./file-sector-policy-repository";
+
+// Stored per-sector overrides of the alignment policy. Sectors without a
+// saved policy fall back to getDefaultSectorPolicy.
+export interface SectorPolicyRepository {
+  // Saved policies only
+  list(): Promise<SectorPolicy[]>;
+
+  findBySector(sector: ProfessionalSector): Promise<SectorPolicy | null>;
+
+  // Create or replace the policy for policy.sector
+  save(policy: SectorPolicy): Promise<SectorPolicy>;
+}
+
+// The policy in force for a sector: the saved one, or the built-in default
+export async function getSectorPolicy(
+  repository: SectorPolicyRepository,
+  sector: ProfessionalSector
+): Promise<SectorPolicy> {
+  const saved = await repository.findBySector(sector);
+  return saved
+    ? { ...saved, isDefault: false }
+    : getDefaultSectorPolicy(sector);
+}
+
+// Shares TASK_STORAGE_BACKEND with the task repository
+export function createSectorPolicyRepository(): SectorPolicyRepository {
+  const backend = getTaskStorageBackend();
+
+  if (backend === "file") {
+    const filePath =
+      process.env.SECTOR_POLICY_STORAGE_FILE || ".data/sector-policies.json";
+    return new FileSectorPolicyRepository(filePath);
+  }
+
+  return new AirtableSectorPolicyRepository();
+}
@@ -0,0 +1,45 @@
+import {
+  findSector,
+  mergeSectorCatalog,
+  Sector,
+} from "@/lib/schemas/sector.schema";
+import { getTaskStorageBackend } from "./task-repository";
+import { AirtableSectorRepository } from "./airtable-sector-repository";
+import { FileSectorRepository } from "./file-sector-repository";
+
+// Sectors admins have added or changed. Built-in sectors without a saved
+// version come from DEFAULT_SECTORS.
+export interface SectorRepository {
+  // Saved sectors only
+  list(): Promise<Sector[]>;
+
+  // Create or replace the sector with sector.value
+  save(sector: Sector): Promise<Sector>;
+}
+
+// Every sector, built-in or added, archived included
+export async function getSectorCatalog(
+  repository: SectorRepository
+): Promise<Sector[]> {
+  return mergeSectorCatalog(await repository.list());
+}
+
+// The catalog entry for a value, or null when there is none
+export async function findCatalogSector(
+  repository: SectorRepository,
+  value: string
+): Promise<Sector | null> {
+  return findSector(await getSectorCatalog(repository), value) || null;
+}
+
+// Shares TASK_STORAGE_BACKEND with the task repository
+export function createSectorRepository(): SectorRepository {
+  const backend = getTaskStorageBackend();
+
+  if (backend === "file") {
+    const filePath = process.env.SECTOR_STORAGE_FILE || ".data/sectors.json";
+    return new FileSectorRepository(filePath);
+  }
+
+  return new AirtableSectorRepository();
+}
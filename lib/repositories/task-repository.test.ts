@@ -0,0 +1,149 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Task } from "@/lib/schemas/task";
+
+const OWNER = "owner@invisible.email";
+const OTHER = "other@invisible.email";
+
+const PAYLOADS = [
+  '" , TRUE()) , OR("',
+  "' , TRUE()) , OR('",
+  "} = {TaskID",
+  'T-2" , {TrainerEmail} != "',
+];
+
+function makeTask(taskId: string, trainerEmail: string): Task {
+  return {
+    id: `rec${taskId}`,
+    TaskID: taskId,
+    TrainerEmail: trainerEmail,
+    Prompt: "Prompt",
+    ProfessionalSector: "Law",
+    Status: "Task_Creation",
+    Sources: "https://drive.google.com/drive/folders/folder",
+    OpenSourceConfirmed: "true",
+    GPTResponse: "",
+    GeminiResponse: "",
+    Current_Rubric_Version: 1,
+  } as Task;
+}
+
+const TASKS = [makeTask("T-1", OWNER), makeTask("T-2", OTHER)];
+
+const OWNED_TASK_FORMULA =
+  /^AND\(\{TaskID\} = "((?:[^"\\]|\\.)*)", LOWER\(\{TrainerEmail\}\) = "((?:[^"\\]|\\.)*)"\)$/;
+
+function unescapeLiteral(value: string): string {
+  return value.replace(/\\(.)/g, "$1");
+}
+
+// Stands in for Airtable: an owned task formula is evaluated, anything else
+// is treated as a filter that lets every record through
+function selectRecords(filterByFormula: string) {
+  const match = OWNED_TASK_FORMULA.exec(filterByFormula);
+  const tasks = match
+    ? TASKS.filter(
+        (task) =>
+          task.TaskID === unescapeLiteral(match[1]) &&
+          task.TrainerEmail.toLowerCase() === unescapeLiteral(match[2])
+      )
+    : TASKS;
+
+  return tasks.map(({ id, ...fields }) => ({ id, fields }));
+}
+
+const select = vi.fn();
+
+vi.mock("airtable", () => ({
+  default: class {
+    base() {
+      return () => ({ select });
+    }
+  },
+}));
+
+import { AirtableTaskRepository } from "./airtable-task-repository";
+import { FileTaskRepository } from "./file-task-repository";
+
+describe("AirtableTaskRepository.findOwnedTask", () => {
+  let repository: AirtableTaskRepository;
+
+  beforeEach(() => {
+    vi.stubEnv("AIRTABLE_API_KEY", "key");
+    vi.stubEnv("AIRTABLE_BASE_ID", "base");
+    select.mockReset();
+    select.mockImplementation(
+      ({ filterByFormula }: { filterByFormula: string }) => ({
+        all: async () => selectRecords(filterByFormula),
+      })
+    );
+    repository = new AirtableTaskRepository();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("queries with the id and owner as escaped literals", async () => {
+    await repository.findOwnedTask('" , TRUE()) , OR("', OWNER);
+
+    expect(select).toHaveBeenCalledWith({
+      filterByFormula: `AND({TaskID} = "\\" , TRUE()) , OR(\\"", LOWER({TrainerEmail}) = "${OWNER}")`,
+      maxRecords: 1,
+    });
+  });
+
+  it("finds the trainer's own task", async () => {
+    const task = await repository.findOwnedTask("T-1", OWNER);
+    expect(task?.TaskID).toBe("T-1");
+  });
+
+  it("matches the owner's email whatever its case", async () => {
+    const task = await repository.findOwnedTask("T-1", OWNER.toUpperCase());
+    expect(task?.TaskID).toBe("T-1");
+  });
+
+  it("does not return another trainer's task", async () => {
+    await expect(repository.findOwnedTask("T-2", OWNER)).resolves.toBeNull();
+  });
+
+  it.each(PAYLOADS)("returns null for the payload %s", async (payload) => {
+    await expect(repository.findOwnedTask(payload, OWNER)).resolves.toBeNull();
+  });
+});
+
+describe("FileTaskRepository.findOwnedTask", () => {
+  let dir: string;
+  let repository: FileTaskRepository;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "tasks-"));
+    const filePath = path.join(dir, "tasks.json");
+    await fs.writeFile(filePath, JSON.stringify(TASKS));
+    repository = new FileTaskRepository(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("finds the trainer's own task", async () => {
+    const task = await repository.findOwnedTask("T-1", OWNER);
+    expect(task?.TaskID).toBe("T-1");
+  });
+
+  it("matches the owner's email whatever its case", async () => {
+    const task = await repository.findOwnedTask("T-1", OWNER.toUpperCase());
+    expect(task?.TaskID).toBe("T-1");
+  });
+
+  it("does not return another trainer's task", async () => {
+    await expect(repository.findOwnedTask("T-2", OWNER)).resolves.toBeNull();
+  });
+
+  it.each(PAYLOADS)("returns null for the payload %s", async (payload) => {
+    await expect(repository.findOwnedTask(payload, OWNER)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { AirtableTaskRecord, Task } from "@/lib/schemas/task";
+import type { TaskListFilters } from "@/lib/schemas/task-query.schema";
+import { AirtableTaskRepository } from "./airtable-task-repository";
+import { FileTaskRepository } from "./file-task-repository";
+
+export type TaskFields = Partial<AirtableTaskRecord>;
+
+// Filters each backend applies while reading; alignment is derived from the
+// evaluations JSON, so it is filtered after loading
+export type TaskSearchFilters = Omit<
+  TaskListFilters,
+  "minAlignment" | "maxAlignment"
+>;
+
+// Storage-agnostic access to task records. Procedures in the tasks router
+// should only ever talk to this interface, never to a backend directly.
+export interface TaskRepository {
+  // Find a task by its TaskID regardless of owner
+  findByTaskId(taskId: string): Promise<Task | null>;
+
+  // Find a task by its TaskID only if it belongs to the given trainer
+  findOwnedTask(taskId: string, ownerEmail: string): Promise<Task | null>;
+
+  // List the trainer's tasks that still need their work, newest first
+  listIncompleteByOwner(ownerEmail: string): Promise<Task[]>;
+
+  // List a trainer's tasks, newest first
+  listByOwner(ownerEmail: string): Promise<Task[]>;
+
+  // List every task in the store, newest first
+  list(): Promise<Task[]>;
+
+  // List tasks matching every given filter, newest first
+  search(filters: TaskSearchFilters): Promise<Task[]>;
+
+  create(fields: TaskFields): Promise<Task>;
+
+  update(id: string, fields: TaskFields): Promise<Task>;
+
+  // Make sure Rubric_V1..Rubric_V{maxVersion} can be written
+  ensureRubricVersionFields(maxVersion: number): Promise<boolean>;
+}
+
+export type TaskStorageBackend = "airtable" | "file";
+
+export function getTaskStorageBackend(): TaskStorageBackend {
+  const backend = process.env.TASK_STORAGE_BACKEND || "airtable";
+
+  if (backend !== "airtable" && backend !== "file") {
+    throw new Error(
+      `Unsupported TASK_STORAGE_BACKEND "${backend}". Use "airtable" or "file".`
+    );
+  }
+
+  return backend;
+}
+
+export function createTaskRepository(): TaskRepository {
+  const backend = getTaskStorageBackend();
+
+  if (backend === "file") {
+    const filePath = process.env.TASK_STORAGE_FILE || ".data/tasks.json";
+    console.log(`Using file task storage at ${filePath}`);
+    return new FileTaskRepository(filePath);
+  }
+
+  return new AirtableTaskRepository();
+}
@@ -0,0 +1,85 @@
+import {
+  DEFAULT_MAX_CONCURRENT_TASKS,
+  TrainerQuota,
+} from "@/lib/schemas/task-assignment.schema";
+import { Task } from "@/lib/schemas/task";
+import { getTaskStorageBackend, TaskRepository } from "./task-repository";
+import { AirtableTrainerQuotaRepository } from "./airtable-trainer-quota-repository";
+import { FileTrainerQuotaRepository } from "./file-trainer-quota-repository";
+
+// Stored per-trainer limits on concurrent tasks. Trainers without a saved
+// limit fall back to getDefaultTrainerQuota.
+export interface TrainerQuotaRepository {
+  // Saved limits only
+  list(): Promise<TrainerQuota[]>;
+
+  findByEmail(email: string): Promise<TrainerQuota | null>;
+
+  // Create or replace the limit for quota.email
+  save(quota: TrainerQuota): Promise<TrainerQuota>;
+
+  // Drop the saved limit so the default applies again; no-op without one
+  delete(email: string): Promise<void>;
+}
+
+// DEFAULT_MAX_CONCURRENT_TASKS unless overridden for the deployment
+export function getDefaultConcurrentTaskLimit(): number {
+  const configured = parseInt(process.env.DEFAULT_MAX_CONCURRENT_TASKS || "");
+  return configured > 0 ? configured : DEFAULT_MAX_CONCURRENT_TASKS;
+}
+
+export function getDefaultTrainerQuota(email: string): TrainerQuota {
+  return {
+    email,
+    maxConcurrentTasks: getDefaultConcurrentTaskLimit(),
+    isDefault: true,
+  };
+}
+
+// The limit in force for a trainer: the saved one, or the default
+export async function getTrainerQuota(
+  repository: TrainerQuotaRepository,
+  email: string
+): Promise<TrainerQuota> {
+  const saved = await repository.findByEmail(email.toLowerCase());
+  return saved
+    ? { ...saved, isDefault: false }
+    : getDefaultTrainerQuota(email.toLowerCase());
+}
+
+export interface TrainerWorkload {
+  quota: TrainerQuota;
+  // Tasks that still need the trainer's work, newest first
+  activeTasks: Task[];
+  hasCapacity: boolean;
+}
+
+export async function getTrainerWorkload(
+  quotas: TrainerQuotaRepository,
+  tasks: TaskRepository,
+  email: string
+): Promise<TrainerWorkload> {
+  const [quota, activeTasks] = await Promise.all([
+    getTrainerQuota(quotas, email),
+    tasks.listIncompleteByOwner(email),
+  ]);
+
+  return {
+    quota,
+    activeTasks,
+    hasCapacity: activeTasks.length < quota.maxConcurrentTasks,
+  };
+}
+
+// Shares TASK_STORAGE_BACKEND with the task repository
+export function createTrainerQuotaRepository(): TrainerQuotaRepository {
+  const backend = getTaskStorageBackend();
+
+  if (backend === "file") {
+    const filePath =
+      process.env.TRAINER_QUOTA_STORAGE_FILE || ".data/trainer-quotas.json";
+    return new FileTrainerQuotaRepository(filePath);
+  }
+
+  return new AirtableTrainerQuotaRepository();
+}
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { TaskListFiltersSchema } from "@/lib/schemas/task-query.schema";
+
+// Which models' evaluations feed the analytics
+export const AnalyticsModelScope = z.enum(["primary", "all"]);
+
+export type AnalyticsModelScope = z.infer<typeof AnalyticsModelScope>;
+
+export const TagAlignmentInputSchema = z.object({
+  filters: TaskListFiltersSchema.default({}),
+  scope: AnalyticsModelScope.default("primary"),
+});
+
+export type TagAlignmentInput = z.infer<typeof TagAlignmentInputSchema>;
+
+// Without a status filter the leaderboard covers completed tasks
+export const ModelLeaderboardInputSchema = z.object({
+  filters: TaskListFiltersSchema.default({}),
+});
+
+export type ModelLeaderboardInput = z.infer<typeof ModelLeaderboardInputSchema>;
+
+export function getModelScopeLabel(scope: AnalyticsModelScope): string {
+  switch (scope) {
+    case "primary":
+      return "Primary model only";
+    case "all":
+      return "All models";
+  }
+}
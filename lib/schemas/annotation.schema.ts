@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { EvaluationScoresSchema } from "@/lib/schemas/task";
+
+// Extra human evaluators ("annotators") score a task's models independently
+// of its trainer, so agreement between humans can be measured.
+
+export const AssignAnnotatorInputSchema = z.object({
+  taskId: z.string(),
+  evaluatorEmail: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email("Enter a valid email address"),
+});
+
+export type AssignAnnotatorInput = z.infer<typeof AssignAnnotatorInputSchema>;
+
+export const SubmitAnnotationInputSchema = z.object({
+  taskId: z.string(),
+  modelId: z.string(),
+  scores: EvaluationScoresSchema,
+});
+
+export type SubmitAnnotationInput = z.infer<typeof SubmitAnnotationInputSchema>;
+
+// One annotator's scores for one model
+export interface ModelAnnotation {
+  // Rubric version the scores were given against
+  rubricVersion: number;
+  scores: string; // JSON {"rubric_1":"Yes",...}
+  submittedAt: string;
+}
+
+// An annotator's assignment to a task, with their scores per model
+export interface Annotation {
+  taskId: string;
+  evaluatorEmail: string;
+  assignedBy: string;
+  assignedAt: string;
+  evaluations: Record<string, ModelAnnotation>;
+}
+
+export function getAnnotationId(taskId: string, evaluatorEmail: string) {
+  return `${evaluatorEmail.toLowerCase()}|${taskId}`;
+}
+
+// Scores given against an older rubric version no longer count
+export function isCurrentAnnotation(
+  evaluation: ModelAnnotation | undefined,
+  rubricVersion: number
+): evaluation is ModelAnnotation {
+  return !!evaluation && evaluation.rubricVersion === rubricVersion;
+}
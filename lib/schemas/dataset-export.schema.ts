@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { TaskListFiltersSchema } from "@/lib/schemas/task-query.schema";
+
+export const DatasetExportFormat = z.enum(["jsonl", "csv", "huggingface"]);
+
+export type DatasetExportFormat = z.infer<typeof DatasetExportFormat>;
+
+// Only completed tasks are exported, so any status filter is ignored
+export const DatasetExportInputSchema = z.object({
+  format: DatasetExportFormat,
+  filters: TaskListFiltersSchema.default({}),
+});
+
+export type DatasetExportInput = z.infer<typeof DatasetExportInputSchema>;
+
+export function getExportFormatInfo(format: DatasetExportFormat): {
+  label: string;
+  description: string;
+} {
+  switch (format) {
+    case "jsonl":
+      return {
+        label: "JSONL",
+        description: "One JSON object per task, with nested models and scores",
+      };
+    case "csv":
+      return {
+        label: "CSV",
+        description:
+          "One row per task and model; rubric, scores and history as JSON columns",
+      };
+    case "huggingface":
+      return {
+        label: "Hugging Face",
+        description:
+          "Zip with a dataset card and data/train.jsonl, ready for load_dataset",
+      };
+  }
+}
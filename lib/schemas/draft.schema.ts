@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// Forms whose unsaved state is autosaved as a draft
+export const DraftStage = z.enum([
+  "task_creation",
+  "rubric_v1",
+  "rubric_enhance",
+  "human_eval",
+]);
+
+export type DraftStage = z.infer<typeof DraftStage>;
+
+// The new task form has no task yet
+export const NEW_TASK_DRAFT_ID = "new";
+
+// Airtable long text fields hold at most 100,000 characters
+export const MAX_DRAFT_SIZE = 100000;
+
+export const DraftKeySchema = z.object({
+  taskId: z.string().min(1),
+  stage: DraftStage,
+  // Human evaluations are drafted per model
+  modelId: z.string().optional(),
+});
+
+export type DraftKey = z.infer<typeof DraftKeySchema>;
+
+export const SaveDraftInputSchema = DraftKeySchema.extend({
+  // JSON form state, opaque to the server
+  data: z.string().max(MAX_DRAFT_SIZE, "Draft is too large to save"),
+});
+
+export type SaveDraftInput = z.infer<typeof SaveDraftInputSchema>;
+
+export interface Draft extends SaveDraftInput {
+  ownerEmail: string;
+  updatedAt?: string;
+}
+
+// Drafts are private to their owner, one per task, stage and model
+export function getDraftId(key: DraftKey, ownerEmail: string): string {
+  return [
+    ownerEmail.toLowerCase(),
+    key.taskId,
+    key.stage,
+    key.modelId || "",
+  ].join("|");
+}
@@ -0,0 +1,192 @@
+import { z } from "zod";
+import type { AirtableTaskRecord, TaskStatus } from "@/lib/schemas/task";
+
+// Where a lead can send a task back to when requesting changes
+export const ReviewReturnStage = z.enum([
+  "rubric",
+  "primary_evaluation",
+  "comparison_evaluation",
+]);
+
+export type ReviewReturnStage = z.infer<typeof ReviewReturnStage>;
+
+export const ReviewAction = z.enum([
+  "submitted",
+  "approved",
+  "changes_requested",
+  "resumed",
+  "comment",
+  "escalation_resolved",
+]);
+
+export type ReviewAction = z.infer<typeof ReviewAction>;
+
+export interface ReviewEntry {
+  action: ReviewAction;
+  authorEmail: string;
+  authorName?: string;
+  message?: string;
+  returnStage?: ReviewReturnStage;
+  timestamp: string; // ISO timestamp
+}
+
+// How a lead settles a task escalated by its sector policy
+export const EscalationResolution = z.enum([
+  "extend",
+  "send_to_review",
+  "abandon",
+]);
+
+export type EscalationResolution = z.infer<typeof EscalationResolution>;
+
+export const ApproveReviewInputSchema = z.object({
+  taskId: z.string(),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const RequestChangesInputSchema = z.object({
+  taskId: z.string(),
+  returnStage: ReviewReturnStage,
+  comment: z
+    .string()
+    .trim()
+    .min(10, "Explain what needs to change (at least 10 characters)")
+    .max(2000),
+});
+
+export const ReviewCommentInputSchema = z.object({
+  taskId: z.string(),
+  message: z.string().trim().min(1, "Comment cannot be empty").max(2000),
+});
+
+export const ResolveEscalationInputSchema = z.object({
+  taskId: z.string(),
+  resolution: EscalationResolution,
+  // Rubric versions granted beyond the policy limit, for "extend"
+  extraVersions: z.number().int().min(1).max(10).default(2),
+  comment: z
+    .string()
+    .trim()
+    .min(10, "Explain the resolution (at least 10 characters)")
+    .max(2000),
+});
+
+export type ApproveReviewInput = z.infer<typeof ApproveReviewInputSchema>;
+export type RequestChangesInput = z.infer<typeof RequestChangesInputSchema>;
+export type ReviewCommentInput = z.infer<typeof ReviewCommentInputSchema>;
+export type ResolveEscalationInput = z.infer<
+  typeof ResolveEscalationInputSchema
+>;
+
+// Statuses a task can be listed under in the review queue
+export const REVIEW_QUEUE_STATUSES: TaskStatus[] = [
+  "In_Review",
+  "Changes_Requested",
+  "Completed",
+];
+
+export function getReturnStageInfo(stage: ReviewReturnStage): {
+  label: string;
+  description: string;
+  // Status the task resumes from: the step before the one to redo
+  status: TaskStatus;
+} {
+  switch (stage) {
+    case "rubric":
+      return {
+        label: "Rubric",
+        description: "Create a new rubric version, then redo every evaluation",
+        status: "Rubric_Enhancing",
+      };
+    case "primary_evaluation":
+      return {
+        label: "Primary Evaluation",
+        description:
+          "Redo the primary model's evaluations with the current rubric, then the comparison models",
+        status: "Rubric_Enhancing",
+      };
+    case "comparison_evaluation":
+      return {
+        label: "Comparison Evaluation",
+        description: "Redo the comparison models' evaluations",
+        status: "Model_Eval_Gemini",
+      };
+  }
+}
+
+export function getEscalationResolutionInfo(resolution: EscalationResolution): {
+  label: string;
+  description: string;
+  status: TaskStatus;
+} {
+  switch (resolution) {
+    case "extend":
+      return {
+        label: "Allow More Versions",
+        description:
+          "Raise the task's rubric version limit and send the trainer back to the rubric",
+        status: "Rubric_Enhancing",
+      };
+    case "send_to_review":
+      return {
+        label: "Send to Review",
+        description:
+          "Accept the task below threshold and move it straight into lead review",
+        status: "In_Review",
+      };
+    case "abandon":
+      return {
+        label: "Abandon",
+        description: "Stop work on the task; it can be reassigned later",
+        status: "Abandoned",
+      };
+  }
+}
+
+export function getReviewActionLabel(action: ReviewAction): string {
+  switch (action) {
+    case "submitted":
+      return "Submitted for review";
+    case "approved":
+      return "Approved";
+    case "changes_requested":
+      return "Requested changes";
+    case "resumed":
+      return "Started revisions";
+    case "comment":
+      return "Commented";
+    case "escalation_resolved":
+      return "Resolved escalation";
+  }
+}
+
+export function parseReviewThread(task: AirtableTaskRecord): ReviewEntry[] {
+  if (!task.Review_Thread || typeof task.Review_Thread !== "string") {
+    return [];
+  }
+  try {
+    return JSON.parse(task.Review_Thread);
+  } catch (error) {
+    console.error("Error parsing review thread:", error);
+    return [];
+  }
+}
+
+export function addReviewEntry(
+  task: AirtableTaskRecord,
+  entry: Omit<ReviewEntry, "timestamp">
+): string {
+  return JSON.stringify([
+    ...parseReviewThread(task),
+    { ...entry, timestamp: new Date().toISOString() },
+  ]);
+}
+
+// The lead's latest change request, while the task is being revised
+export function getLatestChangeRequest(
+  task: AirtableTaskRecord
+): ReviewEntry | undefined {
+  return parseReviewThread(task)
+    .filter((entry) => entry.action === "changes_requested")
+    .pop();
+}
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { ProfessionalSector } from "@/lib/schemas/task";
+import { MAX_RUBRIC_WEIGHT } from "@/lib/utils/weighted-score";
+
+// Reusable rubric items, grouped into named templates per sector. Trainers
+// insert them into their rubrics; admins curate them from completed tasks.
+
+export const RubricTemplateItemSchema = z.object({
+  question: z
+    .string()
+    .trim()
+    .min(10, "Questions must be at least 10 characters long"),
+  tag: z
+    .string()
+    .trim()
+    .min(1, "Every item needs a tag")
+    .max(20, "Tags must be at most 20 characters"),
+  weight: z
+    .number()
+    .positive("Weight must be above 0")
+    .max(MAX_RUBRIC_WEIGHT, `Weight must be at most ${MAX_RUBRIC_WEIGHT}`)
+    .optional(),
+  critical: z.boolean().optional(),
+});
+
+export type RubricTemplateItem = z.infer<typeof RubricTemplateItemSchema>;
+
+export const RubricTemplateInputSchema = z.object({
+  // Omitted when creating a template
+  id: z.string().optional(),
+  name: z
+    .string()
+    .trim()
+    .min(3, "Name must be at least 3 characters")
+    .max(100, "Name must be at most 100 characters"),
+  sector: ProfessionalSector,
+  description: z.string().trim().max(500).optional(),
+  items: z
+    .array(RubricTemplateItemSchema)
+    .min(1, "A template needs at least one item")
+    .max(50, "A template can have at most 50 items"),
+  // Task the items were taken from, when curated from a completed task
+  sourceTaskId: z.string().optional(),
+});
+
+export type RubricTemplateInput = z.infer<typeof RubricTemplateInputSchema>;
+
+export interface RubricTemplate extends RubricTemplateInput {
+  id: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+export const RubricTemplateSearchSchema = z.object({
+  sector: ProfessionalSector.optional(),
+  tag: z.string().trim().optional(),
+  // Matched case-insensitively against names, descriptions and questions
+  query: z.string().trim().max(200).optional(),
+});
+
+export type RubricTemplateSearch = z.infer<typeof RubricTemplateSearchSchema>;
+
+export const CompletedRubricItemsInputSchema = z.object({
+  sector: ProfessionalSector,
+});
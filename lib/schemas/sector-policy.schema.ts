@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { ProfessionalSector } from "@/lib/schemas/task";
+import { ALIGNMENT_THRESHOLD } from "@/lib/workflow/task-workflow";
+
+// What happens when a task is still below threshold at its last allowed rubric version
+export const EscalationAction = z.enum(["notify_lead", "block", "advance"]);
+
+export type EscalationAction = z.infer<typeof EscalationAction>;
+
+export const SectorPolicySchema = z.object({
+  sector: ProfessionalSector,
+  alignmentThreshold: z.number().int().min(50).max(100),
+  maxRubricVersions: z.number().int().min(2).max(50),
+  escalationAction: EscalationAction,
+  // Minimum Cohen's kappa for the primary model, shown on the results page
+  // only; the workflow gates on alignmentThreshold alone
+  kappaThreshold: z.number().min(0).max(1).optional(),
+});
+
+export type SectorPolicyInput = z.infer<typeof SectorPolicySchema>;
+
+export interface SectorPolicy extends SectorPolicyInput {
+  updatedBy?: string;
+  updatedAt?: string;
+  // True when no policy has been saved for the sector yet
+  isDefault?: boolean;
+}
+
+// Built-in policies, used until an admin saves one for the sector
+const DEFAULT_POLICY_OVERRIDES: Partial<
+  Record<ProfessionalSector, Omit<SectorPolicyInput, "sector">>
+> = {
+  Medicine: {
+    alignmentThreshold: 90,
+    maxRubricVersions: 6,
+    escalationAction: "block",
+  },
+  Law: {
+    alignmentThreshold: 90,
+    maxRubricVersions: 6,
+    escalationAction: "block",
+  },
+};
+
+export function getDefaultSectorPolicy(
+  sector: ProfessionalSector
+): SectorPolicy {
+  return {
+    sector,
+    alignmentThreshold: ALIGNMENT_THRESHOLD,
+    maxRubricVersions: 10,
+    escalationAction: "notify_lead",
+    ...DEFAULT_POLICY_OVERRIDES[sector],
+    isDefault: true,
+  };
+}
+
+export function getEscalationActionInfo(action: EscalationAction) {
+  switch (action) {
+    case "notify_lead":
+      return {
+        label: "Notify Lead",
+        description:
+          "Flag the task for a lead and let the trainer keep iterating",
+      };
+    case "block":
+      return {
+        label: "Block Iterations",
+        description:
+          "Flag the task and stop further rubric versions until a lead steps in",
+      };
+    case "advance":
+      return {
+        label: "Advance With Flag",
+        description:
+          "Flag the task and let it continue to comparison evaluation below threshold",
+      };
+  }
+}
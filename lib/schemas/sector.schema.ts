@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { professionalSectors } from "@/constants/ProfessionalSectors";
+
+// Professional sectors are data: the built-in ones below can be relabelled or
+// archived, and admins can add more. A sector's value is what tasks store and
+// never changes once created.
+
+export const SectorColor = z.enum([
+  "blue",
+  "green",
+  "purple",
+  "red",
+  "amber",
+  "indigo",
+  "teal",
+  "pink",
+  "slate",
+]);
+
+export type SectorColor = z.infer<typeof SectorColor>;
+
+export const SectorInputSchema = z.object({
+  value: z
+    .string()
+    .trim()
+    .min(2, "Value must be at least 2 characters")
+    .max(50, "Value must be at most 50 characters"),
+  label: z
+    .string()
+    .trim()
+    .min(2, "Label must be at least 2 characters")
+    .max(50, "Label must be at most 50 characters"),
+  description: z.string().trim().max(200).default(""),
+  icon: z.string().trim().min(1, "Pick an icon").max(8),
+  color: SectorColor,
+  // Archived sectors stay on their tasks but can't be picked for new ones
+  archived: z.boolean().default(false),
+});
+
+export type SectorInput = z.infer<typeof SectorInputSchema>;
+
+export interface Sector extends SectorInput {
+  updatedBy?: string;
+  updatedAt?: string;
+  // True for a built-in sector no admin has changed yet
+  isDefault?: boolean;
+}
+
+// Built-in sectors, used until an admin saves their own version
+export const DEFAULT_SECTORS: Sector[] = professionalSectors.map((sector) => ({
+  ...sector,
+  archived: false,
+  isDefault: true,
+}));
+
+// Saved sectors replace the built-in with the same value; new ones follow
+export function mergeSectorCatalog(saved: Sector[]): Sector[] {
+  const savedByValue = new Map(saved.map((sector) => [sector.value, sector]));
+  const builtIn = DEFAULT_SECTORS.map((sector) => {
+    const override = savedByValue.get(sector.value);
+    return override ? { ...override, isDefault: false } : sector;
+  });
+  const added = saved
+    .filter((sector) => !DEFAULT_SECTORS.some((s) => s.value === sector.value))
+    .map((sector) => ({ ...sector, isDefault: false }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return [...builtIn, ...added];
+}
+
+export function findSector(
+  sectors: Sector[],
+  value: string
+): Sector | undefined {
+  return sectors.find((sector) => sector.value === value);
+}
+
+// Lowercase words only, so "Data-Science & Analysis" matches "data science analysis"
+function normalizeSectorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Sectors may be written by value ("Web development") or label ("Web Development")
+export function resolveSector(
+  sectors: Sector[],
+  name: string
+): Sector | undefined {
+  const normalized = normalizeSectorName(name);
+  return (
+    findSector(sectors, name.trim()) ||
+    sectors.find(
+      (sector) =>
+        normalizeSectorName(sector.value) === normalized ||
+        normalizeSectorName(sector.label) === normalized
+    )
+  );
+}
+
+export function getSectorColorClasses(color: SectorColor) {
+  switch (color) {
+    case "blue":
+      return {
+        color: "bg-blue-500",
+        lightColor: "bg-blue-100 dark:bg-blue-950/30",
+        textColor: "text-blue-700 dark:text-blue-400",
+      };
+    case "green":
+      return {
+        color: "bg-green-500",
+        lightColor: "bg-green-100 dark:bg-green-950/30",
+        textColor: "text-green-700 dark:text-green-400",
+      };
+    case "purple":
+      return {
+        color: "bg-purple-500",
+        lightColor: "bg-purple-100 dark:bg-purple-950/30",
+        textColor: "text-purple-700 dark:text-purple-400",
+      };
+    case "red":
+      return {
+        color: "bg-red-500",
+        lightColor: "bg-red-100 dark:bg-red-950/30",
+        textColor: "text-red-700 dark:text-red-400",
+      };
+    case "amber":
+      return {
+        color: "bg-amber-500",
+        lightColor: "bg-amber-100 dark:bg-amber-950/30",
+        textColor: "text-amber-700 dark:text-amber-400",
+      };
+    case "indigo":
+      return {
+        color: "bg-indigo-500",
+        lightColor: "bg-indigo-100 dark:bg-indigo-950/30",
+        textColor: "text-indigo-700 dark:text-indigo-400",
+      };
+    case "teal":
+      return {
+        color: "bg-teal-500",
+        lightColor: "bg-teal-100 dark:bg-teal-950/30",
+        textColor: "text-teal-700 dark:text-teal-400",
+      };
+    case "pink":
+      return {
+        color: "bg-pink-500",
+        lightColor: "bg-pink-100 dark:bg-pink-950/30",
+        textColor: "text-pink-700 dark:text-pink-400",
+      };
+    case "slate":
+      return {
+        color: "bg-slate-500",
+        lightColor: "bg-slate-100 dark:bg-slate-950/30",
+        textColor: "text-slate-700 dark:text-slate-400",
+      };
+  }
+}
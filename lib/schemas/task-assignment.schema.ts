@@ -0,0 +1,110 @@
+import { z } from "zod";
+import type { AirtableTaskRecord, TaskStatus } from "@/lib/schemas/task";
+
+export const AssignmentAction = z.enum(["assigned", "abandoned"]);
+
+export type AssignmentAction = z.infer<typeof AssignmentAction>;
+
+export interface AssignmentEntry {
+  action: AssignmentAction;
+  // Trainer the task belonged to before the change
+  fromEmail: string;
+  // New trainer, for assignments
+  toEmail?: string;
+  byEmail: string;
+  byName?: string;
+  reason?: string;
+  // Status the task was in, so an abandoned task can be reopened there
+  status: TaskStatus;
+  timestamp: string; // ISO timestamp
+}
+
+export const AssignTaskInputSchema = z.object({
+  taskId: z.string(),
+  trainerEmail: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email("Must be a valid email address"),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const AbandonTaskInputSchema = z.object({
+  taskId: z.string(),
+  reason: z
+    .string()
+    .trim()
+    .min(5, "Explain why the task is abandoned (at least 5 characters)")
+    .max(500),
+});
+
+export type AssignTaskInput = z.infer<typeof AssignTaskInputSchema>;
+export type AbandonTaskInput = z.infer<typeof AbandonTaskInputSchema>;
+
+// Concurrent tasks a trainer may hold unless an admin sets their own limit
+export const DEFAULT_MAX_CONCURRENT_TASKS = 1;
+
+export const TrainerQuotaSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Must be a valid email address"),
+  maxConcurrentTasks: z
+    .number()
+    .int()
+    .min(1, "Allow at least one task")
+    .max(20, "At most 20 concurrent tasks"),
+});
+
+export type TrainerQuotaInput = z.infer<typeof TrainerQuotaSchema>;
+
+export interface TrainerQuota extends TrainerQuotaInput {
+  updatedBy?: string;
+  updatedAt?: string;
+  // True when no limit has been saved for the trainer
+  isDefault?: boolean;
+}
+
+// Completed tasks keep the trainer who did the work
+export function canReassignTask(task: AirtableTaskRecord): boolean {
+  return task.Status !== "Completed";
+}
+
+export function getAssignmentActionLabel(action: AssignmentAction): string {
+  switch (action) {
+    case "assigned":
+      return "Assigned";
+    case "abandoned":
+      return "Abandoned";
+  }
+}
+
+export function parseAssignmentHistory(
+  task: AirtableTaskRecord
+): AssignmentEntry[] {
+  if (!task.Assignment_History || typeof task.Assignment_History !== "string") {
+    return [];
+  }
+  try {
+    return JSON.parse(task.Assignment_History);
+  } catch (error) {
+    console.error("Error parsing assignment history:", error);
+    return [];
+  }
+}
+
+// Status the task was in when it was last abandoned
+export function getAbandonedFromStatus(
+  task: AirtableTaskRecord
+): TaskStatus | undefined {
+  return parseAssignmentHistory(task)
+    .filter((entry) => entry.action === "abandoned")
+    .pop()?.status;
+}
+
+export function addAssignmentEntry(
+  task: AirtableTaskRecord,
+  entry: Omit<AssignmentEntry, "timestamp">
+): string {
+  return JSON.stringify([
+    ...parseAssignmentHistory(task),
+    { ...entry, timestamp: new Date().toISOString() },
+  ]);
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import {
+  CreateTaskSchema,
+  ProfessionalSector,
+  ServerTaskSchema,
+} from "@/lib/schemas/task";
+
+export const TaskImportFormat = z.enum(["csv", "jsonl"]);
+
+export type TaskImportFormat = z.infer<typeof TaskImportFormat>;
+
+export const MAX_IMPORT_ROWS = 200;
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+export const TaskImportInputSchema = z.object({
+  format: TaskImportFormat,
+  content: z
+    .string()
+    .min(1, "The file is empty")
+    .max(MAX_IMPORT_FILE_SIZE, "The file must be 5MB or smaller"),
+  // Rows without a trainer_email are spread over these trainers in turn.
+  // Lowercased like a row's trainer_email so both are stored the same way.
+  trainers: z.array(z.string().trim().toLowerCase().email()).default([]),
+  OpenSourceConfirmed: z.boolean().default(false),
+  // Import rows past a trainer's concurrent task limit instead of rejecting them
+  ignoreTrainerLimits: z.boolean().default(false),
+});
+
+export type TaskImportInput = z.infer<typeof TaskImportInputSchema>;
+
+// Checks shared with the new task form. Imported tasks have no request or
+// response files; their Drive folders are created empty.
+export const ImportedTaskSchema = CreateTaskSchema.pick({
+  Prompt: true,
+  ProfessionalSector: true,
+  OpenSourceConfirmed: true,
+  LicenseNotes: true,
+  candidates: true,
+}).merge(ServerTaskSchema.pick({ TrainerEmail: true }));
+
+export type ImportedTask = z.infer<typeof ImportedTaskSchema>;
+
+export interface TaskImportRowResult {
+  rowNumber: number; // line in the file, header included for CSV
+  errors: string[];
+  // Rejected only because the trainer is at their concurrent task limit
+  overLimit?: boolean;
+  task?: {
+    Prompt: string;
+    ProfessionalSector: ProfessionalSector;
+    TrainerEmail: string;
+    models: string[];
+  };
+}
+
+export interface TaskImportCreateResult {
+  rowNumber: number;
+  taskId?: string;
+  error?: string;
+}
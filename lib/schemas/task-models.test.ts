@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseScores } from "./task-models";
+
+describe("parseScores", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("parses stored scores", () => {
+    expect(parseScores('{"rubric_1":"Yes","rubric_2":"No"}')).toEqual({
+      rubric_1: "Yes",
+      rubric_2: "No",
+    });
+  });
+
+  it.each([undefined, ""])("is empty for %j", (scores) => {
+    expect(parseScores(scores)).toEqual({});
+  });
+
+  it("is empty for malformed JSON", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(parseScores('{"rubric_1": Yes}')).toEqual({});
+  });
+});
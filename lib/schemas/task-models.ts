@@ -0,0 +1,291 @@
+import { z } from "zod";
+import type {
+  AirtableTaskRecord,
+  ItemRationales,
+  ModelReasoning,
+  RubricFormat,
+} from "@/lib/schemas/task";
+import {
+  AlignmentMetrics,
+  calculateAlignmentMetrics,
+} from "@/lib/utils/alignment-metrics";
+import {
+  calculateWeightedScore,
+  WeightedScores,
+} from "@/lib/utils/weighted-score";
+
+// A model whose response is evaluated in a task. The first model of a task is
+// its primary model: it drives the rubric iteration loop. The others are
+// comparison models, evaluated once against the final rubric.
+export const TaskModelSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(30)
+    .regex(
+      /^[a-z0-9][a-z0-9-]*$/,
+      "Model id must contain only lowercase letters, digits and dashes"
+    ),
+  label: z
+    .string()
+    .trim()
+    .min(1, "Model name is required")
+    .max(40, "Model name must be 40 characters or less"),
+});
+
+export type TaskModel = z.infer<typeof TaskModelSchema>;
+
+export const MIN_TASK_MODELS = 2;
+export const MAX_TASK_MODELS = 6;
+
+// Models every task was created with before the model list became configurable
+export const LEGACY_TASK_MODELS: TaskModel[] = [
+  { id: "gemini", label: "Gemini" },
+  { id: "gpt", label: "GPT" },
+];
+
+// Offered on the new task form; trainers can add any other model by name
+export const SUGGESTED_TASK_MODELS: TaskModel[] = [
+  ...LEGACY_TASK_MODELS,
+  { id: "claude", label: "Claude" },
+  { id: "llama", label: "Llama" },
+];
+
+export function toModelId(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 30);
+}
+
+export interface CandidateResponse extends TaskModel {
+  response: string;
+}
+
+export interface ModelEvaluation {
+  humanScores?: string; // JSON string - Human scores for the response
+  humanRationales?: string; // JSON ItemRationales - Human notes per item
+  modelScores?: string; // JSON string - Model scores for the response
+  modelReasoning?: string; // JSON ModelReasoning - Grader reasoning per item
+  alignment?: number; // Number 0-100 - Human/model alignment
+  misaligned?: string; // JSON array - Misaligned items
+  alignmentMetrics?: string; // JSON AlignmentMetrics - kappa, precision/recall
+  weightedScores?: string; // JSON WeightedScores - graded human and model scores
+  graderRun?: string; // JSON GraderRun - raw output of the automated grader
+}
+
+// Per-model columns of tasks created before Model_Evaluations existed
+const LEGACY_EVALUATION_FIELDS: Record<
+  string,
+  Record<
+    keyof Omit<
+      ModelEvaluation,
+      | "graderRun"
+      | "humanRationales"
+      | "modelReasoning"
+      | "alignmentMetrics"
+      | "weightedScores"
+    >,
+    string
+  >
+> = {
+  gemini: {
+    humanScores: "Human_Eval_Gemini",
+    modelScores: "Model_Eval_Gemini",
+    alignment: "Alignment_Gemini",
+    misaligned: "Misaligned_Gemini",
+  },
+  gpt: {
+    humanScores: "Human_Eval_GPT",
+    modelScores: "Model_Eval_GPT",
+    alignment: "Alignment_GPT",
+    misaligned: "Misaligned_GPT",
+  },
+};
+
+function parseJSONField<T>(value: unknown, fallback: T): T {
+  if (!value || typeof value !== "string") return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    console.error("Error parsing task model field:", error);
+    return fallback;
+  }
+}
+
+// Rubric item scores keyed by item, as stored on an evaluation or annotation
+export function parseScores<T extends string = string>(
+  scores?: string
+): Record<string, T> {
+  return parseJSONField<Record<string, T>>(scores, {});
+}
+
+export function getCandidateResponses(
+  task: AirtableTaskRecord
+): CandidateResponse[] {
+  const stored = parseJSONField<CandidateResponse[]>(
+    task.Candidate_Responses,
+    []
+  );
+  if (stored.length > 0) return stored;
+
+  return [
+    { ...LEGACY_TASK_MODELS[0], response: task.GeminiResponse || "" },
+    { ...LEGACY_TASK_MODELS[1], response: task.GPTResponse || "" },
+  ];
+}
+
+export function getTaskModels(task: AirtableTaskRecord): TaskModel[] {
+  return getCandidateResponses(task).map(({ id, label }) => ({ id, label }));
+}
+
+export function getTaskModel(
+  task: AirtableTaskRecord,
+  modelId: string
+): TaskModel | undefined {
+  return getTaskModels(task).find((model) => model.id === modelId);
+}
+
+export function getPrimaryModel(task: AirtableTaskRecord): TaskModel {
+  return getTaskModels(task)[0];
+}
+
+export function getComparisonModels(task: AirtableTaskRecord): TaskModel[] {
+  return getTaskModels(task).slice(1);
+}
+
+export function isPrimaryModel(
+  task: AirtableTaskRecord,
+  modelId: string
+): boolean {
+  return getPrimaryModel(task).id === modelId;
+}
+
+export function getModelResponse(
+  task: AirtableTaskRecord,
+  modelId: string
+): string {
+  return (
+    getCandidateResponses(task).find((candidate) => candidate.id === modelId)
+      ?.response || ""
+  );
+}
+
+export function getModelEvaluation(
+  task: AirtableTaskRecord,
+  modelId: string
+): ModelEvaluation {
+  const stored = parseJSONField<Record<string, ModelEvaluation>>(
+    task.Model_Evaluations,
+    {}
+  );
+  if (stored[modelId]) return stored[modelId];
+
+  const legacyFields = task.Candidate_Responses
+    ? undefined
+    : LEGACY_EVALUATION_FIELDS[modelId];
+  if (!legacyFields) return {};
+
+  return {
+    humanScores: task[legacyFields.humanScores] as string | undefined,
+    modelScores: task[legacyFields.modelScores] as string | undefined,
+    alignment: task[legacyFields.alignment] as number | undefined,
+    misaligned: task[legacyFields.misaligned] as string | undefined,
+  };
+}
+
+export function getHumanRationales(
+  evaluation: ModelEvaluation
+): ItemRationales {
+  return parseJSONField<ItemRationales>(evaluation.humanRationales, {});
+}
+
+export function getModelReasoning(evaluation: ModelEvaluation): ModelReasoning {
+  return parseJSONField<ModelReasoning>(evaluation.modelReasoning, {});
+}
+
+// Stored metrics, or computed from the scores for evaluations saved before
+// metrics were recorded
+export function getAlignmentMetrics(
+  evaluation: ModelEvaluation
+): AlignmentMetrics | undefined {
+  if (evaluation.alignmentMetrics) {
+    return parseJSONField<AlignmentMetrics | undefined>(
+      evaluation.alignmentMetrics,
+      undefined
+    );
+  }
+  if (!evaluation.humanScores || !evaluation.modelScores) return undefined;
+
+  return calculateAlignmentMetrics(
+    parseScores(evaluation.humanScores),
+    parseScores(evaluation.modelScores)
+  );
+}
+
+// Stored weighted scores, or computed from the scores against the given
+// rubric for evaluations saved before weighted scores were recorded
+export function getWeightedScores(
+  evaluation: ModelEvaluation,
+  rubric: RubricFormat | null
+): WeightedScores | undefined {
+  if (evaluation.weightedScores) {
+    return parseJSONField<WeightedScores | undefined>(
+      evaluation.weightedScores,
+      undefined
+    );
+  }
+  if (!evaluation.humanScores || !evaluation.modelScores || !rubric) {
+    return undefined;
+  }
+
+  return {
+    human: calculateWeightedScore(parseScores(evaluation.humanScores), rubric),
+    model: calculateWeightedScore(parseScores(evaluation.modelScores), rubric),
+  };
+}
+
+// Fields to write when one model's evaluation changes; other models are kept
+export function buildModelEvaluationUpdate(
+  task: AirtableTaskRecord,
+  modelId: string,
+  changes: ModelEvaluation
+): { Model_Evaluations: string } {
+  const evaluations: Record<string, ModelEvaluation> = {};
+  for (const model of getTaskModels(task)) {
+    evaluations[model.id] = getModelEvaluation(task, model.id);
+  }
+  evaluations[modelId] = { ...evaluations[modelId], ...changes };
+
+  return { Model_Evaluations: JSON.stringify(evaluations) };
+}
+
+// Fields that clear every comparison model's evaluation so they are redone
+export function buildComparisonEvaluationReset(task: AirtableTaskRecord): {
+  Model_Evaluations: string;
+} {
+  const evaluations: Record<string, ModelEvaluation> = {};
+  for (const model of getTaskModels(task)) {
+    evaluations[model.id] = isPrimaryModel(task, model.id)
+      ? getModelEvaluation(task, model.id)
+      : {};
+  }
+
+  return { Model_Evaluations: JSON.stringify(evaluations) };
+}
+
+export function getPrimaryAlignment(
+  task: AirtableTaskRecord
+): number | undefined {
+  return getModelEvaluation(task, getPrimaryModel(task).id).alignment;
+}
+
+// The comparison model to work on next: the first one without a model evaluation
+export function getActiveComparisonModel(
+  task: AirtableTaskRecord
+): TaskModel | undefined {
+  return getComparisonModels(task).find(
+    (model) => !getModelEvaluation(task, model.id).modelScores
+  );
+}
@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { ProfessionalSector, TaskStatus } from "@/lib/schemas/task";
+
+export const TaskSortField = z.enum([
+  "Created",
+  "LastModified",
+  "Status",
+  "ProfessionalSector",
+  "TrainerEmail",
+  "primaryAlignment",
+]);
+
+export type TaskSortField = z.infer<typeof TaskSortField>;
+
+export const SortDirection = z.enum(["asc", "desc"]);
+
+export type SortDirection = z.infer<typeof SortDirection>;
+
+export const TaskListFiltersSchema = z
+  .object({
+    statuses: z.array(TaskStatus).optional(),
+    sectors: z.array(ProfessionalSector).optional(),
+    // Matched case-insensitively against any part of the trainer's email
+    trainer: z.string().trim().max(254).optional(),
+    createdFrom: z.string().datetime().optional(),
+    createdTo: z.string().datetime().optional(),
+    minAlignment: z.number().min(0).max(100).optional(),
+    maxAlignment: z.number().min(0).max(100).optional(),
+  })
+  .refine(
+    (filters) =>
+      filters.minAlignment === undefined ||
+      filters.maxAlignment === undefined ||
+      filters.minAlignment <= filters.maxAlignment,
+    {
+      message: "Minimum alignment cannot be above maximum alignment",
+      path: ["minAlignment"],
+    }
+  )
+  .refine(
+    (filters) =>
+      !filters.createdFrom ||
+      !filters.createdTo ||
+      filters.createdFrom <= filters.createdTo,
+    {
+      message: "Start date cannot be after end date",
+      path: ["createdFrom"],
+    }
+  );
+
+export type TaskListFilters = z.infer<typeof TaskListFiltersSchema>;
+
+export const ADMIN_TASK_PAGE_SIZE = 25;
+
+export const AdminTaskListInputSchema = z.object({
+  filters: TaskListFiltersSchema.default({}),
+  sortBy: TaskSortField.default("Created"),
+  sortDirection: SortDirection.default("desc"),
+  // Opaque cursor returned as nextCursor by the previous page
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(100).default(ADMIN_TASK_PAGE_SIZE),
+});
+
+export type AdminTaskListInput = z.infer<typeof AdminTaskListInputSchema>;
+
+export const AdminTaskSummarySchema = z.object({
+  id: z.string(),
+  TaskID: z.string(),
+  Prompt: z.string(),
+  ProfessionalSector: ProfessionalSector,
+  Status: TaskStatus,
+  Progress: z.number().min(0).max(100),
+  TrainerEmail: z.string().email(),
+  Created: z.string().optional(),
+  LastModified: z.string().optional(),
+  Current_Rubric_Version: z.number().optional(),
+  primaryAlignment: z.number().optional(),
+});
+
+export type AdminTaskSummary = z.infer<typeof AdminTaskSummarySchema>;
+
+export function getTaskSortFieldLabel(field: TaskSortField): string {
+  switch (field) {
+    case "Created":
+      return "Created";
+    case "LastModified":
+      return "Last Updated";
+    case "Status":
+      return "Status";
+    case "ProfessionalSector":
+      return "Sector";
+    case "TrainerEmail":
+      return "Trainer";
+    case "primaryAlignment":
+      return "Primary Alignment";
+  }
+}
@@ -1,14 +1,37 @@
 import { FieldSet } from "airtable";
 import { z } from "zod";
-
-export const ProfessionalSector = z.enum([
-  "Data-Science & Analysis",
-  "Web development",
-  "STEM Research",
-  "Medicine",
-  "Law",
-  "Accounting",
-]);
+import {
+  buildWorkflowSteps,
+  getWorkflowState,
+} from "@/lib/workflow/task-workflow";
+import {
+  MAX_TASK_MODELS,
+  MIN_TASK_MODELS,
+  TaskModelSchema,
+} from "@/lib/schemas/task-models";
+import type {
+  EscalationResolution,
+  ReviewReturnStage,
+} from "@/lib/schemas/review.schema";
+import {
+  AlignmentMetrics,
+  calculateAlignmentMetrics,
+  EMPTY_ALIGNMENT_METRICS,
+} from "@/lib/utils/alignment-metrics";
+import {
+  calculateWeightedScore,
+  EMPTY_WEIGHTED_SCORE,
+  MAX_RUBRIC_WEIGHT,
+  WeightedScores,
+} from "@/lib/utils/weighted-score";
+
+// A value from the sector catalog (see sector.schema.ts). Procedures that
+// take one check it against the catalog, since admins can add sectors.
+export const ProfessionalSector = z
+  .string()
+  .trim()
+  .min(1, "Please select a professional sector")
+  .max(50);
 
 export type ProfessionalSector = z.infer<typeof ProfessionalSector>;
 
@@ -22,11 +45,22 @@ export const TaskStatus = z.enum([
   "Model_Eval_Gemini",
   "Human_Eval_GPT",
   "Model_Eval_GPT",
+  "In_Review",
+  "Changes_Requested",
   "Completed",
+  "Abandoned",
 ]);
 
 export type TaskStatus = z.infer<typeof TaskStatus>;
 
+// The trainer has nothing left to do; any other status counts toward their
+// concurrent task quota
+export const TRAINER_DONE_STATUSES: TaskStatus[] = [
+  "In_Review",
+  "Completed",
+  "Abandoned",
+];
+
 // const MAX_FILE_SIZE = 10 * 1024 * 1024; // keeping this 10MB for now
 // const ACCEPTED_FILE_TYPES = [
 //   "application/pdf",
@@ -52,11 +86,53 @@ export const FileReferenceSchema = z.object({
 export interface RubricItem {
   question: string;
   tag: string;
+  // Relative importance in the weighted score, 1 when unset
+  weight?: number;
+  // A "No" on a critical item fails the response
+  critical?: boolean;
+}
+
+// Problems with an item's optional weight and critical flag
+function getRubricItemOptionErrors(
+  key: string,
+  value: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+  if (
+    value.weight !== undefined &&
+    (typeof value.weight !== "number" ||
+      !(value.weight > 0) ||
+      value.weight > MAX_RUBRIC_WEIGHT)
+  ) {
+    errors.push(
+      `${key}: Weight must be a number above 0 and at most ${MAX_RUBRIC_WEIGHT}`
+    );
+  }
+  if (value.critical !== undefined && typeof value.critical !== "boolean") {
+    errors.push(`${key}: Critical must be true or false`);
+  }
+  return errors;
 }
 
 //  Type for the new rubric format
 export type RubricFormat = Record<string, RubricItem>;
 
+// One model's response, with the files uploaded to its Drive subfolder
+export const CandidateResponseInputSchema = TaskModelSchema.extend({
+  response: z
+    .string()
+    .min(50, "Response must be at least 50 characters")
+    .refine(
+      (val) => val.trim().length >= 50,
+      "Response cannot be just whitespace"
+    ),
+  files: z.array(FileReferenceSchema).max(10, "Maximum 10 files allowed"),
+});
+
+export type CandidateResponseInput = z.infer<
+  typeof CandidateResponseInputSchema
+>;
+
 // Original task creation schema
 export const CreateTaskSchema = z.object({
   taskId: z.string().optional(),
@@ -79,32 +155,22 @@ export const CreateTaskSchema = z.object({
     .max(1000, "License notes must be less than 1000 characters")
     .optional(),
 
-  GPTResponse: z
-    .string()
-    .min(50, "GPT response must be at least 50 characters")
-    .refine(
-      (val) => val.trim().length >= 50,
-      "GPT response cannot be just whitespace"
-    ),
-
-  GeminiResponse: z
-    .string()
-    .min(50, "Gemini response must be at least 50 characters")
+  // First candidate is the primary model, the rest are comparison models
+  candidates: z
+    .array(CandidateResponseInputSchema)
+    .min(MIN_TASK_MODELS, `At least ${MIN_TASK_MODELS} models are required`)
+    .max(MAX_TASK_MODELS, `Maximum ${MAX_TASK_MODELS} models allowed`)
     .refine(
-      (val) => val.trim().length >= 50,
-      "Gemini response cannot be just whitespace"
+      (candidates) =>
+        new Set(candidates.map((candidate) => candidate.id)).size ===
+        candidates.length,
+      "Each model can only be added once"
     ),
   taskFolderId: z.string().optional(),
   requestFiles: z
     .array(FileReferenceSchema)
     .min(1, "At least one request file is required")
     .max(10, "Maximum 10 files allowed"),
-  responseGeminiFiles: z
-    .array(FileReferenceSchema)
-    .max(10, "Maximum 10 files allowed"),
-  responseGptFiles: z
-    .array(FileReferenceSchema)
-    .max(10, "Maximum 10 files allowed"),
 });
 
 export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
@@ -112,9 +178,9 @@ export type FileReference = z.infer<typeof FileReferenceSchema>;
 
 export const ServerTaskSchema = CreateTaskSchema.omit({
   requestFiles: true,
-  responseGeminiFiles: true,
-  responseGptFiles: true,
+  candidates: true,
 }).extend({
+  candidates: z.array(CandidateResponseInputSchema.omit({ files: true })),
   Sources: z.string().url(),
   TrainerEmail: z
     .string()
@@ -136,8 +202,10 @@ export interface AirtableTaskRecord extends FieldSet {
   Sources: string;
   OpenSourceConfirmed: string;
   LicenseNotes?: string;
-  GPTResponse: string;
-  GeminiResponse: string;
+  // Legacy: responses of tasks created before Candidate_Responses existed
+  GPTResponse?: string;
+  GeminiResponse?: string;
+  Candidate_Responses?: string; // JSON CandidateResponse[] - primary model first
   Status: TaskStatus;
   Created?: string;
   LastModified?: string;
@@ -148,7 +216,14 @@ export interface AirtableTaskRecord extends FieldSet {
   Rubric_V1?: string; // JSON string with new format
   Rubric_V2?: string; // JSON string with new format
   [key: `Rubric_V${number}`]: string | undefined;
+  // JSON Record<version, RubricKeyMap> - how each version's items map to the previous version's
+  Rubric_Key_Maps?: string;
 
+  // Per-model evaluations, keyed by model id (JSON Record<string, ModelEvaluation>)
+  Model_Evaluations?: string;
+
+  // Legacy: Gemini/GPT evaluations of tasks created before Model_Evaluations.
+  // Read through getModelEvaluation, never written anymore.
   // Gemini evaluation fields
   Human_Eval_Gemini?: string; // JSON string - Human scores for Gemini response
   Model_Eval_Gemini?: string; // JSON string - Model scores for Gemini response
@@ -164,6 +239,25 @@ export interface AirtableTaskRecord extends FieldSet {
   Alignment_History?: string;
   Final_Rubric?: string;
 
+  // Set when the sector policy's rubric version limit is hit below threshold
+  Escalated_At?: string; // ISO timestamp
+  Escalation_Reason?: string;
+  // A lead's answer to the latest escalation
+  Escalation_Resolution?: EscalationResolution;
+  Escalation_Resolved_By?: string;
+  Escalation_Resolved_At?: string; // ISO timestamp
+  Extra_Rubric_Versions?: number; // Granted by leads beyond the policy limit
+
+  // Lead review after the last evaluation
+  Review_Thread?: string; // JSON ReviewEntry[] - oldest first
+  Review_Return_Stage?: ReviewReturnStage | ""; // Set while revising, "" once resubmitted
+  Submitted_For_Review_At?: string; // ISO timestamp
+  Reviewed_By?: string;
+  Reviewed_At?: string; // ISO timestamp
+
+  // Hand-overs between trainers and abandonment
+  Assignment_History?: string; // JSON AssignmentEntry[] - oldest first
+
   // Optional comments
   Comments?: string; // General comments about the evaluation
 }
@@ -312,7 +406,8 @@ export const RubricJSONSchema = z.string().refine(
           value.question.trim().length >= 10 &&
           typeof value.tag === "string" &&
           value.tag.trim().length >= 1 &&
-          value.tag.length <= 20
+          value.tag.length <= 20 &&
+          getRubricItemOptionErrors(key, value).length === 0
         );
       });
     } catch {
@@ -321,7 +416,7 @@ export const RubricJSONSchema = z.string().refine(
   },
   {
     message:
-      "Must be valid JSON with 15-50 unique rubric items (rubric_1, rubric_2, etc.). Each item must have 'question' (10+ chars) and 'tag' (1-20 chars) properties. No duplicate keys allowed.",
+      "Must be valid JSON with 15-50 unique rubric items (rubric_1, rubric_2, etc.). Each item must have 'question' (10+ chars) and 'tag' (1-20 chars) properties, and may have a 'weight' and a 'critical' flag. No duplicate keys allowed.",
   }
 );
 
@@ -349,6 +444,62 @@ export const EvaluationScoresSchema = z.string().refine(
   }
 );
 
+export const ConfidenceLevel = z.enum(["low", "medium", "high"]);
+
+export type ConfidenceLevel = z.infer<typeof ConfidenceLevel>;
+
+export const MAX_RATIONALE_LENGTH = 500;
+
+// Optional note a human evaluator attaches to one rubric answer
+export const ItemRationaleSchema = z.object({
+  justification: z
+    .string()
+    .trim()
+    .max(
+      MAX_RATIONALE_LENGTH,
+      `Justification must be ${MAX_RATIONALE_LENGTH} characters or less`
+    )
+    .optional(),
+  confidence: ConfidenceLevel.optional(),
+});
+
+export type ItemRationale = z.infer<typeof ItemRationaleSchema>;
+
+// Keyed by rubric key, like the scores
+export const ItemRationalesSchema = z.record(z.string(), ItemRationaleSchema);
+
+export type ItemRationales = z.infer<typeof ItemRationalesSchema>;
+
+// Keep notes for scored items only, and drop empty ones
+export function cleanItemRationales(
+  rationales: ItemRationales,
+  scoredKeys: string[]
+): ItemRationales {
+  const cleaned: ItemRationales = {};
+  for (const key of scoredKeys) {
+    const justification = rationales[key]?.justification?.trim();
+    const confidence = rationales[key]?.confidence;
+    if (justification || confidence) {
+      cleaned[key] = {
+        ...(justification && { justification }),
+        ...(confidence && { confidence }),
+      };
+    }
+  }
+  return cleaned;
+}
+
+export function getConfidenceLabel(confidence: ConfidenceLevel): string {
+  switch (confidence) {
+    case "low":
+      return "Low confidence";
+    case "medium":
+      return "Medium confidence";
+    case "high":
+      return "High confidence";
+  }
+}
+
 // Step-specific input schemas
 export const RubricInputSchema = z.object({
   taskId: z.string(),
@@ -361,20 +512,47 @@ export const RubricV1InputSchema = z.object({
   rubricV1: RubricJSONSchema,
 });
 
+// Keys of a new rubric version mapped to the keys of the previous version
+// they were derived from; an empty list marks an item added from scratch
+export const RubricKeyMapSchema = z.record(z.string(), z.array(z.string()));
+export type RubricKeyMap = z.infer<typeof RubricKeyMapSchema>;
+
 export const RubricEnhanceInputSchema = z.object({
   taskId: z.string(),
   rubricContent: RubricJSONSchema,
   targetVersion: z.number().min(2),
+  // Sent by the structured editor; JSON edits fall back to diff heuristics
+  keyMap: RubricKeyMapSchema.optional(),
 });
 
 export const HumanEvalInputSchema = z.object({
   taskId: z.string(),
+  modelId: z.string(),
   humanScores: EvaluationScoresSchema,
+  rationales: ItemRationalesSchema.optional(),
 });
 
+export const MAX_MODEL_REASONING_LENGTH = 2000;
+
+// Grader's explanation per rubric key, from the explained checker format
+export const ModelReasoningSchema = z.record(
+  z.string(),
+  z
+    .string()
+    .trim()
+    .max(
+      MAX_MODEL_REASONING_LENGTH,
+      `Reasoning must be ${MAX_MODEL_REASONING_LENGTH} characters or less`
+    )
+);
+
+export type ModelReasoning = z.infer<typeof ModelReasoningSchema>;
+
 export const ModelEvalInputSchema = z.object({
   taskId: z.string(),
+  modelId: z.string(),
   modelScores: EvaluationScoresSchema,
+  modelReasoning: ModelReasoningSchema.optional(),
 });
 
 export type RubricInput = z.infer<typeof RubricInputSchema>;
@@ -388,13 +566,18 @@ export interface AlignmentHistoryEntry {
   alignment: number;
   timestamp: string;
   misalignedCount: number;
+  // Not recorded for versions evaluated before these metrics existed
+  kappa?: number | null;
+  precision?: number | null;
+  recall?: number | null;
 }
 
 export function addAlignmentToHistory(
   task: AirtableTaskRecord,
   version: number,
   alignment: number,
-  misalignedCount: number
+  misalignedCount: number,
+  metrics?: AlignmentMetrics
 ): string {
   const currentHistory: AlignmentHistoryEntry[] = task.Alignment_History
     ? JSON.parse(task.Alignment_History)
@@ -405,6 +588,11 @@ export function addAlignmentToHistory(
     alignment,
     timestamp: new Date().toISOString(),
     misalignedCount,
+    ...(metrics && {
+      kappa: metrics.kappa,
+      precision: metrics.precision,
+      recall: metrics.recall,
+    }),
   };
 
   // Remove any existing entry for this version and add the new one
@@ -438,8 +626,7 @@ export function toAirtableFormat(
     Sources: serverData.Sources,
     OpenSourceConfirmed: serverData.OpenSourceConfirmed.toString(),
     LicenseNotes: serverData.LicenseNotes || "",
-    GPTResponse: serverData.GPTResponse,
-    GeminiResponse: serverData.GeminiResponse,
+    Candidate_Responses: JSON.stringify(serverData.candidates),
     Status: "Task_Creation" as TaskStatus,
     Current_Rubric_Version: 1,
   };
@@ -476,106 +663,29 @@ export function getDetailedValidationError(errors: z.ZodError): {
 }
 
 export function getStatusDisplayInfo(status: TaskStatus) {
-  switch (status) {
-    case "Task_Creation":
-      return {
-        label: "Task Created",
-        color:
-          "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
-        step: 1,
-        description: "Ready for rubric creation",
-      };
-    case "Rubric_V1":
-      return {
-        label: "V1 Rubric",
-        color:
-          "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
-        step: 2,
-        description: "Initial rubric created",
-      };
-    case "Rubric_V2":
-      return {
-        label: "V2 Rubric",
-        color:
-          "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400",
-        step: 3,
-        description: "Enhanced rubric ready",
-      };
-    case "Rubric_Enhancing":
-      return {
-        label: "Enhancing Rubric",
-        color:
-          "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
-        step: 3,
-        description: "Improving rubric for better alignment",
-      };
-    case "Human_Eval_Gemini":
-      return {
-        label: "Human Eval Gemini",
-        color:
-          "bg-cyan-100 text-cyan-800 dark:bg-cyan-900/30 dark:text-cyan-400",
-        step: 4,
-        description: "Human evaluation in progress",
-      };
-    case "Model_Eval_Gemini":
-      return {
-        label: "Model Eval Gemini",
-        color:
-          "bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-400",
-        step: 5,
-        description: "Model evaluation in progress",
-      };
-    case "Human_Eval_GPT":
-      return {
-        label: "Human Eval GPT",
-        color:
-          "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
-        step: 6,
-        description: "GPT human evaluation in progress",
-      };
-    case "Model_Eval_GPT":
-      return {
-        label: "Model Eval GPT",
-        color: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
-        step: 7,
-        description: "GPT model evaluation in progress",
-      };
-    case "Completed":
-      return {
-        label: "Completed",
-        color:
-          "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
-        step: 8,
-        description: "All evaluations completed",
-      };
-    default:
-      return {
-        label: "Unknown",
-        color:
-          "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
-        step: 0,
-        description: "Unknown status",
-      };
+  const state = getWorkflowState(status);
+  if (!state) {
+    return {
+      label: "Unknown",
+      color: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+      step: 0,
+      description: "Unknown status",
+    };
   }
+
+  return {
+    label: state.label,
+    color: state.color,
+    step: state.step,
+    description: state.description,
+  };
 }
 
 export function calculateTaskProgress(
   status: TaskStatus,
   currentVersion?: number
 ): number {
-  const baseProgress = {
-    Task_Creation: 12.5,
-    Rubric_V1: 25,
-    Rubric_V2: 37.5,
-    Rubric_Enhancing: 37.5, // Same as V2 since it's iterative improvement
-    Human_Eval_Gemini: 50,
-    Model_Eval_Gemini: 62.5,
-    Human_Eval_GPT: 75,
-    Model_Eval_GPT: 87.5,
-    Completed: 100,
-  };
-
-  let progress = baseProgress[status] || 0;
+  let progress = getWorkflowState(status)?.progress || 0;
 
   // Slight adjustment for multiple iterations to show progress
   if (status === "Rubric_Enhancing" && currentVersion && currentVersion > 2) {
@@ -590,35 +700,10 @@ export function calculateTaskProgress(
 export function getNextStatus(
   currentStatus: TaskStatus,
   alignment?: number,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  currentVersion?: number
+  currentVersion?: number,
+  threshold?: number
 ): TaskStatus | null {
-  switch (currentStatus) {
-    case "Task_Creation":
-      return "Rubric_V1";
-    case "Rubric_V1":
-      return "Rubric_V2"; // Go to V2 creation, not enhancement
-    case "Rubric_V2":
-      return "Human_Eval_Gemini";
-    case "Rubric_Enhancing":
-      return "Human_Eval_Gemini";
-    case "Human_Eval_Gemini":
-      return "Model_Eval_Gemini";
-    case "Model_Eval_Gemini":
-      // Dynamic decision based on alignment
-      if (alignment !== undefined) {
-        return alignment >= 80 ? "Human_Eval_GPT" : "Rubric_Enhancing";
-      }
-      return "Human_Eval_GPT";
-    case "Human_Eval_GPT":
-      return "Model_Eval_GPT";
-    case "Model_Eval_GPT":
-      return "Completed";
-    case "Completed":
-      return "Completed";
-    default:
-      return null;
-  }
+  return getWorkflowState(currentStatus)?.next(alignment, threshold) ?? null;
 }
 
 // Get current rubric version display name
@@ -631,18 +716,18 @@ export function getCurrentRubricVersionName(task: AirtableTaskRecord): string {
 }
 
 // Check if task needs rubric iteration
-export function needsRubricIteration(task: AirtableTaskRecord): boolean {
-  return (
-    task.Status === "Rubric_Enhancing" &&
-    task.Alignment_Gemini !== undefined &&
-    task.Alignment_Gemini < 80
-  );
-}
+export { needsRubricIteration } from "@/lib/workflow/task-workflow";
 
 // Get all step definitions for progress tracking
 // First, define the interface for workflow steps
 export interface WorkflowStep {
   status: TaskStatus;
+  // Set on evaluation steps, which are repeated for each model
+  modelId?: string;
+  // Page for the step, relative to /dashboard/tasks/[taskId]
+  route: string;
+  // Only set when the steps are built for a task
+  isComplete?: boolean;
   label: string;
   title: string;
   description: string;
@@ -655,102 +740,11 @@ export interface WorkflowStep {
   };
 }
 
-export function getWorkflowSteps(task?: AirtableTaskRecord): WorkflowStep[] {
-  const baseSteps: WorkflowStep[] = [
-    {
-      status: "Task_Creation",
-      title: "Task Creation",
-      label: "Task Setup",
-      description: "Create prompt and gather AI responses",
-      estimatedTime: "30-45 minutes",
-    },
-    {
-      status: "Rubric_V1",
-      title: "Rubric V1",
-      label: "Create V1 Rubric",
-      description: "Generate initial rubric using AI prompt",
-      estimatedTime: "10-15 minutes",
-    },
-  ];
-
-  // Handle V2 creation vs enhancement
-  if (task?.Status === "Rubric_V1") {
-    baseSteps.push({
-      status: "Rubric_V2",
-      title: "Rubric V2",
-      label: "Enhance to V2 Rubric",
-      description: "Refine and improve the initial rubric",
-      estimatedTime: "15-20 minutes",
-    });
-  } else if (task && needsRubricIteration(task)) {
-    const currentVersion = task.Current_Rubric_Version || 2;
-    const targetVersion = currentVersion + 1;
-    const alignment = task.Alignment_Gemini || 0;
-
-    baseSteps.push({
-      status: "Rubric_Enhancing",
-      label: `Create V${targetVersion} Rubric`,
-      title: `Rubric V${targetVersion}`,
-      description: `Enhance rubric for better alignment (was ${alignment}%)`,
-      estimatedTime: "15-25 minutes",
-      isIterative: true,
-      iterationInfo: {
-        currentVersion,
-        targetVersion,
-        reason: `Previous alignment: ${alignment}% (need ≥80%)`,
-      },
-    });
-  } else {
-    // Standard V2 step if not in iteration mode
-    baseSteps.push({
-      status: "Rubric_V2",
-      title: "Rubric V2",
-      label: "V2 Rubric",
-      description: "Enhanced rubric ready",
-      estimatedTime: "Complete",
-    });
-  }
-
-  // Add remaining evaluation steps
-  baseSteps.push(
-    {
-      status: "Human_Eval_Gemini",
-      title: "Human Eval Gemini",
-      label: "Human Evaluate Gemini",
-      description: "Manually evaluate Gemini's response",
-      estimatedTime: "10-15 minutes",
-    },
-    {
-      status: "Model_Eval_Gemini",
-      title: "Model Eval Gemini",
-      label: "Model Evaluate Gemini",
-      description: "Get AI to evaluate Gemini's response",
-      estimatedTime: "5-10 minutes",
-    },
-    {
-      status: "Human_Eval_GPT",
-      title: "Human Eval GPT",
-      label: "Human Evaluate GPT",
-      description: "Manually evaluate GPT's response",
-      estimatedTime: "10-15 minutes",
-    },
-    {
-      status: "Model_Eval_GPT",
-      title: "Model Eval GPT",
-      label: "Model Evaluate GPT",
-      description: "Get AI to evaluate GPT's response",
-      estimatedTime: "5-10 minutes",
-    },
-    {
-      status: "Completed",
-      title: "Completed",
-      label: "Evaluation Complete",
-      description: "All evaluations finished",
-      estimatedTime: "Complete",
-    }
-  );
-
-  return baseSteps;
+export function getWorkflowSteps(
+  task?: AirtableTaskRecord,
+  threshold?: number
+): WorkflowStep[] {
+  return buildWorkflowSteps(task, threshold);
 }
 
 // Alignment calculation utility
@@ -763,14 +757,18 @@ export interface AlignmentResult {
     question: string;
     human_score: string;
     model_score: string;
+    model_reasoning?: string;
   }>;
+  metrics: AlignmentMetrics;
+  weightedScores: WeightedScores;
 }
 
 // Updated alignment calculation for new format
 export function calculateAlignment(
   humanScoresJSON: string,
   modelScoresJSON: string,
-  rubricJSON: string
+  rubricJSON: string,
+  modelReasoning: ModelReasoning = {}
 ): AlignmentResult {
   try {
     const humanScores = JSON.parse(humanScoresJSON);
@@ -795,6 +793,7 @@ export function calculateAlignment(
             rubric[key]?.question || `Question ${key.replace("rubric_", "")}`,
           human_score: humanScores[key],
           model_score: modelScores[key],
+          ...(modelReasoning[key] && { model_reasoning: modelReasoning[key] }),
         });
       }
     });
@@ -806,6 +805,11 @@ export function calculateAlignment(
       aligned,
       total: keys.length,
       misalignedItems,
+      metrics: calculateAlignmentMetrics(humanScores, modelScores, keys),
+      weightedScores: {
+        human: calculateWeightedScore(humanScores, rubric),
+        model: calculateWeightedScore(modelScores, rubric),
+      },
     };
   } catch (error) {
     console.error("Error calculating alignment:", error);
@@ -814,6 +818,11 @@ export function calculateAlignment(
       aligned: 0,
       total: 0,
       misalignedItems: [],
+      metrics: EMPTY_ALIGNMENT_METRICS,
+      weightedScores: {
+        human: EMPTY_WEIGHTED_SCORE,
+        model: EMPTY_WEIGHTED_SCORE,
+      },
     };
   }
 }
@@ -908,8 +917,10 @@ export function validateRubricJSON(jsonString: string): {
         errors.push(`${key}: Tag must be 20 characters or less`);
       }
 
+      errors.push(...getRubricItemOptionErrors(key, value));
+
       // Check for extra properties
-      const allowedProps = ["question", "tag"];
+      const allowedProps = ["question", "tag", "weight", "critical"];
       const extraProps = Object.keys(value).filter(
         (prop) => !allowedProps.includes(prop)
       );
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { canAccessAdminPath } from "./users.schema";
+
+describe("canAccessAdminPath", () => {
+  it("lets admins open every admin page", () => {
+    expect(canAccessAdminPath("admin", "/dashboard/admin/users")).toBe(true);
+  });
+
+  it.each([
+    "/dashboard/admin/tasks",
+    "/dashboard/admin/analytics",
+    "/dashboard/admin/leaderboard",
+    "/dashboard/admin/exports",
+    "/dashboard/admin/assignments",
+  ])("lets leads open %s", (pathname) => {
+    expect(canAccessAdminPath("lead", pathname)).toBe(true);
+  });
+
+  it("keeps leads out of admin-only pages", () => {
+    expect(canAccessAdminPath("lead", "/dashboard/admin/users")).toBe(false);
+    expect(canAccessAdminPath("lead", "/dashboard/admin/tasks-archive")).toBe(
+      false
+    );
+  });
+
+  it("keeps operators out of every admin page", () => {
+    expect(canAccessAdminPath("operator", "/dashboard/admin/tasks")).toBe(
+      false
+    );
+  });
+});
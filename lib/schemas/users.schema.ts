@@ -42,3 +42,35 @@ export type UserRole = z.infer<typeof UserRoleSchema>;
 export const canAccessAdminRoutes = (userRole: UserRole): boolean => {
   return userRole == "admin" || userRole === "lead";
 };
+
+// Stored and session emails may differ in case, so never compare them with ===
+export const isSameEmail = (a?: string | null, b?: string | null): boolean => {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+};
+
+// Leads and admins review completed tasks from every trainer
+export const canReviewTasks = (userRole: UserRole): boolean => {
+  return userRole === "lead" || userRole === "admin";
+};
+
+// Admin pages that leads may open too; the rest of /dashboard/admin is admin-only
+export const LEAD_ADMIN_ROUTES = [
+  "/dashboard/admin/tasks",
+  "/dashboard/admin/analytics",
+  "/dashboard/admin/leaderboard",
+  "/dashboard/admin/exports",
+  "/dashboard/admin/assignments",
+];
+
+export const canAccessAdminPath = (
+  userRole: UserRole,
+  pathname: string
+): boolean => {
+  if (userRole === "admin") return true;
+  return (
+    canAccessAdminRoutes(userRole) &&
+    LEAD_ADMIN_ROUTES.some(
+      (route) => pathname === route || pathname.startsWith(`${route}/`)
+    )
+  );
+};
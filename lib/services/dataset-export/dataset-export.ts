@@ -0,0 +1,391 @@
+import {
+  AirtableTaskRecord,
+  ConfidenceLevel,
+  getCurrentRubricContent,
+  parseRubricContent,
+} from "@/lib/schemas/task";
+import {
+  getAlignmentMetrics,
+  getCandidateResponses,
+  getHumanRationales,
+  getModelEvaluation,
+  getWeightedScores,
+  parseScores,
+} from "@/lib/schemas/task-models";
+import type { DatasetExportFormat } from "@/lib/schemas/dataset-export.schema";
+import { parseRubricQuestions } from "@/lib/utils/evaluation-utils";
+import { parseAlignmentHistory } from "@/lib/utils/rubric-history";
+import { getRubricItemWeight } from "@/lib/utils/weighted-score";
+import { createZipArchive } from "./zip";
+
+type Score = "Yes" | "No";
+
+export interface DatasetModelRecord {
+  id: string;
+  label: string;
+  is_primary: boolean;
+  response: string;
+  alignment: number | null;
+  kappa: number | null;
+  precision: number | null;
+  recall: number | null;
+  // Weighted share of "Yes" answers, by the human and by the grader
+  weighted_score: number | null;
+  model_weighted_score: number | null;
+  // False when the human answered "No" to a critical item
+  passed: boolean | null;
+  // One entry per rubric item, in rubric order
+  scores: {
+    key: string;
+    human: Score | null;
+    model: Score | null;
+    human_justification: string | null;
+    human_confidence: ConfidenceLevel | null;
+  }[];
+}
+
+export interface DatasetRecord {
+  task_id: string;
+  sector: string;
+  created: string | null;
+  prompt: string;
+  sources: string;
+  rubric_version: number;
+  final_rubric: {
+    key: string;
+    question: string;
+    tag: string;
+    weight: number;
+    critical: boolean;
+  }[];
+  primary_model: string;
+  models: DatasetModelRecord[];
+  alignment_history: {
+    version: number;
+    alignment: number;
+    misaligned_count: number;
+    kappa: number | null;
+    precision: number | null;
+    recall: number | null;
+    timestamp: string;
+  }[];
+}
+
+export interface DatasetExportFile {
+  filename: string;
+  contentType: string;
+  // Text formats are sent as-is, archives as base64
+  encoding: "utf8" | "base64";
+  content: string;
+}
+
+// Hugging Face feature types, used to write the dataset card
+type DatasetFeature =
+  | { name: string; dtype: string }
+  | { name: string; list: DatasetFeature[] };
+
+const DATASET_FEATURES: DatasetFeature[] = [
+  { name: "task_id", dtype: "string" },
+  { name: "sector", dtype: "string" },
+  { name: "created", dtype: "string" },
+  { name: "prompt", dtype: "string" },
+  { name: "sources", dtype: "string" },
+  { name: "rubric_version", dtype: "int64" },
+  {
+    name: "final_rubric",
+    list: [
+      { name: "key", dtype: "string" },
+      { name: "question", dtype: "string" },
+      { name: "tag", dtype: "string" },
+      { name: "weight", dtype: "float64" },
+      { name: "critical", dtype: "bool" },
+    ],
+  },
+  { name: "primary_model", dtype: "string" },
+  {
+    name: "models",
+    list: [
+      { name: "id", dtype: "string" },
+      { name: "label", dtype: "string" },
+      { name: "is_primary", dtype: "bool" },
+      { name: "response", dtype: "string" },
+      { name: "alignment", dtype: "float64" },
+      { name: "kappa", dtype: "float64" },
+      { name: "precision", dtype: "float64" },
+      { name: "recall", dtype: "float64" },
+      { name: "weighted_score", dtype: "float64" },
+      { name: "model_weighted_score", dtype: "float64" },
+      { name: "passed", dtype: "bool" },
+      {
+        name: "scores",
+        list: [
+          { name: "key", dtype: "string" },
+          { name: "human", dtype: "string" },
+          { name: "model", dtype: "string" },
+          { name: "human_justification", dtype: "string" },
+          { name: "human_confidence", dtype: "string" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "alignment_history",
+    list: [
+      { name: "version", dtype: "int64" },
+      { name: "alignment", dtype: "float64" },
+      { name: "misaligned_count", dtype: "int64" },
+      { name: "kappa", dtype: "float64" },
+      { name: "precision", dtype: "float64" },
+      { name: "recall", dtype: "float64" },
+      { name: "timestamp", dtype: "string" },
+    ],
+  },
+];
+
+const CSV_COLUMNS = [
+  "task_id",
+  "sector",
+  "created",
+  "prompt",
+  "sources",
+  "rubric_version",
+  "final_rubric",
+  "model_id",
+  "model_label",
+  "is_primary",
+  "response",
+  "alignment",
+  "kappa",
+  "precision",
+  "recall",
+  "weighted_score",
+  "model_weighted_score",
+  "passed",
+  "human_scores",
+  "model_scores",
+  "human_rationales",
+  "alignment_history",
+] as const;
+
+type CSVColumn = (typeof CSV_COLUMNS)[number];
+
+/**
+ * Flatten a completed task into the dataset record shape shared by every
+ * export format
+ */
+export function toDatasetRecord(task: AirtableTaskRecord): DatasetRecord {
+  const rubricContent = task.Final_Rubric || getCurrentRubricContent(task);
+  const rubric = parseRubricQuestions(rubricContent || "");
+  const rubricFormat = rubricContent ? parseRubricContent(rubricContent) : null;
+  const candidates = getCandidateResponses(task);
+
+  return {
+    task_id: task.TaskID,
+    sector: task.ProfessionalSector,
+    created: task.Created || null,
+    prompt: task.Prompt,
+    sources: task.Sources || "",
+    rubric_version: task.Current_Rubric_Version || 1,
+    final_rubric: rubric.map(({ key, question, tag, weight, critical }) => ({
+      key,
+      question,
+      tag,
+      weight: getRubricItemWeight({ question, tag, weight }),
+      critical: !!critical,
+    })),
+    primary_model: candidates[0]?.id || "",
+    models: candidates.map((candidate, index) => {
+      const evaluation = getModelEvaluation(task, candidate.id);
+      const human = parseScores<Score>(evaluation.humanScores);
+      const model = parseScores<Score>(evaluation.modelScores);
+      const rationales = getHumanRationales(evaluation);
+      const metrics = getAlignmentMetrics(evaluation);
+      const weightedScores = getWeightedScores(evaluation, rubricFormat);
+
+      return {
+        id: candidate.id,
+        label: candidate.label,
+        is_primary: index === 0,
+        response: candidate.response,
+        alignment: evaluation.alignment ?? null,
+        kappa: metrics?.kappa ?? null,
+        precision: metrics?.precision ?? null,
+        recall: metrics?.recall ?? null,
+        weighted_score: weightedScores?.human.score ?? null,
+        model_weighted_score: weightedScores?.model.score ?? null,
+        passed: weightedScores?.human.passed ?? null,
+        scores: rubric.map(({ key }) => ({
+          key,
+          human: human[key] || null,
+          model: model[key] || null,
+          human_justification: rationales[key]?.justification || null,
+          human_confidence: rationales[key]?.confidence || null,
+        })),
+      };
+    }),
+    alignment_history: parseAlignmentHistory(task).map((entry) => ({
+      version: entry.version,
+      alignment: entry.alignment,
+      misaligned_count: entry.misalignedCount,
+      kappa: entry.kappa ?? null,
+      precision: entry.precision ?? null,
+      recall: entry.recall ?? null,
+      timestamp: entry.timestamp,
+    })),
+  };
+}
+
+export function toJSONL(records: DatasetRecord[]): string {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+}
+
+function escapeCSV(value: string | number | boolean | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per task and model, since tasks have different model lists
+export function toCSV(records: DatasetRecord[]): string {
+  const rows = records.flatMap((record) =>
+    record.models.map((model) => {
+      const row: Record<CSVColumn, string | number | boolean | null> = {
+        task_id: record.task_id,
+        sector: record.sector,
+        created: record.created,
+        prompt: record.prompt,
+        sources: record.sources,
+        rubric_version: record.rubric_version,
+        final_rubric: JSON.stringify(record.final_rubric),
+        model_id: model.id,
+        model_label: model.label,
+        is_primary: model.is_primary,
+        response: model.response,
+        alignment: model.alignment,
+        kappa: model.kappa,
+        precision: model.precision,
+        recall: model.recall,
+        weighted_score: model.weighted_score,
+        model_weighted_score: model.model_weighted_score,
+        passed: model.passed,
+        human_scores: JSON.stringify(
+          Object.fromEntries(model.scores.map((s) => [s.key, s.human]))
+        ),
+        model_scores: JSON.stringify(
+          Object.fromEntries(model.scores.map((s) => [s.key, s.model]))
+        ),
+        // Only items the evaluator left a note on
+        human_rationales: JSON.stringify(
+          Object.fromEntries(
+            model.scores
+              .filter((s) => s.human_justification || s.human_confidence)
+              .map((s) => [
+                s.key,
+                {
+                  justification: s.human_justification,
+                  confidence: s.human_confidence,
+                },
+              ])
+          )
+        ),
+        alignment_history: JSON.stringify(record.alignment_history),
+      };
+      return CSV_COLUMNS.map((column) => escapeCSV(row[column])).join(",");
+    })
+  );
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function renderFeatures(features: DatasetFeature[], indent: string): string[] {
+  return features.flatMap((feature) =>
+    "dtype" in feature
+      ? [
+          `${indent}- name: ${feature.name}`,
+          `${indent}  dtype: ${feature.dtype}`,
+        ]
+      : [
+          `${indent}- name: ${feature.name}`,
+          `${indent}  list:`,
+          ...renderFeatures(feature.list, `${indent}  `),
+        ]
+  );
+}
+
+function buildDatasetCard(records: DatasetRecord[], exportedAt: Date): string {
+  const sectors = Array.from(new Set(records.map((r) => r.sector))).sort();
+
+  return [
+    "---",
+    "pretty_name: Sector Evals Rubric Evaluations",
+    "configs:",
+    "- config_name: default",
+    "  data_files:",
+    "  - split: train",
+    "    path: data/train.jsonl",
+    "dataset_info:",
+    "  features:",
+    ...renderFeatures(DATASET_FEATURES, "  "),
+    "  splits:",
+    "  - name: train",
+    `    num_examples: ${records.length}`,
+    "---",
+    "",
+    "# Sector Evals Rubric Evaluations",
+    "",
+    `Exported ${exportedAt.toISOString()}: ${records.length} completed task${
+      records.length === 1 ? "" : "s"
+    }${sectors.length > 0 ? ` from ${sectors.join(", ")}` : ""}.`,
+    "",
+    'Each row is one task: the prompt, its final rubric, every model\'s response with human and model Yes/No scores per rubric item (plus the evaluator\'s optional justification and confidence), and the alignment, Cohen\'s kappa and model precision/recall (human labels as reference, "Yes" as positive) recorded for each rubric version. Rubric items carry a weight (1 unless set) and a critical flag; each model has the weighted share of "Yes" answers by the human and by the grader, and fails when the human answered "No" to a critical item. The first model is the primary model that drove rubric iteration.',
+    "",
+  ].join("\n");
+}
+
+function timestampForFilename(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+}
+
+/**
+ * Render the records in the requested format as a single downloadable file
+ */
+export function buildDatasetExport(
+  records: DatasetRecord[],
+  format: DatasetExportFormat,
+  exportedAt: Date = new Date()
+): DatasetExportFile {
+  const basename = `sector-evals-${timestampForFilename(exportedAt)}`;
+
+  switch (format) {
+    case "jsonl":
+      return {
+        filename: `${basename}.jsonl`,
+        contentType: "application/x-ndjson",
+        encoding: "utf8",
+        content: toJSONL(records),
+      };
+    case "csv":
+      return {
+        filename: `${basename}.csv`,
+        contentType: "text/csv",
+        encoding: "utf8",
+        content: toCSV(records),
+      };
+    case "huggingface":
+      return {
+        filename: `${basename}-hf.zip`,
+        contentType: "application/zip",
+        encoding: "base64",
+        content: createZipArchive(
+          [
+            {
+              path: "README.md",
+              content: buildDatasetCard(records, exportedAt),
+            },
+            { path: "data/train.jsonl", content: toJSONL(records) },
+          ],
+          exportedAt
+        ).toString("base64"),
+      };
+  }
+}
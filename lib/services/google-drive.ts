@@ -1,5 +1,23 @@
 import { google } from "googleapis";
 import { Readable } from "stream";
+import type { TaskModel } from "@/lib/schemas/task-models";
+
+// Service account credentials from the GOOGLE_* environment variables
+export function getServiceAccountKey() {
+  return {
+    type: "service_account",
+    project_id: process.env.GOOGLE_PROJECT_ID,
+    private_key_id: process.env.GOOGLE_PRIVATE_KEY_ID,
+    private_key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+    client_email: process.env.GOOGLE_CLIENT_EMAIL,
+    client_id: process.env.GOOGLE_CLIENT_ID,
+    auth_uri: "https://accounts.google.com/o/oauth2/auth",
+    token_uri: "https://oauth2.googleapis.com/token",
+    auth_provider_x509_cert_url: "https://www.googleapis.com/oauth2/v1/certs",
+    client_x509_cert_url: process.env.GOOGLE_CLIENT_CERT_URL,
+    universe_domain: "googleapis.com",
+  };
+}
 
 export class GoogleDriveService {
   private drive;
@@ -18,13 +36,13 @@ export class GoogleDriveService {
    */
   async createTaskFolder(
     taskId: string,
-    parentFolderId: string
+    parentFolderId: string,
+    models: TaskModel[]
   ): Promise<{
     taskFolderId: string;
     taskFolderUrl: string;
     requestFolderId: string;
-    responseGeminiFolderId: string;
-    responseGptFolderId: string;
+    responseFolderIds: Record<string, string>;
   }> {
     try {
       // Create main task folder
@@ -47,23 +65,18 @@ export class GoogleDriveService {
         },
       });
 
-      // Create response_gemini subfolder
-      const responseGeminiFolder = await this.drive.files.create({
-        requestBody: {
-          name: "response_gemini",
-          mimeType: "application/vnd.google-apps.folder",
-          parents: [taskFolderId],
-        },
-      });
-
-      // Create response_gpt subfolder
-      const responseGptFolder = await this.drive.files.create({
-        requestBody: {
-          name: "response_gpt",
-          mimeType: "application/vnd.google-apps.folder",
-          parents: [taskFolderId],
-        },
-      });
+      // Create a response_<model id> subfolder per model
+      const responseFolderIds: Record<string, string> = {};
+      for (const model of models) {
+        const responseFolder = await this.drive.files.create({
+          requestBody: {
+            name: `response_${model.id}`,
+            mimeType: "application/vnd.google-apps.folder",
+            parents: [taskFolderId],
+          },
+        });
+        responseFolderIds[model.id] = responseFolder.data.id!;
+      }
 
       const taskFolderUrl = `https://drive.google.com/drive/folders/${taskFolderId}`;
 
@@ -71,8 +84,7 @@ export class GoogleDriveService {
         taskFolderId,
         taskFolderUrl,
         requestFolderId: requestFolder.data.id!,
-        responseGeminiFolderId: responseGeminiFolder.data.id!,
-        responseGptFolderId: responseGptFolder.data.id!,
+        responseFolderIds,
       };
     } catch (error) {
       console.error("Error creating Google Drive folders:", error);
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RubricQuestion } from "@/lib/utils/evaluation-utils";
+import {
+  GraderError,
+  GraderProvider,
+  GraderProviderRequest,
+  GraderRequest,
+  LLMGrader,
+  parseGraderOutput,
+} from "./llm-grader";
+import { MockGraderProvider } from "./mock-provider";
+
+const RUBRIC: RubricQuestion[] = [
+  {
+    key: "rubric_1",
+    question: "Cites the statute?",
+    tag: "Citation",
+    number: 1,
+  },
+  {
+    key: "rubric_2",
+    question: "States the deadline?",
+    tag: "Deadline",
+    number: 2,
+  },
+];
+
+const REQUEST: GraderRequest = {
+  prompt: "When must the appeal be filed?",
+  response: "Within 30 days under section 12.",
+  rubric: RUBRIC,
+};
+
+// Answers with the scripted outputs in order, then falls back to the mock
+class ScriptedProvider implements GraderProvider {
+  readonly name = "scripted";
+  readonly model = "mock-grader";
+  private mock = new MockGraderProvider();
+
+  constructor(private outputs: Array<string | Error>) {}
+
+  async complete(request: GraderProviderRequest): Promise<string> {
+    const next = this.outputs.shift();
+    if (next instanceof Error) throw next;
+    return next ?? this.mock.complete(request);
+  }
+}
+
+describe("parseGraderOutput", () => {
+  it("reads the object out of code fences and surrounding text", () => {
+    const output =
+      'Here you go:\n```json\n{"rubric_1": "Yes", "rubric_2": "No"}\n```';
+
+    expect(parseGraderOutput(output, 2)).toEqual({
+      scores: '{"rubric_1":"Yes","rubric_2":"No"}',
+      reasoning: undefined,
+      errors: [],
+    });
+  });
+
+  it("keeps the reasoning of explained verdicts", () => {
+    const output = JSON.stringify({
+      rubric_1: { verdict: "Yes", reasoning: "Cites section 12." },
+      rubric_2: "No",
+    });
+
+    const parsed = parseGraderOutput(output, 2);
+    expect(parsed.scores).toBe('{"rubric_1":"Yes","rubric_2":"No"}');
+    expect(parsed.reasoning).toEqual({ rubric_1: "Cites section 12." });
+  });
+
+  it("rejects output without a JSON object", () => {
+    expect(parseGraderOutput("I cannot grade this.", 2)).toEqual({
+      errors: ["Grader output does not contain a JSON object"],
+    });
+  });
+
+  it("rejects malformed JSON", () => {
+    const parsed = parseGraderOutput('{"rubric_1": "Yes", rubric_2: No}', 2);
+    expect(parsed.scores).toBeUndefined();
+    expect(parsed.errors.length).toBeGreaterThan(0);
+  });
+
+  it("rejects missing keys", () => {
+    const parsed = parseGraderOutput('{"rubric_1": "Yes"}', 2);
+    expect(parsed.scores).toBeUndefined();
+    expect(parsed.errors).toContain("Missing required keys: rubric_2");
+  });
+
+  it("rejects extra keys", () => {
+    const parsed = parseGraderOutput(
+      '{"rubric_1": "Yes", "rubric_2": "No", "note": "Yes"}',
+      2
+    );
+    expect(parsed.scores).toBeUndefined();
+    expect(parsed.errors).toContain("Unexpected keys found: note");
+  });
+
+  it("rejects values other than Yes or No", () => {
+    const parsed = parseGraderOutput(
+      '{"rubric_1": "Yes", "rubric_2": "Maybe"}',
+      2
+    );
+    expect(parsed.scores).toBeUndefined();
+  });
+});
+
+describe("LLMGrader", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("grades with the mock provider on the first attempt", async () => {
+    const grader = new LLMGrader(new MockGraderProvider());
+    const result = await grader.grade(REQUEST);
+
+    expect(result.provider).toBe("mock");
+    expect(result.model).toBe("mock-grader");
+    expect(result.attempts).toEqual([{ output: result.scores }]);
+    expect(Object.keys(JSON.parse(result.scores))).toEqual([
+      "rubric_1",
+      "rubric_2",
+    ]);
+  });
+
+  it("answers the same request the same way", async () => {
+    const grader = new LLMGrader(new MockGraderProvider());
+    const first = await grader.grade(REQUEST);
+    const second = await grader.grade(REQUEST);
+    expect(second.scores).toBe(first.scores);
+  });
+
+  it("retries after provider errors and unparseable output", async () => {
+    const grader = new LLMGrader(
+      new ScriptedProvider([new Error("timeout"), "not json"]),
+      3
+    );
+    const result = await grader.grade(REQUEST);
+
+    expect(result.attempts).toHaveLength(3);
+    expect(result.attempts[0]).toEqual({ output: undefined, error: "timeout" });
+    expect(result.attempts[1]).toEqual({
+      output: "not json",
+      error: "Grader output does not contain a JSON object",
+    });
+    expect(result.attempts[2].error).toBeUndefined();
+  });
+
+  it("keeps every attempt on the GraderError when all fail", async () => {
+    const grader = new LLMGrader(
+      new ScriptedProvider(['{"rubric_1": "Yes"}', new Error("rate limited")]),
+      2
+    );
+
+    const error = await grader.grade(REQUEST).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GraderError);
+    expect(error.message).toBe(
+      "Automated grading failed after 2 attempt(s): rate limited"
+    );
+    expect(error.run.provider).toBe("scripted");
+    expect(error.run.attempts).toEqual([
+      {
+        output: '{"rubric_1": "Yes"}',
+        error:
+          "Expected exactly 2 rubric keys, but found 1; Missing required keys: rubric_2",
+      },
+      { output: undefined, error: "rate limited" },
+    ]);
+  });
+
+  it("makes at least one attempt", async () => {
+    const grader = new LLMGrader(new ScriptedProvider(["nope"]), 0);
+    const error = await grader.grade(REQUEST).catch((e) => e);
+    expect(error.run.attempts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  generateRubricCheckerPrompt,
+  validateEvaluationJSON,
+} from "@/lib/utils/rubric-prompts";
+import type { RubricQuestion } from "@/lib/utils/evaluation-utils";
+import type { ModelReasoning } from "@/lib/schemas/task";
+import {
+  getOpenAICompatibleConfig,
+  OpenAICompatibleClient,
+} from "@/lib/services/llm/openai-compatible-client";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+import { MockGraderProvider } from "./mock-provider";
+
+export interface GraderRequest {
+  prompt: string;
+  response: string;
+  rubric: RubricQuestion[];
+}
+
+export interface GraderProviderRequest extends GraderRequest {
+  // Rubric checker prompt built from the request
+  checkerPrompt: string;
+  // Whether the prompt asks for reasoning alongside each verdict
+  explained: boolean;
+}
+
+/**
+ * A model endpoint that answers the rubric checker prompt.
+ * Returns the raw text output; parsing is done by LLMGrader.
+ */
+export interface GraderProvider {
+  readonly name: string;
+  readonly model?: string;
+  complete(request: GraderProviderRequest): Promise<string>;
+}
+
+export interface GraderAttempt {
+  output?: string;
+  error?: string;
+}
+
+// Raw record of a grading run, stored on the task for auditing
+export interface GraderRun {
+  provider: string;
+  model?: string;
+  gradedAt: string;
+  attempts: GraderAttempt[];
+}
+
+export interface GraderResult extends GraderRun {
+  // JSON string in the {"rubric_1":"Yes",...} evaluation format
+  scores: string;
+  // Only in explained mode
+  reasoning?: ModelReasoning;
+}
+
+export class GraderError extends Error {
+  run: GraderRun;
+
+  constructor(message: string, run: GraderRun) {
+    super(message);
+    this.name = "GraderError";
+    this.run = run;
+  }
+}
+
+/**
+ * Pull the evaluation JSON out of a model's output.
+ * Tolerates code fences and text around the object.
+ */
+export function parseGraderOutput(
+  output: string,
+  expectedRubricCount: number
+): { scores?: string; reasoning?: ModelReasoning; errors: string[] } {
+  const withoutFences = output.replace(/```(?:json)?/gi, "");
+  const start = withoutFences.indexOf("{");
+  const end = withoutFences.lastIndexOf("}");
+
+  if (start === -1 || end <= start) {
+    return { errors: ["Grader output does not contain a JSON object"] };
+  }
+
+  const validation = validateEvaluationJSON(
+    withoutFences.slice(start, end + 1),
+    expectedRubricCount
+  );
+
+  if (!validation.isValid || !validation.parsedData) {
+    return { errors: validation.errors };
+  }
+
+  return {
+    scores: JSON.stringify(validation.parsedData),
+    reasoning: validation.reasoning,
+    errors: [],
+  };
+}
+
+export class LLMGrader {
+  private provider: GraderProvider;
+  private maxAttempts: number;
+  private explained: boolean;
+
+  constructor(provider: GraderProvider, maxAttempts = 3, explained = false) {
+    this.provider = provider;
+    this.maxAttempts = Math.max(1, maxAttempts);
+    this.explained = explained;
+  }
+
+  get providerName() {
+    return this.provider.name;
+  }
+
+  get model() {
+    return this.provider.model;
+  }
+
+  async grade(request: GraderRequest): Promise<GraderResult> {
+    const checkerPrompt = generateRubricCheckerPrompt(
+      {
+        Prompt: request.prompt,
+        Response: request.response,
+      },
+      request.rubric.map((q) => ({
+        id: q.key,
+        question: q.question,
+        tag: q.tag,
+      })),
+      { explained: this.explained }
+    );
+
+    const run: GraderRun = {
+      provider: this.provider.name,
+      model: this.provider.model,
+      gradedAt: new Date().toISOString(),
+      attempts: [],
+    };
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      let output: string | undefined;
+      try {
+        output = await this.provider.complete({
+          ...request,
+          checkerPrompt,
+          explained: this.explained,
+        });
+
+        const parsed = parseGraderOutput(output, request.rubric.length);
+        if (parsed.scores) {
+          run.attempts.push({ output });
+          return { ...run, scores: parsed.scores, reasoning: parsed.reasoning };
+        }
+
+        run.attempts.push({ output, error: parsed.errors.join("; ") });
+      } catch (error) {
+        run.attempts.push({
+          output,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      console.error(
+        `Grader attempt ${attempt}/${this.maxAttempts} failed:`,
+        run.attempts[run.attempts.length - 1].error
+      );
+    }
+
+    throw new GraderError(
+      `Automated grading failed after ${this.maxAttempts} attempt(s): ${
+        run.attempts[run.attempts.length - 1].error
+      }`,
+      run
+    );
+  }
+}
+
+/**
+ * Build the grader from GRADER_PROVIDER ("openai" or "mock").
+ * GRADER_EXPLAIN=true asks for reasoning with every verdict.
+ * Returns null when automated grading is not configured.
+ */
+export function createGrader(): LLMGrader | null {
+  const providerName = process.env.GRADER_PROVIDER;
+  const maxAttempts = Number(process.env.GRADER_MAX_ATTEMPTS) || 3;
+  const explained = process.env.GRADER_EXPLAIN === "true";
+
+  if (!providerName) {
+    return null;
+  }
+
+  if (providerName === "mock") {
+    console.log("Using mock grader provider");
+    return new LLMGrader(new MockGraderProvider(), maxAttempts, explained);
+  }
+
+  if (providerName === "openai") {
+    return new LLMGrader(
+      new OpenAICompatibleProvider(
+        new OpenAICompatibleClient(getOpenAICompatibleConfig("GRADER"))
+      ),
+      maxAttempts,
+      explained
+    );
+  }
+
+  throw new Error(
+    `Unknown GRADER_PROVIDER "${providerName}". Expected "openai" or "mock".`
+  );
+}
@@ -0,0 +1,44 @@
+import type { GraderProvider, GraderProviderRequest } from "./llm-grader";
+
+// FNV-1a, so the same rubric item and response always get the same answer
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline provider for local development and tests.
+ * Answers roughly three out of four rubric items with "Yes", deterministically.
+ */
+export class MockGraderProvider implements GraderProvider {
+  readonly name = "mock";
+  readonly model = "mock-grader";
+
+  async complete(request: GraderProviderRequest): Promise<string> {
+    const scores: Record<
+      string,
+      "Yes" | "No" | { verdict: "Yes" | "No"; reasoning: string }
+    > = {};
+
+    request.rubric.forEach((item, index) => {
+      const hash = hashString(
+        `${item.key}|${item.question}|${request.response}`
+      );
+      const verdict = hash % 4 === 0 ? "No" : "Yes";
+      scores[`rubric_${index + 1}`] = request.explained
+        ? {
+            verdict,
+            reasoning: `Mock grader: the response ${
+              verdict === "Yes" ? "meets" : "does not meet"
+            } "${item.tag}".`,
+          }
+        : verdict;
+    });
+
+    return JSON.stringify(scores);
+  }
+}
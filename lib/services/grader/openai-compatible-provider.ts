@@ -0,0 +1,18 @@
+import { OpenAICompatibleClient } from "@/lib/services/llm/openai-compatible-client";
+import type { GraderProvider, GraderProviderRequest } from "./llm-grader";
+
+// Sends the rubric checker prompt to an OpenAI-compatible endpoint
+export class OpenAICompatibleProvider implements GraderProvider {
+  readonly name = "openai-compatible";
+  readonly model: string;
+  private client: OpenAICompatibleClient;
+
+  constructor(client: OpenAICompatibleClient) {
+    this.client = client;
+    this.model = client.model;
+  }
+
+  complete(request: GraderProviderRequest): Promise<string> {
+    return this.client.chat(request.checkerPrompt);
+  }
+}
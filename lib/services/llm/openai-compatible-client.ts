@@ -0,0 +1,85 @@
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+}
+
+/**
+ * Minimal client for any endpoint that implements the OpenAI chat completions
+ * API (OpenAI, Azure-style proxies, vLLM, Ollama, ...).
+ */
+export class OpenAICompatibleClient {
+  readonly model: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+    this.model = config.model;
+  }
+
+  // Send a single user message and return the reply text
+  async chat(content: string): Promise<string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(
+      `${this.config.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: this.config.model,
+          temperature: 0,
+          messages: [{ role: "user", content }],
+        }),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      }
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(
+        `LLM endpoint returned ${response.status}: ${body.slice(0, 500)}`
+      );
+    }
+
+    const data = await response.json();
+    const reply = data?.choices?.[0]?.message?.content;
+
+    if (typeof reply !== "string") {
+      throw new Error("LLM endpoint returned no message content");
+    }
+
+    return reply;
+  }
+}
+
+/**
+ * Read endpoint settings from `${prefix}_API_URL`, `${prefix}_API_KEY` and
+ * `${prefix}_MODEL`, falling back to the GRADER_* values so one endpoint can
+ * serve every feature. The timeout is per feature.
+ */
+export function getOpenAICompatibleConfig(
+  prefix: string,
+  defaultTimeoutMs = 60000
+): OpenAICompatibleConfig {
+  const env = (name: string) =>
+    process.env[`${prefix}_${name}`] || process.env[`GRADER_${name}`];
+
+  const model = env("MODEL");
+  if (!model) {
+    throw new Error(`Missing required environment variable: ${prefix}_MODEL`);
+  }
+
+  return {
+    baseUrl: env("API_URL") || "https://api.openai.com/v1",
+    apiKey: env("API_KEY"),
+    model,
+    timeoutMs: Number(process.env[`${prefix}_TIMEOUT_MS`]) || defaultTimeoutMs,
+  };
+}
@@ -0,0 +1,89 @@
+import type { DraftProvider, DraftProviderRequest } from "./rubric-drafter";
+
+const FAKE_CRITERIA: Array<{ question: string; tag: string }> = [
+  {
+    question: "Does the response directly answer the question asked?",
+    tag: "relevance",
+  },
+  {
+    question: "Does the response state its main conclusion explicitly?",
+    tag: "conclusion",
+  },
+  {
+    question: "Are all factual claims in the response accurate?",
+    tag: "accuracy",
+  },
+  {
+    question: "Does the response avoid contradicting itself?",
+    tag: "consistency",
+  },
+  {
+    question: "Does the response address every part of the prompt?",
+    tag: "completeness",
+  },
+  {
+    question: "Does the response follow the format requested in the prompt?",
+    tag: "format",
+  },
+  {
+    question: "Does the response respect any length limit in the prompt?",
+    tag: "length",
+  },
+  {
+    question: "Does the response use terminology appropriate to the field?",
+    tag: "terminology",
+  },
+  {
+    question: "Does the response justify its key recommendations?",
+    tag: "reasoning",
+  },
+  {
+    question: "Does the response mention the most important caveat or risk?",
+    tag: "caveats",
+  },
+  {
+    question: "Does the response avoid including information not asked for?",
+    tag: "focus",
+  },
+  {
+    question: "Does the response give a concrete example where one helps?",
+    tag: "examples",
+  },
+  {
+    question: "Are any calculations in the response correct?",
+    tag: "calculations",
+  },
+  {
+    question: "Does the response use the names and values given in the prompt?",
+    tag: "prompt_details",
+  },
+  {
+    question: "Is the response written in the language of the prompt?",
+    tag: "language",
+  },
+];
+
+/**
+ * Offline provider for local development and tests.
+ * Always answers with the same 15 generic criteria, wrapped the way a
+ * real model answers the decomposer prompt.
+ */
+export class FakeDraftProvider implements DraftProvider {
+  readonly name = "fake";
+  readonly model = "fake-drafter";
+
+  async complete(request: DraftProviderRequest): Promise<string> {
+    const rubric: Record<string, { question: string; tag: string }> = {};
+    FAKE_CRITERIA.forEach((criterion, index) => {
+      rubric[`rubric_${index + 1}`] = criterion;
+    });
+
+    const excerpt = request.task.Prompt.slice(0, 80);
+
+    return `**question:** ${excerpt}\n\n<rubrics>\n${JSON.stringify(
+      rubric,
+      null,
+      2
+    )}\n</rubrics>`;
+  }
+}
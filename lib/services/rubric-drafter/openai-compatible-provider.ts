@@ -0,0 +1,18 @@
+import { OpenAICompatibleClient } from "@/lib/services/llm/openai-compatible-client";
+import type { DraftProvider, DraftProviderRequest } from "./rubric-drafter";
+
+// Sends the rubric decomposer prompt to an OpenAI-compatible endpoint
+export class OpenAICompatibleDraftProvider implements DraftProvider {
+  readonly name = "openai-compatible";
+  readonly model: string;
+  private client: OpenAICompatibleClient;
+
+  constructor(client: OpenAICompatibleClient) {
+    this.client = client;
+    this.model = client.model;
+  }
+
+  complete(request: DraftProviderRequest): Promise<string> {
+    return this.client.chat(request.decomposerPrompt);
+  }
+}
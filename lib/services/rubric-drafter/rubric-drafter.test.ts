@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TaskData } from "@/lib/utils/rubric-prompts";
+import {
+  DraftProvider,
+  DraftProviderRequest,
+  extractRubricsBlock,
+  RubricDraftError,
+  RubricDrafter,
+} from "./rubric-drafter";
+import { FakeDraftProvider } from "./fake-provider";
+
+const TASK: TaskData = {
+  Prompt: "Summarise the tenant's options after a rent increase.",
+  Response: "The tenant can negotiate, accept or give notice.",
+};
+
+function buildRubric(count: number): Record<string, object> {
+  const rubric: Record<string, object> = {};
+  for (let i = 1; i <= count; i++) {
+    rubric[`rubric_${i}`] = {
+      question: `Does the response cover point ${i}?`,
+      tag: `point_${i}`,
+    };
+  }
+  return rubric;
+}
+
+function wrap(content: string): string {
+  return `<rubrics>\n${content}\n</rubrics>`;
+}
+
+async function fakeOutput(): Promise<string> {
+  return new FakeDraftProvider().complete({ task: TASK, decomposerPrompt: "" });
+}
+
+// Answers with the scripted outputs in order, then falls back to the fake
+class ScriptedProvider implements DraftProvider {
+  readonly name = "scripted";
+  private fake = new FakeDraftProvider();
+
+  constructor(private outputs: Array<string | Error>) {}
+
+  async complete(request: DraftProviderRequest): Promise<string> {
+    const next = this.outputs.shift();
+    if (next instanceof Error) throw next;
+    return next ?? this.fake.complete(request);
+  }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("extractRubricsBlock", () => {
+  it("extracts the fake provider's rubric", async () => {
+    const extracted = extractRubricsBlock(await fakeOutput());
+
+    expect(extracted.errors).toEqual([]);
+    expect(Object.keys(JSON.parse(extracted.rubric!))).toHaveLength(15);
+  });
+
+  it("uses the last block when an example is echoed first", () => {
+    const output = `Example:\n${wrap(
+      JSON.stringify(buildRubric(1))
+    )}\nAnswer:\n${wrap(JSON.stringify(buildRubric(16)))}`;
+
+    const extracted = extractRubricsBlock(output);
+    expect(Object.keys(JSON.parse(extracted.rubric!))).toHaveLength(16);
+  });
+
+  it("strips code fences inside the block", () => {
+    const output = wrap(
+      "```json\n" + JSON.stringify(buildRubric(15)) + "\n```"
+    );
+    expect(extractRubricsBlock(output).errors).toEqual([]);
+  });
+
+  it("rejects output without a rubrics block", () => {
+    expect(extractRubricsBlock(JSON.stringify(buildRubric(15)))).toEqual({
+      errors: ["Output does not contain a <rubrics> block"],
+    });
+  });
+
+  it("rejects malformed JSON in the block", () => {
+    const extracted = extractRubricsBlock(wrap('{"rubric_1": {"question": '));
+
+    expect(extracted.rubric).toBeUndefined();
+    expect(extracted.errors).toHaveLength(1);
+  });
+
+  it("rejects an empty block", () => {
+    expect(extractRubricsBlock(wrap(""))).toEqual({
+      errors: ["JSON string cannot be empty"],
+    });
+  });
+
+  it("rejects an empty rubric", () => {
+    expect(extractRubricsBlock(wrap("{}")).errors).toContain(
+      "Minimum 15 rubric items required. Found 0"
+    );
+  });
+
+  it("rejects an oversized rubric", () => {
+    expect(
+      extractRubricsBlock(wrap(JSON.stringify(buildRubric(51)))).errors
+    ).toContain("Maximum 50 rubric items allowed. Found 51");
+  });
+
+  it("rejects items that are not question and tag objects", () => {
+    const rubric = { ...buildRubric(15), rubric_3: "Is it correct?" };
+
+    expect(extractRubricsBlock(wrap(JSON.stringify(rubric))).errors).toContain(
+      "rubric_3: Must be an object with 'question' and 'tag' properties"
+    );
+  });
+});
+
+describe("RubricDrafter", () => {
+  it("drafts with the fake provider on the first attempt", async () => {
+    const draft = await new RubricDrafter(new FakeDraftProvider()).draft(TASK);
+
+    expect(draft).toMatchObject({
+      rubricCount: 15,
+      provider: "fake",
+      model: "fake-drafter",
+      attempts: 1,
+    });
+    expect(draft.tags).toHaveLength(15);
+    expect(draft.tags).toContain("relevance");
+  });
+
+  it("retries after a malformed provider response", async () => {
+    const drafter = new RubricDrafter(
+      new ScriptedProvider(["Sorry, I cannot help with that."]),
+      2
+    );
+
+    const draft = await drafter.draft(TASK);
+    expect(draft.attempts).toBe(2);
+    expect(draft.rubricCount).toBe(15);
+  });
+
+  it("fails with the last error once attempts run out", async () => {
+    const drafter = new RubricDrafter(
+      new ScriptedProvider([wrap("{}"), new Error("socket hang up")]),
+      2
+    );
+
+    const error = await drafter.draft(TASK).catch((e) => e);
+    expect(error).toBeInstanceOf(RubricDraftError);
+    expect(error.message).toBe(
+      "Rubric drafting failed after 2 attempt(s): socket hang up"
+    );
+  });
+
+  it("reports at most three validation errors", async () => {
+    const rubric = buildRubric(15);
+    for (const key of ["rubric_1", "rubric_2", "rubric_3", "rubric_4"]) {
+      rubric[key] = { question: "Short?", tag: key };
+    }
+    const drafter = new RubricDrafter(
+      new ScriptedProvider([wrap(JSON.stringify(rubric))]),
+      1
+    );
+
+    const error = await drafter.draft(TASK).catch((e) => e);
+    expect(error.message).toBe(
+      "Rubric drafting failed after 1 attempt(s): " +
+        [1, 2, 3]
+          .map(
+            (n) => `rubric_${n}: Question must be at least 10 characters long`
+          )
+          .join("; ")
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  generateRubricDecomposerPrompt,
+  TaskData,
+} from "@/lib/utils/rubric-prompts";
+import { validateRubricJSON } from "@/lib/schemas/task";
+import {
+  getOpenAICompatibleConfig,
+  OpenAICompatibleClient,
+} from "@/lib/services/llm/openai-compatible-client";
+import { OpenAICompatibleDraftProvider } from "./openai-compatible-provider";
+import { FakeDraftProvider } from "./fake-provider";
+
+export interface DraftProviderRequest {
+  task: TaskData;
+  // Rubric decomposer prompt built from the task
+  decomposerPrompt: string;
+}
+
+/**
+ * A model endpoint that answers the rubric decomposer prompt.
+ * Returns the raw text output; extraction is done by RubricDrafter.
+ */
+export interface DraftProvider {
+  readonly name: string;
+  readonly model?: string;
+  complete(request: DraftProviderRequest): Promise<string>;
+}
+
+export interface RubricDraft {
+  // Pretty-printed rubric JSON, ready for the V1 editor
+  rubric: string;
+  rubricCount: number;
+  tags: string[];
+  provider: string;
+  model?: string;
+  attempts: number;
+}
+
+export class RubricDraftError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RubricDraftError";
+  }
+}
+
+/**
+ * Pull the rubric JSON out of the last <rubrics></rubrics> block.
+ * The decomposer prompt's examples use the same tags, so earlier
+ * blocks may be echoed examples.
+ */
+export function extractRubricsBlock(output: string): {
+  rubric?: string;
+  errors: string[];
+} {
+  const blocks = Array.from(
+    output.matchAll(/<rubrics>([\s\S]*?)<\/rubrics>/gi)
+  );
+  if (blocks.length === 0) {
+    return { errors: ["Output does not contain a <rubrics> block"] };
+  }
+
+  const block = blocks[blocks.length - 1][1]
+    .replace(/```(?:json)?/gi, "")
+    .trim();
+
+  const validation = validateRubricJSON(block);
+  if (!validation.isValid) {
+    return { errors: validation.errors };
+  }
+
+  return { rubric: JSON.stringify(JSON.parse(block), null, 2), errors: [] };
+}
+
+export class RubricDrafter {
+  private provider: DraftProvider;
+  private maxAttempts: number;
+
+  constructor(provider: DraftProvider, maxAttempts = 2) {
+    this.provider = provider;
+    this.maxAttempts = Math.max(1, maxAttempts);
+  }
+
+  get providerName() {
+    return this.provider.name;
+  }
+
+  get model() {
+    return this.provider.model;
+  }
+
+  async draft(task: TaskData): Promise<RubricDraft> {
+    const decomposerPrompt = generateRubricDecomposerPrompt(task);
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      try {
+        const output = await this.provider.complete({ task, decomposerPrompt });
+        const extracted = extractRubricsBlock(output);
+
+        if (extracted.rubric) {
+          const items: Record<string, { tag: string }> = JSON.parse(
+            extracted.rubric
+          );
+          const tags = Array.from(
+            new Set(Object.values(items).map((item) => item.tag))
+          );
+
+          return {
+            rubric: extracted.rubric,
+            rubricCount: Object.keys(items).length,
+            tags,
+            provider: this.provider.name,
+            model: this.provider.model,
+            attempts: attempt,
+          };
+        }
+
+        lastError = extracted.errors.slice(0, 3).join("; ");
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      console.error(
+        `Rubric draft attempt ${attempt}/${this.maxAttempts} failed:`,
+        lastError
+      );
+    }
+
+    throw new RubricDraftError(
+      `Rubric drafting failed after ${this.maxAttempts} attempt(s): ${lastError}`
+    );
+  }
+}
+
+/**
+ * Build the drafter from DRAFTER_PROVIDER ("openai" or "fake").
+ * Returns null when rubric drafting is not configured.
+ */
+export function createRubricDrafter(): RubricDrafter | null {
+  const providerName = process.env.DRAFTER_PROVIDER;
+  const maxAttempts = Number(process.env.DRAFTER_MAX_ATTEMPTS) || 2;
+
+  if (!providerName) {
+    return null;
+  }
+
+  if (providerName === "fake") {
+    console.log("Using fake rubric drafter provider");
+    return new RubricDrafter(new FakeDraftProvider(), maxAttempts);
+  }
+
+  if (providerName === "openai") {
+    return new RubricDrafter(
+      new OpenAICompatibleDraftProvider(
+        new OpenAICompatibleClient(
+          // Drafts are long, so allow more time than a grading call
+          getOpenAICompatibleConfig("DRAFTER", 180000)
+        )
+      ),
+      maxAttempts
+    );
+  }
+
+  throw new Error(
+    `Unknown DRAFTER_PROVIDER "${providerName}". Expected "openai" or "fake".`
+  );
+}
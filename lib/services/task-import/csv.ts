@@ -0,0 +1,69 @@
+// RFC 4180 CSV reader: quoted fields may contain commas, quotes ("") and
+// line breaks. Each record keeps the line it starts on for error reports.
+
+export interface CSVRecord {
+  line: number;
+  values: string[];
+}
+
+export function parseCSV(text: string): CSVRecord[] {
+  const records: CSVRecord[] = [];
+  let values: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(field);
+    // Skip blank lines
+    if (values.length > 1 || values[0].trim() !== "") {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    field = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      values.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(
+      `Unclosed quote in the record starting on line ${recordLine}`
+    );
+  }
+  if (field !== "" || values.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Task } from "@/lib/schemas/task";
+import { DEFAULT_SECTORS } from "@/lib/schemas/sector.schema";
+import type { TrainerQuota } from "@/lib/schemas/task-assignment.schema";
+import type { TaskRepository } from "@/lib/repositories/task-repository";
+import type { TrainerQuotaRepository } from "@/lib/repositories/trainer-quota-repository";
+import { applyTrainerQuotas, validateImportFile } from "./task-import";
+
+const OPTIONS = {
+  trainers: ["trainer@invisible.email"],
+  OpenSourceConfirmed: true,
+  sectors: DEFAULT_SECTORS,
+};
+
+const PROMPT =
+  "Draft a short memo on whether a verbal agreement to sell land is enforceable.";
+
+const RESPONSE =
+  "A verbal agreement to sell land is generally unenforceable under the statute of frauds.";
+
+const MODELS = [
+  { label: "Gemini", response: RESPONSE },
+  { label: "GPT", response: RESPONSE },
+];
+
+const ALICE = "alice@invisible.email";
+const BOB = "bob@invisible.email";
+
+function jsonlRow(models: unknown): string {
+  return JSON.stringify({ prompt: PROMPT, sector: "Law", models });
+}
+
+// Valid rows spread over the trainers in turn
+function importRows(count: number, trainers: string[]) {
+  return validateImportFile(
+    "jsonl",
+    Array.from({ length: count }, () => jsonlRow(MODELS)).join("\n"),
+    { ...OPTIONS, trainers }
+  );
+}
+
+// Open tasks and saved limits per trainer, in place of the repositories
+function quotaDeps(
+  openTasks: Record<string, number>,
+  savedQuotas: TrainerQuota[] = []
+) {
+  return {
+    taskRepository: {
+      listIncompleteByOwner: async (email: string) =>
+        Array.from(
+          { length: openTasks[email] ?? 0 },
+          (_, i) => ({ TaskID: `T-${i}`, TrainerEmail: email } as Task)
+        ),
+    } as unknown as TaskRepository,
+    trainerQuotaRepository: {
+      findByEmail: async (email: string) =>
+        savedQuotas.find((quota) => quota.email === email) ?? null,
+    } as unknown as TrainerQuotaRepository,
+  };
+}
+
+describe("validateImportFile (JSONL)", () => {
+  it("accepts a row with model objects", () => {
+    const [row] = validateImportFile("jsonl", jsonlRow(MODELS), OPTIONS);
+
+    expect(row.result.errors).toEqual([]);
+    expect(row.result.task?.models).toEqual(["Gemini", "GPT"]);
+  });
+
+  it.each([
+    ["null", [{ label: "Gemini", response: RESPONSE }, null]],
+    ["a string", [{ label: "Gemini", response: RESPONSE }, "GPT"]],
+    ["an array", [{ label: "Gemini", response: RESPONSE }, ["GPT", "Yes."]]],
+  ])("reports a model given as %s", (_, models) => {
+    const [row] = validateImportFile("jsonl", jsonlRow(models), OPTIONS);
+
+    expect(row.task).toBeUndefined();
+    expect(row.result.errors).toEqual(["Model 2 must be an object"]);
+  });
+
+  it("keeps checking the other rows", () => {
+    const rows = validateImportFile(
+      "jsonl",
+      [jsonlRow([null]), "not json", jsonlRow("Gemini")].join("\n"),
+      OPTIONS
+    );
+
+    expect(rows.map((row) => row.result.errors[0])).toEqual([
+      "Model 1 must be an object",
+      "Invalid JSON",
+      "At least 2 models are required",
+    ]);
+  });
+});
+
+describe("applyTrainerQuotas", () => {
+  beforeEach(() => {
+    // The default limit of one concurrent task
+    vi.stubEnv("DEFAULT_MAX_CONCURRENT_TASKS", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("rejects rows past the default limit, in file order", async () => {
+    const rows = await applyTrainerQuotas(
+      importRows(3, [ALICE]),
+      quotaDeps({})
+    );
+
+    expect(rows.map((row) => row.result.errors)).toEqual([
+      [],
+      [
+        `${ALICE} would exceed their limit of 1 concurrent tasks (0 already open)`,
+      ],
+      [
+        `${ALICE} would exceed their limit of 1 concurrent tasks (0 already open)`,
+      ],
+    ]);
+    expect(rows.map((row) => !!row.result.overLimit)).toEqual([
+      false,
+      true,
+      true,
+    ]);
+    expect(rows[1].task).toBeUndefined();
+  });
+
+  it("counts each trainer's open tasks and saved limit", async () => {
+    const rows = await applyTrainerQuotas(
+      importRows(6, [ALICE, BOB]),
+      quotaDeps({ [ALICE]: 1 }, [{ email: ALICE, maxConcurrentTasks: 3 }])
+    );
+
+    // Alternating rows: Alice has room for two more tasks, Bob for one
+    expect(rows.map((row) => row.result.overLimit ?? false)).toEqual([
+      false,
+      false,
+      false,
+      true,
+      true,
+      true,
+    ]);
+  });
+
+  it("leaves invalid rows as they are", async () => {
+    const [row] = validateImportFile("jsonl", "not json", OPTIONS);
+    const [checked] = await applyTrainerQuotas([row], quotaDeps({}));
+
+    expect(checked).toBe(row);
+  });
+});
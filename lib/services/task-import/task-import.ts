@@ -0,0 +1,374 @@
+import { ZodIssue } from "zod";
+import { ServerTaskSchema, toAirtableFormat } from "@/lib/schemas/task";
+import { toModelId } from "@/lib/schemas/task-models";
+import {
+  ImportedTask,
+  ImportedTaskSchema,
+  MAX_IMPORT_ROWS,
+  TaskImportCreateResult,
+  TaskImportFormat,
+  TaskImportRowResult,
+} from "@/lib/schemas/task-import.schema";
+import type { TaskRepository } from "@/lib/repositories/task-repository";
+import {
+  getTrainerWorkload,
+  type TrainerQuotaRepository,
+} from "@/lib/repositories/trainer-quota-repository";
+import type { GoogleDriveService } from "@/lib/services/google-drive";
+import { generateTaskId } from "@/lib/utils/task-utils";
+import { resolveSector, type Sector } from "@/lib/schemas/sector.schema";
+import { parseCSV } from "./csv";
+
+export class TaskImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskImportError";
+  }
+}
+
+// A row as read from the file, before any validation
+interface RawImportRow {
+  rowNumber: number;
+  parseError?: string;
+  prompt?: unknown;
+  sector?: unknown;
+  licenseNotes?: unknown;
+  trainerEmail?: unknown;
+  models: { label?: unknown; response?: unknown }[];
+}
+
+export interface ValidatedImportRow {
+  result: TaskImportRowResult;
+  task?: ImportedTask;
+}
+
+const REQUIRED_CSV_COLUMNS = ["prompt", "sector", "model_1", "response_1"];
+
+function readCSVRows(content: string): RawImportRow[] {
+  let records;
+  try {
+    records = parseCSV(content);
+  } catch (error) {
+    throw new TaskImportError(
+      error instanceof Error ? error.message : "Invalid CSV file"
+    );
+  }
+  if (records.length === 0) {
+    throw new TaskImportError("The file has no header row");
+  }
+
+  const [header, ...rows] = records;
+  const columns = header.values.map((name) => name.trim().toLowerCase());
+  const missing = REQUIRED_CSV_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new TaskImportError(`Missing CSV columns: ${missing.join(", ")}`);
+  }
+
+  // Models come as model_1/response_1, model_2/response_2..., primary first
+  const modelCount = Math.max(
+    ...columns.map((c) => Number(/^model_(\d+)$/.exec(c)?.[1] ?? 0))
+  );
+
+  return rows.map(({ line, values }) => {
+    const get = (column: string) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? undefined : values[index];
+    };
+
+    const models: RawImportRow["models"] = [];
+    for (let n = 1; n <= modelCount; n++) {
+      const label = get(`model_${n}`);
+      const response = get(`response_${n}`);
+      if (label?.trim() || response?.trim()) {
+        models.push({ label, response });
+      }
+    }
+
+    return {
+      rowNumber: line,
+      prompt: get("prompt"),
+      sector: get("sector"),
+      licenseNotes: get("license_notes"),
+      trainerEmail: get("trainer_email"),
+      models,
+    };
+  });
+}
+
+function readJSONLRows(content: string): RawImportRow[] {
+  return content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, rowNumber: index + 1 }))
+    .filter(({ line }) => line.trim() !== "")
+    .map(({ line, rowNumber }) => {
+      let value;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        return { rowNumber, parseError: "Invalid JSON", models: [] };
+      }
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return { rowNumber, parseError: "Expected a JSON object", models: [] };
+      }
+
+      const models: unknown[] = Array.isArray(value.models) ? value.models : [];
+      const invalidModel = models.findIndex(
+        (model) =>
+          typeof model !== "object" || model === null || Array.isArray(model)
+      );
+      if (invalidModel !== -1) {
+        return {
+          rowNumber,
+          parseError: `Model ${invalidModel + 1} must be an object`,
+          models: [],
+        };
+      }
+
+      return {
+        rowNumber,
+        prompt: value.prompt,
+        sector: value.sector,
+        licenseNotes: value.license_notes,
+        trainerEmail: value.trainer_email,
+        models: models as RawImportRow["models"],
+      };
+    });
+}
+
+function asText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === "string" ? value.trim() : String(value);
+}
+
+function formatIssue(issue: ZodIssue): string {
+  const [field, index] = issue.path;
+  if (field === "candidates" && typeof index === "number") {
+    return `Model ${index + 1}: ${issue.message}`;
+  }
+  return issue.message;
+}
+
+function validateRow(
+  row: RawImportRow,
+  trainerEmail: string | undefined,
+  OpenSourceConfirmed: boolean,
+  sectors: Sector[]
+): ValidatedImportRow {
+  if (row.parseError) {
+    return { result: { rowNumber: row.rowNumber, errors: [row.parseError] } };
+  }
+
+  // Sectors may be given by value ("Web development") or label ("Web Development")
+  const sectorName = asText(row.sector) ?? "";
+  const sector = resolveSector(sectors, sectorName);
+  const sectorError =
+    sectorName && !sector
+      ? `Unknown or archived sector "${sectorName}"`
+      : undefined;
+
+  const parsed = ImportedTaskSchema.safeParse({
+    Prompt: asText(row.prompt) ?? "",
+    ProfessionalSector: sector?.value ?? sectorName,
+    OpenSourceConfirmed,
+    LicenseNotes: asText(row.licenseNotes) || undefined,
+    TrainerEmail: trainerEmail ?? "",
+    candidates: row.models.map((model) => {
+      const label = asText(model.label) ?? "";
+      return {
+        id: toModelId(label),
+        label,
+        response: asText(model.response) ?? "",
+        files: [],
+      };
+    }),
+  });
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.filter(
+      (issue) =>
+        // The missing trainer is reported once below
+        (trainerEmail !== undefined || issue.path[0] !== "TrainerEmail") &&
+        // Model ids are derived from names, so only report the name
+        issue.path[2] !== "id"
+    );
+    const errors = Array.from(new Set(issues.map(formatIssue)));
+    if (trainerEmail === undefined) {
+      errors.push(
+        "No trainer assigned: add a trainer_email or choose trainers"
+      );
+    }
+    if (sectorError) {
+      errors.push(sectorError);
+    }
+    return { result: { rowNumber: row.rowNumber, errors } };
+  }
+
+  if (sectorError) {
+    return { result: { rowNumber: row.rowNumber, errors: [sectorError] } };
+  }
+
+  const task = parsed.data;
+  return {
+    task,
+    result: {
+      rowNumber: row.rowNumber,
+      errors: [],
+      task: {
+        Prompt: task.Prompt,
+        ProfessionalSector: task.ProfessionalSector,
+        TrainerEmail: task.TrainerEmail,
+        models: task.candidates.map((candidate) => candidate.label),
+      },
+    },
+  };
+}
+
+/**
+ * Read every row of an import file and check it against the task creation
+ * schemas. Rows without a trainer_email are assigned to `trainers` in turn,
+ * and sectors must be among the given active ones.
+ */
+export function validateImportFile(
+  format: TaskImportFormat,
+  content: string,
+  options: {
+    trainers: string[];
+    OpenSourceConfirmed: boolean;
+    sectors: Sector[];
+  }
+): ValidatedImportRow[] {
+  const rows = format === "csv" ? readCSVRows(content) : readJSONLRows(content);
+
+  if (rows.length === 0) {
+    throw new TaskImportError("The file has no tasks");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new TaskImportError(
+      `A file can import at most ${MAX_IMPORT_ROWS} tasks, found ${rows.length}`
+    );
+  }
+
+  let assigned = 0;
+  return rows.map((row) => {
+    let trainerEmail = asText(row.trainerEmail)?.toLowerCase() || undefined;
+    if (!trainerEmail && options.trainers.length > 0) {
+      trainerEmail = options.trainers[assigned % options.trainers.length];
+      assigned++;
+    }
+    return validateRow(
+      row,
+      trainerEmail,
+      options.OpenSourceConfirmed,
+      options.sectors
+    );
+  });
+}
+
+/**
+ * Hold imported rows to each trainer's concurrent task limit, counting the
+ * tasks they already have open. Rows past the limit become row errors, in
+ * file order, flagged so the preview can offer to import them anyway.
+ */
+export async function applyTrainerQuotas(
+  rows: ValidatedImportRow[],
+  deps: {
+    taskRepository: TaskRepository;
+    trainerQuotaRepository: TrainerQuotaRepository;
+  }
+): Promise<ValidatedImportRow[]> {
+  const trainers = Array.from(
+    new Set(rows.flatMap(({ task }) => (task ? [task.TrainerEmail] : [])))
+  );
+  const workloads = new Map(
+    await Promise.all(
+      trainers.map(
+        async (email) =>
+          [
+            email,
+            await getTrainerWorkload(
+              deps.trainerQuotaRepository,
+              deps.taskRepository,
+              email
+            ),
+          ] as const
+      )
+    )
+  );
+
+  const assigned = new Map<string, number>();
+  return rows.map((row) => {
+    if (!row.task) return row;
+
+    const email = row.task.TrainerEmail;
+    const workload = workloads.get(email)!;
+    const open = workload.activeTasks.length + (assigned.get(email) ?? 0);
+    if (open >= workload.quota.maxConcurrentTasks) {
+      return {
+        result: {
+          rowNumber: row.result.rowNumber,
+          errors: [
+            `${email} would exceed their limit of ${workload.quota.maxConcurrentTasks} concurrent tasks (${workload.activeTasks.length} already open)`,
+          ],
+          overLimit: true,
+        },
+      };
+    }
+
+    assigned.set(email, (assigned.get(email) ?? 0) + 1);
+    return row;
+  });
+}
+
+/**
+ * Create the Drive folders and task record of each imported task, one at a
+ * time. A failed row doesn't stop the rest of the import.
+ */
+export async function createImportedTasks(
+  rows: { rowNumber: number; task: ImportedTask }[],
+  deps: {
+    taskRepository: TaskRepository;
+    driveService: GoogleDriveService;
+    baseFolderId: string;
+  }
+): Promise<TaskImportCreateResult[]> {
+  const results: TaskImportCreateResult[] = [];
+
+  for (const { rowNumber, task } of rows) {
+    const taskId = generateTaskId();
+    try {
+      const candidates = task.candidates.map(({ id, label, response }) => ({
+        id,
+        label,
+        response,
+      }));
+      const folder = await deps.driveService.createTaskFolder(
+        taskId,
+        deps.baseFolderId,
+        candidates
+      );
+
+      const taskData = ServerTaskSchema.parse({
+        taskId,
+        Prompt: task.Prompt,
+        ProfessionalSector: task.ProfessionalSector,
+        TrainerEmail: task.TrainerEmail,
+        Sources: folder.taskFolderUrl,
+        OpenSourceConfirmed: task.OpenSourceConfirmed,
+        LicenseNotes: task.LicenseNotes || "",
+        candidates,
+      });
+      await deps.taskRepository.create(toAirtableFormat(taskData));
+
+      console.log("Imported task", taskId, "from row", rowNumber);
+      results.push({ rowNumber, taskId });
+    } catch (error) {
+      console.error("Failed to import row", rowNumber, error);
+      results.push({
+        rowNumber,
+        error: error instanceof Error ? error.message : "Failed to create task",
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api } from "@/lib/trpc/client";
+import type { DraftKey } from "@/lib/schemas/draft.schema";
+
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface DraftAutosaveOptions<T> {
+  draftKey: DraftKey;
+  // Form state to save; anything JSON-serializable
+  value: T;
+  // Apply a saved draft to the form. Return false to ignore a stale draft.
+  onRestore: (value: T) => boolean | void;
+  // Off until the form holds its initial values, and once it is submitted
+  enabled?: boolean;
+}
+
+/**
+ * Autosave form state as a server-side draft while the user edits, and
+ * restore it when the page is opened again. Drafts are removed by the
+ * form's own mutation once it succeeds.
+ */
+export function useDraftAutosave<T>({
+  draftKey,
+  value,
+  onRestore,
+  enabled = true,
+}: DraftAutosaveOptions<T>) {
+  const { taskId, stage, modelId } = draftKey;
+  const [status, setStatus] = useState<DraftSaveStatus>("idle");
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [restoredAt, setRestoredAt] = useState<Date | null>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  // Last state stored on the server; null until the form's initial state
+  const lastSaved = useRef<string | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const { data: draft, isSuccess } = api.drafts.get.useQuery(
+    { taskId, stage, modelId },
+    {
+      enabled: enabled && !isReady,
+      refetchOnWindowFocus: false,
+      // Always read the latest draft when the page opens again
+      gcTime: 0,
+    }
+  );
+
+  const { mutate: saveDraft } = api.drafts.save.useMutation();
+  const { mutate: deleteDraft } = api.drafts.discard.useMutation();
+
+  const serialized = JSON.stringify(value);
+
+  // Restore once, before anything is saved over the draft
+  useEffect(() => {
+    if (!enabled || isReady || !isSuccess) return;
+
+    if (draft) {
+      try {
+        if (onRestoreRef.current(JSON.parse(draft.data)) !== false) {
+          setRestoredAt(draft.updatedAt ? new Date(draft.updatedAt) : null);
+        }
+      } catch (error) {
+        console.error("Failed to restore draft:", error);
+      }
+    }
+    setIsReady(true);
+  }, [enabled, isReady, isSuccess, draft]);
+
+  useEffect(() => {
+    if (!enabled || !isReady) return;
+
+    if (lastSaved.current === null) {
+      lastSaved.current = serialized;
+      return;
+    }
+    if (serialized === lastSaved.current) return;
+
+    const timer = setTimeout(() => {
+      lastSaved.current = serialized;
+      setStatus("saving");
+      saveDraft(
+        { taskId, stage, modelId, data: serialized },
+        {
+          onSuccess: () => {
+            setStatus("saved");
+            setSavedAt(new Date());
+          },
+          onError: (error) => {
+            console.error("Failed to save draft:", error);
+            setStatus("error");
+          },
+        }
+      );
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [serialized, enabled, isReady, saveDraft, taskId, stage, modelId]);
+
+  // Delete the draft. The page resets the form to `resetTo`, which becomes
+  // the new baseline rather than a draft of its own.
+  const discard = useCallback(
+    (resetTo: T) => {
+      lastSaved.current = JSON.stringify(resetTo);
+      setStatus("idle");
+      setSavedAt(null);
+      setRestoredAt(null);
+      deleteDraft({ taskId, stage, modelId });
+    },
+    [deleteDraft, taskId, stage, modelId]
+  );
+
+  return { status, savedAt, restoredAt, discard };
+}
@@ -0,0 +1,34 @@
+import { useCallback } from "react";
+import { api } from "@/lib/trpc/client";
+import {
+  DEFAULT_SECTORS,
+  findSector,
+  type Sector,
+} from "@/lib/schemas/sector.schema";
+
+// The catalog changes rarely; share one fetch across pages
+const SECTOR_CATALOG_STALE_MS = 5 * 60 * 1000;
+
+/**
+ * The sector catalog for labels, icons and pickers. Falls back to the
+ * built-in sectors until it has loaded.
+ */
+export function useSectorCatalog() {
+  const { data } = api.sectors.list.useQuery(undefined, {
+    staleTime: SECTOR_CATALOG_STALE_MS,
+  });
+
+  const sectors: Sector[] = data || DEFAULT_SECTORS;
+
+  const getSector = useCallback(
+    (value: string) => findSector(sectors, value),
+    [sectors]
+  );
+
+  return {
+    sectors,
+    // Sectors new tasks can be created in
+    activeSectors: sectors.filter((sector) => !sector.archived),
+    getSector,
+  };
+}
@@ -0,0 +1,90 @@
+import { TRPCError } from "@trpc/server";
+import type { Context } from "./server";
+import type { Task } from "@/lib/schemas/task";
+import {
+  canAccessAdminRoutes,
+  canReviewTasks,
+  UserRole,
+} from "@/lib/schemas/users.schema";
+import { getUserInfoFromAPI } from "@/lib/utils/auth-utils";
+import {
+  checkTransition,
+  TaskWorkflowEvent,
+  TransitionContext,
+} from "@/lib/workflow/task-workflow";
+
+// Context inside a protectedProcedure, where the session is always set
+export type AuthedContext = Context & {
+  session: NonNullable<Context["session"]>;
+};
+
+export async function getRole(ctx: AuthedContext): Promise<UserRole> {
+  const userInfo = await getUserInfoFromAPI(ctx.session);
+  return userInfo.role;
+}
+
+export async function assertRole(
+  ctx: AuthedContext,
+  isAllowed: (role: UserRole) => boolean,
+  message: string
+) {
+  if (!isAllowed(await getRole(ctx))) {
+    throw new TRPCError({ code: "FORBIDDEN", message });
+  }
+}
+
+export async function assertAdmin(ctx: AuthedContext) {
+  await assertRole(
+    ctx,
+    (role) => role === "admin",
+    "Admin privileges required"
+  );
+}
+
+export async function assertLeadOrAdmin(ctx: AuthedContext) {
+  await assertRole(
+    ctx,
+    canAccessAdminRoutes,
+    "Admin or lead privileges required"
+  );
+}
+
+export async function isReviewer(ctx: AuthedContext): Promise<boolean> {
+  return canReviewTasks(await getRole(ctx));
+}
+
+export async function assertReviewer(
+  ctx: AuthedContext,
+  message = "Lead privileges required"
+) {
+  await assertRole(ctx, canReviewTasks, message);
+}
+
+// Any trainer's task, for leads and admins; owners use findOwnedTask instead
+export async function findTaskOr404(
+  ctx: AuthedContext,
+  taskId: string
+): Promise<Task> {
+  const task = await ctx.taskRepository.findByTaskId(taskId);
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Task not found.",
+    });
+  }
+  return task;
+}
+
+// Reject the mutation if the workflow doesn't allow this event for the task
+export function assertTransitionAllowed(
+  event: TaskWorkflowEvent,
+  context: TransitionContext
+) {
+  const transition = checkTransition(event, context);
+  if (!transition.allowed) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: transition.reason,
+    });
+  }
+}
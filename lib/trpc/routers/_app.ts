@@ -1,10 +1,32 @@
 import { router } from "../server";
 import { tasksRouter } from "./tasks";
 import { usersRouter } from "./users";
+import { sectorPoliciesRouter } from "./sector-policies";
+import { sectorsRouter } from "./sectors";
+import { reviewsRouter } from "./reviews";
+import { adminTasksRouter } from "./admin-tasks";
+import { exportsRouter } from "./exports";
+import { taskImportsRouter } from "./task-imports";
+import { draftsRouter } from "./drafts";
+import { analyticsRouter } from "./analytics";
+import { annotationsRouter } from "./annotations";
+import { rubricTemplatesRouter } from "./rubric-templates";
+import { taskAssignmentsRouter } from "./task-assignments";
 
 export const appRouter = router({
   tasks: tasksRouter,
   users: usersRouter,
+  sectorPolicies: sectorPoliciesRouter,
+  sectors: sectorsRouter,
+  reviews: reviewsRouter,
+  adminTasks: adminTasksRouter,
+  exports: exportsRouter,
+  taskImports: taskImportsRouter,
+  drafts: draftsRouter,
+  analytics: analyticsRouter,
+  annotations: annotationsRouter,
+  rubricTemplates: rubricTemplatesRouter,
+  taskAssignments: taskAssignmentsRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,101 @@
+import { router, protectedProcedure } from "../server";
+import { assertLeadOrAdmin } from "../guards";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { TaskStatus } from "@/lib/schemas/task";
+import {
+  AdminTaskListInputSchema,
+  TaskListFiltersSchema,
+} from "@/lib/schemas/task-query.schema";
+import {
+  decodeTaskCursor,
+  paginateTasks,
+  searchTasks,
+  toAdminTaskSummary,
+} from "@/lib/utils/task-query";
+
+export const adminTasksRouter = router({
+  // Every trainer's tasks, filtered and sorted, one page at a time
+  list: protectedProcedure
+    .input(AdminTaskListInputSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        await assertLeadOrAdmin(ctx);
+
+        const cursor = input.cursor ? decodeTaskCursor(input.cursor) : null;
+        if (input.cursor && !cursor) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid page cursor.",
+          });
+        }
+
+        const tasks = (
+          await searchTasks(ctx.taskRepository, input.filters)
+        ).map(toAdminTaskSummary);
+        const page = paginateTasks(tasks, {
+          sortBy: input.sortBy,
+          sortDirection: input.sortDirection,
+          cursor,
+          limit: input.limit,
+        });
+
+        return { ...page, total: tasks.length };
+      } catch (error) {
+        console.error("Failed to list all tasks:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch tasks.",
+        });
+      }
+    }),
+
+  // Task counts per status for the same filters as list
+  stats: protectedProcedure
+    .input(z.object({ filters: TaskListFiltersSchema.default({}) }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        await assertLeadOrAdmin(ctx);
+
+        const tasks = (
+          await searchTasks(ctx.taskRepository, input?.filters ?? {})
+        ).map(toAdminTaskSummary);
+
+        const byStatus = Object.fromEntries(
+          TaskStatus.options.map((status) => [status, 0])
+        ) as Record<TaskStatus, number>;
+        for (const task of tasks) {
+          byStatus[task.Status]++;
+        }
+
+        const alignments = tasks
+          .map((task) => task.primaryAlignment)
+          .filter((alignment): alignment is number => alignment !== undefined);
+
+        return {
+          total: tasks.length,
+          byStatus,
+          trainers: new Set(tasks.map((task) => task.TrainerEmail)).size,
+          averagePrimaryAlignment:
+            alignments.length > 0
+              ? Math.round(
+                  alignments.reduce((sum, value) => sum + value, 0) /
+                    alignments.length
+                )
+              : undefined,
+        };
+      } catch (error) {
+        console.error("Failed to fetch task stats:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch task statistics.",
+        });
+      }
+    }),
+});
@@ -0,0 +1,61 @@
+import { router, protectedProcedure } from "../server";
+import { assertLeadOrAdmin } from "../guards";
+import { TRPCError } from "@trpc/server";
+import {
+  ModelLeaderboardInputSchema,
+  TagAlignmentInputSchema,
+} from "@/lib/schemas/analytics.schema";
+import { searchTasks } from "@/lib/utils/task-query";
+import { aggregateTagAlignment } from "@/lib/utils/tag-alignment";
+import { aggregateModelLeaderboard } from "@/lib/utils/model-comparison";
+
+export const analyticsRouter = router({
+  // Human/model agreement per rubric tag across the matching tasks
+  tagAlignment: protectedProcedure
+    .input(TagAlignmentInputSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        await assertLeadOrAdmin(ctx);
+
+        const tasks = await searchTasks(ctx.taskRepository, input.filters);
+
+        return aggregateTagAlignment(tasks, input.scope);
+      } catch (error) {
+        console.error("Failed to fetch tag alignment:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch tag alignment.",
+        });
+      }
+    }),
+
+  // Per-model pass rates from human scores, head to head across tasks
+  modelLeaderboard: protectedProcedure
+    .input(ModelLeaderboardInputSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        await assertLeadOrAdmin(ctx);
+
+        const tasks = await searchTasks(ctx.taskRepository, {
+          ...input.filters,
+          statuses: input.filters.statuses?.length
+            ? input.filters.statuses
+            : ["Completed"],
+        });
+
+        return aggregateModelLeaderboard(tasks);
+      } catch (error) {
+        console.error("Failed to fetch model leaderboard:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch model leaderboard.",
+        });
+      }
+    }),
+});
@@ -0,0 +1,326 @@
+import { router, protectedProcedure } from "../server";
+import {
+  assertReviewer,
+  AuthedContext,
+  findTaskOr404,
+  isReviewer,
+} from "../guards";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import {
+  getCurrentRubricContent,
+  validateEvaluationScores,
+} from "@/lib/schemas/task";
+import {
+  getModelResponse,
+  getTaskModel,
+  getTaskModels,
+} from "@/lib/schemas/task-models";
+import {
+  AssignAnnotatorInputSchema,
+  isCurrentAnnotation,
+  SubmitAnnotationInputSchema,
+} from "@/lib/schemas/annotation.schema";
+import { isSameEmail } from "@/lib/schemas/users.schema";
+import { parseCurrentRubricQuestions } from "@/lib/utils/evaluation-utils";
+import { getTaskAgreement } from "@/lib/utils/agreement";
+
+// The annotator's own assignment; annotators never see other humans' scores
+async function findOwnAnnotation(ctx: AuthedContext, taskId: string) {
+  const annotation = await ctx.annotationRepository.find(
+    taskId,
+    ctx.session.user.email as string
+  );
+  if (!annotation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "You are not assigned to evaluate this task.",
+    });
+  }
+  return annotation;
+}
+
+export const annotationsRouter = router({
+  // Assigned evaluators and agreement statistics, for the trainer and reviewers
+  forTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        const task = await findTaskOr404(ctx, input.taskId);
+        const canManage = await isReviewer(ctx);
+        if (
+          !isSameEmail(task.TrainerEmail, ctx.session.user.email) &&
+          !canManage
+        ) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Task not found or access denied.",
+          });
+        }
+
+        const annotations = await ctx.annotationRepository.listByTask(
+          task.TaskID
+        );
+        const rubricVersion = task.Current_Rubric_Version || 1;
+
+        return {
+          canManage,
+          rubricVersion,
+          annotators: annotations.map((annotation) => ({
+            email: annotation.evaluatorEmail,
+            assignedBy: annotation.assignedBy,
+            assignedAt: annotation.assignedAt,
+            scoredModels: Object.keys(annotation.evaluations).filter((id) =>
+              isCurrentAnnotation(annotation.evaluations[id], rubricVersion)
+            ),
+          })),
+          agreement: getTaskAgreement(task, annotations),
+        };
+      } catch (error) {
+        console.error("Failed to fetch task annotations:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch evaluator agreement.",
+        });
+      }
+    }),
+
+  assign: protectedProcedure
+    .input(AssignAnnotatorInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertReviewer(
+          ctx,
+          "Only leads and admins can manage evaluators."
+        );
+        const task = await findTaskOr404(ctx, input.taskId);
+
+        if (isSameEmail(input.evaluatorEmail, task.TrainerEmail)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "The task's trainer already evaluates it.",
+          });
+        }
+
+        const existing = await ctx.annotationRepository.find(
+          task.TaskID,
+          input.evaluatorEmail
+        );
+        if (existing) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `${input.evaluatorEmail} is already assigned to this task.`,
+          });
+        }
+
+        await ctx.annotationRepository.save({
+          taskId: task.TaskID,
+          evaluatorEmail: input.evaluatorEmail,
+          assignedBy: ctx.session.user.email as string,
+          assignedAt: new Date().toISOString(),
+          evaluations: {},
+        });
+
+        console.log(
+          "Evaluator assigned:",
+          task.TaskID,
+          input.evaluatorEmail,
+          "by",
+          ctx.session.user.email
+        );
+
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to assign evaluator:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to assign evaluator.",
+        });
+      }
+    }),
+
+  // Removes the evaluator along with any scores they gave
+  unassign: protectedProcedure
+    .input(AssignAnnotatorInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertReviewer(
+          ctx,
+          "Only leads and admins can manage evaluators."
+        );
+        await ctx.annotationRepository.delete(
+          input.taskId,
+          input.evaluatorEmail
+        );
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to remove evaluator:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to remove evaluator.",
+        });
+      }
+    }),
+
+  // Tasks the current user was asked to evaluate
+  myAssignments: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const annotations = await ctx.annotationRepository.listByEvaluator(
+        ctx.session.user.email as string
+      );
+
+      const assignments = await Promise.all(
+        annotations.map(async (annotation) => {
+          const task = await ctx.taskRepository.findByTaskId(annotation.taskId);
+          if (!task) return null;
+
+          const rubricVersion = task.Current_Rubric_Version || 1;
+          return {
+            taskId: task.TaskID,
+            prompt: task.Prompt,
+            sector: task.ProfessionalSector,
+            assignedAt: annotation.assignedAt,
+            rubricReady: parseCurrentRubricQuestions(task).length > 0,
+            models: getTaskModels(task).map((model) => ({
+              id: model.id,
+              label: model.label,
+              scored: isCurrentAnnotation(
+                annotation.evaluations[model.id],
+                rubricVersion
+              ),
+            })),
+          };
+        })
+      );
+
+      return assignments
+        .filter((assignment) => assignment !== null)
+        .sort((a, b) => b.assignedAt.localeCompare(a.assignedAt));
+    } catch (error) {
+      console.error("Failed to fetch evaluator assignments:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch your evaluation assignments.",
+      });
+    }
+  }),
+
+  // What an annotator needs to score one model, without anyone else's scores
+  getAssignment: protectedProcedure
+    .input(z.object({ taskId: z.string(), modelId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        const annotation = await findOwnAnnotation(ctx, input.taskId);
+        const task = await findTaskOr404(ctx, input.taskId);
+        const model = getTaskModel(task, input.modelId);
+        if (!model) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Model "${input.modelId}" is not part of this task.`,
+          });
+        }
+
+        const rubricVersion = task.Current_Rubric_Version || 1;
+        const scored = annotation.evaluations[model.id];
+
+        return {
+          taskId: task.TaskID,
+          prompt: task.Prompt,
+          sector: task.ProfessionalSector,
+          rubricVersion,
+          questions: parseCurrentRubricQuestions(task),
+          model,
+          response: getModelResponse(task, model.id),
+          models: getTaskModels(task),
+          scores: isCurrentAnnotation(scored, rubricVersion)
+            ? scored.scores
+            : undefined,
+        };
+      } catch (error) {
+        console.error("Failed to fetch evaluation assignment:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch evaluation assignment.",
+        });
+      }
+    }),
+
+  submit: protectedProcedure
+    .input(SubmitAnnotationInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const annotation = await findOwnAnnotation(ctx, input.taskId);
+        const task = await findTaskOr404(ctx, input.taskId);
+        if (!getTaskModel(task, input.modelId)) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Model "${input.modelId}" is not part of this task.`,
+          });
+        }
+
+        const currentRubric = getCurrentRubricContent(task);
+        if (!currentRubric) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "This task has no rubric to evaluate against yet.",
+          });
+        }
+
+        const scoreValidation = validateEvaluationScores(
+          input.scores,
+          currentRubric
+        );
+        if (!scoreValidation.isValid) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Invalid evaluation scores: ${scoreValidation.errors.join(
+              ", "
+            )}`,
+          });
+        }
+
+        await ctx.annotationRepository.save({
+          ...annotation,
+          evaluations: {
+            ...annotation.evaluations,
+            [input.modelId]: {
+              rubricVersion: task.Current_Rubric_Version || 1,
+              scores: input.scores,
+              submittedAt: new Date().toISOString(),
+            },
+          },
+        });
+
+        console.log(
+          "Evaluator scores saved:",
+          task.TaskID,
+          input.modelId,
+          "by",
+          ctx.session.user.email
+        );
+
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to save evaluator scores:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save your evaluation.",
+        });
+      }
+    }),
+});
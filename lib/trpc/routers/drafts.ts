@@ -0,0 +1,63 @@
+import { router, protectedProcedure } from "../server";
+import { TRPCError } from "@trpc/server";
+import {
+  DraftKeySchema,
+  SaveDraftInputSchema,
+} from "@/lib/schemas/draft.schema";
+
+// Drafts are only ever read back by their owner, so saving one doesn't
+// check the task itself; autosave stays a single write.
+export const draftsRouter = router({
+  get: protectedProcedure
+    .input(DraftKeySchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        return await ctx.draftRepository.find(
+          input,
+          ctx.session.user.email as string
+        );
+      } catch (error) {
+        console.error("Failed to fetch draft:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch draft.",
+        });
+      }
+    }),
+
+  save: protectedProcedure
+    .input(SaveDraftInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const draft = await ctx.draftRepository.save({
+          ...input,
+          ownerEmail: ctx.session.user.email as string,
+        });
+        return { updatedAt: draft.updatedAt };
+      } catch (error) {
+        console.error("Failed to save draft:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save draft.",
+        });
+      }
+    }),
+
+  discard: protectedProcedure
+    .input(DraftKeySchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.draftRepository.delete(
+          input,
+          ctx.session.user.email as string
+        );
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to discard draft:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to discard draft.",
+        });
+      }
+    }),
+});
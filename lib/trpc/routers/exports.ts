@@ -0,0 +1,49 @@
+import { router, protectedProcedure } from "../server";
+import { assertLeadOrAdmin } from "../guards";
+import { TRPCError } from "@trpc/server";
+import { DatasetExportInputSchema } from "@/lib/schemas/dataset-export.schema";
+import { searchTasks } from "@/lib/utils/task-query";
+import {
+  buildDatasetExport,
+  toDatasetRecord,
+} from "@/lib/services/dataset-export/dataset-export";
+
+export const exportsRouter = router({
+  // Completed tasks matching the filters as a JSONL, CSV or Hugging Face file
+  createDataset: protectedProcedure
+    .input(DatasetExportInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertLeadOrAdmin(ctx);
+
+        const tasks = await searchTasks(ctx.taskRepository, {
+          ...input.filters,
+          statuses: ["Completed"],
+        });
+
+        const file = buildDatasetExport(
+          tasks.map(toDatasetRecord),
+          input.format
+        );
+
+        console.log(
+          "Dataset exported:",
+          input.format,
+          tasks.length,
+          "tasks by",
+          ctx.session.user.email
+        );
+
+        return { ...file, recordCount: tasks.length };
+      } catch (error) {
+        console.error("Failed to export dataset:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to export dataset.",
+        });
+      }
+    }),
+});
@@ -0,0 +1,420 @@
+import { router, protectedProcedure } from "../server";
+import {
+  assertReviewer,
+  assertTransitionAllowed,
+  findTaskOr404,
+  isReviewer,
+} from "../guards";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import {
+  addReviewEntry,
+  ApproveReviewInputSchema,
+  getEscalationResolutionInfo,
+  getReturnStageInfo,
+  parseReviewThread,
+  RequestChangesInputSchema,
+  ResolveEscalationInputSchema,
+  REVIEW_QUEUE_STATUSES,
+  ReviewCommentInputSchema,
+} from "@/lib/schemas/review.schema";
+import { addAssignmentEntry } from "@/lib/schemas/task-assignment.schema";
+import { isSameEmail } from "@/lib/schemas/users.schema";
+import {
+  buildComparisonEvaluationReset,
+  getPrimaryAlignment,
+  getTaskModels,
+} from "@/lib/schemas/task-models";
+import {
+  isEscalated,
+  resolveTransition,
+  runTransitionEffects,
+  TASK_WORKFLOW_TRANSITIONS,
+} from "@/lib/workflow/task-workflow";
+import { getSectorPolicy } from "@/lib/repositories/sector-policy-repository";
+
+export const reviewsRouter = router({
+  // Tasks waiting for, or already through, lead review
+  listQueue: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      await assertReviewer(ctx);
+
+      const records = await ctx.taskRepository.list();
+
+      return records
+        .filter((record) => REVIEW_QUEUE_STATUSES.includes(record.Status))
+        .map((record) => ({
+          id: record.id,
+          TaskID: record.TaskID,
+          Prompt: record.Prompt,
+          ProfessionalSector: record.ProfessionalSector,
+          Status: record.Status,
+          TrainerEmail: record.TrainerEmail,
+          Created: record.Created,
+          Current_Rubric_Version: record.Current_Rubric_Version,
+          Submitted_For_Review_At: record.Submitted_For_Review_At,
+          Reviewed_By: record.Reviewed_By,
+          Reviewed_At: record.Reviewed_At,
+          primaryAlignment: getPrimaryAlignment(record),
+          modelCount: getTaskModels(record).length,
+          commentCount: parseReviewThread(record).filter(
+            (entry) => entry.message
+          ).length,
+        }));
+    } catch (error) {
+      console.error("Failed to fetch review queue:", error);
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch review queue.",
+      });
+    }
+  }),
+
+  // Escalated tasks still in progress, waiting for a lead to resolve them
+  listEscalated: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      await assertReviewer(ctx);
+
+      const records = await ctx.taskRepository.list();
+
+      return records
+        .filter(
+          (record) =>
+            isEscalated(record) &&
+            TASK_WORKFLOW_TRANSITIONS.resolveEscalation.from.includes(
+              record.Status
+            )
+        )
+        .map((record) => ({
+          id: record.id,
+          TaskID: record.TaskID,
+          Prompt: record.Prompt,
+          ProfessionalSector: record.ProfessionalSector,
+          Status: record.Status,
+          TrainerEmail: record.TrainerEmail,
+          Current_Rubric_Version: record.Current_Rubric_Version,
+          Escalated_At: record.Escalated_At,
+          Escalation_Reason: record.Escalation_Reason,
+          primaryAlignment: getPrimaryAlignment(record),
+        }));
+    } catch (error) {
+      console.error("Failed to fetch escalated tasks:", error);
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch escalated tasks.",
+      });
+    }
+  }),
+
+  // Whether the current user can act as a reviewer, for the review page
+  canReview: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await isReviewer(ctx);
+    } catch (error) {
+      console.error("Failed to check review permission:", error);
+      return false;
+    }
+  }),
+
+  approve: protectedProcedure
+    .input(ApproveReviewInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertReviewer(ctx);
+        const task = await findTaskOr404(ctx, input.taskId);
+        const reviewerEmail = ctx.session.user.email as string;
+
+        const context = { task, reviewerEmail };
+        assertTransitionAllowed("approveReview", context);
+
+        const now = new Date().toISOString();
+        const updatedTask = await ctx.taskRepository.update(task.id, {
+          Status: resolveTransition("approveReview", context),
+          Review_Thread: addReviewEntry(task, {
+            action: "approved",
+            authorEmail: reviewerEmail,
+            authorName: ctx.session.user.name,
+            message: input.comment || undefined,
+          }),
+          Reviewed_By: reviewerEmail,
+          Reviewed_At: now,
+        });
+
+        console.log("Task approved:", task.TaskID, "by", reviewerEmail);
+
+        return {
+          success: true,
+          message: `Task ${task.TaskID} approved.`,
+          task: updatedTask,
+        };
+      } catch (error) {
+        console.error("Failed to approve task:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to approve task.",
+        });
+      }
+    }),
+
+  requestChanges: protectedProcedure
+    .input(RequestChangesInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertReviewer(ctx);
+        const task = await findTaskOr404(ctx, input.taskId);
+        const reviewerEmail = ctx.session.user.email as string;
+
+        const policy = await getSectorPolicy(
+          ctx.sectorPolicyRepository,
+          task.ProfessionalSector
+        );
+        const context = {
+          task,
+          policy,
+          reviewerEmail,
+          returnStage: input.returnStage,
+        };
+        assertTransitionAllowed("requestReviewChanges", context);
+
+        const updatedTask = await ctx.taskRepository.update(task.id, {
+          Status: resolveTransition("requestReviewChanges", context),
+          Review_Thread: addReviewEntry(task, {
+            action: "changes_requested",
+            authorEmail: reviewerEmail,
+            authorName: ctx.session.user.name,
+            message: input.comment,
+            returnStage: input.returnStage,
+          }),
+          Review_Return_Stage: input.returnStage,
+          Reviewed_By: reviewerEmail,
+          Reviewed_At: new Date().toISOString(),
+        });
+
+        console.log(
+          "Changes requested:",
+          task.TaskID,
+          "back to",
+          input.returnStage,
+          "by",
+          reviewerEmail
+        );
+
+        return {
+          success: true,
+          message: `Task sent back to ${getReturnStageInfo(
+            input.returnStage
+          ).label.toLowerCase()}.`,
+          task: updatedTask,
+        };
+      } catch (error) {
+        console.error("Failed to request changes:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to request changes.",
+        });
+      }
+    }),
+
+  resolveEscalation: protectedProcedure
+    .input(ResolveEscalationInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertReviewer(ctx);
+        const task = await findTaskOr404(ctx, input.taskId);
+        const reviewerEmail = ctx.session.user.email as string;
+
+        const context = {
+          task,
+          reviewerEmail,
+          resolution: input.resolution,
+        };
+        assertTransitionAllowed("resolveEscalation", context);
+
+        await runTransitionEffects("resolveEscalation", {
+          task,
+          repository: ctx.taskRepository,
+        });
+
+        const now = new Date().toISOString();
+        const updatedTask = await ctx.taskRepository.update(task.id, {
+          Status: resolveTransition("resolveEscalation", context),
+          Escalation_Resolution: input.resolution,
+          Escalation_Resolved_By: reviewerEmail,
+          Escalation_Resolved_At: now,
+          Review_Thread: addReviewEntry(task, {
+            action: "escalation_resolved",
+            authorEmail: reviewerEmail,
+            authorName: ctx.session.user.name,
+            message: `${getEscalationResolutionInfo(input.resolution).label}: ${
+              input.comment
+            }`,
+          }),
+          // The trainer goes back to the rubric, so comparison evaluations
+          // made under the flag are redone
+          ...(input.resolution === "extend" && {
+            Extra_Rubric_Versions:
+              (task.Extra_Rubric_Versions || 0) + input.extraVersions,
+            ...buildComparisonEvaluationReset(task),
+          }),
+          ...(input.resolution === "send_to_review" && {
+            Submitted_For_Review_At: now,
+            Review_Return_Stage: "" as const,
+          }),
+          ...(input.resolution === "abandon" && {
+            Assignment_History: addAssignmentEntry(task, {
+              action: "abandoned",
+              fromEmail: task.TrainerEmail,
+              byEmail: reviewerEmail,
+              byName: ctx.session.user.name,
+              reason: input.comment,
+              status: task.Status,
+            }),
+          }),
+        });
+
+        console.log(
+          "Escalation resolved:",
+          task.TaskID,
+          input.resolution,
+          "by",
+          reviewerEmail
+        );
+
+        return {
+          success: true,
+          message: `Escalation on ${
+            task.TaskID
+          } resolved: ${getEscalationResolutionInfo(
+            input.resolution
+          ).label.toLowerCase()}.`,
+          task: updatedTask,
+        };
+      } catch (error) {
+        console.error("Failed to resolve escalation:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to resolve escalation.",
+        });
+      }
+    }),
+
+  // The trainer and any lead can discuss the task in its review thread
+  addComment: protectedProcedure
+    .input(ReviewCommentInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const task = await findTaskOr404(ctx, input.taskId);
+        const userEmail = ctx.session.user.email as string;
+
+        if (
+          !isSameEmail(task.TrainerEmail, userEmail) &&
+          !(await isReviewer(ctx))
+        ) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Task not found.",
+          });
+        }
+
+        const updatedTask = await ctx.taskRepository.update(task.id, {
+          Review_Thread: addReviewEntry(task, {
+            action: "comment",
+            authorEmail: userEmail,
+            authorName: ctx.session.user.name,
+            message: input.message,
+          }),
+        });
+
+        return {
+          success: true,
+          message: "Comment added.",
+          task: updatedTask,
+        };
+      } catch (error) {
+        console.error("Failed to add review comment:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to add comment.",
+        });
+      }
+    }),
+
+  // Trainer picks the task back up at the stage the lead asked for
+  resume: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const userEmail = ctx.session.user.email as string;
+        const task = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail
+        );
+        if (!task) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Task not found or access denied.",
+          });
+        }
+
+        assertTransitionAllowed("resumeAfterReview", { task });
+
+        await runTransitionEffects("resumeAfterReview", {
+          task,
+          repository: ctx.taskRepository,
+        });
+
+        // Comparison evaluations were made against the reviewed rubric and
+        // evaluations, so every return stage redoes them
+        const updatedTask = await ctx.taskRepository.update(task.id, {
+          Status: resolveTransition("resumeAfterReview", { task }),
+          ...buildComparisonEvaluationReset(task),
+          Review_Thread: addReviewEntry(task, {
+            action: "resumed",
+            authorEmail: userEmail,
+            authorName: ctx.session.user.name,
+            returnStage: task.Review_Return_Stage || undefined,
+          }),
+        });
+
+        console.log(
+          "Task resumed after review:",
+          task.TaskID,
+          "at",
+          task.Review_Return_Stage
+        );
+
+        return {
+          success: true,
+          message: "Revisions started.",
+          task: updatedTask,
+        };
+      } catch (error) {
+        console.error("Failed to resume task:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to resume task.",
+        });
+      }
+    }),
+});
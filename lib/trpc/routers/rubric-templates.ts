@@ -0,0 +1,149 @@
+import { router, protectedProcedure } from "../server";
+import { assertAdmin } from "../guards";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import {
+  CompletedRubricItemsInputSchema,
+  RubricTemplateInputSchema,
+  RubricTemplateSearchSchema,
+} from "@/lib/schemas/rubric-template.schema";
+import { findCatalogSector } from "@/lib/repositories/sector-repository";
+import { searchTasks } from "@/lib/utils/task-query";
+import {
+  getCompletedTaskRubrics,
+  getRubricTemplateTags,
+  searchRubricTemplates,
+} from "@/lib/utils/rubric-templates";
+
+// Completed tasks offered for curation at once, most recent first
+const CURATION_TASK_LIMIT = 25;
+
+export const rubricTemplatesRouter = router({
+  // Any trainer can search the library to insert items into their rubric
+  list: protectedProcedure
+    .input(RubricTemplateSearchSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const templates = await ctx.rubricTemplateRepository.list(input.sector);
+        return {
+          templates: searchRubricTemplates(templates, input),
+          // Tags across the sector, so the tag filter doesn't narrow itself
+          tags: getRubricTemplateTags(templates),
+        };
+      } catch (error) {
+        console.error("Failed to fetch rubric templates:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch rubric templates.",
+        });
+      }
+    }),
+
+  // Final rubrics of the sector's completed tasks, to curate templates from
+  completedRubrics: protectedProcedure
+    .input(CompletedRubricItemsInputSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        const tasks = await searchTasks(ctx.taskRepository, {
+          statuses: ["Completed"],
+          sectors: [input.sector],
+        });
+
+        return getCompletedTaskRubrics(tasks).slice(0, CURATION_TASK_LIMIT);
+      } catch (error) {
+        console.error("Failed to fetch completed rubrics:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch completed rubrics.",
+        });
+      }
+    }),
+
+  save: protectedProcedure
+    .input(RubricTemplateInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        if (!(await findCatalogSector(ctx.sectorRepository, input.sector))) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Unknown sector "${input.sector}".`,
+          });
+        }
+
+        const existing = input.id
+          ? await ctx.rubricTemplateRepository.findById(input.id)
+          : null;
+        if (input.id && !existing) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Rubric template not found.",
+          });
+        }
+
+        const template = await ctx.rubricTemplateRepository.save({
+          ...input,
+          id: existing?.id || uuidv4(),
+          createdBy: existing?.createdBy || (ctx.session.user.email as string),
+          updatedAt: new Date().toISOString(),
+        });
+
+        console.log(
+          "Rubric template saved:",
+          template.id,
+          "by",
+          ctx.session.user.email
+        );
+
+        return {
+          success: true,
+          message: `Template "${template.name}" saved.`,
+          template,
+        };
+      } catch (error) {
+        console.error("Failed to save rubric template:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save rubric template.",
+        });
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        await ctx.rubricTemplateRepository.delete(input.id);
+
+        console.log(
+          "Rubric template deleted:",
+          input.id,
+          "by",
+          ctx.session.user.email
+        );
+
+        return { success: true, message: "Template deleted." };
+      } catch (error) {
+        console.error("Failed to delete rubric template:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete rubric template.",
+        });
+      }
+    }),
+});
@@ -0,0 +1,90 @@
+import { router, protectedProcedure } from "../server";
+import { assertAdmin } from "../guards";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { ProfessionalSector } from "@/lib/schemas/task";
+import { SectorPolicySchema } from "@/lib/schemas/sector-policy.schema";
+import { getSectorPolicy } from "@/lib/repositories/sector-policy-repository";
+import {
+  findCatalogSector,
+  getSectorCatalog,
+} from "@/lib/repositories/sector-repository";
+
+export const sectorPoliciesRouter = router({
+  // Policy in force for every active sector, saved or default
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const catalog = await getSectorCatalog(ctx.sectorRepository);
+      return await Promise.all(
+        catalog
+          .filter((sector) => !sector.archived)
+          .map((sector) =>
+            getSectorPolicy(ctx.sectorPolicyRepository, sector.value)
+          )
+      );
+    } catch (error) {
+      console.error("Failed to fetch sector policies:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch sector policies.",
+      });
+    }
+  }),
+
+  getBySector: protectedProcedure
+    .input(z.object({ sector: ProfessionalSector }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSectorPolicy(ctx.sectorPolicyRepository, input.sector);
+      } catch (error) {
+        console.error("Failed to fetch sector policy:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch sector policy.",
+        });
+      }
+    }),
+
+  update: protectedProcedure
+    .input(SectorPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const session = ctx.session;
+        await assertAdmin(ctx);
+
+        if (!(await findCatalogSector(ctx.sectorRepository, input.sector))) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Unknown sector "${input.sector}".`,
+          });
+        }
+
+        const policy = await ctx.sectorPolicyRepository.save({
+          ...input,
+          updatedBy: session.user.email,
+        });
+
+        console.log(
+          "Sector policy updated:",
+          input.sector,
+          "by",
+          session.user.email
+        );
+
+        return {
+          success: true,
+          message: `Policy for ${input.sector} saved.`,
+          policy: { ...policy, isDefault: false },
+        };
+      } catch (error) {
+        console.error("Failed to update sector policy:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save sector policy.",
+        });
+      }
+    }),
+});
@@ -0,0 +1,212 @@
+import { router, protectedProcedure } from "../server";
+import { assertAdmin, AuthedContext } from "../guards";
+import { TRPCError } from "@trpc/server";
+import {
+  resolveSector,
+  SectorInput,
+  SectorInputSchema,
+} from "@/lib/schemas/sector.schema";
+import { getSectorCatalog } from "@/lib/repositories/sector-repository";
+import { planSectorMigration } from "@/lib/utils/sector-migration";
+
+// Values and labels must not collide with another sector's, in any spelling,
+// or tasks and imports couldn't tell the two apart
+async function assertDistinctSector(ctx: AuthedContext, input: SectorInput) {
+  const others = (await getSectorCatalog(ctx.sectorRepository)).filter(
+    (sector) => sector.value !== input.value
+  );
+  const clash =
+    resolveSector(others, input.value) || resolveSector(others, input.label);
+  if (clash) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `"${input.label}" is too close to the existing sector "${clash.label}".`,
+    });
+  }
+}
+
+export const sectorsRouter = router({
+  // The whole catalog, archived sectors included, for labels on older tasks
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getSectorCatalog(ctx.sectorRepository);
+    } catch (error) {
+      console.error("Failed to fetch sectors:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch sectors.",
+      });
+    }
+  }),
+
+  create: protectedProcedure
+    .input(SectorInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+        await assertDistinctSector(ctx, input);
+
+        const catalog = await getSectorCatalog(ctx.sectorRepository);
+        if (catalog.some((sector) => sector.value === input.value)) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `A sector with the value "${input.value}" already exists.`,
+          });
+        }
+
+        const sector = await ctx.sectorRepository.save({
+          ...input,
+          updatedBy: ctx.session.user.email,
+        });
+
+        console.log(
+          "Sector created:",
+          input.value,
+          "by",
+          ctx.session.user.email
+        );
+
+        return {
+          success: true,
+          message: `Sector ${sector.label} added.`,
+          sector,
+        };
+      } catch (error) {
+        console.error("Failed to create sector:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to add sector.",
+        });
+      }
+    }),
+
+  // Relabel, restyle or archive a sector; its value stays the same
+  update: protectedProcedure
+    .input(SectorInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        const catalog = await getSectorCatalog(ctx.sectorRepository);
+        if (!catalog.some((sector) => sector.value === input.value)) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Sector not found.",
+          });
+        }
+        await assertDistinctSector(ctx, input);
+
+        const sector = await ctx.sectorRepository.save({
+          ...input,
+          updatedBy: ctx.session.user.email,
+        });
+
+        console.log(
+          "Sector updated:",
+          input.value,
+          "by",
+          ctx.session.user.email
+        );
+
+        return {
+          success: true,
+          message: `Sector ${sector.label} saved.`,
+          sector: { ...sector, isDefault: false },
+        };
+      } catch (error) {
+        console.error("Failed to update sector:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save sector.",
+        });
+      }
+    }),
+
+  // Tasks per sector and the stored sectors the migration would rewrite
+  migrationPreview: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      await assertAdmin(ctx);
+
+      const [tasks, catalog] = await Promise.all([
+        ctx.taskRepository.list(),
+        getSectorCatalog(ctx.sectorRepository),
+      ]);
+
+      return planSectorMigration(tasks, catalog);
+    } catch (error) {
+      console.error("Failed to plan sector migration:", error);
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to check task sectors.",
+      });
+    }
+  }),
+
+  // Rewrite every task whose sector resolves to a different catalog value
+  migrateTasks: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      await assertAdmin(ctx);
+
+      const [tasks, catalog] = await Promise.all([
+        ctx.taskRepository.list(),
+        getSectorCatalog(ctx.sectorRepository),
+      ]);
+      const plan = planSectorMigration(tasks, catalog);
+
+      let updated = 0;
+      const failed: string[] = [];
+      // One at a time; a failed task doesn't stop the rest
+      for (const change of plan.changes) {
+        try {
+          await ctx.taskRepository.update(change.recordId, {
+            ProfessionalSector: change.to,
+          });
+          updated++;
+        } catch (error) {
+          console.error(
+            "Failed to migrate sector of task",
+            change.taskId,
+            error
+          );
+          failed.push(change.taskId);
+        }
+      }
+
+      console.log(
+        "Sector migration by",
+        ctx.session.user.email,
+        "updated",
+        updated,
+        "of",
+        plan.changes.length,
+        "tasks"
+      );
+
+      return {
+        success: failed.length === 0,
+        message: `Updated ${updated} of ${plan.changes.length} tasks.`,
+        updated,
+        failed,
+        unknown: plan.unknown,
+      };
+    } catch (error) {
+      console.error("Failed to migrate task sectors:", error);
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to migrate task sectors.",
+      });
+    }
+  }),
+});
@@ -0,0 +1,316 @@
+import { router, protectedProcedure } from "../server";
+import {
+  assertAdmin,
+  assertLeadOrAdmin,
+  assertTransitionAllowed,
+  findTaskOr404,
+  getRole,
+} from "../guards";
+import { TRPCError } from "@trpc/server";
+import { ServerTaskSchema } from "@/lib/schemas/task";
+import { canAccessAdminRoutes, isSameEmail } from "@/lib/schemas/users.schema";
+import {
+  AbandonTaskInputSchema,
+  addAssignmentEntry,
+  AssignTaskInputSchema,
+  canReassignTask,
+  TrainerQuotaSchema,
+} from "@/lib/schemas/task-assignment.schema";
+import {
+  getDefaultConcurrentTaskLimit,
+  getTrainerQuota,
+  getTrainerWorkload,
+} from "@/lib/repositories/trainer-quota-repository";
+import { resolveTransition } from "@/lib/workflow/task-workflow";
+import {
+  listAbandonedTasks,
+  summarizeTrainerWorkloads,
+} from "@/lib/utils/trainer-workload";
+
+export const taskAssignmentsRouter = router({
+  // The current trainer's open tasks against their limit, for the new task page
+  myQuota: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const workload = await getTrainerWorkload(
+        ctx.trainerQuotaRepository,
+        ctx.taskRepository,
+        ctx.session.user.email as string
+      );
+
+      return {
+        maxConcurrentTasks: workload.quota.maxConcurrentTasks,
+        hasCapacity: workload.hasCapacity,
+        activeTasks: workload.activeTasks.map((task) => ({
+          TaskID: task.TaskID,
+          Status: task.Status,
+        })),
+      };
+    } catch (error) {
+      console.error("Failed to fetch task quota:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch task quota.",
+      });
+    }
+  }),
+
+  // Every trainer's open tasks and limit, plus the abandoned tasks
+  workloads: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      await assertLeadOrAdmin(ctx);
+
+      const [tasks, savedQuotas] = await Promise.all([
+        ctx.taskRepository.list(),
+        ctx.trainerQuotaRepository.list(),
+      ]);
+      const defaultLimit = getDefaultConcurrentTaskLimit();
+
+      return {
+        defaultLimit,
+        trainers: summarizeTrainerWorkloads(tasks, savedQuotas, defaultLimit),
+        abandoned: listAbandonedTasks(tasks),
+      };
+    } catch (error) {
+      console.error("Failed to fetch trainer workloads:", error);
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch trainer workloads.",
+      });
+    }
+  }),
+
+  setQuota: protectedProcedure
+    .input(TrainerQuotaSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        const quota = await ctx.trainerQuotaRepository.save({
+          ...input,
+          updatedBy: ctx.session.user.email,
+        });
+
+        console.log(
+          "Trainer quota set:",
+          input.email,
+          input.maxConcurrentTasks,
+          "by",
+          ctx.session.user.email
+        );
+
+        return {
+          success: true,
+          message: `${input.email} can now hold ${
+            input.maxConcurrentTasks
+          } task${input.maxConcurrentTasks !== 1 ? "s" : ""} at once.`,
+          quota: { ...quota, isDefault: false },
+        };
+      } catch (error) {
+        console.error("Failed to save trainer quota:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save trainer quota.",
+        });
+      }
+    }),
+
+  resetQuota: protectedProcedure
+    .input(TrainerQuotaSchema.pick({ email: true }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        await ctx.trainerQuotaRepository.delete(input.email);
+
+        console.log(
+          "Trainer quota reset:",
+          input.email,
+          "by",
+          ctx.session.user.email
+        );
+
+        return {
+          success: true,
+          message: `${input.email} is back on the default limit.`,
+          quota: await getTrainerQuota(ctx.trainerQuotaRepository, input.email),
+        };
+      } catch (error) {
+        console.error("Failed to reset trainer quota:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to reset trainer quota.",
+        });
+      }
+    }),
+
+  // Hand a task to another trainer, or reopen an abandoned one for someone
+  assign: protectedProcedure
+    .input(AssignTaskInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertLeadOrAdmin(ctx);
+        const task = await findTaskOr404(ctx, input.taskId);
+        const assignerEmail = ctx.session.user.email as string;
+
+        const trainerEmail = ServerTaskSchema.shape.TrainerEmail.safeParse(
+          input.trainerEmail
+        );
+        if (!trainerEmail.success) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: trainerEmail.error.errors[0].message,
+          });
+        }
+
+        if (!canReassignTask(task)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Completed tasks cannot be reassigned.",
+          });
+        }
+
+        const isAbandoned = task.Status === "Abandoned";
+        if (!isAbandoned && isSameEmail(task.TrainerEmail, trainerEmail.data)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Task ${task.TaskID} is already assigned to ${trainerEmail.data}.`,
+          });
+        }
+
+        const workload = await getTrainerWorkload(
+          ctx.trainerQuotaRepository,
+          ctx.taskRepository,
+          trainerEmail.data
+        );
+        if (!workload.hasCapacity) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `${trainerEmail.data} already has ${workload.activeTasks.length} of ${workload.quota.maxConcurrentTasks} concurrent tasks.`,
+          });
+        }
+
+        if (isAbandoned) {
+          assertTransitionAllowed("reopenTask", { task });
+        }
+
+        const updatedTask = await ctx.taskRepository.update(task.id, {
+          TrainerEmail: trainerEmail.data,
+          ...(isAbandoned && {
+            Status: resolveTransition("reopenTask", { task }),
+          }),
+          Assignment_History: addAssignmentEntry(task, {
+            action: "assigned",
+            fromEmail: task.TrainerEmail,
+            toEmail: trainerEmail.data,
+            byEmail: assignerEmail,
+            byName: ctx.session.user.name,
+            reason: input.reason || undefined,
+            status: task.Status,
+          }),
+        });
+
+        console.log(
+          "Task assigned:",
+          task.TaskID,
+          "from",
+          task.TrainerEmail,
+          "to",
+          trainerEmail.data,
+          "by",
+          assignerEmail
+        );
+
+        return {
+          success: true,
+          message: `Task ${task.TaskID} assigned to ${trainerEmail.data}.`,
+          task: updatedTask,
+        };
+      } catch (error) {
+        console.error("Failed to assign task:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to assign task.",
+        });
+      }
+    }),
+
+  // The trainer gives up their own task, or a lead stops a stuck one
+  abandon: protectedProcedure
+    .input(AbandonTaskInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const userEmail = ctx.session.user.email as string;
+        const task = await findTaskOr404(ctx, input.taskId);
+
+        if (
+          !isSameEmail(task.TrainerEmail, userEmail) &&
+          !canAccessAdminRoutes(await getRole(ctx))
+        ) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Only the task's trainer or a lead can abandon it.",
+          });
+        }
+
+        assertTransitionAllowed("abandonTask", { task });
+
+        const updatedTask = await ctx.taskRepository.update(task.id, {
+          Status: resolveTransition("abandonTask", { task }),
+          Assignment_History: addAssignmentEntry(task, {
+            action: "abandoned",
+            fromEmail: task.TrainerEmail,
+            byEmail: userEmail,
+            byName: ctx.session.user.name,
+            reason: input.reason,
+            status: task.Status,
+          }),
+        });
+
+        console.log(
+          "Task abandoned:",
+          task.TaskID,
+          "at",
+          task.Status,
+          "by",
+          userEmail
+        );
+
+        return {
+          success: true,
+          message: `Task ${task.TaskID} abandoned.`,
+          task: updatedTask,
+        };
+      } catch (error) {
+        console.error("Failed to abandon task:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to abandon task.",
+        });
+      }
+    }),
+
+  // Whether the current user can hand tasks over, for the task page
+  canAssign: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return canAccessAdminRoutes(await getRole(ctx));
+    } catch (error) {
+      console.error("Failed to check assignment permission:", error);
+      return false;
+    }
+  }),
+});
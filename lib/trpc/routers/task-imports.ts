@@ -0,0 +1,104 @@
+import { router, protectedProcedure } from "../server";
+import { assertAdmin, AuthedContext } from "../guards";
+import { TRPCError } from "@trpc/server";
+import {
+  TaskImportInput,
+  TaskImportInputSchema,
+} from "@/lib/schemas/task-import.schema";
+import {
+  getServiceAccountKey,
+  GoogleDriveService,
+} from "@/lib/services/google-drive";
+import {
+  applyTrainerQuotas,
+  createImportedTasks,
+  TaskImportError,
+  validateImportFile,
+} from "@/lib/services/task-import/task-import";
+import { getSectorCatalog } from "@/lib/repositories/sector-repository";
+
+// Imported tasks can only use active catalog sectors
+async function getActiveSectors(ctx: AuthedContext) {
+  const catalog = await getSectorCatalog(ctx.sectorRepository);
+  return catalog.filter((sector) => !sector.archived);
+}
+
+// File checks, then each trainer's concurrent task limit unless the admin
+// chose to import past it
+async function validateImportRows(ctx: AuthedContext, input: TaskImportInput) {
+  const rows = validateImportFile(input.format, input.content, {
+    ...input,
+    sectors: await getActiveSectors(ctx),
+  });
+  if (input.ignoreTrainerLimits) {
+    return rows;
+  }
+  return applyTrainerQuotas(rows, {
+    taskRepository: ctx.taskRepository,
+    trainerQuotaRepository: ctx.trainerQuotaRepository,
+  });
+}
+
+function toTRPCError(error: unknown, message: string): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+  if (error instanceof TaskImportError) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+}
+
+export const taskImportsRouter = router({
+  // Per-row validation report of an import file; nothing is created
+  preview: protectedProcedure
+    .input(TaskImportInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        const rows = await validateImportRows(ctx, input);
+        return { rows: rows.map((row) => row.result) };
+      } catch (error) {
+        console.error("Failed to validate task import:", error);
+        throw toTRPCError(error, "Failed to validate import file.");
+      }
+    }),
+
+  // Create a task and its Drive folders for every valid row
+  run: protectedProcedure
+    .input(TaskImportInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await assertAdmin(ctx);
+
+        const rows = await validateImportRows(ctx, input);
+        const validRows = rows.flatMap(({ result, task }) =>
+          task ? [{ rowNumber: result.rowNumber, task }] : []
+        );
+
+        console.log(
+          "Importing",
+          validRows.length,
+          "of",
+          rows.length,
+          "tasks by",
+          ctx.session.user.email
+        );
+
+        const created = await createImportedTasks(validRows, {
+          taskRepository: ctx.taskRepository,
+          driveService: new GoogleDriveService(getServiceAccountKey()),
+          baseFolderId: process.env.GOOGLE_DRIVE_BASE_FOLDER_ID!,
+        });
+
+        return {
+          created,
+          skipped: rows.filter(({ task }) => !task).map(({ result }) => result),
+        };
+      } catch (error) {
+        console.error("Failed to import tasks:", error);
+        throw toTRPCError(error, "Failed to import tasks.");
+      }
+    }),
+});
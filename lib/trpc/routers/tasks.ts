@@ -1,9 +1,9 @@
-import { router, protectedProcedure } from "../server";
+import { router, protectedProcedure, Context } from "../server";
+import { assertTransitionAllowed, isReviewer } from "../guards";
 import { TRPCError } from "@trpc/server";
 import {
   CreateTaskSchema,
   getDetailedValidationError,
-  TaskStatus,
   calculateTaskProgress,
   Task,
   TaskSummary,
@@ -13,7 +13,6 @@ import {
   calculateAlignment,
   validateRubricJSON,
   validateEvaluationScores,
-  getStatusDisplayInfo,
   getRubricFieldName,
   RubricEnhanceInputSchema,
   getCurrentRubricContent,
@@ -22,180 +21,472 @@ import {
   ServerTaskInput,
   toAirtableFormat,
   FileReferenceSchema,
+  cleanItemRationales,
+  ModelReasoning,
 } from "@/lib/schemas/task";
 import z from "zod";
 import { generateTaskId } from "@/lib/utils/task-utils";
-import { GoogleDriveService } from "@/lib/services/google-drive";
+import {
+  getServiceAccountKey,
+  GoogleDriveService,
+} from "@/lib/services/google-drive";
 import { google } from "googleapis";
+import {
+  getPolicyThreshold,
+  getRubricVersionLimit,
+  isEscalated,
+  meetsAlignmentThreshold,
+  resolveTransition,
+  runTransitionEffects,
+  shouldEscalate,
+  TaskWorkflowEvent,
+} from "@/lib/workflow/task-workflow";
+import { getSectorPolicy } from "@/lib/repositories/sector-policy-repository";
+import { findCatalogSector } from "@/lib/repositories/sector-repository";
+import { getTrainerWorkload } from "@/lib/repositories/trainer-quota-repository";
+import { parseCurrentRubricQuestions } from "@/lib/utils/evaluation-utils";
+import {
+  GraderError,
+  GraderResult,
+  GraderRun,
+} from "@/lib/services/grader/llm-grader";
+import { RubricDraftError } from "@/lib/services/rubric-drafter/rubric-drafter";
+import { discardDraft } from "@/lib/repositories/draft-repository";
+import type { TaskFields } from "@/lib/repositories/task-repository";
+import { NEW_TASK_DRAFT_ID } from "@/lib/schemas/draft.schema";
+import {
+  buildModelEvaluationUpdate,
+  getActiveComparisonModel,
+  getComparisonModels,
+  getModelEvaluation,
+  getModelResponse,
+  getPrimaryAlignment,
+  getPrimaryModel,
+  getTaskModel,
+  isPrimaryModel,
+  MAX_TASK_MODELS,
+  MIN_TASK_MODELS,
+  TaskModel,
+  TaskModelSchema,
+} from "@/lib/schemas/task-models";
+import { addReviewEntry } from "@/lib/schemas/review.schema";
+import { parseRubricKeyMaps } from "@/lib/utils/rubric-history";
 
-class AirtableFieldManager {
-  private baseId: string;
-  private tableId: string;
-  private apiKey: string;
+// function base64ToBuffer(base64Data: string): Buffer {
+//   return Buffer.from(base64Data, "base64");
+// }
 
-  constructor(baseId: string, tableId: string, apiKey: string) {
-    this.baseId = baseId;
-    this.tableId = tableId;
-    this.apiKey = apiKey;
+// Reject a new task once the trainer holds as many as their quota allows
+async function assertTaskQuota(
+  ctx: Pick<Context, "taskRepository" | "trainerQuotaRepository">,
+  userEmail: string
+) {
+  const workload = await getTrainerWorkload(
+    ctx.trainerQuotaRepository,
+    ctx.taskRepository,
+    userEmail
+  );
+
+  if (!workload.hasCapacity) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `TASK_QUOTA_REACHED:${
+        workload.quota.maxConcurrentTasks
+      }:${workload.activeTasks.map((task) => task.TaskID).join(",")}`,
+    });
   }
+}
 
-  // Check if a field exists in the table
-  async fieldExists(fieldName: string): Promise<boolean> {
-    try {
-      const response = await fetch(
-        `https://api.airtable.com/v0/meta/bases/${this.baseId}/tables`,
-        {
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-          },
-        }
-      );
+type EvaluationContext = Pick<
+  Context,
+  "taskRepository" | "sectorPolicyRepository" | "grader"
+>;
+
+// Resolve the evaluated model, rejecting ids that are not part of the task
+function getEvaluatedModel(task: Task, modelId: string): TaskModel {
+  const model = getTaskModel(task, modelId);
+  if (!model) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Model "${modelId}" is not part of this task.`,
+    });
+  }
+  return model;
+}
 
-      if (!response.ok) {
-        console.error("Failed to fetch table schema:", response.statusText);
-        return false;
-      }
+// Grade a response with the configured grader, keeping the raw output on the task even on failure
+async function gradeResponse(
+  ctx: EvaluationContext,
+  task: Task,
+  model: TaskModel
+): Promise<GraderResult> {
+  if (!ctx.grader) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Automated grading is not configured.",
+    });
+  }
 
-      const data = await response.json();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const table = data.tables.find((t: any) => t.id === this.tableId);
+  const rubric = parseCurrentRubricQuestions(task);
+  if (rubric.length === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Current rubric not found.",
+    });
+  }
 
-      if (!table) {
-        console.error("Table not found in schema");
-        return false;
-      }
+  try {
+    return await ctx.grader.grade({
+      prompt: task.Prompt,
+      response: getModelResponse(task, model.id),
+      rubric,
+    });
+  } catch (error) {
+    if (error instanceof GraderError) {
+      await ctx.taskRepository.update(
+        task.id,
+        buildModelEvaluationUpdate(task, model.id, {
+          graderRun: JSON.stringify(error.run),
+        })
+      );
+      throw new TRPCError({
+        code: "BAD_GATEWAY",
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+}
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return table.fields.some((field: any) => field.name === fieldName);
-    } catch (error) {
-      console.error("Error checking field existence:", error);
-      return false;
+// Score the primary model's response and advance the workflow; shared by manual and automated grading
+async function savePrimaryModelEval(
+  ctx: EvaluationContext,
+  existingRecord: Task,
+  model: TaskModel,
+  modelScores: string,
+  modelReasoning: ModelReasoning = {},
+  graderRun?: GraderRun
+) {
+  // Get current rubric in new format and validate
+  const currentRubricContent = getCurrentRubricContent(existingRecord);
+  const humanScores = getModelEvaluation(existingRecord, model.id).humanScores;
+  if (!currentRubricContent || !humanScores) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Current rubric and Human evaluation are required.",
+    });
+  }
+
+  // Validate that rubric is in new format
+  try {
+    const rubric = parseRubricContent(currentRubricContent);
+    if (!rubric) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message:
+          "Current rubric is not in the correct new format with question/tag structure.",
+      });
     }
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Failed to parse current rubric - must be in new format.",
+    });
   }
 
-  // Create a new rubric field dynamically
-  async createRubricField(version: number): Promise<boolean> {
-    const fieldName = getRubricFieldName(version);
+  const scoreValidation = validateEvaluationScores(
+    modelScores,
+    currentRubricContent
+  );
+  if (!scoreValidation.isValid) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Invalid evaluation scores: ${scoreValidation.errors.join(
+        ", "
+      )}`,
+    });
+  }
 
-    try {
-      // First check if field already exists
-      const exists = await this.fieldExists(fieldName);
-      if (exists) {
-        console.log(`Field ${fieldName} already exists`);
-        return true;
-      }
+  //  Calculate alignment using new format
+  const alignment = calculateAlignment(
+    humanScores,
+    modelScores,
+    currentRubricContent,
+    modelReasoning
+  );
+
+  const currentVersion = existingRecord.Current_Rubric_Version || 1;
+
+  // Update alignment history
+  const updatedHistory = addAlignmentToHistory(
+    existingRecord,
+    currentVersion,
+    alignment.percentage,
+    alignment.misalignedItems.length,
+    alignment.metrics
+  );
+
+  const policy = await getSectorPolicy(
+    ctx.sectorPolicyRepository,
+    existingRecord.ProfessionalSector
+  );
+  const threshold = getPolicyThreshold(policy);
+
+  // Determine next status WITHOUT incrementing version yet
+  const nextStatus = resolveTransition("submitPrimaryModelEval", {
+    task: existingRecord,
+    alignment: alignment.percentage,
+    policy,
+    modelId: model.id,
+  });
+  const passedThreshold = meetsAlignmentThreshold(
+    alignment.percentage,
+    threshold
+  );
+  const escalated = shouldEscalate(
+    existingRecord,
+    alignment.percentage,
+    policy
+  );
+
+  // Ensures the next version field exists (for future use)
+  const nextVersion = currentVersion + 1;
+  await runTransitionEffects("submitPrimaryModelEval", {
+    task: existingRecord,
+    repository: ctx.taskRepository,
+  });
+
+  const updateFields: TaskFields = {
+    ...buildModelEvaluationUpdate(existingRecord, model.id, {
+      modelScores,
+      // Undefined clears reasoning left from an earlier grading
+      modelReasoning: Object.keys(modelReasoning).length
+        ? JSON.stringify(modelReasoning)
+        : undefined,
+      alignment: alignment.percentage,
+      misaligned: JSON.stringify(alignment.misalignedItems),
+      alignmentMetrics: JSON.stringify(alignment.metrics),
+      weightedScores: JSON.stringify(alignment.weightedScores),
+      ...(graderRun && { graderRun: JSON.stringify(graderRun) }),
+    }),
+    Alignment_History: updatedHistory,
+    Status: nextStatus,
+  };
+
+  if (escalated && !isEscalated(existingRecord)) {
+    updateFields.Escalated_At = new Date().toISOString();
+    updateFields.Escalation_Reason = `Alignment ${
+      alignment.percentage
+    }% is below the ${threshold}% ${
+      existingRecord.ProfessionalSector
+    } threshold after V${currentVersion} of ${getRubricVersionLimit(
+      existingRecord,
+      policy
+    )} allowed versions (${policy.escalationAction}).`;
+  }
 
-      console.log(`Creating new field: ${fieldName}`);
-
-      const response = await fetch(
-        `https://api.airtable.com/v0/meta/bases/${this.baseId}/tables/${this.tableId}/fields`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            name: fieldName,
-            type: "multilineText",
-            description: `Rubric version ${version} - JSON string with evaluation criteria`,
-          }),
-        }
-      );
+  const updatedRecord = await ctx.taskRepository.update(
+    existingRecord.id,
+    updateFields
+  );
+
+  console.log(
+    `Model evaluation for ${model.label} saved (new format):`,
+    existingRecord.TaskID,
+    "Alignment:",
+    alignment.percentage + "%",
+    "Current version:",
+    currentVersion,
+    "Next version will be:",
+    nextVersion
+  );
+
+  const nextModel = getActiveComparisonModel(existingRecord);
+  const nextModelLabel = nextModel?.label || "comparison";
+
+  let message: string;
+  if (passedThreshold) {
+    message = `Model evaluation completed! Alignment: ${alignment.percentage}% - Ready for ${nextModelLabel} evaluation.`;
+  } else if (escalated && policy.escalationAction === "advance") {
+    message = `Alignment: ${alignment.percentage}% (below ${threshold}%). Rubric version limit reached - task escalated and moved on to ${nextModelLabel} evaluation.`;
+  } else if (escalated && policy.escalationAction === "block") {
+    message = `Alignment: ${alignment.percentage}% (below ${threshold}%). Rubric version limit reached - task escalated for lead review.`;
+  } else if (escalated) {
+    message = `Alignment: ${alignment.percentage}% (below ${threshold}%). Task escalated to a lead. Need to enhance V${currentVersion} to V${nextVersion}.`;
+  } else {
+    message = `Alignment: ${alignment.percentage}%. Need to enhance V${currentVersion} to V${nextVersion}.`;
+  }
 
-      if (!response.ok) {
-        console.error(
-          `Failed to create field ${fieldName}:`,
-          response.statusText
-        );
-        return false;
-      }
+  return {
+    success: true,
+    message,
+    alignment: alignment.percentage,
+    misalignedCount: alignment.misalignedItems.length,
+    alignmentThreshold: threshold,
+    needsRevision: nextStatus === "Rubric_Enhancing",
+    escalated,
+    nextVersion: nextVersion,
+    currentVersion: currentVersion,
+    nextModelId: nextStatus === "Rubric_Enhancing" ? undefined : nextModel?.id,
+    completed: false,
+    task: updatedRecord,
+  };
+}
 
-      console.log(`Successfully created field: ${fieldName}`);
-      return true;
-    } catch (error) {
-      console.error(`Error creating field ${fieldName}:`, error);
-      return false;
-    }
+// Score a comparison model's response; the last one submits the task for review
+async function saveComparisonModelEval(
+  ctx: EvaluationContext,
+  existingRecord: Task,
+  model: TaskModel,
+  modelScores: string,
+  modelReasoning: ModelReasoning = {},
+  graderRun?: GraderRun
+) {
+  const currentRubric = getCurrentRubricContent(existingRecord);
+  const humanScores = getModelEvaluation(existingRecord, model.id).humanScores;
+  if (!currentRubric || !humanScores) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Current rubric and Human evaluation for ${model.label} are required.`,
+    });
   }
 
-  // Ensure all required fields exist up to a certain version
-  async ensureRubricFieldsExist(maxVersion: number): Promise<boolean> {
-    for (let version = 1; version <= maxVersion; version++) {
-      const success = await this.createRubricField(version);
-      if (!success) {
-        return false;
-      }
-    }
-    return true;
+  const scoreValidation = validateEvaluationScores(modelScores, currentRubric);
+  if (!scoreValidation.isValid) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Invalid evaluation scores: ${scoreValidation.errors.join(
+        ", "
+      )}`,
+    });
   }
+
+  const alignment = calculateAlignment(
+    humanScores,
+    modelScores,
+    currentRubric,
+    modelReasoning
+  );
+
+  const nextStatus = resolveTransition("submitComparisonModelEval", {
+    task: existingRecord,
+    modelId: model.id,
+  });
+  const nextModel = getComparisonModels(existingRecord).find(
+    (candidate) =>
+      candidate.id !== model.id &&
+      !getModelEvaluation(existingRecord, candidate.id).modelScores
+  );
+
+  const updatedRecord = await ctx.taskRepository.update(existingRecord.id, {
+    ...buildModelEvaluationUpdate(existingRecord, model.id, {
+      modelScores,
+      // Undefined clears reasoning left from an earlier grading
+      modelReasoning: Object.keys(modelReasoning).length
+        ? JSON.stringify(modelReasoning)
+        : undefined,
+      alignment: alignment.percentage,
+      misaligned: JSON.stringify(alignment.misalignedItems),
+      alignmentMetrics: JSON.stringify(alignment.metrics),
+      weightedScores: JSON.stringify(alignment.weightedScores),
+      ...(graderRun && { graderRun: JSON.stringify(graderRun) }),
+    }),
+    Status: nextStatus,
+    ...(nextStatus === "In_Review" && {
+      Review_Thread: addReviewEntry(existingRecord, {
+        action: "submitted",
+        authorEmail: existingRecord.TrainerEmail,
+      }),
+      Submitted_For_Review_At: new Date().toISOString(),
+      Review_Return_Stage: "",
+    }),
+  });
+
+  // The trainer's part is done once the task reaches review
+  const completed = nextStatus === "In_Review";
+
+  console.log(
+    completed ? "Task submitted for review:" : "Comparison evaluation saved:",
+    existingRecord.TaskID,
+    `${model.label} Alignment:`,
+    alignment.percentage + "%"
+  );
+
+  return {
+    success: true,
+    message: completed
+      ? `All evaluations done and sent to a lead for review. ${model.label} alignment: ${alignment.percentage}%`
+      : `${model.label} alignment: ${alignment.percentage}% - Ready for ${nextModel?.label} evaluation.`,
+    alignment: alignment.percentage,
+    primaryAlignment: getPrimaryAlignment(existingRecord) || 0,
+    nextModelId: nextModel?.id,
+    completed,
+    task: updatedRecord,
+  };
 }
 
-// Initialize field manager
-const fieldManager = new AirtableFieldManager(
-  process.env.AIRTABLE_BASE_ID!,
-  process.env.AIRTABLE_TABLE_ID!,
-  process.env.AIRTABLE_API_KEY!
-);
+// Primary and comparison models share the evaluation pages but not the workflow events
+function saveModelEval(
+  ctx: EvaluationContext,
+  existingRecord: Task,
+  model: TaskModel,
+  modelScores: string,
+  modelReasoning: ModelReasoning = {},
+  graderRun?: GraderRun
+) {
+  return isPrimaryModel(existingRecord, model.id)
+    ? savePrimaryModelEval(
+        ctx,
+        existingRecord,
+        model,
+        modelScores,
+        modelReasoning,
+        graderRun
+      )
+    : saveComparisonModelEval(
+        ctx,
+        existingRecord,
+        model,
+        modelScores,
+        modelReasoning,
+        graderRun
+      );
+}
 
-// function base64ToBuffer(base64Data: string): Buffer {
-//   return Buffer.from(base64Data, "base64");
-// }
+function getModelEvalEvent(task: Task, modelId: string): TaskWorkflowEvent {
+  return isPrimaryModel(task, modelId)
+    ? "submitPrimaryModelEval"
+    : "submitComparisonModelEval";
+}
 
 export const tasksRouter = router({
   createFolders: protectedProcedure
     .input(
       z.object({
         taskId: z.string().optional(),
+        models: z
+          .array(TaskModelSchema)
+          .min(MIN_TASK_MODELS)
+          .max(MAX_TASK_MODELS),
       })
     )
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     .mutation(async ({ input, ctx }) => {
       try {
         const taskId = generateTaskId();
         console.log("Task id generated during folder creation ", taskId);
         const userEmail = ctx.session.user.email as string;
 
-        // Check for existing incomplete tasks
-        const existingTasks = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TrainerEmail} = '${userEmail}', {Status} != 'Completed')`,
-            maxRecords: 1,
-          })
-          .all();
-
-        if (existingTasks.length > 0) {
-          const incompleteTask = existingTasks[0];
-          const taskStatus = getStatusDisplayInfo(incompleteTask.fields.Status);
+        await assertTaskQuota(ctx, userEmail);
 
-          throw new TRPCError({
-            code: "CONFLICT",
-            message: `INCOMPLETE_TASK_EXISTS:${incompleteTask.fields.TaskID}:${incompleteTask.fields.Status}:${taskStatus.label}`,
-          });
-        }
-
-        const serviceAccountKey = {
-          type: "service_account",
-          project_id: process.env.GOOGLE_PROJECT_ID,
-          private_key_id: process.env.GOOGLE_PRIVATE_KEY_ID,
-          private_key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
-          client_email: process.env.GOOGLE_CLIENT_EMAIL,
-          client_id: process.env.GOOGLE_CLIENT_ID,
-          auth_uri: "https://accounts.google.com/o/oauth2/auth",
-          token_uri: "https://oauth2.googleapis.com/token",
-          auth_provider_x509_cert_url:
-            "https://www.googleapis.com/oauth2/v1/certs",
-          client_x509_cert_url: process.env.GOOGLE_CLIENT_CERT_URL,
-          universe_domain: "googleapis.com",
-        };
-
-        const driveService = new GoogleDriveService(serviceAccountKey);
+        const driveService = new GoogleDriveService(getServiceAccountKey());
         const BASE_FOLDER_ID = process.env.GOOGLE_DRIVE_BASE_FOLDER_ID!;
 
         console.log("Creating Google Drive folders for task:", taskId);
         const folderResult = await driveService.createTaskFolder(
           taskId,
-          BASE_FOLDER_ID
+          BASE_FOLDER_ID,
+          input.models
         );
 
         // await driveService.setFolderPermissions(
@@ -209,6 +500,9 @@ export const tasksRouter = router({
         };
       } catch (error) {
         console.error("Error creating folders:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: "Failed to create task folders",
@@ -224,21 +518,17 @@ export const tasksRouter = router({
 
         const userEmail = ctx.session.user.email as string;
 
-        // Check for existing incomplete tasks
-        const existingTasks = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TrainerEmail} = '${userEmail}', {Status} != 'Completed')`,
-            maxRecords: 1,
-          })
-          .all();
-
-        if (existingTasks.length > 0) {
-          const incompleteTask = existingTasks[0];
-          const taskStatus = getStatusDisplayInfo(incompleteTask.fields.Status);
+        await assertTaskQuota(ctx, userEmail);
 
+        // New tasks can only use active catalog sectors
+        const sector = await findCatalogSector(
+          ctx.sectorRepository,
+          input.ProfessionalSector
+        );
+        if (!sector || sector.archived) {
           throw new TRPCError({
-            code: "CONFLICT",
-            message: `INCOMPLETE_TASK_EXISTS:${incompleteTask.fields.TaskID}:${incompleteTask.fields.Status}:${taskStatus.label}`,
+            code: "BAD_REQUEST",
+            message: `"${input.ProfessionalSector}" is not an active professional sector.`,
           });
         }
 
@@ -253,8 +543,11 @@ export const tasksRouter = router({
           Sources: `https://drive.google.com/drive/folders/${input.taskFolderId}`,
           OpenSourceConfirmed: input.OpenSourceConfirmed,
           LicenseNotes: input.LicenseNotes || "",
-          GPTResponse: input.GPTResponse,
-          GeminiResponse: input.GeminiResponse,
+          candidates: input.candidates.map(({ id, label, response }) => ({
+            id,
+            label,
+            response,
+          })),
         };
 
         const finalAirtableData = toAirtableFormat(taskData);
@@ -262,7 +555,7 @@ export const tasksRouter = router({
         try {
           console.log("Creating record in Airtable:", taskId);
 
-          const createdTask = await ctx.airtable.tasksTable.create(
+          const createdTask = await ctx.taskRepository.create(
             finalAirtableData
           );
 
@@ -273,6 +566,12 @@ export const tasksRouter = router({
             });
           }
 
+          await discardDraft(
+            ctx.draftRepository,
+            { taskId: NEW_TASK_DRAFT_ID, stage: "task_creation" },
+            userEmail
+          );
+
           console.log("Task created successfully:", createdTask);
 
           return {
@@ -280,8 +579,12 @@ export const tasksRouter = router({
             taskId: taskId,
             folderUrl: `https://drive.google.com/drive/folders/${input.taskFolderId}`,
             requestFileCount: input.requestFiles.length,
-            responseGeminiFileCount: input.responseGeminiFiles.length,
-            responseGptFileCount: input.responseGptFiles.length,
+            responseFileCounts: Object.fromEntries(
+              input.candidates.map((candidate) => [
+                candidate.id,
+                candidate.files.length,
+              ])
+            ),
             success: true,
           };
         } catch (validationError) {
@@ -330,23 +633,8 @@ export const tasksRouter = router({
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     .query(async ({ input, ctx }) => {
       try {
-        const serviceAccountKey = {
-          type: "service_account",
-          project_id: process.env.GOOGLE_PROJECT_ID,
-          private_key_id: process.env.GOOGLE_PRIVATE_KEY_ID,
-          private_key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
-          client_email: process.env.GOOGLE_CLIENT_EMAIL,
-          client_id: process.env.GOOGLE_CLIENT_ID,
-          auth_uri: "https://accounts.google.com/o/oauth2/auth",
-          token_uri: "https://oauth2.googleapis.com/token",
-          auth_provider_x509_cert_url:
-            "https://www.googleapis.com/oauth2/v1/certs",
-          client_x509_cert_url: process.env.GOOGLE_CLIENT_CERT_URL,
-          universe_domain: "googleapis.com",
-        };
-
         const auth = new google.auth.GoogleAuth({
-          credentials: serviceAccountKey,
+          credentials: getServiceAccountKey(),
           scopes: ["https://www.googleapis.com/auth/drive"],
         });
 
@@ -394,6 +682,85 @@ export const tasksRouter = router({
       }
     }),
 
+  // Step 1 (assisted): Draft a V1 rubric with the configured LLM for the trainer to review
+  draftRubricV1: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const userEmail = ctx.session.user.email;
+
+        const existingRecord = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail as string
+        );
+
+        if (!existingRecord) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Task not found or access denied.",
+          });
+        }
+
+        assertTransitionAllowed("submitRubricV1", { task: existingRecord });
+
+        if (!ctx.rubricDrafter) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "Rubric drafting is not configured.",
+          });
+        }
+
+        // Nothing is saved; the draft only pre-fills the V1 editor
+        // The rubric is built around the primary model's response
+        const draft = await ctx.rubricDrafter.draft({
+          Prompt: existingRecord.Prompt,
+          Response: getModelResponse(
+            existingRecord,
+            getPrimaryModel(existingRecord).id
+          ),
+        });
+
+        console.log(
+          "Rubric V1 drafted:",
+          input.taskId,
+          "Items:",
+          draft.rubricCount,
+          "Attempts:",
+          draft.attempts
+        );
+
+        return {
+          success: true,
+          message: `Drafted ${draft.rubricCount} rubric items. Review them before submitting.`,
+          draft,
+        };
+      } catch (error) {
+        console.error("Failed to draft rubric V1:", error);
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        if (error instanceof RubricDraftError) {
+          throw new TRPCError({
+            code: "BAD_GATEWAY",
+            message: error.message,
+          });
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to draft rubric.",
+        });
+      }
+    }),
+
+  // Whether rubric drafting is available, for the V1 rubric page
+  rubricDrafterStatus: protectedProcedure.query(({ ctx }) => {
+    return {
+      enabled: !!ctx.rubricDrafter,
+      provider: ctx.rubricDrafter?.providerName,
+      model: ctx.rubricDrafter?.model,
+    };
+  }),
+
   // Step 1: Update Rubric V1
   updateRubricV1: protectedProcedure
     .input(RubricV1InputSchema)
@@ -436,52 +803,38 @@ export const tasksRouter = router({
         }
 
         // Find the task
-        const existingRecords = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TaskID} = '${input.taskId}', {TrainerEmail} = '${userEmail}')`,
-            maxRecords: 1,
-          })
-          .all();
+        const existingRecord = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail as string
+        );
 
-        if (existingRecords.length === 0) {
+        if (!existingRecord) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Task not found or access denied.",
           });
         }
 
-        const existingRecord = existingRecords[0];
-
         // Validate current status
-        if (
-          !["Task_Creation", "Rubric_V1"].includes(existingRecord.fields.Status)
-        ) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Task is not in the correct state for V1 rubric creation.",
-          });
-        }
+        assertTransitionAllowed("submitRubricV1", { task: existingRecord });
 
         // Update the record with new format
-        const updatedRecords = await ctx.airtable.tasksTable.update([
+        const updatedRecord = await ctx.taskRepository.update(
+          existingRecord.id,
           {
-            id: existingRecord.id,
-            fields: {
-              Rubric_V1: input.rubricV1,
-              Final_Rubric: input.rubricV1,
-              Status: "Rubric_V1" as TaskStatus,
-            },
-          },
-        ]);
-
-        const updatedRecord = updatedRecords[0];
-
-        if (!updatedRecord) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to update task record.",
-          });
-        }
+            Rubric_V1: input.rubricV1,
+            Final_Rubric: input.rubricV1,
+            Status: resolveTransition("submitRubricV1", {
+              task: existingRecord,
+            }),
+          }
+        );
+
+        await discardDraft(
+          ctx.draftRepository,
+          { taskId: input.taskId, stage: "rubric_v1" },
+          userEmail as string
+        );
 
         console.log(
           "V1 Rubric saved (new format):",
@@ -493,10 +846,7 @@ export const tasksRouter = router({
         return {
           success: true,
           message: `V1 Rubric saved successfully with ${validation.rubricCount} items in new format!`,
-          task: {
-            id: updatedRecord.id,
-            ...updatedRecord.fields,
-          },
+          task: updatedRecord,
         };
       } catch (error) {
         console.error("Failed to update V1 rubric:", error);
@@ -552,36 +902,33 @@ export const tasksRouter = router({
           });
         }
 
-        const existingRecords = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TaskID} = '${input.taskId}', {TrainerEmail} = '${userEmail}')`,
-            maxRecords: 1,
-          })
-          .all();
+        const existingRecord = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail as string
+        );
 
-        if (existingRecords.length === 0) {
+        if (!existingRecord) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Task not found or access denied.",
           });
         }
 
-        const existingRecord = existingRecords[0];
+        const policy = await getSectorPolicy(
+          ctx.sectorPolicyRepository,
+          existingRecord.ProfessionalSector
+        );
 
-        // Determine if this is V2 creation or iteration enhancement
-        const isCreatingV2 = existingRecord.fields.Status === "Rubric_V1";
-        const isIterating = existingRecord.fields.Status === "Rubric_Enhancing";
+        assertTransitionAllowed("submitRubricEnhanced", {
+          task: existingRecord,
+          policy,
+        });
 
-        if (!isCreatingV2 && !isIterating) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Task is not in the correct state for rubric enhancement.",
-          });
-        }
+        // Determine if this is V2 creation or iteration enhancement
+        const isCreatingV2 = existingRecord.Status === "Rubric_V1";
 
         // Validate target version
-        const currentVersion =
-          existingRecord.fields.Current_Rubric_Version || 1;
+        const currentVersion = existingRecord.Current_Rubric_Version || 1;
         const expectedTargetVersion = isCreatingV2 ? 2 : currentVersion + 1;
 
         if (input.targetVersion !== expectedTargetVersion) {
@@ -591,19 +938,40 @@ export const tasksRouter = router({
           });
         }
 
-        // Ensure the target version field exists
-        await fieldManager.ensureRubricFieldsExist(input.targetVersion);
+        // The key map must point from the new rubric's keys to the current one's
+        if (input.keyMap) {
+          const newKeys = Object.keys(JSON.parse(input.rubricContent));
+          const previousRubric = parseRubricContent(
+            getCurrentRubricContent(existingRecord) || "{}"
+          );
+          const previousKeys = Object.keys(previousRubric || {});
+          const invalidKeys = Object.entries(input.keyMap).filter(
+            ([key, sources]) =>
+              !newKeys.includes(key) ||
+              sources.some((source) => !previousKeys.includes(source))
+          );
+          if (invalidKeys.length > 0) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `Rubric key map does not match the rubric versions: ${invalidKeys
+                .map(([key]) => key)
+                .join(", ")}`,
+            });
+          }
+        }
+
+        // Ensures the target version field exists, once the input is valid
+        await runTransitionEffects("submitRubricEnhanced", {
+          task: existingRecord,
+          repository: ctx.taskRepository,
+        });
 
         const rubricFieldName = getRubricFieldName(input.targetVersion);
 
-        // Determine next status
-        let nextStatus: TaskStatus;
-        if (isCreatingV2) {
-          nextStatus = "Rubric_V2";
-        } else {
-          // For iterations, we go back to enhancing mode until evaluation
-          nextStatus = "Rubric_Enhancing";
-        }
+        const nextStatus = resolveTransition("submitRubricEnhanced", {
+          task: existingRecord,
+          policy,
+        });
 
         // Update the record with the new version
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -614,21 +982,26 @@ export const tasksRouter = router({
           Status: nextStatus,
         };
 
-        const updatedRecords = await ctx.airtable.tasksTable.update([
-          {
-            id: existingRecord.id,
-            fields: updateFields,
-          },
-        ]);
+        // A version resaved without a key map must not keep a stale one
+        const keyMaps = parseRubricKeyMaps(existingRecord);
+        if (input.keyMap || keyMaps[input.targetVersion]) {
+          delete keyMaps[input.targetVersion];
+          if (input.keyMap) {
+            keyMaps[input.targetVersion] = input.keyMap;
+          }
+          updateFields.Rubric_Key_Maps = JSON.stringify(keyMaps);
+        }
 
-        const updatedRecord = updatedRecords[0];
+        const updatedRecord = await ctx.taskRepository.update(
+          existingRecord.id,
+          updateFields
+        );
 
-        if (!updatedRecord) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to update task record.",
-          });
-        }
+        await discardDraft(
+          ctx.draftRepository,
+          { taskId: input.taskId, stage: "rubric_enhance" },
+          userEmail as string
+        );
 
         console.log(
           `V${input.targetVersion} Rubric saved (new format):`,
@@ -646,10 +1019,7 @@ export const tasksRouter = router({
           } successfully with ${validation.rubricCount} items in new format!`,
           version: input.targetVersion,
           isCreatingV2,
-          task: {
-            id: updatedRecord.id,
-            ...updatedRecord.fields,
-          },
+          task: updatedRecord,
         };
       } catch (error) {
         console.error("Failed to update enhanced rubric:", error);
@@ -663,42 +1033,46 @@ export const tasksRouter = router({
       }
     }),
 
-  // Step 3: Human Evaluation - Gemini
-  updateHumanEvalGemini: protectedProcedure
+  // Steps 3 and 5: Human Evaluation of one model's response
+  updateHumanEval: protectedProcedure
     .input(HumanEvalInputSchema)
     .mutation(async ({ input, ctx }) => {
       try {
         const userEmail = ctx.session.user.email;
 
-        const existingRecords = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TaskID} = '${input.taskId}', {TrainerEmail} = '${userEmail}')`,
-            maxRecords: 1,
-          })
-          .all();
+        const existingRecord = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail as string
+        );
 
-        if (existingRecords.length === 0) {
+        if (!existingRecord) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Task not found or access denied.",
           });
         }
 
-        const existingRecord = existingRecords[0];
+        const model = getEvaluatedModel(existingRecord, input.modelId);
+        const event: TaskWorkflowEvent = isPrimaryModel(
+          existingRecord,
+          model.id
+        )
+          ? "submitPrimaryHumanEval"
+          : "submitComparisonHumanEval";
+
+        const policy = await getSectorPolicy(
+          ctx.sectorPolicyRepository,
+          existingRecord.ProfessionalSector
+        );
 
-        if (
-          !["Rubric_V2", "Rubric_Enhancing", "Human_Eval_Gemini"].includes(
-            existingRecord.fields.Status
-          )
-        ) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Task is not in the correct state for human evaluation.",
-          });
-        }
+        assertTransitionAllowed(event, {
+          task: existingRecord,
+          policy,
+          modelId: model.id,
+        });
 
         // Get current rubric for validation
-        const currentRubric = getCurrentRubricContent(existingRecord.fields);
+        const currentRubric = getCurrentRubricContent(existingRecord);
         if (!currentRubric) {
           throw new TRPCError({
             code: "BAD_REQUEST",
@@ -720,435 +1094,170 @@ export const tasksRouter = router({
           });
         }
 
-        const updatedRecords = await ctx.airtable.tasksTable.update([
-          {
-            id: existingRecord.id,
-            fields: {
-              Human_Eval_Gemini: input.humanScores,
-              Status: "Human_Eval_Gemini" as TaskStatus,
-            },
-          },
-        ]);
-
-        const updatedRecord = updatedRecords[0];
-
-        if (!updatedRecord) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to update task record.",
-          });
-        }
-
-        console.log("Human evaluation for Gemini saved:", input.taskId);
-
-        return {
-          success: true,
-          message: "Human evaluation for Gemini saved successfully!",
-          task: {
-            id: updatedRecord.id,
-            ...updatedRecord.fields,
-          },
-        };
-      } catch (error) {
-        console.error("Failed to save human evaluation for Gemini:", error);
-        if (error instanceof TRPCError) {
-          throw error;
-        }
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to save human evaluation for Gemini.",
-        });
-      }
-    }),
-
-  // Step 4: Model Evaluation - Gemini (with alignment calculation)
-  updateModelEvalGemini: protectedProcedure
-    .input(ModelEvalInputSchema)
-    .mutation(async ({ input, ctx }) => {
-      try {
-        const userEmail = ctx.session.user.email;
-
-        const existingRecords = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TaskID} = '${input.taskId}', {TrainerEmail} = '${userEmail}')`,
-            maxRecords: 1,
-          })
-          .all();
-
-        if (existingRecords.length === 0) {
-          throw new TRPCError({
-            code: "NOT_FOUND",
-            message: "Task not found or access denied.",
-          });
-        }
-
-        const existingRecord = existingRecords[0];
-
-        if (
-          !["Human_Eval_Gemini", "Model_Eval_Gemini"].includes(
-            existingRecord.fields.Status
-          )
-        ) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Task is not in the correct state for model evaluation.",
-          });
-        }
-
-        // Get current rubric in new format and validate
-        const currentRubricContent = getCurrentRubricContent(
-          existingRecord.fields
+        const rationales = cleanItemRationales(
+          input.rationales ?? {},
+          Object.keys(JSON.parse(input.humanScores))
         );
-        if (!currentRubricContent || !existingRecord.fields.Human_Eval_Gemini) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Current rubric and Human evaluation are required.",
-          });
-        }
 
-        // Validate that rubric is in new format
-        try {
-          const rubric = parseRubricContent(currentRubricContent);
-          if (!rubric) {
-            throw new TRPCError({
-              code: "BAD_REQUEST",
-              message:
-                "Current rubric is not in the correct new format with question/tag structure.",
-            });
+        const updatedRecord = await ctx.taskRepository.update(
+          existingRecord.id,
+          {
+            ...buildModelEvaluationUpdate(existingRecord, model.id, {
+              humanScores: input.humanScores,
+              // Undefined clears notes left from an earlier submission
+              humanRationales: Object.keys(rationales).length
+                ? JSON.stringify(rationales)
+                : undefined,
+            }),
+            Status: resolveTransition(event, {
+              task: existingRecord,
+              policy,
+              modelId: model.id,
+            }),
           }
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        } catch (error) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Failed to parse current rubric - must be in new format.",
-          });
-        }
-
-        const scoreValidation = validateEvaluationScores(
-          input.modelScores,
-          currentRubricContent
         );
-        if (!scoreValidation.isValid) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: `Invalid evaluation scores: ${scoreValidation.errors.join(
-              ", "
-            )}`,
-          });
-        }
-
-        //  Calculate alignment using new format
-        const alignment = calculateAlignment(
-          existingRecord.fields.Human_Eval_Gemini,
-          input.modelScores,
-          currentRubricContent
-        );
-
-        const currentVersion =
-          existingRecord.fields.Current_Rubric_Version || 1;
-
-        // Update alignment history
-        const updatedHistory = addAlignmentToHistory(
-          existingRecord.fields,
-          currentVersion,
-          alignment.percentage,
-          alignment.misalignedItems.length
-        );
-
-        // Determine next status WITHOUT incrementing version yet
-        let nextStatus: TaskStatus;
-
-        if (alignment.percentage >= 80) {
-          nextStatus = "Model_Eval_Gemini";
-        } else {
-          nextStatus = "Rubric_Enhancing";
-        }
-
-        // Ensure the next version field exists (for future use)
-        const nextVersion = currentVersion + 1;
-        await fieldManager.ensureRubricFieldsExist(nextVersion);
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const updateFields: any = {
-          Model_Eval_Gemini: input.modelScores,
-          Alignment_Gemini: alignment.percentage,
-          Misaligned_Gemini: JSON.stringify(alignment.misalignedItems),
-          Alignment_History: updatedHistory,
-          Status: nextStatus,
-        };
-
-        const updatedRecords = await ctx.airtable.tasksTable.update([
-          {
-            id: existingRecord.id,
-            fields: updateFields,
-          },
-        ]);
-
-        const updatedRecord = updatedRecords[0];
 
-        if (!updatedRecord) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to update task record.",
-          });
-        }
-
-        console.log(
-          "Model evaluation for Gemini saved (new format):",
-          input.taskId,
-          "Alignment:",
-          alignment.percentage + "%",
-          "Current version:",
-          currentVersion,
-          "Next version will be:",
-          nextVersion
+        await discardDraft(
+          ctx.draftRepository,
+          { taskId: input.taskId, stage: "human_eval", modelId: model.id },
+          userEmail as string
         );
 
-        const message =
-          alignment.percentage >= 80
-            ? `Model evaluation completed! Alignment: ${alignment.percentage}% - Ready for GPT evaluation.`
-            : `Alignment: ${alignment.percentage}%. Need to enhance V${currentVersion} to V${nextVersion}.`;
+        console.log(`Human evaluation for ${model.label} saved:`, input.taskId);
 
         return {
           success: true,
-          message,
-          alignment: alignment.percentage,
-          misalignedCount: alignment.misalignedItems.length,
-          needsRevision: alignment.percentage < 80,
-          nextVersion: nextVersion,
-          currentVersion: currentVersion,
-          task: {
-            id: updatedRecord.id,
-            ...updatedRecord.fields,
-          },
+          message: `Human evaluation for ${model.label} saved successfully!`,
+          task: updatedRecord,
         };
       } catch (error) {
-        console.error("Failed to save model evaluation for Gemini:", error);
+        console.error("Failed to save human evaluation:", error);
         if (error instanceof TRPCError) {
           throw error;
         }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to save model evaluation for Gemini.",
+          message: "Failed to save human evaluation.",
         });
       }
     }),
 
-  // Step 5: Human Evaluation - GPT
-  updateHumanEvalGPT: protectedProcedure
-    .input(HumanEvalInputSchema)
+  // Steps 4 and 6: Model Evaluation of one model's response (with alignment calculation)
+  updateModelEval: protectedProcedure
+    .input(ModelEvalInputSchema)
     .mutation(async ({ input, ctx }) => {
       try {
         const userEmail = ctx.session.user.email;
 
-        const existingRecords = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TaskID} = '${input.taskId}', {TrainerEmail} = '${userEmail}')`,
-            maxRecords: 1,
-          })
-          .all();
+        const existingRecord = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail as string
+        );
 
-        if (existingRecords.length === 0) {
+        if (!existingRecord) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Task not found or access denied.",
           });
         }
 
-        const existingRecord = existingRecords[0];
-
-        if (existingRecord.fields.Status !== "Model_Eval_Gemini") {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Task is not in the correct state for GPT evaluation.",
-          });
-        }
-
-        if (
-          !existingRecord.fields.Alignment_Gemini ||
-          existingRecord.fields.Alignment_Gemini < 80
-        ) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message:
-              "Gemini alignment must be ≥80% before proceeding to GPT evaluation.",
-          });
-        }
+        const model = getEvaluatedModel(existingRecord, input.modelId);
 
-        const currentRubric = getCurrentRubricContent(existingRecord.fields);
-        if (!currentRubric) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Current rubric not found.",
-          });
-        }
+        assertTransitionAllowed(getModelEvalEvent(existingRecord, model.id), {
+          task: existingRecord,
+          modelId: model.id,
+        });
 
-        const scoreValidation = validateEvaluationScores(
-          input.humanScores,
-          currentRubric
+        return await saveModelEval(
+          ctx,
+          existingRecord,
+          model,
+          input.modelScores,
+          input.modelReasoning
         );
-        if (!scoreValidation.isValid) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: `Invalid evaluation scores: ${scoreValidation.errors.join(
-              ", "
-            )}`,
-          });
-        }
-
-        const updatedRecords = await ctx.airtable.tasksTable.update([
-          {
-            id: existingRecord.id,
-            fields: {
-              Human_Eval_GPT: input.humanScores,
-              Status: "Human_Eval_GPT" as TaskStatus,
-            },
-          },
-        ]);
-
-        const updatedRecord = updatedRecords[0];
-
-        if (!updatedRecord) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to update task record.",
-          });
-        }
-
-        console.log("Human evaluation for GPT saved:", input.taskId);
-
-        return {
-          success: true,
-          message: "Human evaluation for GPT saved successfully!",
-          task: {
-            id: updatedRecord.id,
-            ...updatedRecord.fields,
-          },
-        };
       } catch (error) {
-        console.error("Failed to save human evaluation for GPT:", error);
+        console.error("Failed to save model evaluation:", error);
         if (error instanceof TRPCError) {
           throw error;
         }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to save human evaluation for GPT.",
+          message: "Failed to save model evaluation.",
         });
       }
     }),
 
-  // Step 6: Model Evaluation - GPT (final step)
-  updateModelEvalGPT: protectedProcedure
-    .input(ModelEvalInputSchema)
+  // Steps 4 and 6 (automated), graded by the configured LLM grader instead of pasted JSON
+  autoGradeModelEval: protectedProcedure
+    .input(z.object({ taskId: z.string(), modelId: z.string() }))
     .mutation(async ({ input, ctx }) => {
       try {
         const userEmail = ctx.session.user.email;
-        const existingRecords = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TaskID} = '${input.taskId}', {TrainerEmail} = '${userEmail}')`,
-            maxRecords: 1,
-          })
-          .all();
 
-        if (existingRecords.length === 0) {
+        const existingRecord = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail as string
+        );
+
+        if (!existingRecord) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Task not found or access denied.",
           });
         }
 
-        const existingRecord = existingRecords[0];
+        const model = getEvaluatedModel(existingRecord, input.modelId);
 
-        if (
-          !["Human_Eval_GPT", "Model_Eval_GPT"].includes(
-            existingRecord.fields.Status
-          )
-        ) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message:
-              "Task is not in the correct state for GPT model evaluation.",
-          });
-        }
-
-        const currentRubric = getCurrentRubricContent(existingRecord.fields);
-        if (!currentRubric || !existingRecord.fields.Human_Eval_GPT) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message:
-              "Current rubric and Human evaluation for GPT are required.",
-          });
-        }
-
-        const scoreValidation = validateEvaluationScores(
-          input.modelScores,
-          currentRubric
-        );
-        if (!scoreValidation.isValid) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: `Invalid evaluation scores: ${scoreValidation.errors.join(
-              ", "
-            )}`,
-          });
-        }
-
-        const alignment = calculateAlignment(
-          existingRecord.fields.Human_Eval_GPT,
-          input.modelScores,
-          currentRubric
-        );
+        assertTransitionAllowed(getModelEvalEvent(existingRecord, model.id), {
+          task: existingRecord,
+          modelId: model.id,
+        });
 
-        const updatedRecords = await ctx.airtable.tasksTable.update([
-          {
-            id: existingRecord.id,
-            fields: {
-              Model_Eval_GPT: input.modelScores,
-              Alignment_GPT: alignment.percentage,
-              Misaligned_GPT: JSON.stringify(alignment.misalignedItems),
-              Status: "Completed" as TaskStatus,
-            },
-          },
-        ]);
-
-        const updatedRecord = updatedRecords[0];
-
-        if (!updatedRecord) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to update task record.",
-          });
-        }
+        const result = await gradeResponse(ctx, existingRecord, model);
 
         console.log(
-          "Task completed:",
+          `Automated grading for ${model.label} completed:`,
           input.taskId,
-          "GPT Alignment:",
-          alignment.percentage + "%"
+          "Provider:",
+          result.provider,
+          "Attempts:",
+          result.attempts.length
         );
 
-        return {
-          success: true,
-          message: `Task completed successfully! GPT alignment: ${alignment.percentage}%`,
-          geminiAlignment: existingRecord.fields.Alignment_Gemini || 0,
-          gptAlignment: alignment.percentage,
-          task: {
-            id: updatedRecord.id,
-            ...updatedRecord.fields,
-          },
-        };
+        return await saveModelEval(
+          ctx,
+          existingRecord,
+          model,
+          result.scores,
+          result.reasoning,
+          {
+            provider: result.provider,
+            model: result.model,
+            gradedAt: result.gradedAt,
+            attempts: result.attempts,
+          }
+        );
       } catch (error) {
-        console.error("Failed to complete task:", error);
+        console.error("Failed to auto-grade model evaluation:", error);
         if (error instanceof TRPCError) {
           throw error;
         }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to complete task.",
+          message: "Failed to auto-grade model evaluation.",
         });
       }
     }),
 
+  // Whether automated grading is available, for the model evaluation pages
+  graderStatus: protectedProcedure.query(({ ctx }) => {
+    return {
+      enabled: !!ctx.grader,
+      provider: ctx.grader?.providerName,
+      model: ctx.grader?.model,
+    };
+  }),
+
   // Get all Tasks for requested trainer
   getMyTasks: protectedProcedure.query(async ({ ctx }) => {
     try {
@@ -1156,25 +1265,20 @@ export const tasksRouter = router({
 
       console.log("Fetching tasks for user:", userEmail);
 
-      const records = await ctx.airtable.tasksTable
-        .select({
-          filterByFormula: `{TrainerEmail} = '${userEmail}'`,
-          sort: [{ field: "Created", direction: "desc" }],
-        })
-        .all();
+      const records = await ctx.taskRepository.listByOwner(userEmail as string);
 
       const tasks: TaskSummary[] = records.map((record) => ({
         id: record.id,
-        TaskID: record.fields.TaskID,
-        Prompt: record.fields.Prompt,
-        ProfessionalSector: record.fields.ProfessionalSector,
-        Status: record.fields.Status,
+        TaskID: record.TaskID,
+        Prompt: record.Prompt,
+        ProfessionalSector: record.ProfessionalSector,
+        Status: record.Status,
         Progress: calculateTaskProgress(
-          record.fields.Status,
-          record.fields.Current_Rubric_Version
+          record.Status,
+          record.Current_Rubric_Version
         ),
-        TrainerEmail: record.fields.TrainerEmail,
-        Created: record.fields.Created,
+        TrainerEmail: record.TrainerEmail,
+        Created: record.Created,
       }));
 
       return tasks;
@@ -1196,25 +1300,26 @@ export const tasksRouter = router({
 
         console.log("Fetching task:", input.taskId);
 
-        const records = await ctx.airtable.tasksTable
-          .select({
-            filterByFormula: `AND({TaskID} = '${input.taskId}', {TrainerEmail} = '${userEmail}')`,
-            maxRecords: 1,
-          })
-          .all();
+        let record = await ctx.taskRepository.findOwnedTask(
+          input.taskId,
+          userEmail as string
+        );
 
-        if (records.length === 0) {
+        // Leads and admins can open any trainer's task read-only for review
+        if (!record) {
+          if (await isReviewer(ctx)) {
+            record = await ctx.taskRepository.findByTaskId(input.taskId);
+          }
+        }
+
+        if (!record) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Task not found or access denied.",
           });
         }
 
-        const record = records[0];
-        const task: Task = {
-          id: record.id,
-          ...record.fields,
-        };
+        const task: Task = record;
 
         return task;
       } catch (error) {
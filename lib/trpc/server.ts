@@ -1,24 +1,28 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import { ZodError } from "zod";
-import Airtable from "airtable";
-import { AirtableTaskRecord } from "../schemas/task";
 import { auth0 } from "@/lib/auth0";
+import { createTaskRepository } from "@/lib/repositories/task-repository";
+import { createSectorPolicyRepository } from "@/lib/repositories/sector-policy-repository";
+import { createSectorRepository } from "@/lib/repositories/sector-repository";
+import { createDraftRepository } from "@/lib/repositories/draft-repository";
+import { createAnnotationRepository } from "@/lib/repositories/annotation-repository";
+import { createRubricTemplateRepository } from "@/lib/repositories/rubric-template-repository";
+import { createTrainerQuotaRepository } from "@/lib/repositories/trainer-quota-repository";
+import { createGrader } from "@/lib/services/grader/llm-grader";
+import { createRubricDrafter } from "@/lib/services/rubric-drafter/rubric-drafter";
 
-if (!process.env.AIRTABLE_API_KEY) {
-  throw new Error("AIRTABLE_API_KEY environment variable is required");
-}
-
-if (!process.env.AIRTABLE_BASE_ID) {
-  throw new Error("AIRTABLE_BASE_ID environment variable is required");
-}
-
-const AirtableBase = new Airtable({
-  apiKey: process.env.AIRTABLE_API_KEY,
-}).base(process.env.AIRTABLE_BASE_ID);
-
-const tasksTable = AirtableBase<AirtableTaskRecord>(
-  process.env.AIRTABLE_TABLE_NAME || "Operator"
-);
+// Backend is chosen by TASK_STORAGE_BACKEND ("airtable" by default)
+const taskRepository = createTaskRepository();
+const sectorPolicyRepository = createSectorPolicyRepository();
+const sectorRepository = createSectorRepository();
+const draftRepository = createDraftRepository();
+const annotationRepository = createAnnotationRepository();
+const rubricTemplateRepository = createRubricTemplateRepository();
+const trainerQuotaRepository = createTrainerQuotaRepository();
+// Null unless GRADER_PROVIDER is set
+const grader = createGrader();
+// Null unless DRAFTER_PROVIDER is set
+const rubricDrafter = createRubricDrafter();
 
 // Create context for tRPC
 export async function createTRPCContext() {
@@ -26,9 +30,15 @@ export async function createTRPCContext() {
   return {
     session,
     userId: session?.user?.sub,
-    airtable: {
-      tasksTable,
-    },
+    taskRepository,
+    sectorPolicyRepository,
+    sectorRepository,
+    draftRepository,
+    annotationRepository,
+    rubricTemplateRepository,
+    trainerQuotaRepository,
+    grader,
+    rubricDrafter,
   };
 }
 
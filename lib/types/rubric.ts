@@ -18,8 +18,7 @@ export interface RubricItemInput {
 // Task interface remains the same
 export interface Task {
   Prompt: string;
-  GeminiResponse: string;
-  GPTResponse: string;
+  Candidate_Responses: string; // JSON CandidateResponse[]
   TaskID: string;
   Status: string;
 }
@@ -31,6 +30,7 @@ export interface MisalignedItem {
   tag: string;
   human_score: string;
   model_score: string;
+  model_reasoning?: string;
 }
 
 //  Updated RubricItemSchema with tag validation
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import type { RubricQuestion } from "@/lib/utils/evaluation-utils";
+import {
+  calculateModelAgreement,
+  cohensKappa,
+  fleissKappa,
+  getKappaLabel,
+  Rater,
+} from "./agreement";
+
+type Vote = "Yes" | "No";
+
+function votes(pattern: string): Vote[] {
+  return pattern.split("").map((v) => (v === "Y" ? "Yes" : "No"));
+}
+
+const QUESTIONS: RubricQuestion[] = [1, 2, 3, 4].map((number) => ({
+  key: `rubric_${number}`,
+  question: `Does the response cover point ${number}?`,
+  tag: `Point ${number}`,
+  number,
+}));
+
+function rater(email: string, pattern: string, isTrainer = false): Rater {
+  const scores: Record<string, Vote> = {};
+  votes(pattern).forEach((vote, i) => {
+    scores[`rubric_${i + 1}`] = vote;
+  });
+  return { email, isTrainer, scores };
+}
+
+describe("cohensKappa", () => {
+  it("is 1 for perfect agreement", () => {
+    expect(cohensKappa(votes("YYNN"), votes("YYNN"))).toBe(1);
+  });
+
+  it("is 0 for agreement at chance level", () => {
+    expect(cohensKappa(votes("YYNN"), votes("YNYN"))).toBe(0);
+  });
+
+  it("is -1 for systematic disagreement", () => {
+    expect(cohensKappa(votes("YYNN"), votes("NNYY"))).toBe(-1);
+  });
+
+  it("matches the textbook example", () => {
+    // 20 both Yes, 5 Yes/No, 10 No/Yes, 15 both No: p_o = 0.7, p_e = 0.5
+    const a = "Y".repeat(25) + "N".repeat(25);
+    const b = "Y".repeat(20) + "N".repeat(5) + "Y".repeat(10) + "N".repeat(15);
+    expect(cohensKappa(votes(a), votes(b))).toBe(0.4);
+  });
+
+  it("is null when both raters give one answer throughout", () => {
+    expect(cohensKappa(votes("YYYY"), votes("YYYY"))).toBeNull();
+  });
+
+  it("is null without items", () => {
+    expect(cohensKappa([], [])).toBeNull();
+  });
+});
+
+describe("fleissKappa", () => {
+  it("is 1 for perfect agreement", () => {
+    expect(
+      fleissKappa([
+        { yes: 3, no: 0 },
+        { yes: 0, no: 3 },
+      ])
+    ).toEqual({ percentAgreement: 100, kappa: 1 });
+  });
+
+  it("is 0 for agreement at chance level", () => {
+    expect(
+      fleissKappa([
+        { yes: 2, no: 0 },
+        { yes: 1, no: 1 },
+        { yes: 1, no: 1 },
+        { yes: 0, no: 2 },
+      ])
+    ).toEqual({ percentAgreement: 50, kappa: 0 });
+  });
+
+  it("matches a hand-worked three-rater example", () => {
+    // P_i = 1, 1/3, 1/3, 1 so P = 2/3; p_yes = 0.5 so P_e = 0.5
+    expect(
+      fleissKappa([
+        { yes: 3, no: 0 },
+        { yes: 2, no: 1 },
+        { yes: 1, no: 2 },
+        { yes: 0, no: 3 },
+      ])
+    ).toEqual({ percentAgreement: 67, kappa: 0.333 });
+  });
+
+  it("has no kappa when every item lands in one category", () => {
+    expect(
+      fleissKappa([
+        { yes: 3, no: 0 },
+        { yes: 3, no: 0 },
+      ])
+    ).toEqual({ percentAgreement: 100, kappa: null });
+  });
+
+  it("needs at least two raters", () => {
+    expect(fleissKappa([{ yes: 1, no: 0 }])).toEqual({
+      percentAgreement: null,
+      kappa: null,
+    });
+  });
+
+  it("needs at least one item", () => {
+    expect(fleissKappa([])).toEqual({ percentAgreement: null, kappa: null });
+  });
+});
+
+describe("calculateModelAgreement", () => {
+  it("takes the majority vote and compares it with the model", () => {
+    const agreement = calculateModelAgreement(
+      QUESTIONS,
+      [
+        rater("trainer@invisible.email", "YYNN", true),
+        rater("a@invisible.email", "YNNN"),
+        rater("b@invisible.email", "YYYN"),
+      ],
+      { rubric_1: "Yes", rubric_2: "No", rubric_3: "No", rubric_4: "Yes" }
+    );
+
+    expect(agreement.items.map((item) => item.consensus)).toEqual([
+      "Yes",
+      "Yes",
+      "No",
+      "No",
+    ]);
+    expect(agreement.completeItems).toBe(4);
+    expect(agreement.consensusModelAlignment).toBe(50);
+    expect(agreement.pairwise.map((pair) => pair.percentAgreement)).toEqual([
+      75, 75, 50,
+    ]);
+  });
+
+  it("leaves ties without a consensus", () => {
+    const agreement = calculateModelAgreement(QUESTIONS.slice(0, 1), [
+      rater("trainer@invisible.email", "Y", true),
+      rater("a@invisible.email", "N"),
+    ]);
+
+    expect(agreement.items[0].consensus).toBeNull();
+    expect(agreement.consensusModelAlignment).toBeNull();
+  });
+
+  it("has no statistics for a single rater", () => {
+    const agreement = calculateModelAgreement(QUESTIONS, [
+      rater("trainer@invisible.email", "YYNN", true),
+    ]);
+
+    expect(agreement.percentAgreement).toBeNull();
+    expect(agreement.fleissKappa).toBeNull();
+    expect(agreement.pairwise).toEqual([]);
+  });
+
+  it("computes the overall statistics over complete items only", () => {
+    const agreement = calculateModelAgreement(QUESTIONS, [
+      rater("trainer@invisible.email", "YNYN", true),
+      rater("a@invisible.email", "YN"),
+    ]);
+
+    expect(agreement.completeItems).toBe(2);
+    expect(agreement.percentAgreement).toBe(100);
+    expect(agreement.fleissKappa).toBe(1);
+    expect(agreement.pairwise[0]).toMatchObject({
+      items: 2,
+      percentAgreement: 100,
+      cohensKappa: 1,
+    });
+  });
+});
+
+describe("getKappaLabel", () => {
+  it.each([
+    [-0.1, "Poor"],
+    [0, "Slight"],
+    [0.2, "Slight"],
+    [0.4, "Fair"],
+    [0.6, "Moderate"],
+    [0.8, "Substantial"],
+    [0.81, "Almost perfect"],
+  ])("labels %d as %s", (kappa, label) => {
+    expect(getKappaLabel(kappa)).toBe(label);
+  });
+});
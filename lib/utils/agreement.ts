@@ -0,0 +1,243 @@
+import type { AirtableTaskRecord } from "@/lib/schemas/task";
+import {
+  getModelEvaluation,
+  getTaskModels,
+  parseScores,
+} from "@/lib/schemas/task-models";
+import {
+  Annotation,
+  isCurrentAnnotation,
+} from "@/lib/schemas/annotation.schema";
+import {
+  cohensKappaFromCounts,
+  percentOf,
+} from "@/lib/utils/alignment-metrics";
+import {
+  parseCurrentRubricQuestions,
+  type RubricQuestion,
+} from "@/lib/utils/evaluation-utils";
+
+type Vote = "Yes" | "No";
+
+export interface Rater {
+  email: string;
+  // The task's trainer, whose scores drive the workflow
+  isTrainer: boolean;
+  scores: Record<string, Vote>;
+}
+
+export interface ItemAgreement {
+  key: string;
+  question: string;
+  tag: string;
+  votes: Record<string, Vote | undefined>; // by rater email
+  yes: number;
+  no: number;
+  // Majority vote; null on a tie or with no votes
+  consensus: Vote | null;
+  modelScore?: Vote;
+}
+
+export interface PairwiseAgreement {
+  raterA: string;
+  raterB: string;
+  items: number;
+  percentAgreement: number | null;
+  cohensKappa: number | null;
+}
+
+export interface ModelAgreement {
+  modelId: string;
+  label: string;
+  raters: Rater[];
+  items: ItemAgreement[];
+  // Items every rater scored; the overall statistics use only these
+  completeItems: number;
+  percentAgreement: number | null;
+  fleissKappa: number | null;
+  pairwise: PairwiseAgreement[];
+  // Existing trainer-vs-model alignment, for comparison
+  trainerModelAlignment?: number;
+  // Consensus labels vs the model's scores, over items with a consensus
+  consensusModelAlignment: number | null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Cohen's kappa for two raters over the same items
+export function cohensKappa(a: Vote[], b: Vote[]): number | null {
+  const n = Math.min(a.length, b.length);
+
+  let agreed = 0;
+  let yesA = 0;
+  let yesB = 0;
+  for (let i = 0; i < n; i++) {
+    if (a[i] === b[i]) agreed++;
+    if (a[i] === "Yes") yesA++;
+    if (b[i] === "Yes") yesB++;
+  }
+
+  return cohensKappaFromCounts({ n, agreed, yesA, yesB });
+}
+
+/**
+ * Fleiss' kappa and mean pairwise agreement for items each scored by the
+ * same number of raters (at least two). Kappa is null when every vote is
+ * the same answer.
+ */
+export function fleissKappa(counts: { yes: number; no: number }[]): {
+  percentAgreement: number | null;
+  kappa: number | null;
+} {
+  const raters = counts[0] ? counts[0].yes + counts[0].no : 0;
+  if (counts.length === 0 || raters < 2) {
+    return { percentAgreement: null, kappa: null };
+  }
+
+  const perItem = counts.map(
+    ({ yes, no }) => (yes * (yes - 1) + no * (no - 1)) / (raters * (raters - 1))
+  );
+  const observed = perItem.reduce((sum, p) => sum + p, 0) / counts.length;
+
+  const pYes =
+    counts.reduce((sum, { yes }) => sum + yes, 0) / (counts.length * raters);
+  const expected = pYes ** 2 + (1 - pYes) ** 2;
+
+  return {
+    percentAgreement: Math.round(observed * 100),
+    kappa:
+      expected === 1 ? null : round((observed - expected) / (1 - expected), 3),
+  };
+}
+
+function getConsensus(yes: number, no: number): Vote | null {
+  if (yes === no) return null;
+  return yes > no ? "Yes" : "No";
+}
+
+// Agreement between human raters on one model's response
+export function calculateModelAgreement(
+  questions: RubricQuestion[],
+  raters: Rater[],
+  modelScores: Record<string, Vote> = {}
+): Omit<ModelAgreement, "modelId" | "label" | "trainerModelAlignment"> {
+  const items: ItemAgreement[] = questions.map((q) => {
+    const votes = Object.fromEntries(
+      raters.map((rater) => [rater.email, rater.scores[q.key]])
+    );
+    const yes = raters.filter((r) => r.scores[q.key] === "Yes").length;
+    const no = raters.filter((r) => r.scores[q.key] === "No").length;
+
+    return {
+      key: q.key,
+      question: q.question,
+      tag: q.tag,
+      votes,
+      yes,
+      no,
+      consensus: getConsensus(yes, no),
+      modelScore: modelScores[q.key],
+    };
+  });
+
+  const complete = items.filter((item) => item.yes + item.no === raters.length);
+  const { percentAgreement, kappa } = fleissKappa(complete);
+
+  const pairwise: PairwiseAgreement[] = [];
+  for (let i = 0; i < raters.length; i++) {
+    for (let j = i + 1; j < raters.length; j++) {
+      const [a, b] = [raters[i], raters[j]];
+      const shared = questions.filter(
+        (q) => a.scores[q.key] && b.scores[q.key]
+      );
+      const agreed = shared.filter((q) => a.scores[q.key] === b.scores[q.key]);
+
+      pairwise.push({
+        raterA: a.email,
+        raterB: b.email,
+        items: shared.length,
+        percentAgreement: percentOf(agreed.length, shared.length),
+        cohensKappa: cohensKappa(
+          shared.map((q) => a.scores[q.key]),
+          shared.map((q) => b.scores[q.key])
+        ),
+      });
+    }
+  }
+
+  const withConsensus = items.filter(
+    (item) => item.consensus && item.modelScore
+  );
+  const consensusMatches = withConsensus.filter(
+    (item) => item.consensus === item.modelScore
+  ).length;
+
+  return {
+    raters,
+    items,
+    completeItems: complete.length,
+    percentAgreement,
+    fleissKappa: kappa,
+    pairwise,
+    consensusModelAlignment: percentOf(consensusMatches, withConsensus.length),
+  };
+}
+
+/**
+ * Agreement for every model of a task, between its trainer and the
+ * annotators who scored the current rubric version.
+ */
+export function getTaskAgreement(
+  task: AirtableTaskRecord,
+  annotations: Annotation[]
+): ModelAgreement[] {
+  const questions = parseCurrentRubricQuestions(task);
+  const rubricVersion = task.Current_Rubric_Version || 1;
+
+  return getTaskModels(task).map((model) => {
+    const evaluation = getModelEvaluation(task, model.id);
+
+    const raters: Rater[] = [];
+    if (evaluation.humanScores) {
+      raters.push({
+        email: task.TrainerEmail,
+        isTrainer: true,
+        scores: parseScores<Vote>(evaluation.humanScores),
+      });
+    }
+    for (const annotation of annotations) {
+      const scored = annotation.evaluations[model.id];
+      if (isCurrentAnnotation(scored, rubricVersion)) {
+        raters.push({
+          email: annotation.evaluatorEmail,
+          isTrainer: false,
+          scores: parseScores<Vote>(scored.scores),
+        });
+      }
+    }
+
+    return {
+      modelId: model.id,
+      label: model.label,
+      trainerModelAlignment: evaluation.alignment,
+      ...calculateModelAgreement(
+        questions,
+        raters,
+        parseScores<Vote>(evaluation.modelScores)
+      ),
+    };
+  });
+}
+
+// Landis & Koch bands, for reading kappa values at a glance
+export function getKappaLabel(kappa: number): string {
+  if (kappa < 0) return "Poor";
+  if (kappa <= 0.2) return "Slight";
+  if (kappa <= 0.4) return "Fair";
+  if (kappa <= 0.6) return "Moderate";
+  if (kappa <= 0.8) return "Substantial";
+  return "Almost perfect";
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateAlignmentMetrics,
+  cohensKappaFromCounts,
+  EMPTY_ALIGNMENT_METRICS,
+  kappaFromConfusion,
+  percentOf,
+  toPercentage,
+} from "./alignment-metrics";
+
+describe("calculateAlignmentMetrics", () => {
+  it("tallies every human and model pairing", () => {
+    const metrics = calculateAlignmentMetrics(
+      { rubric_1: "Yes", rubric_2: "No", rubric_3: "Yes", rubric_4: "No" },
+      { rubric_1: "Yes", rubric_2: "Yes", rubric_3: "No", rubric_4: "No" }
+    );
+
+    expect(metrics.confusion).toEqual({
+      truePositive: 1,
+      falsePositive: 1,
+      falseNegative: 1,
+      trueNegative: 1,
+    });
+    expect(metrics.kappa).toBe(0);
+    expect(metrics.precision).toBe(50);
+    expect(metrics.recall).toBe(50);
+  });
+
+  it("computes precision and recall against the human labels", () => {
+    // 3 TP, 1 FP, 2 FN, 2 TN
+    const human = "YYYYYNNN".split("");
+    const model = "YYYNNYNN".split("");
+    const toScores = (votes: string[]) =>
+      Object.fromEntries(
+        votes.map((v, i) => [`rubric_${i + 1}`, v === "Y" ? "Yes" : "No"])
+      );
+
+    const metrics = calculateAlignmentMetrics(toScores(human), toScores(model));
+
+    expect(metrics.precision).toBe(75);
+    expect(metrics.recall).toBe(60);
+    // p_o = 5/8, p_e = (5/8)(4/8) + (3/8)(4/8) = 1/2
+    expect(metrics.kappa).toBe(0.25);
+  });
+
+  it("is 1 for perfect alignment", () => {
+    const scores = { rubric_1: "Yes", rubric_2: "No" };
+    const metrics = calculateAlignmentMetrics(scores, scores);
+
+    expect(metrics.kappa).toBe(1);
+    expect(metrics.precision).toBe(100);
+    expect(metrics.recall).toBe(100);
+  });
+
+  it("skips keys missing from either side", () => {
+    const metrics = calculateAlignmentMetrics(
+      { rubric_1: "Yes", rubric_2: "No", rubric_3: "Yes" },
+      { rubric_1: "Yes", rubric_3: "" }
+    );
+
+    expect(metrics.confusion).toEqual({
+      ...EMPTY_ALIGNMENT_METRICS.confusion,
+      truePositive: 1,
+    });
+  });
+
+  it("only counts the given keys", () => {
+    const metrics = calculateAlignmentMetrics(
+      { rubric_1: "Yes", rubric_2: "No" },
+      { rubric_1: "Yes", rubric_2: "Yes" },
+      ["rubric_1"]
+    );
+
+    expect(metrics.confusion.falsePositive).toBe(0);
+  });
+
+  it("returns nulls rather than dividing by zero", () => {
+    expect(calculateAlignmentMetrics({}, {})).toEqual(EMPTY_ALIGNMENT_METRICS);
+  });
+
+  it("has no precision when the model never says Yes", () => {
+    const metrics = calculateAlignmentMetrics(
+      { rubric_1: "Yes", rubric_2: "No" },
+      { rubric_1: "No", rubric_2: "No" }
+    );
+
+    expect(metrics.precision).toBeNull();
+    expect(metrics.recall).toBe(0);
+  });
+
+  it("has no recall or kappa when the humans never say Yes", () => {
+    const metrics = calculateAlignmentMetrics(
+      { rubric_1: "No", rubric_2: "No" },
+      { rubric_1: "No", rubric_2: "No" }
+    );
+
+    expect(metrics.recall).toBeNull();
+    expect(metrics.precision).toBeNull();
+    expect(metrics.kappa).toBeNull();
+  });
+});
+
+describe("cohensKappaFromCounts", () => {
+  it("is null without items", () => {
+    expect(cohensKappaFromCounts({ n: 0, agreed: 0, yesA: 0, yesB: 0 })).toBe(
+      null
+    );
+  });
+
+  it("is -1 for systematic disagreement", () => {
+    expect(cohensKappaFromCounts({ n: 4, agreed: 0, yesA: 2, yesB: 2 })).toBe(
+      -1
+    );
+  });
+
+  it("agrees with kappaFromConfusion", () => {
+    expect(
+      kappaFromConfusion({
+        truePositive: 20,
+        falsePositive: 10,
+        falseNegative: 5,
+        trueNegative: 15,
+      })
+    ).toBe(cohensKappaFromCounts({ n: 50, agreed: 35, yesA: 25, yesB: 30 }));
+  });
+});
+
+describe("percentOf", () => {
+  it("rounds to a whole percentage", () => {
+    expect(percentOf(1, 3)).toBe(33);
+    expect(percentOf(2, 3)).toBe(67);
+  });
+
+  it("is null when the whole is zero", () => {
+    expect(percentOf(0, 0)).toBeNull();
+  });
+});
+
+describe("toPercentage", () => {
+  it("rounds like percentOf", () => {
+    expect(toPercentage(1, 6)).toBe(17);
+    expect(toPercentage(5, 5)).toBe(100);
+  });
+
+  it("is 0 when the whole is zero", () => {
+    expect(toPercentage(0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+// Chance-corrected alignment statistics for Yes/No rubric scores. Human
+// labels are the reference and "Yes" is the positive class, so precision and
+// recall describe how well the model grader finds the items humans said Yes to.
+
+export interface ConfusionMatrix {
+  truePositive: number; // human Yes, model Yes
+  falsePositive: number; // human No, model Yes
+  falseNegative: number; // human Yes, model No
+  trueNegative: number; // human No, model No
+}
+
+export interface AlignmentMetrics {
+  confusion: ConfusionMatrix;
+  // Cohen's kappa; null when undefined (both sides gave one answer throughout)
+  kappa: number | null;
+  // Percentages, null when there is nothing to divide by
+  precision: number | null;
+  recall: number | null;
+}
+
+export const EMPTY_ALIGNMENT_METRICS: AlignmentMetrics = {
+  confusion: {
+    truePositive: 0,
+    falsePositive: 0,
+    falseNegative: 0,
+    trueNegative: 0,
+  },
+  kappa: null,
+  precision: null,
+  recall: null,
+};
+
+export function percentOf(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
+
+// As percentOf, but 0 when there is nothing to divide by
+export function toPercentage(part: number, whole: number): number {
+  return percentOf(part, whole) ?? 0;
+}
+
+/**
+ * Cohen's kappa for two raters from their Yes/No tallies over `n` shared
+ * items. Null when undefined: no items, or both raters gave one answer
+ * throughout.
+ */
+export function cohensKappaFromCounts(counts: {
+  n: number;
+  agreed: number;
+  yesA: number;
+  yesB: number;
+}): number | null {
+  const { n, agreed, yesA, yesB } = counts;
+  if (n === 0) return null;
+
+  const observed = agreed / n;
+  const expected =
+    (yesA / n) * (yesB / n) + ((n - yesA) / n) * ((n - yesB) / n);
+  if (expected === 1) return null;
+
+  return Math.round(((observed - expected) / (1 - expected)) * 1000) / 1000;
+}
+
+export function kappaFromConfusion(confusion: ConfusionMatrix): number | null {
+  const { truePositive, falsePositive, falseNegative, trueNegative } =
+    confusion;
+
+  return cohensKappaFromCounts({
+    n: truePositive + falsePositive + falseNegative + trueNegative,
+    agreed: truePositive + trueNegative,
+    yesA: truePositive + falseNegative,
+    yesB: truePositive + falsePositive,
+  });
+}
+
+// Metrics over the given items; keys missing from either side are skipped
+export function calculateAlignmentMetrics(
+  humanScores: Record<string, string>,
+  modelScores: Record<string, string>,
+  keys: string[] = Object.keys(humanScores)
+): AlignmentMetrics {
+  const confusion: ConfusionMatrix = {
+    truePositive: 0,
+    falsePositive: 0,
+    falseNegative: 0,
+    trueNegative: 0,
+  };
+
+  for (const key of keys) {
+    const human = humanScores[key];
+    const model = modelScores[key];
+    if (!human || !model) continue;
+
+    if (human === "Yes") {
+      if (model === "Yes") confusion.truePositive++;
+      else confusion.falseNegative++;
+    } else if (model === "Yes") {
+      confusion.falsePositive++;
+    } else {
+      confusion.trueNegative++;
+    }
+  }
+
+  return {
+    confusion,
+    kappa: kappaFromConfusion(confusion),
+    precision: percentOf(
+      confusion.truePositive,
+      confusion.truePositive + confusion.falsePositive
+    ),
+    recall: percentOf(
+      confusion.truePositive,
+      confusion.truePositive + confusion.falseNegative
+    ),
+  };
+}
@@ -5,12 +5,27 @@ import {
   parseRubricContent,
   RubricFormat,
 } from "@/lib/schemas/task";
+import {
+  EvaluationKind,
+  getPolicyThreshold,
+  isEscalated,
+  meetsAlignmentThreshold,
+} from "@/lib/workflow/task-workflow";
+import {
+  getComparisonModels,
+  getModelEvaluation,
+  getPrimaryModel,
+  getTaskModel,
+} from "@/lib/schemas/task-models";
+import type { SectorPolicy } from "@/lib/schemas/sector-policy.schema";
 
 export interface RubricQuestion {
   key: string;
   question: string;
   tag: string;
   number: number;
+  weight?: number;
+  critical?: boolean;
 }
 
 /**
@@ -40,6 +55,8 @@ export function parseCurrentRubricQuestions(
         question: rubricItem.question,
         tag: rubricItem.tag,
         number: parseInt(key.replace("rubric_", "")),
+        weight: rubricItem.weight,
+        critical: rubricItem.critical,
       }))
       .sort((a, b) => a.number - b.number);
   } catch (error) {
@@ -71,6 +88,8 @@ export function parseRubricQuestions(rubricJSON: string): RubricQuestion[] {
         question: rubricItem.question,
         tag: rubricItem.tag,
         number: parseInt(key.replace("rubric_", "")),
+        weight: rubricItem.weight,
+        critical: rubricItem.critical,
       }))
       .sort((a, b) => a.number - b.number);
   } catch (error) {
@@ -92,7 +111,9 @@ export function hasRequiredRubric(task: AirtableTaskRecord): boolean {
  */
 export function getEvaluationPrerequisites(
   task: AirtableTaskRecord,
-  evaluationType: "human-gemini" | "model-gemini" | "human-gpt" | "model-gpt"
+  modelId: string,
+  kind: EvaluationKind,
+  policy?: SectorPolicy
 ): {
   hasRubric: boolean;
   hasHumanEval: boolean;
@@ -110,46 +131,48 @@ export function getEvaluationPrerequisites(
     missingItems.push(`${versionName} rubric`);
   }
 
+  const model = getTaskModel(task, modelId);
+  const modelLabel = model?.label || modelId;
+  const primaryModel = getPrimaryModel(task);
+  const isPrimary = primaryModel.id === modelId;
+
   let hasHumanEval = false;
   let hasModelEval = false;
   let hasAlignment = false;
   let alignmentValue: number | undefined;
 
-  switch (evaluationType) {
-    case "human-gemini":
-      // Only needs rubric
-      break;
-
-    case "model-gemini":
-      hasHumanEval = !!(
-        task.Human_Eval_Gemini && typeof task.Human_Eval_Gemini === "string"
-      );
-      if (!hasHumanEval) missingItems.push("Human evaluation for Gemini");
-      break;
-
-    case "human-gpt":
-      // Requires Gemini alignment ≥80%
-      alignmentValue = task.Alignment_Gemini as number;
-      hasAlignment = !!(alignmentValue && alignmentValue >= 80);
-      hasModelEval = !!(
-        task.Model_Eval_Gemini && typeof task.Model_Eval_Gemini === "string"
+  if (!model) {
+    missingItems.push(`${modelLabel} response`);
+  } else if (kind === "model") {
+    hasHumanEval = !!getModelEvaluation(task, modelId).humanScores;
+    if (!hasHumanEval) missingItems.push(`Human evaluation for ${modelLabel}`);
+  } else if (!isPrimary) {
+    // Requires primary alignment at or above the sector threshold, unless
+    // the policy escalated the task straight through
+    const primaryEvaluation = getModelEvaluation(task, primaryModel.id);
+    alignmentValue = primaryEvaluation.alignment;
+    hasAlignment =
+      meetsAlignmentThreshold(alignmentValue, getPolicyThreshold(policy)) ||
+      (policy?.escalationAction === "advance" && isEscalated(task));
+    hasModelEval = !!primaryEvaluation.modelScores;
+
+    if (!hasModelEval) {
+      missingItems.push(`${primaryModel.label} model evaluation`);
+    } else if (!hasAlignment) {
+      missingItems.push(
+        `${primaryModel.label} alignment ≥${getPolicyThreshold(
+          policy
+        )}% (currently ${alignmentValue || 0}%)`
       );
+    }
 
-      if (!hasModelEval) {
-        missingItems.push("Gemini model evaluation");
-      } else if (!hasAlignment) {
-        missingItems.push(
-          `Gemini alignment ≥80% (currently ${alignmentValue || 0}%)`
-        );
+    // Comparison models are evaluated in order
+    for (const previous of getComparisonModels(task)) {
+      if (previous.id === modelId) break;
+      if (!getModelEvaluation(task, previous.id).modelScores) {
+        missingItems.push(`${previous.label} model evaluation`);
       }
-      break;
-
-    case "model-gpt":
-      hasHumanEval = !!(
-        task.Human_Eval_GPT && typeof task.Human_Eval_GPT === "string"
-      );
-      if (!hasHumanEval) missingItems.push("Human evaluation for GPT");
-      break;
+    }
   }
 
   return {
@@ -168,27 +191,15 @@ export function getEvaluationPrerequisites(
  */
 export function loadExistingEvaluationScores(
   task: AirtableTaskRecord,
-  evaluationType: "human-gemini" | "model-gemini" | "human-gpt" | "model-gpt",
+  modelId: string,
+  kind: EvaluationKind,
   questions: RubricQuestion[]
 ): Record<string, "Yes" | "No"> {
   const evaluations: Record<string, "Yes" | "No"> = {};
 
-  let existingScoresField: string | undefined;
-
-  switch (evaluationType) {
-    case "human-gemini":
-      existingScoresField = task.Human_Eval_Gemini as string;
-      break;
-    case "model-gemini":
-      existingScoresField = task.Model_Eval_Gemini as string;
-      break;
-    case "human-gpt":
-      existingScoresField = task.Human_Eval_GPT as string;
-      break;
-    case "model-gpt":
-      existingScoresField = task.Model_Eval_GPT as string;
-      break;
-  }
+  const evaluation = getModelEvaluation(task, modelId);
+  const existingScoresField =
+    kind === "human" ? evaluation.humanScores : evaluation.modelScores;
 
   if (existingScoresField && typeof existingScoresField === "string") {
     try {
@@ -200,7 +211,7 @@ export function loadExistingEvaluationScores(
       });
     } catch (error) {
       console.error(
-        `Error parsing existing ${evaluationType} evaluations:`,
+        `Error parsing existing ${kind} evaluations for ${modelId}:`,
         error
       );
     }
@@ -214,26 +225,17 @@ export function loadExistingEvaluationScores(
  */
 export function getComparisonScores(
   task: AirtableTaskRecord,
-  evaluationType: "model-gemini" | "model-gpt"
+  modelId: string
 ): Record<string, "Yes" | "No"> {
   const scores: Record<string, "Yes" | "No"> = {};
 
-  let humanScoresField: string | undefined;
-
-  switch (evaluationType) {
-    case "model-gemini":
-      humanScoresField = task.Human_Eval_Gemini as string;
-      break;
-    case "model-gpt":
-      humanScoresField = task.Human_Eval_GPT as string;
-      break;
-  }
+  const humanScoresField = getModelEvaluation(task, modelId).humanScores;
 
   if (humanScoresField && typeof humanScoresField === "string") {
     try {
       return JSON.parse(humanScoresField);
     } catch (error) {
-      console.error(`Error parsing human scores for ${evaluationType}:`, error);
+      console.error(`Error parsing human scores for ${modelId}:`, error);
     }
   }
 
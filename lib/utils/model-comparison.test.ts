@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import type { AirtableTaskRecord } from "@/lib/schemas/task";
+import {
+  aggregateModelLeaderboard,
+  getTaskModelComparison,
+} from "./model-comparison";
+
+const RUBRIC = {
+  rubric_1: { question: "Does it cite the statute?", tag: "sources" },
+  rubric_2: { question: "Does it state the deadline?", tag: "detail" },
+  rubric_3: { question: "Does it name the court?", tag: "accuracy" },
+};
+
+const MODELS = [
+  { id: "gemini", label: "Gemini" },
+  { id: "gpt", label: "GPT" },
+  { id: "claude", label: "Claude" },
+];
+
+// "Y", "N" or "-" (unscored) for rubric_1..rubric_3
+function toScores(pattern: string): string {
+  const scores: Record<string, string> = {};
+  pattern.split("").forEach((vote, i) => {
+    if (vote !== "-") scores[`rubric_${i + 1}`] = vote === "Y" ? "Yes" : "No";
+  });
+  return JSON.stringify(scores);
+}
+
+// Human scores per model id; models left out have no evaluation
+function makeTask(
+  humanScores: Record<string, string>,
+  fields: Partial<AirtableTaskRecord> = {}
+): AirtableTaskRecord {
+  const evaluations = Object.fromEntries(
+    Object.entries(humanScores).map(([modelId, pattern]) => [
+      modelId,
+      { humanScores: toScores(pattern) },
+    ])
+  );
+
+  return {
+    TaskID: "T-1",
+    ProfessionalSector: "Law",
+    Current_Rubric_Version: 1,
+    Rubric_V1: JSON.stringify(RUBRIC),
+    Candidate_Responses: JSON.stringify(
+      MODELS.map((model) => ({ ...model, response: "Response" }))
+    ),
+    Model_Evaluations: JSON.stringify(evaluations),
+    ...fields,
+  } as AirtableTaskRecord;
+}
+
+describe("getTaskModelComparison", () => {
+  it("compares the models with a human evaluation", () => {
+    const comparison = getTaskModelComparison(
+      makeTask({ gemini: "YYN", gpt: "YNN" })
+    );
+
+    expect(comparison.models).toEqual([
+      {
+        modelId: "gemini",
+        label: "Gemini",
+        isPrimary: true,
+        passed: 2,
+        total: 3,
+        passRate: 67,
+        itemWins: 1,
+        itemLosses: 0,
+      },
+      {
+        modelId: "gpt",
+        label: "GPT",
+        isPrimary: false,
+        passed: 1,
+        total: 3,
+        passRate: 33,
+        itemWins: 0,
+        itemLosses: 1,
+      },
+    ]);
+    expect(comparison.items.map((item) => item.winners)).toEqual([
+      [],
+      ["gemini"],
+      [],
+    ]);
+  });
+
+  it("leaves unscored items out of a model's pass rate", () => {
+    const comparison = getTaskModelComparison(
+      makeTask({ gemini: "YY-", gpt: "NNY" })
+    );
+
+    expect(comparison.items[2].scores).toEqual({ gemini: null, gpt: "Yes" });
+    expect(comparison.items[2].winners).toEqual([]);
+    expect(comparison.models[0]).toMatchObject({
+      passed: 2,
+      total: 2,
+      passRate: 100,
+    });
+  });
+
+  it("has no pass rate to divide without scored items", () => {
+    const comparison = getTaskModelComparison(
+      makeTask({ gemini: "YYY", gpt: "YYY" }, { Rubric_V1: "" })
+    );
+
+    expect(comparison.items).toEqual([]);
+    expect(comparison.models.map((model) => model.passRate)).toEqual([0, 0]);
+  });
+});
+
+describe("aggregateModelLeaderboard", () => {
+  it("ranks models by pass rate across tasks", () => {
+    const { taskCount, overall } = aggregateModelLeaderboard([
+      makeTask({ gemini: "YYN", gpt: "YNN", claude: "YYY" }),
+      makeTask({ gemini: "YYY", gpt: "NNN" }),
+    ]);
+
+    expect(taskCount).toBe(2);
+    expect(
+      overall.map(({ modelId, passRate, taskWins, taskCount }) => ({
+        modelId,
+        passRate,
+        taskWins,
+        taskCount,
+      }))
+    ).toEqual([
+      { modelId: "claude", passRate: 100, taskWins: 1, taskCount: 1 },
+      { modelId: "gemini", passRate: 83, taskWins: 1, taskCount: 2 },
+      { modelId: "gpt", passRate: 17, taskWins: 0, taskCount: 2 },
+    ]);
+  });
+
+  it("gives every tied model the task win and breaks ties by name", () => {
+    const { overall } = aggregateModelLeaderboard([
+      makeTask({ gpt: "YYN", gemini: "YNY" }),
+    ]);
+
+    expect(overall.map((entry) => [entry.label, entry.taskWins])).toEqual([
+      ["Gemini", 1],
+      ["GPT", 1],
+    ]);
+  });
+
+  it("skips tasks with a single evaluated model", () => {
+    const { taskCount, overall, bySector } = aggregateModelLeaderboard([
+      makeTask({ gemini: "YYY" }),
+    ]);
+
+    expect(taskCount).toBe(0);
+    expect(overall).toEqual([]);
+    expect(bySector).toEqual([]);
+  });
+
+  it("groups tasks by sector", () => {
+    const { bySector } = aggregateModelLeaderboard([
+      makeTask({ gemini: "YYN", gpt: "YNN" }),
+      makeTask(
+        { gemini: "NNN", gpt: "YYY" },
+        { ProfessionalSector: "Finance" }
+      ),
+    ]);
+
+    expect(
+      bySector.map(({ sector, taskCount, models }) => [
+        sector,
+        taskCount,
+        models[0].modelId,
+      ])
+    ).toEqual([
+      ["Finance", 1, "gpt"],
+      ["Law", 1, "gemini"],
+    ]);
+  });
+
+  it("is empty without tasks", () => {
+    expect(aggregateModelLeaderboard([])).toEqual({
+      taskCount: 0,
+      overall: [],
+      bySector: [],
+    });
+  });
+});
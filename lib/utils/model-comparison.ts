@@ -0,0 +1,218 @@
+import type { AirtableTaskRecord } from "@/lib/schemas/task";
+import {
+  getModelEvaluation,
+  getTaskModels,
+  isPrimaryModel,
+  parseScores,
+} from "@/lib/schemas/task-models";
+import {
+  parseCurrentRubricQuestions,
+  type RubricQuestion,
+} from "@/lib/utils/evaluation-utils";
+import { toPercentage } from "@/lib/utils/alignment-metrics";
+
+// How often each model's response satisfied the rubric, judged by the human
+// scores. An item is a win for a model that got "Yes" where another got "No".
+
+export interface ModelPassRate {
+  modelId: string;
+  label: string;
+  isPrimary: boolean;
+  // Items the human answered "Yes" out of the items they scored
+  passed: number;
+  total: number;
+  passRate: number;
+  // Items this model satisfied that another model did not, and the reverse
+  itemWins: number;
+  itemLosses: number;
+}
+
+export interface ItemHeadToHead {
+  key: string;
+  question: string;
+  tag: string;
+  // Human score per model id; null when the model wasn't scored on it
+  scores: Record<string, "Yes" | "No" | null>;
+  winners: string[];
+}
+
+export interface TaskModelComparison {
+  models: ModelPassRate[];
+  items: ItemHeadToHead[];
+}
+
+export interface LeaderboardEntry {
+  modelId: string;
+  label: string;
+  taskCount: number;
+  passed: number;
+  total: number;
+  passRate: number;
+  itemWins: number;
+  itemLosses: number;
+  // Tasks where the model had the highest pass rate, shared or outright
+  taskWins: number;
+}
+
+export interface SectorLeaderboard {
+  sector: AirtableTaskRecord["ProfessionalSector"];
+  taskCount: number;
+  models: LeaderboardEntry[];
+}
+
+function compareItems(
+  questions: RubricQuestion[],
+  humanScores: Record<string, Record<string, string>>
+): ItemHeadToHead[] {
+  const modelIds = Object.keys(humanScores);
+
+  return questions.map((question) => {
+    const scores: ItemHeadToHead["scores"] = {};
+    for (const modelId of modelIds) {
+      const score = humanScores[modelId][question.key];
+      scores[modelId] = score === "Yes" || score === "No" ? score : null;
+    }
+
+    const satisfied = modelIds.filter((id) => scores[id] === "Yes");
+    const failed = modelIds.filter((id) => scores[id] === "No");
+
+    return {
+      key: question.key,
+      question: question.question,
+      tag: question.tag,
+      scores,
+      winners: failed.length > 0 ? satisfied : [],
+    };
+  });
+}
+
+/**
+ * Pass rates and per-item wins of every model with a human evaluation,
+ * against the task's current rubric
+ */
+export function getTaskModelComparison(
+  task: AirtableTaskRecord
+): TaskModelComparison {
+  const questions = parseCurrentRubricQuestions(task);
+  const models = getTaskModels(task).filter(
+    (model) => getModelEvaluation(task, model.id).humanScores
+  );
+
+  const humanScores: Record<string, Record<string, string>> = {};
+  for (const model of models) {
+    humanScores[model.id] = parseScores(
+      getModelEvaluation(task, model.id).humanScores
+    );
+  }
+
+  const items = compareItems(questions, humanScores);
+
+  return {
+    models: models.map((model) => {
+      const scored = items.filter((item) => item.scores[model.id] !== null);
+      const passed = scored.filter(
+        (item) => item.scores[model.id] === "Yes"
+      ).length;
+
+      return {
+        modelId: model.id,
+        label: model.label,
+        isPrimary: isPrimaryModel(task, model.id),
+        passed,
+        total: scored.length,
+        passRate: toPercentage(passed, scored.length),
+        itemWins: items.filter((item) => item.winners.includes(model.id))
+          .length,
+        itemLosses: items.filter(
+          (item) =>
+            item.scores[model.id] === "No" &&
+            Object.values(item.scores).includes("Yes")
+        ).length,
+      };
+    }),
+    items,
+  };
+}
+
+// Best pass rate first; models are matched across tasks by id
+function buildLeaderboard(
+  comparisons: TaskModelComparison[]
+): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>();
+
+  for (const { models } of comparisons) {
+    const best = Math.max(...models.map((model) => model.passRate));
+    for (const model of models) {
+      const entry = entries.get(model.modelId) || {
+        modelId: model.modelId,
+        label: model.label,
+        taskCount: 0,
+        passed: 0,
+        total: 0,
+        passRate: 0,
+        itemWins: 0,
+        itemLosses: 0,
+        taskWins: 0,
+      };
+      entry.taskCount++;
+      entry.passed += model.passed;
+      entry.total += model.total;
+      entry.itemWins += model.itemWins;
+      entry.itemLosses += model.itemLosses;
+      if (model.passRate === best) entry.taskWins++;
+      entries.set(model.modelId, entry);
+    }
+  }
+
+  return Array.from(entries.values())
+    .map((entry) => ({
+      ...entry,
+      passRate: toPercentage(entry.passed, entry.total),
+    }))
+    .sort(
+      (a, b) =>
+        b.passRate - a.passRate ||
+        b.taskWins - a.taskWins ||
+        a.label.localeCompare(b.label)
+    );
+}
+
+/**
+ * Head-to-head results summed over the given tasks, overall and per sector.
+ * Only tasks with at least two human-evaluated models count.
+ */
+export function aggregateModelLeaderboard(tasks: AirtableTaskRecord[]): {
+  taskCount: number;
+  overall: LeaderboardEntry[];
+  bySector: SectorLeaderboard[];
+} {
+  const sectors = new Map<
+    AirtableTaskRecord["ProfessionalSector"],
+    TaskModelComparison[]
+  >();
+  const compared: TaskModelComparison[] = [];
+
+  for (const task of tasks) {
+    const comparison = getTaskModelComparison(task);
+    // A single evaluated model has nothing to be compared with
+    if (comparison.models.length < 2) continue;
+
+    compared.push(comparison);
+    sectors.set(task.ProfessionalSector, [
+      ...(sectors.get(task.ProfessionalSector) || []),
+      comparison,
+    ]);
+  }
+
+  return {
+    taskCount: compared.length,
+    overall: buildLeaderboard(compared),
+    bySector: Array.from(sectors.entries())
+      .map(([sector, comparisons]) => ({
+        sector,
+        taskCount: comparisons.length,
+        models: buildLeaderboard(comparisons),
+      }))
+      .sort((a, b) => a.sector.localeCompare(b.sector)),
+  };
+}
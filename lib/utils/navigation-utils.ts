@@ -1,5 +1,7 @@
 import { getCurrentRubricVersionName } from "@/lib/schemas/task";
 import type { Task } from "@/lib/schemas/task";
+import { getTaskModels } from "@/lib/schemas/task-models";
+import { getEvaluationRoute } from "@/lib/workflow/task-workflow";
 
 export function getTaskNavigationRoutes(task: Task) {
   const taskId = task.TaskID;
@@ -10,16 +12,20 @@ export function getTaskNavigationRoutes(task: Task) {
     // Core routes
     overview: `/dashboard/tasks/${taskId}`,
     results: `/dashboard/tasks/${taskId}/results`,
+    review: `/dashboard/tasks/${taskId}/review`,
 
     // Rubric routes
     rubricV1: `/dashboard/tasks/${taskId}/rubric/v1`,
     rubricEnhance: `/dashboard/tasks/${taskId}/rubric/enhance`, // Handles V2+
+    rubricHistory: `/dashboard/tasks/${taskId}/rubric/history`,
 
-    // Evaluation routes
-    humanEvalGemini: `/dashboard/tasks/${taskId}/evaluation/human-gemini`,
-    modelEvalGemini: `/dashboard/tasks/${taskId}/evaluation/model-gemini`,
-    humanEvalGPT: `/dashboard/tasks/${taskId}/evaluation/human-gpt`,
-    modelEvalGPT: `/dashboard/tasks/${taskId}/evaluation/model-gpt`,
+    // Evaluation routes, one pair per model (primary first)
+    evaluations: getTaskModels(task).map((model) => ({
+      modelId: model.id,
+      label: model.label,
+      humanEval: getEvaluationRoute(taskId, model.id, "human"),
+      modelEval: getEvaluationRoute(taskId, model.id, "model"),
+    })),
 
     // Context info
     currentVersion,
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import type { RubricFormat } from "@/lib/schemas/task";
+import {
+  addItem,
+  fromRubric,
+  matchesRubricItems,
+  mergeItems,
+  moveItem,
+  removeItems,
+  RubricEditorItem,
+  splitItem,
+  toRubric,
+} from "./rubric-editor";
+
+const RUBRIC: RubricFormat = {
+  rubric_1: { question: "Does the response cite the statute?", tag: "sources" },
+  rubric_2: {
+    question: "Does the response state the deadline?",
+    tag: "detail",
+  },
+  rubric_3: {
+    question: "Is the response under 200 words?",
+    tag: "length",
+    weight: 2,
+    critical: true,
+  },
+};
+
+function ids(items: RubricEditorItem[]): string[] {
+  return items.map((item) => item.id);
+}
+
+describe("fromRubric", () => {
+  it("loads items in key order, each tracing back to its own key", () => {
+    const items = fromRubric({
+      rubric_10: { question: "Tenth?", tag: "detail" },
+      rubric_2: RUBRIC.rubric_2,
+      notes: { question: "Ignored?", tag: "detail" },
+    } as RubricFormat);
+
+    expect(items.map((item) => item.sourceKeys)).toEqual([
+      ["rubric_2"],
+      ["rubric_10"],
+    ]);
+    expect(new Set(ids(items)).size).toBe(2);
+  });
+
+  it("keeps weights and critical flags", () => {
+    expect(fromRubric(RUBRIC)[2]).toMatchObject({ weight: 2, critical: true });
+  });
+
+  it("treats keys missing from the previous version as new", () => {
+    const items = fromRubric(RUBRIC, ["rubric_1", "rubric_2"]);
+    expect(items.map((item) => item.sourceKeys)).toEqual([
+      ["rubric_1"],
+      ["rubric_2"],
+      [],
+    ]);
+  });
+});
+
+describe("toRubric", () => {
+  it("round-trips an unedited rubric", () => {
+    expect(toRubric(fromRubric(RUBRIC))).toEqual({
+      rubric: RUBRIC,
+      keyMap: {
+        rubric_1: ["rubric_1"],
+        rubric_2: ["rubric_2"],
+        rubric_3: ["rubric_3"],
+      },
+    });
+  });
+
+  it("renumbers after a reorder", () => {
+    const items = fromRubric(RUBRIC);
+    const { rubric, keyMap } = toRubric(moveItem(items, 2, 0));
+
+    expect(rubric.rubric_1.question).toBe("Is the response under 200 words?");
+    expect(keyMap).toEqual({
+      rubric_1: ["rubric_3"],
+      rubric_2: ["rubric_1"],
+      rubric_3: ["rubric_2"],
+    });
+  });
+
+  it("closes the gap left by a delete", () => {
+    const items = fromRubric(RUBRIC);
+    const { rubric, keyMap } = toRubric(removeItems(items, [items[0].id]));
+
+    expect(Object.keys(rubric)).toEqual(["rubric_1", "rubric_2"]);
+    expect(keyMap).toEqual({
+      rubric_1: ["rubric_2"],
+      rubric_2: ["rubric_3"],
+    });
+  });
+
+  it("maps new items to no previous keys", () => {
+    const { keyMap } = toRubric(addItem(fromRubric(RUBRIC), "tone"));
+    expect(keyMap.rubric_4).toEqual([]);
+  });
+
+  it("trims text and drops unset weights and critical flags", () => {
+    const [item] = fromRubric(RUBRIC);
+    const { rubric } = toRubric([
+      { ...item, question: "  Cites it?  ", tag: " sources ", critical: false },
+    ]);
+
+    expect(rubric).toEqual({
+      rubric_1: { question: "Cites it?", tag: "sources" },
+    });
+  });
+});
+
+describe("splitItem", () => {
+  it("inserts a copy after the item, keeping its source keys", () => {
+    const items = fromRubric(RUBRIC);
+    const split = splitItem(items, items[0].id);
+
+    expect(split).toHaveLength(4);
+    expect(split[1].id).not.toBe(items[0].id);
+    expect(split[1].question).toBe(items[0].question);
+    expect(toRubric(split).keyMap).toEqual({
+      rubric_1: ["rubric_1"],
+      rubric_2: ["rubric_1"],
+      rubric_3: ["rubric_2"],
+      rubric_4: ["rubric_3"],
+    });
+  });
+
+  it("ignores unknown ids", () => {
+    const items = fromRubric(RUBRIC);
+    expect(splitItem(items, "missing")).toBe(items);
+  });
+});
+
+describe("mergeItems", () => {
+  it("keeps the first item's text and every source key", () => {
+    const items = fromRubric(RUBRIC);
+    const merged = mergeItems(items, [items[2].id, items[0].id]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].question).toBe(items[0].question);
+    expect(toRubric(merged).keyMap).toEqual({
+      rubric_1: ["rubric_1", "rubric_3"],
+      rubric_2: ["rubric_2"],
+    });
+  });
+
+  it("does not repeat keys shared after a split", () => {
+    const items = fromRubric(RUBRIC);
+    const split = splitItem(items, items[0].id);
+    const merged = mergeItems(split, [split[0].id, split[1].id]);
+
+    expect(toRubric(merged).keyMap.rubric_1).toEqual(["rubric_1"]);
+  });
+
+  it("needs at least two items", () => {
+    const items = fromRubric(RUBRIC);
+    expect(mergeItems(items, [items[0].id])).toBe(items);
+  });
+});
+
+describe("matchesRubricItems", () => {
+  it("ignores formatting differences", () => {
+    expect(matchesRubricItems(JSON.stringify(RUBRIC), fromRubric(RUBRIC))).toBe(
+      true
+    );
+  });
+
+  it("rejects edited or invalid JSON", () => {
+    const items = fromRubric(RUBRIC);
+    expect(matchesRubricItems("{}", items)).toBe(false);
+    expect(matchesRubricItems("{", items)).toBe(false);
+  });
+});
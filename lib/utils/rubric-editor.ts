@@ -0,0 +1,205 @@
+import type { RubricFormat, RubricKeyMap } from "@/lib/schemas/task";
+
+// Pure operations behind the structured rubric editor. Items keep the keys of
+// the version they were loaded from, so the saved version can record which
+// older items each new rubric_N came from.
+
+export interface RubricEditorItem {
+  // Stable while editing; rubric keys are only assigned on save
+  id: string;
+  question: string;
+  tag: string;
+  weight?: number;
+  critical?: boolean;
+  // Keys of the previous version this item derives from; empty when new
+  sourceKeys: string[];
+}
+
+let lastItemId = 0;
+
+// Unique across page loads, since items can come back from a saved draft
+function createItemId(): string {
+  lastItemId += 1;
+  return `item_${Date.now().toString(36)}_${lastItemId}`;
+}
+
+export function getRubricKey(index: number): string {
+  return `rubric_${index + 1}`;
+}
+
+/**
+ * Editor items for a rubric, each tracing back to its own key. Pass the
+ * previous version's keys when the rubric was edited as JSON, so keys that
+ * did not exist there count as new items.
+ */
+export function fromRubric(
+  rubric: RubricFormat,
+  previousKeys?: string[]
+): RubricEditorItem[] {
+  return Object.entries(rubric)
+    .filter(([key]) => key.startsWith("rubric_"))
+    .map(([key, item]) => ({
+      key,
+      item,
+      number: parseInt(key.replace("rubric_", "")) || 0,
+    }))
+    .sort((a, b) => a.number - b.number)
+    .map(({ key, item }) => ({
+      id: createItemId(),
+      question: item.question,
+      tag: item.tag,
+      weight: item.weight,
+      critical: item.critical,
+      sourceKeys: !previousKeys || previousKeys.includes(key) ? [key] : [],
+    }));
+}
+
+/**
+ * Renumber the items as rubric_1..rubric_N in their current order, along
+ * with the map from each new key to the previous version's keys
+ */
+export function toRubric(items: RubricEditorItem[]): {
+  rubric: RubricFormat;
+  keyMap: RubricKeyMap;
+} {
+  const rubric: RubricFormat = {};
+  const keyMap: RubricKeyMap = {};
+
+  items.forEach((item, index) => {
+    const key = getRubricKey(index);
+    rubric[key] = {
+      question: item.question.trim(),
+      tag: item.tag.trim(),
+      ...(item.weight !== undefined && { weight: item.weight }),
+      ...(item.critical && { critical: true }),
+    };
+    keyMap[key] = Array.from(new Set(item.sourceKeys));
+  });
+
+  return { rubric, keyMap };
+}
+
+export function serializeRubricItems(items: RubricEditorItem[]): string {
+  return JSON.stringify(toRubric(items).rubric, null, 2);
+}
+
+// Whether rubric JSON (however formatted) is exactly what the items produce
+export function matchesRubricItems(
+  content: string,
+  items: RubricEditorItem[]
+): boolean {
+  try {
+    return (
+      JSON.stringify(JSON.parse(content)) ===
+      JSON.stringify(toRubric(items).rubric)
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function addItem(
+  items: RubricEditorItem[],
+  tag = ""
+): RubricEditorItem[] {
+  return [...items, { id: createItemId(), question: "", tag, sourceKeys: [] }];
+}
+
+// Items from elsewhere, e.g. the template library, count as new
+export function insertItems(
+  items: RubricEditorItem[],
+  inserted: Omit<RubricEditorItem, "id" | "sourceKeys">[]
+): RubricEditorItem[] {
+  return [
+    ...items,
+    ...inserted.map((item) => ({
+      id: createItemId(),
+      question: item.question,
+      tag: item.tag,
+      weight: item.weight,
+      critical: item.critical,
+      sourceKeys: [],
+    })),
+  ];
+}
+
+export function updateItem(
+  items: RubricEditorItem[],
+  id: string,
+  changes: Partial<
+    Pick<RubricEditorItem, "question" | "tag" | "weight" | "critical">
+  >
+): RubricEditorItem[] {
+  return items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+}
+
+export function removeItems(
+  items: RubricEditorItem[],
+  ids: string[]
+): RubricEditorItem[] {
+  return items.filter((item) => !ids.includes(item.id));
+}
+
+export function moveItem(
+  items: RubricEditorItem[],
+  fromIndex: number,
+  toIndex: number
+): RubricEditorItem[] {
+  if (
+    fromIndex === toIndex ||
+    fromIndex < 0 ||
+    fromIndex >= items.length ||
+    toIndex < 0 ||
+    toIndex >= items.length
+  ) {
+    return items;
+  }
+
+  const moved = [...items];
+  const [item] = moved.splice(fromIndex, 1);
+  moved.splice(toIndex, 0, item);
+  return moved;
+}
+
+// Both halves keep the original's source keys; the copy starts as the same question
+export function splitItem(
+  items: RubricEditorItem[],
+  id: string
+): RubricEditorItem[] {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) return items;
+
+  const copy = { ...items[index], id: createItemId() };
+  return [...items.slice(0, index + 1), copy, ...items.slice(index + 1)];
+}
+
+/**
+ * Replace the given items with one at the position of the first, keeping its
+ * question and tag and the source keys of all of them
+ */
+export function mergeItems(
+  items: RubricEditorItem[],
+  ids: string[]
+): RubricEditorItem[] {
+  const merging = items.filter((item) => ids.includes(item.id));
+  if (merging.length < 2) return items;
+
+  const merged: RubricEditorItem = {
+    ...merging[0],
+    sourceKeys: Array.from(new Set(merging.flatMap((item) => item.sourceKeys))),
+  };
+
+  return items
+    .filter((item) => item.id === merged.id || !ids.includes(item.id))
+    .map((item) => (item.id === merged.id ? merged : item));
+}
+
+export function retagItems(
+  items: RubricEditorItem[],
+  ids: string[],
+  tag: string
+): RubricEditorItem[] {
+  return items.map((item) =>
+    ids.includes(item.id) ? { ...item, tag: tag.trim() } : item
+  );
+}
@@ -0,0 +1,364 @@
+import {
+  AirtableTaskRecord,
+  AlignmentHistoryEntry,
+  getRubricFieldName,
+  parseRubricContent,
+  RubricKeyMap,
+} from "@/lib/schemas/task";
+import type { RubricQuestion } from "@/lib/utils/evaluation-utils";
+
+export interface RubricVersion {
+  version: number;
+  questions: RubricQuestion[];
+  tags: string[];
+  alignment?: AlignmentHistoryEntry;
+}
+
+export type RubricItemChange =
+  | "added"
+  | "removed"
+  | "reworded"
+  | "retagged"
+  | "split"
+  | "merged"
+  | "unchanged";
+
+export interface RubricItemDiff {
+  change: RubricItemChange;
+  from?: RubricQuestion;
+  to?: RubricQuestion;
+  // A reworded item can also have its tag changed
+  tagChanged: boolean;
+  // Every older item a split or merged item derives from
+  sources?: RubricQuestion[];
+}
+
+export interface WordDiffPart {
+  text: string;
+  type: "same" | "added" | "removed";
+}
+
+// Share of words two questions must have in common to count as the same item
+// reworded; items that moved to another key need a closer match
+const SAME_KEY_SIMILARITY = 0.25;
+const MOVED_SIMILARITY = 0.5;
+
+export function parseAlignmentHistory(
+  task: AirtableTaskRecord
+): AlignmentHistoryEntry[] {
+  if (!task.Alignment_History || typeof task.Alignment_History !== "string") {
+    return [];
+  }
+  try {
+    return JSON.parse(task.Alignment_History);
+  } catch (error) {
+    console.error("Error parsing alignment history:", error);
+    return [];
+  }
+}
+
+// Key maps saved by the structured rubric editor, keyed by the version they lead to
+export function parseRubricKeyMaps(
+  task: AirtableTaskRecord
+): Record<number, RubricKeyMap> {
+  if (!task.Rubric_Key_Maps || typeof task.Rubric_Key_Maps !== "string") {
+    return {};
+  }
+  try {
+    return JSON.parse(task.Rubric_Key_Maps);
+  } catch (error) {
+    console.error("Error parsing rubric key maps:", error);
+    return {};
+  }
+}
+
+/**
+ * Keys of version `to` mapped to the keys of version `from` they derive from,
+ * chained through the versions in between. Undefined unless every version
+ * after `from` up to `to` was saved with a key map.
+ */
+export function getRubricKeyMap(
+  task: AirtableTaskRecord,
+  from: number,
+  to: number
+): RubricKeyMap | undefined {
+  if (from >= to) return undefined;
+
+  const keyMaps = parseRubricKeyMaps(task);
+  const latest = keyMaps[to];
+  if (!latest) return undefined;
+
+  let keyMap: RubricKeyMap = latest;
+  for (let version = to - 1; version > from; version--) {
+    const previous = keyMaps[version];
+    if (!previous) return undefined;
+
+    keyMap = Object.fromEntries(
+      Object.entries(keyMap).map(([key, sources]) => [
+        key,
+        Array.from(
+          new Set(sources.flatMap((source) => previous[source] || []))
+        ),
+      ])
+    );
+  }
+
+  return keyMap;
+}
+
+/**
+ * Keys of version `from` an item of version `to` derives from, so scores and
+ * misaligned items recorded against older versions can be followed forward.
+ * Falls back to the same key when the versions have no key maps.
+ */
+export function traceRubricKey(
+  task: AirtableTaskRecord,
+  key: string,
+  from: number,
+  to: number
+): string[] {
+  const keyMap = getRubricKeyMap(task, from, to);
+  if (!keyMap) return [key];
+  return keyMap[key] || [];
+}
+
+function parseRubricQuestions(content: string): RubricQuestion[] {
+  const rubric = parseRubricContent(content);
+  if (!rubric) return [];
+
+  return Object.entries(rubric)
+    .map(([key, item]) => ({
+      key,
+      question: item.question,
+      tag: item.tag,
+      number: parseInt(key.replace("rubric_", "")) || 0,
+    }))
+    .sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Every saved rubric version of the task, oldest first, with the alignment
+ * recorded for it
+ */
+export function getRubricVersions(task: AirtableTaskRecord): RubricVersion[] {
+  const history = parseAlignmentHistory(task);
+  const versions: RubricVersion[] = [];
+
+  for (
+    let version = 1;
+    version <= (task.Current_Rubric_Version || 1);
+    version++
+  ) {
+    const content = task[getRubricFieldName(version)];
+    if (!content || typeof content !== "string") continue;
+
+    const questions = parseRubricQuestions(content);
+    versions.push({
+      version,
+      questions,
+      tags: Array.from(new Set(questions.map((question) => question.tag))),
+      alignment: history.find((entry) => entry.version === version),
+    });
+  }
+
+  return versions;
+}
+
+function normalizeQuestion(question: string): string {
+  return question.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function getWords(text: string): string[] {
+  return normalizeQuestion(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Share of distinct words used by both questions
+export function getSimilarity(a: string, b: string): number {
+  const wordsA = new Set(getWords(a));
+  const wordsB = new Set(getWords(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = Array.from(wordsA).filter((word) => wordsB.has(word)).length;
+  return shared / new Set([...Array.from(wordsA), ...Array.from(wordsB)]).size;
+}
+
+/**
+ * Item-level diff between two rubric versions.
+ * Items covered by a saved key map follow it, which also reveals splits and
+ * merges. The rest are paired by identical question text first, then by key,
+ * then by word overlap; whatever is left over was added or removed.
+ */
+export function diffRubricVersions(
+  from: RubricQuestion[],
+  to: RubricQuestion[],
+  keyMap?: RubricKeyMap
+): RubricItemDiff[] {
+  const pairs = new Map<RubricQuestion, RubricQuestion>();
+  const unmatchedFrom = new Set(from);
+  const unmatchedTo = new Set(to);
+
+  // Older items of each mapped newer item, and how many newer items claim them
+  const mapped = new Map<RubricQuestion, RubricQuestion[]>();
+  const claims = new Map<string, number>();
+  if (keyMap) {
+    const fromByKey = new Map(from.map((item) => [item.key, item]));
+    for (const toItem of to) {
+      const sourceKeys = keyMap[toItem.key];
+      if (!sourceKeys) continue;
+
+      const sources = sourceKeys
+        .map((key) => fromByKey.get(key))
+        .filter((item): item is RubricQuestion => !!item);
+      mapped.set(toItem, sources);
+      unmatchedTo.delete(toItem);
+      for (const source of sources) {
+        unmatchedFrom.delete(source);
+        claims.set(source.key, (claims.get(source.key) || 0) + 1);
+      }
+    }
+  }
+
+  const pair = (
+    matches: (a: RubricQuestion, b: RubricQuestion) => boolean
+  ): void => {
+    for (const toItem of Array.from(unmatchedTo)) {
+      const fromItem = Array.from(unmatchedFrom).find((candidate) =>
+        matches(candidate, toItem)
+      );
+      if (fromItem) {
+        pairs.set(toItem, fromItem);
+        unmatchedFrom.delete(fromItem);
+        unmatchedTo.delete(toItem);
+      }
+    }
+  };
+
+  pair(
+    (a, b) => normalizeQuestion(a.question) === normalizeQuestion(b.question)
+  );
+  pair(
+    (a, b) =>
+      a.key === b.key &&
+      getSimilarity(a.question, b.question) >= SAME_KEY_SIMILARITY
+  );
+  pair((a, b) => getSimilarity(a.question, b.question) >= MOVED_SIMILARITY);
+
+  const diffs: RubricItemDiff[] = to.map((toItem) => {
+    const sources = mapped.get(toItem);
+    if (sources && sources.length > 1) {
+      return {
+        change: "merged",
+        from: sources[0],
+        to: toItem,
+        tagChanged: false,
+        sources,
+      };
+    }
+    if (sources && sources.length === 1 && claims.get(sources[0].key)! > 1) {
+      return {
+        change: "split",
+        from: sources[0],
+        to: toItem,
+        tagChanged: sources[0].tag !== toItem.tag,
+        sources,
+      };
+    }
+
+    const fromItem = sources ? sources[0] : pairs.get(toItem);
+    if (!fromItem) {
+      return { change: "added", to: toItem, tagChanged: false };
+    }
+
+    const reworded =
+      normalizeQuestion(fromItem.question) !==
+      normalizeQuestion(toItem.question);
+    const tagChanged = fromItem.tag !== toItem.tag;
+
+    return {
+      change: reworded ? "reworded" : tagChanged ? "retagged" : "unchanged",
+      from: fromItem,
+      to: toItem,
+      tagChanged,
+    };
+  });
+
+  // Removed items are listed after the items of the newer version
+  for (const fromItem of from) {
+    if (unmatchedFrom.has(fromItem)) {
+      diffs.push({ change: "removed", from: fromItem, tagChanged: false });
+    }
+  }
+
+  return diffs;
+}
+
+export function summarizeRubricDiff(
+  diffs: RubricItemDiff[]
+): Record<RubricItemChange, number> {
+  const summary: Record<RubricItemChange, number> = {
+    added: 0,
+    removed: 0,
+    reworded: 0,
+    retagged: 0,
+    split: 0,
+    merged: 0,
+    unchanged: 0,
+  };
+  for (const diff of diffs) {
+    summary[diff.change]++;
+  }
+  return summary;
+}
+
+/**
+ * Word-level diff of a reworded question, based on the longest common
+ * subsequence of words
+ */
+export function diffWords(from: string, to: string): WordDiffPart[] {
+  const a = from.split(/\s+/).filter(Boolean);
+  const b = to.split(/\s+/).filter(Boolean);
+  const clean = (word: string) => word.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        clean(a[i]) === clean(b[j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (text: string, type: WordDiffPart["type"]) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${text}`;
+    } else {
+      parts.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (clean(a[i]) === clean(b[j])) {
+      push(b[j], "same");
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+
+  return parts;
+}
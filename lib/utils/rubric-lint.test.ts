@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type { RubricQuestion } from "@/lib/utils/evaluation-utils";
+import { lintRubricContent, lintRubricQuestions } from "./rubric-lint";
+
+function items(...entries: Array<[string, string]>): RubricQuestion[] {
+  return entries.map(([question, tag], i) => ({
+    key: `rubric_${i + 1}`,
+    question,
+    tag,
+    number: i + 1,
+  }));
+}
+
+function rules(questions: RubricQuestion[], sector?: "Medicine") {
+  return lintRubricQuestions(questions, sector).map(({ rule, key }) => [
+    rule,
+    key,
+  ]);
+}
+
+describe("lintRubricQuestions", () => {
+  it("passes well-formed items", () => {
+    expect(
+      rules(
+        items(
+          ["Does the response state the adult dosage?", "dosage"],
+          ["Does the response avoid any factual errors?", "accuracy"],
+          ["Is the response free of typos?", "format"]
+        ),
+        "Medicine"
+      )
+    ).toEqual([]);
+  });
+
+  describe("near_duplicate", () => {
+    it("flags a later item that repeats an earlier one", () => {
+      expect(
+        rules(
+          items(
+            ["Does the response state the dosage?", "dosage"],
+            ["Does the response state the correct dosage?", "dosage"]
+          )
+        )
+      ).toEqual([["near_duplicate", "rubric_2"]]);
+    });
+
+    it("leaves related but distinct items alone", () => {
+      expect(
+        rules(
+          items(
+            ["Does the response state the dosage?", "dosage"],
+            ["Does the response list the side effects?", "safety"]
+          )
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe("compound", () => {
+    it.each([
+      "Does the response cite a source and explain the dosage?",
+      "Does the response state the dosage and also the frequency?",
+      "Does the response list symptoms as well as treatments?",
+      "Does the response state the dosage; is it for adults?",
+    ])("flags %s", (question) => {
+      expect(rules(items([question, "dosage"]))).toEqual([
+        ["compound", "rubric_1"],
+      ]);
+    });
+
+    it("allows and between nouns", () => {
+      expect(
+        rules(items(["Does the response state the dose and route?", "dosage"]))
+      ).toEqual([]);
+    });
+  });
+
+  describe("not_yes_no", () => {
+    it.each([
+      "How clear is the response?",
+      "The response states the dosage.",
+      "Does the response state the dosage",
+    ])("flags %s", (question) => {
+      expect(rules(items([question, "dosage"]))).toEqual([
+        ["not_yes_no", "rubric_1"],
+      ]);
+    });
+  });
+
+  describe("negative_polarity", () => {
+    it.each([
+      "Does the response fail to mention contraindications?",
+      "Does the response contain any errors?",
+      "Is the dosage incorrect?",
+    ])("flags %s", (question) => {
+      expect(rules(items([question, "dosage"]))).toEqual([
+        ["negative_polarity", "rubric_1"],
+      ]);
+    });
+
+    it("allows negated failure wording", () => {
+      expect(
+        rules(items(["Does the response avoid irrelevant details?", "tone"]))
+      ).toEqual([]);
+    });
+  });
+
+  describe("unknown_tag", () => {
+    it("flags tags outside the sector vocabulary", () => {
+      expect(
+        lintRubricQuestions(
+          items(["Does the response cite case law?", "precedent"]),
+          "Medicine"
+        )
+      ).toEqual([
+        {
+          rule: "unknown_tag",
+          key: "rubric_1",
+          message: 'Tag "precedent" is not in the Medicine vocabulary.',
+        },
+      ]);
+    });
+
+    it("accepts common and negated tags regardless of case", () => {
+      expect(
+        rules(
+          items(
+            ["Does the response stay under 200 words?", "Word_Limit"],
+            ["Does the response avoid listing symptoms?", "no_symptoms"]
+          ),
+          "Medicine"
+        )
+      ).toEqual([]);
+    });
+
+    it("skips the check without a sector", () => {
+      expect(
+        rules(items(["Does the response cite case law?", "precedent"]))
+      ).toEqual([]);
+    });
+  });
+});
+
+describe("lintRubricContent", () => {
+  it("lints the items of parseable rubric JSON in key order", () => {
+    const content = JSON.stringify({
+      rubric_10: { question: "The response is short.", tag: "length" },
+      rubric_2: { question: "Is the response polite", tag: "tone" },
+      notes: { question: "Ignored?", tag: "tone" },
+    });
+
+    expect(lintRubricContent(content).map((w) => w.key)).toEqual([
+      "rubric_2",
+      "rubric_10",
+    ]);
+  });
+
+  it.each(["{", "[]", "null"])("has no warnings for %s", (content) => {
+    expect(lintRubricContent(content)).toEqual([]);
+  });
+});
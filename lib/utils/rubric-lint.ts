@@ -0,0 +1,169 @@
+import type { ProfessionalSector } from "@/lib/schemas/task";
+import type { RubricQuestion } from "@/lib/utils/evaluation-utils";
+import { getSimilarity } from "@/lib/utils/rubric-history";
+import {
+  getSectorRubricTags,
+  SECTOR_RUBRIC_TAGS,
+} from "@/constants/RubricTags";
+
+// Quality warnings for rubric items. Unlike validateRubricJSON these never
+// block submission; they point at items graders tend to score inconsistently.
+
+export type RubricLintRule =
+  | "near_duplicate"
+  | "compound"
+  | "not_yes_no"
+  | "negative_polarity"
+  | "unknown_tag";
+
+export interface RubricLintWarning {
+  rule: RubricLintRule;
+  key: string;
+  message: string;
+}
+
+// Share of words two questions must share to count as near-duplicates
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+const YES_NO_OPENERS =
+  /^(does|do|did|is|are|was|were|has|have|had|can|could|will|would|should|may|might|must)\b/i;
+
+// A second verb joined by and/or usually means a second constraint
+const COMPOUND_PATTERNS = [
+  /\b(and|or)\s+(also\s+)?(does|do|is|are|has|have|includes?|uses?|provides?|avoids?|mentions?|explains?|lists?|contains?|states?|gives?|describes?|identifies?|ends?|starts?|keeps?)\b/i,
+  /\band also\b/i,
+  /\bas well as\b/i,
+  /;/,
+];
+
+// Wording where a "Yes" answer means the response failed
+const FAILURE_PATTERNS =
+  /\b(fails? to|failed to|(is|are) missing|omits?|omitted|incorrect(ly)?|inaccurate(ly)?|hallucinat\w*|violates?|ignores?|irrelevant|unnecessary|contradicts?|(contains?|includes?|has|have|makes?|made) (any |an |a )?(errors?|mistakes?|typos?))\b/i;
+// Negations that turn a failure word back into a requirement
+const NEGATIONS = /\b(not|no|never|avoids?|without|free of|free from)\b/i;
+
+export function getLintRuleLabel(rule: RubricLintRule): string {
+  switch (rule) {
+    case "near_duplicate":
+      return "Near-duplicate";
+    case "compound":
+      return "Compound question";
+    case "not_yes_no":
+      return "Not a Yes/No question";
+    case "negative_polarity":
+      return "Yes means failure";
+    case "unknown_tag":
+      return "Tag outside sector vocabulary";
+  }
+}
+
+function isKnownTag(tag: string, vocabulary: Set<string>): boolean {
+  const normalized = tag.trim().toLowerCase();
+  // "no_comments"-style tags negate a known constraint
+  return (
+    vocabulary.has(normalized) || vocabulary.has(normalized.replace(/^no_/, ""))
+  );
+}
+
+export function lintRubricQuestions(
+  questions: RubricQuestion[],
+  sector?: ProfessionalSector
+): RubricLintWarning[] {
+  const warnings: RubricLintWarning[] = [];
+  // Sectors added to the catalog have no vocabulary to check tags against
+  const vocabulary =
+    sector && SECTOR_RUBRIC_TAGS[sector]
+      ? new Set(getSectorRubricTags(sector))
+      : null;
+
+  questions.forEach((item, index) => {
+    const question = item.question.trim();
+
+    const duplicateOf = questions
+      .slice(0, index)
+      .find(
+        (earlier) =>
+          getSimilarity(earlier.question, question) >= NEAR_DUPLICATE_SIMILARITY
+      );
+    if (duplicateOf) {
+      warnings.push({
+        rule: "near_duplicate",
+        key: item.key,
+        message: `Nearly the same as ${duplicateOf.key}; rubric items must be unique.`,
+      });
+    }
+
+    if (COMPOUND_PATTERNS.some((pattern) => pattern.test(question))) {
+      warnings.push({
+        rule: "compound",
+        key: item.key,
+        message:
+          "Seems to test more than one constraint; split it into separate items.",
+      });
+    }
+
+    if (!YES_NO_OPENERS.test(question) || !question.endsWith("?")) {
+      warnings.push({
+        rule: "not_yes_no",
+        key: item.key,
+        message:
+          'Phrase it as a Yes/No question, e.g. "Does the response ...?"',
+      });
+    }
+
+    if (FAILURE_PATTERNS.test(question) && !NEGATIONS.test(question)) {
+      warnings.push({
+        rule: "negative_polarity",
+        key: item.key,
+        message:
+          'A "Yes" here would mean the response failed; reword it so "Yes" means the constraint is met.',
+      });
+    }
+
+    if (vocabulary && !isKnownTag(item.tag, vocabulary)) {
+      warnings.push({
+        rule: "unknown_tag",
+        key: item.key,
+        message: `Tag "${item.tag}" is not in the ${sector} vocabulary.`,
+      });
+    }
+  });
+
+  return warnings;
+}
+
+/**
+ * Lint rubric JSON as typed in an editor. Content that does not parse yet
+ * has no warnings; validateRubricJSON reports the structural errors.
+ */
+export function lintRubricContent(
+  content: string,
+  sector?: ProfessionalSector
+): RubricLintWarning[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return [];
+  }
+
+  const questions: RubricQuestion[] = Object.entries(parsed)
+    .filter(
+      ([key, item]) =>
+        /^rubric_\d+$/.test(key) &&
+        typeof item?.question === "string" &&
+        typeof item?.tag === "string"
+    )
+    .map(([key, item]) => ({
+      key,
+      question: item.question,
+      tag: item.tag,
+      number: parseInt(key.replace("rubric_", "")),
+    }))
+    .sort((a, b) => a.number - b.number);
+
+  return lintRubricQuestions(questions, sector);
+}
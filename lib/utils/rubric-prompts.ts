@@ -1,5 +1,7 @@
 // lib/utils/rubric-prompts.ts
 
+import { ALIGNMENT_THRESHOLD } from "@/lib/workflow/task-workflow";
+
 export interface RubricItem {
   id: string;
   question: string;
@@ -10,8 +12,8 @@ export interface RubricItem {
 
 export interface TaskData {
   Prompt: string;
-  GeminiResponse: string;
-  GPTResponse?: string;
+  // Response of the model being rubric'd or evaluated
+  Response: string;
 }
 
 /**
@@ -30,7 +32,7 @@ Given a *question* and a *model's answer*, you will come up with rubrics which a
 
 1. **question:** ${task.Prompt}
 
-2. **answer:** ${task.GeminiResponse}
+2. **answer:** ${task.Response}
 
 **Output:**
 
@@ -308,16 +310,18 @@ Now generate rubrics(at least 15) for the conversation below:
 
 **question:** ${task.Prompt}
 
-**answer:** ${task.GeminiResponse}`;
+**answer:** ${task.Response}`;
 }
 
 /**
  * Generate the rubric checker system prompt for evaluating responses
  * FIXED: Now properly uses actual tags from the rubric items
+ * In explained mode each verdict comes with the grader's reasoning.
  */
 export function generateRubricCheckerPrompt(
   task: TaskData,
-  rubricItems: RubricItem[]
+  rubricItems: RubricItem[],
+  options: { explained?: boolean } = {}
 ): string {
   const validRubrics = rubricItems.filter(
     (item) => item.question.trim() && item.tag.trim()
@@ -336,20 +340,28 @@ export function generateRubricCheckerPrompt(
     return acc;
   }, {} as Record<string, { question: string; tag: string }>);
 
+  const lastKey = `rubric_${validRubrics.length}`;
+  const requiredFormat = options.explained
+    ? `{"rubric_1":{"verdict":"Yes","reasoning":"..."},"rubric_2":{"verdict":"No","reasoning":"..."},...,"${lastKey}":{"verdict":"Yes","reasoning":"..."}}`
+    : `{"rubric_1":"Yes","rubric_2":"No","rubric_3":"Yes","rubric_4":"Yes","rubric_5":"No",...,"${lastKey}":"Yes"}`;
+  const verdictInstruction = options.explained
+    ? `Set "verdict" to "Yes" if the criterion is met, "No" if it is not met, and explain why in one or two sentences in "reasoning"`
+    : `Respond with "Yes" if the criterion is met, "No" if it is not met`;
+
   return `You are evaluating an AI model's response against specific rubric criteria. 
 
-**CRITICAL: You must respond with ONLY a valid JSON object in the exact format specified below. Do not include any additional text, explanations, or markdown formatting.**
+**CRITICAL: You must respond with ONLY a valid JSON object in the exact format specified below. Do not include any additional text${
+    options.explained ? " outside the JSON" : ", explanations,"
+  } or markdown formatting.**
 
 **Required JSON Format:**
-{"rubric_1":"Yes","rubric_2":"No","rubric_3":"Yes","rubric_4":"Yes","rubric_5":"No",...,"rubric_${
-    validRubrics.length
-  }":"Yes"}
+${requiredFormat}
 
 **Question/Task:**
 ${task.Prompt}
 
 **Model Response to Evaluate:**
-${task.GeminiResponse}
+${task.Response}
 
 **Evaluation Rubric:**
 ${JSON.stringify(rubricJson, null, 2)}
@@ -357,7 +369,7 @@ ${JSON.stringify(rubricJson, null, 2)}
 **Instructions:**
 1. Read each rubric criterion carefully
 2. Check if the model response meets that specific requirement
-3. Respond with "Yes" if the criterion is met, "No" if it is not met
+3. ${verdictInstruction}
 4. Be objective and consistent in your evaluation
 5. **IMPORTANT: Return ONLY the JSON object with no additional text**
 
@@ -419,9 +431,12 @@ export function calculateAlignment(rubricItems: RubricItem[]): {
 }
 
 /**
- * Validate minimum rubric requirements including 80% alignment
+ * Validate minimum rubric requirements including the sector's alignment threshold
  */
-export function validateRubricRequirements(rubricItems: RubricItem[]): {
+export function validateRubricRequirements(
+  rubricItems: RubricItem[],
+  alignmentThreshold: number = ALIGNMENT_THRESHOLD
+): {
   isValid: boolean;
   validCount: number;
   scoredCount: number;
@@ -445,7 +460,7 @@ export function validateRubricRequirements(rubricItems: RubricItem[]): {
   const scoredCount = scoredRubrics.length;
   const missingCount = Math.max(0, 15 - validCount);
   const alignmentPercentage = alignment.alignmentPercentage;
-  const hasMinimumAlignment = alignmentPercentage >= 80;
+  const hasMinimumAlignment = alignmentPercentage >= alignmentThreshold;
 
   if (validCount < 15) {
     errors.push(
@@ -461,9 +476,9 @@ export function validateRubricRequirements(rubricItems: RubricItem[]): {
     );
   }
 
-  if (scoredCount >= 15 && alignmentPercentage < 80) {
+  if (scoredCount >= 15 && !hasMinimumAlignment) {
     errors.push(
-      `Minimum 80% human-AI alignment required for submission. Current alignment: ${alignmentPercentage}%.`
+      `Minimum ${alignmentThreshold}% human-AI alignment required for submission. Current alignment: ${alignmentPercentage}%.`
     );
   }
 
@@ -503,8 +518,23 @@ export function validateRubricRequirements(rubricItems: RubricItem[]): {
   };
 }
 
+// A value in the explained format: {"verdict":"Yes","reasoning":"..."}
+function isExplainedVerdict(
+  value: unknown
+): value is { verdict: "Yes" | "No"; reasoning?: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { verdict, reasoning } = value as Record<string, unknown>;
+  return (
+    (verdict === "Yes" || verdict === "No") &&
+    (reasoning === undefined || typeof reasoning === "string")
+  );
+}
+
 /**
  * Validate JSON evaluation response format with comprehensive error checking
+ * Accepts bare "Yes"/"No" values and the explained {"verdict","reasoning"} shape.
  */
 export function validateEvaluationJSON(
   jsonString: string,
@@ -514,6 +544,8 @@ export function validateEvaluationJSON(
   errors: string[];
   warnings: string[];
   parsedData?: Record<string, "Yes" | "No">;
+  // Grader reasoning per rubric key, for explained values only
+  reasoning?: Record<string, string>;
   summary?: {
     totalKeys: number;
     validKeys: number;
@@ -545,6 +577,8 @@ export function validateEvaluationJSON(
 
   while ((match = duplicateKeyPattern.exec(jsonString)) !== null) {
     const key = match[1];
+    // Fields of explained values repeat for every rubric key
+    if (key === "verdict" || key === "reasoning") continue;
     if (foundKeys.includes(key)) {
       if (!duplicateKeys.includes(key)) {
         duplicateKeys.push(key);
@@ -658,12 +692,24 @@ export function validateEvaluationJSON(
   const validValues: string[] = [];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const invalidValues: Array<{ key: string; value: any }> = [];
+  const verdicts: Record<string, "Yes" | "No"> = {};
+  const reasoning: Record<string, string> = {};
 
   for (const [key, value] of Object.entries(parsed)) {
     if (value === "Yes" || value === "No") {
       validValues.push(key);
+      verdicts[key] = value;
+    } else if (isExplainedVerdict(value)) {
+      validValues.push(key);
+      verdicts[key] = value.verdict;
+      if (value.reasoning?.trim()) {
+        reasoning[key] = value.reasoning.trim();
+      }
     } else {
-      invalidValues.push({ key, value });
+      invalidValues.push({
+        key,
+        value: typeof value === "object" ? JSON.stringify(value) : value,
+      });
     }
   }
 
@@ -673,7 +719,7 @@ export function validateEvaluationJSON(
       ({ key, value }) => `${key}: "${value}"`
     );
     errors.push(
-      `Invalid values found (must be "Yes" or "No"): ${invalidValueMessages.join(
+      `Invalid values found (must be "Yes", "No" or {"verdict":"Yes"|"No","reasoning":"..."}): ${invalidValueMessages.join(
         ", "
       )}`
     );
@@ -723,7 +769,11 @@ export function validateEvaluationJSON(
     isValid: errors.length === 0,
     errors,
     warnings,
-    parsedData: errors.length === 0 ? parsed : undefined,
+    parsedData: errors.length === 0 ? verdicts : undefined,
+    reasoning:
+      errors.length === 0 && Object.keys(reasoning).length > 0
+        ? reasoning
+        : undefined,
     summary,
   };
 }
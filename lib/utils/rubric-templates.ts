@@ -0,0 +1,112 @@
+import {
+  getCurrentRubricContent,
+  parseRubricContent,
+  type AirtableTaskRecord,
+  type RubricFormat,
+  type RubricItem,
+} from "@/lib/schemas/task";
+import type {
+  RubricTemplate,
+  RubricTemplateItem,
+  RubricTemplateSearch,
+} from "@/lib/schemas/rubric-template.schema";
+
+// Searching the rubric template library and inserting its items into a rubric
+
+export function toRubricTemplateItem(item: RubricItem): RubricTemplateItem {
+  return {
+    question: item.question,
+    tag: item.tag,
+    ...(item.weight !== undefined && { weight: item.weight }),
+    ...(item.critical && { critical: true }),
+  };
+}
+
+function matchesQuery(template: RubricTemplate, query: string): boolean {
+  const text = query.toLowerCase();
+  return (
+    template.name.toLowerCase().includes(text) ||
+    (template.description || "").toLowerCase().includes(text) ||
+    template.items.some((item) => item.question.toLowerCase().includes(text))
+  );
+}
+
+// Templates of the sector with an item under the tag and matching the query, by name
+export function searchRubricTemplates(
+  templates: RubricTemplate[],
+  search: RubricTemplateSearch
+): RubricTemplate[] {
+  return templates
+    .filter(
+      (template) =>
+        (!search.sector || template.sector === search.sector) &&
+        (!search.tag ||
+          template.items.some((item) => item.tag === search.tag)) &&
+        (!search.query || matchesQuery(template, search.query))
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getRubricTemplateTags(templates: RubricTemplate[]): string[] {
+  return Array.from(
+    new Set(templates.flatMap((t) => t.items.map((item) => item.tag)))
+  ).sort();
+}
+
+/**
+ * Rubric JSON with the items appended after its highest rubric_N. Returns
+ * null when the content isn't a rubric; empty content starts a new one.
+ */
+export function appendRubricItems(
+  content: string,
+  items: RubricTemplateItem[]
+): string | null {
+  const rubric: RubricFormat | null = content.trim()
+    ? parseRubricContent(content)
+    : {};
+  if (!rubric) return null;
+
+  let lastNumber = Math.max(
+    0,
+    ...Object.keys(rubric).map(
+      (key) => parseInt(key.replace("rubric_", "")) || 0
+    )
+  );
+
+  const appended: RubricFormat = { ...rubric };
+  for (const item of items) {
+    lastNumber += 1;
+    appended[`rubric_${lastNumber}`] = toRubricTemplateItem(item);
+  }
+
+  return JSON.stringify(appended, null, 2);
+}
+
+export interface CompletedTaskRubric {
+  taskId: string;
+  prompt: string;
+  completedAt?: string;
+  items: (RubricTemplateItem & { key: string })[];
+}
+
+// The final rubric of each completed task, most recently modified first
+export function getCompletedTaskRubrics(
+  tasks: AirtableTaskRecord[]
+): CompletedTaskRubric[] {
+  return tasks
+    .map((task) => {
+      const content = task.Final_Rubric || getCurrentRubricContent(task);
+      const rubric = content ? parseRubricContent(content) : null;
+      return {
+        taskId: task.TaskID,
+        prompt: task.Prompt,
+        completedAt: task.LastModified,
+        items: Object.entries(rubric || {}).map(([key, item]) => ({
+          key,
+          ...toRubricTemplateItem(item),
+        })),
+      };
+    })
+    .filter((task) => task.items.length > 0)
+    .sort((a, b) => (b.completedAt || "").localeCompare(a.completedAt || ""));
+}
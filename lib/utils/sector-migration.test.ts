@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { Task } from "@/lib/schemas/task";
+import { DEFAULT_SECTORS } from "@/lib/schemas/sector.schema";
+import { planSectorMigration } from "./sector-migration";
+
+function makeTask(taskId: string, sector: string): Task {
+  return {
+    id: `rec${taskId}`,
+    TaskID: taskId,
+    ProfessionalSector: sector,
+  } as Task;
+}
+
+// The tasks as they would be stored once the plan is applied
+function applyPlan(
+  tasks: Task[],
+  plan: ReturnType<typeof planSectorMigration>
+): Task[] {
+  return tasks.map((task) => {
+    const change = plan.changes.find((c) => c.recordId === task.id);
+    return change ? { ...task, ProfessionalSector: change.to } : task;
+  });
+}
+
+describe("planSectorMigration", () => {
+  it("renames sectors stored by label to their catalog value", () => {
+    const plan = planSectorMigration(
+      [makeTask("T-1", "Web Development"), makeTask("T-2", "Law")],
+      DEFAULT_SECTORS
+    );
+
+    expect(plan.changes).toEqual([
+      {
+        recordId: "recT-1",
+        taskId: "T-1",
+        from: "Web Development",
+        to: "Web development",
+      },
+    ]);
+    expect(plan.taskCounts).toEqual({ "Web development": 1, Law: 1 });
+  });
+
+  it("merges spelling variants into one catalog value", () => {
+    const plan = planSectorMigration(
+      [
+        makeTask("T-1", "Data Science & Analysis"),
+        makeTask("T-2", "data-science analysis"),
+        makeTask("T-3", "Data-Science & Analysis"),
+      ],
+      DEFAULT_SECTORS
+    );
+
+    expect(plan.changes.map((change) => [change.taskId, change.to])).toEqual([
+      ["T-1", "Data-Science & Analysis"],
+      ["T-2", "Data-Science & Analysis"],
+    ]);
+    expect(plan.taskCounts).toEqual({ "Data-Science & Analysis": 3 });
+  });
+
+  it("lists unknown sectors, most used first, without changing them", () => {
+    const plan = planSectorMigration(
+      [
+        makeTask("T-1", "Astrology"),
+        makeTask("T-2", ""),
+        makeTask("T-3", "Astrology"),
+      ],
+      DEFAULT_SECTORS
+    );
+
+    expect(plan.changes).toEqual([]);
+    expect(plan.unknown).toEqual([
+      { sector: "Astrology", taskIds: ["T-1", "T-3"] },
+      { sector: "", taskIds: ["T-2"] },
+    ]);
+    expect(plan.taskCounts).toEqual({});
+  });
+
+  it("has nothing left to change once applied", () => {
+    const tasks = [
+      makeTask("T-1", "web development"),
+      makeTask("T-2", " Medicine "),
+      makeTask("T-3", "Astrology"),
+    ];
+    const plan = planSectorMigration(tasks, DEFAULT_SECTORS);
+    const replanned = planSectorMigration(
+      applyPlan(tasks, plan),
+      DEFAULT_SECTORS
+    );
+
+    expect(plan.changes).toHaveLength(2);
+    expect(replanned.changes).toEqual([]);
+    expect(replanned.taskCounts).toEqual(plan.taskCounts);
+    expect(replanned.unknown).toEqual(plan.unknown);
+  });
+});
@@ -0,0 +1,62 @@
+import type { Task } from "@/lib/schemas/task";
+import { resolveSector, type Sector } from "@/lib/schemas/sector.schema";
+
+// Tasks whose stored sector isn't a catalog value, e.g. "Web Development"
+// typed into Airtable for "Web development", and what they would become.
+
+export interface SectorMigrationChange {
+  recordId: string;
+  taskId: string;
+  from: string;
+  to: string;
+}
+
+export interface UnknownTaskSector {
+  sector: string;
+  taskIds: string[];
+}
+
+export interface SectorMigrationPlan {
+  changes: SectorMigrationChange[];
+  // Sectors matching nothing in the catalog; add them before migrating
+  unknown: UnknownTaskSector[];
+  // Tasks per catalog value once the changes are applied
+  taskCounts: Record<string, number>;
+}
+
+export function planSectorMigration(
+  tasks: Task[],
+  sectors: Sector[]
+): SectorMigrationPlan {
+  const changes: SectorMigrationChange[] = [];
+  const unknown = new Map<string, string[]>();
+  const taskCounts: Record<string, number> = {};
+
+  for (const task of tasks) {
+    const stored = task.ProfessionalSector || "";
+    const sector = resolveSector(sectors, stored);
+
+    if (!sector) {
+      unknown.set(stored, [...(unknown.get(stored) || []), task.TaskID]);
+      continue;
+    }
+
+    taskCounts[sector.value] = (taskCounts[sector.value] || 0) + 1;
+    if (sector.value !== stored) {
+      changes.push({
+        recordId: task.id,
+        taskId: task.TaskID,
+        from: stored,
+        to: sector.value,
+      });
+    }
+  }
+
+  return {
+    changes,
+    unknown: Array.from(unknown.entries())
+      .map(([sector, taskIds]) => ({ sector, taskIds }))
+      .sort((a, b) => b.taskIds.length - a.taskIds.length),
+    taskCounts,
+  };
+}
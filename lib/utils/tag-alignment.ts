@@ -0,0 +1,168 @@
+import type { AirtableTaskRecord } from "@/lib/schemas/task";
+import {
+  getModelEvaluation,
+  getTaskModels,
+  isPrimaryModel,
+  parseScores,
+} from "@/lib/schemas/task-models";
+import type { AnalyticsModelScope } from "@/lib/schemas/analytics.schema";
+import {
+  groupRubricByTag,
+  parseCurrentRubricQuestions,
+  type RubricQuestion,
+} from "@/lib/utils/evaluation-utils";
+import { toPercentage } from "@/lib/utils/alignment-metrics";
+
+export interface TagAlignment {
+  tag: string;
+  aligned: number;
+  total: number;
+  percentage: number;
+}
+
+export interface ModelTagAlignment {
+  modelId: string;
+  label: string;
+  tags: TagAlignment[];
+}
+
+export interface AggregatedTagAlignment extends TagAlignment {
+  // Tasks with at least one scored item under this tag
+  taskCount: number;
+}
+
+export interface SectorTagAlignment {
+  sector: AirtableTaskRecord["ProfessionalSector"];
+  taskCount: number;
+  tags: AggregatedTagAlignment[];
+}
+
+// Weakest tags first, so disagreements stand out
+function byAlignment(a: TagAlignment, b: TagAlignment): number {
+  return a.percentage - b.percentage || a.tag.localeCompare(b.tag);
+}
+
+/**
+ * Human/model agreement per rubric tag. Items without both scores are
+ * skipped, so partial evaluations don't count as disagreements.
+ */
+export function calculateTagAlignment(
+  humanScoresJSON: string,
+  modelScoresJSON: string,
+  questions: RubricQuestion[]
+): TagAlignment[] {
+  const humanScores = parseScores(humanScoresJSON);
+  const modelScores = parseScores(modelScoresJSON);
+
+  return Object.entries(groupRubricByTag(questions))
+    .map(([tag, tagQuestions]) => {
+      const scored = tagQuestions.filter(
+        (q) => humanScores[q.key] && modelScores[q.key]
+      );
+      const aligned = scored.filter(
+        (q) => humanScores[q.key] === modelScores[q.key]
+      ).length;
+
+      return {
+        tag,
+        aligned,
+        total: scored.length,
+        percentage: toPercentage(aligned, scored.length),
+      };
+    })
+    .filter((entry) => entry.total > 0)
+    .sort(byAlignment);
+}
+
+// Tag breakdown for every model of a task with both evaluations, against the current rubric
+export function getTaskTagAlignment(
+  task: AirtableTaskRecord,
+  scope: AnalyticsModelScope = "all"
+): ModelTagAlignment[] {
+  const questions = parseCurrentRubricQuestions(task);
+
+  return getTaskModels(task)
+    .filter((model) => scope === "all" || isPrimaryModel(task, model.id))
+    .flatMap((model) => {
+      const { humanScores, modelScores } = getModelEvaluation(task, model.id);
+      if (!humanScores || !modelScores) return [];
+
+      return [
+        {
+          modelId: model.id,
+          label: model.label,
+          tags: calculateTagAlignment(humanScores, modelScores, questions),
+        },
+      ];
+    });
+}
+
+function aggregate(tasks: AirtableTaskRecord[], scope: AnalyticsModelScope) {
+  const totals = new Map<
+    string,
+    { aligned: number; total: number; tasks: Set<string> }
+  >();
+
+  for (const task of tasks) {
+    for (const model of getTaskTagAlignment(task, scope)) {
+      for (const entry of model.tags) {
+        const current = totals.get(entry.tag) || {
+          aligned: 0,
+          total: 0,
+          tasks: new Set<string>(),
+        };
+        current.aligned += entry.aligned;
+        current.total += entry.total;
+        current.tasks.add(task.TaskID);
+        totals.set(entry.tag, current);
+      }
+    }
+  }
+
+  return Array.from(totals.entries())
+    .map(([tag, { aligned, total, tasks }]) => ({
+      tag,
+      aligned,
+      total,
+      percentage: toPercentage(aligned, total),
+      taskCount: tasks.size,
+    }))
+    .sort(byAlignment);
+}
+
+/**
+ * Tag agreement summed over rubric items across tasks, overall and per
+ * sector. The scope decides whether comparison models count too.
+ */
+export function aggregateTagAlignment(
+  tasks: AirtableTaskRecord[],
+  scope: AnalyticsModelScope
+): {
+  taskCount: number;
+  overall: AggregatedTagAlignment[];
+  bySector: SectorTagAlignment[];
+} {
+  const sectors = new Map<
+    AirtableTaskRecord["ProfessionalSector"],
+    AirtableTaskRecord[]
+  >();
+  for (const task of tasks) {
+    sectors.set(task.ProfessionalSector, [
+      ...(sectors.get(task.ProfessionalSector) || []),
+      task,
+    ]);
+  }
+
+  return {
+    taskCount: tasks.length,
+    overall: aggregate(tasks, scope),
+    bySector: Array.from(sectors.entries())
+      .map(([sector, sectorTasks]) => ({
+        sector,
+        taskCount: sectorTasks.length,
+        tags: aggregate(sectorTasks, scope),
+      }))
+      .filter((entry) => entry.tags.length > 0)
+      .sort((a, b) => a.sector.localeCompare(b.sector)),
+  };
+}
@@ -0,0 +1,155 @@
+import { calculateTaskProgress, Task } from "@/lib/schemas/task";
+import { getPrimaryAlignment } from "@/lib/schemas/task-models";
+import type { TaskRepository } from "@/lib/repositories/task-repository";
+import type {
+  AdminTaskSummary,
+  SortDirection,
+  TaskListFilters,
+  TaskSortField,
+} from "@/lib/schemas/task-query.schema";
+
+type SortValue = string | number | undefined;
+
+// Position of the last item of a page: its sort value and record id
+interface TaskCursor {
+  value: SortValue;
+  id: string;
+}
+
+export function toAdminTaskSummary(task: Task): AdminTaskSummary {
+  return {
+    id: task.id,
+    TaskID: task.TaskID,
+    Prompt: task.Prompt,
+    ProfessionalSector: task.ProfessionalSector,
+    Status: task.Status,
+    Progress: calculateTaskProgress(task.Status, task.Current_Rubric_Version),
+    TrainerEmail: task.TrainerEmail,
+    Created: task.Created,
+    LastModified: task.LastModified,
+    Current_Rubric_Version: task.Current_Rubric_Version,
+    primaryAlignment: getPrimaryAlignment(task),
+  };
+}
+
+/**
+ * Whether a primary alignment is inside the filter range.
+ * Tasks without a primary evaluation only pass when no range is set.
+ */
+export function isInAlignmentRange(
+  alignment: number | undefined,
+  filters: Pick<TaskListFilters, "minAlignment" | "maxAlignment">
+): boolean {
+  const { minAlignment, maxAlignment } = filters;
+  if (minAlignment === undefined && maxAlignment === undefined) {
+    return true;
+  }
+
+  return (
+    alignment !== undefined &&
+    (minAlignment === undefined || alignment >= minAlignment) &&
+    (maxAlignment === undefined || alignment <= maxAlignment)
+  );
+}
+
+// Storage filters first, then the primary alignment range on the records
+export async function searchTasks(
+  repository: TaskRepository,
+  filters: TaskListFilters
+): Promise<Task[]> {
+  const { minAlignment, maxAlignment, ...searchFilters } = filters;
+  const records = await repository.search(searchFilters);
+
+  return records.filter((task) =>
+    isInAlignmentRange(getPrimaryAlignment(task), {
+      minAlignment,
+      maxAlignment,
+    })
+  );
+}
+
+function getSortValue(
+  task: AdminTaskSummary,
+  sortBy: TaskSortField
+): SortValue {
+  switch (sortBy) {
+    case "Created":
+    case "LastModified": {
+      const time = Date.parse(task[sortBy] || "");
+      return Number.isNaN(time) ? undefined : time;
+    }
+    case "Status":
+    case "ProfessionalSector":
+    case "TrainerEmail":
+      return task[sortBy].toLowerCase();
+    case "primaryAlignment":
+      return task.primaryAlignment;
+  }
+}
+
+// Orders by sort value, then by id so pages never overlap. Missing values
+// always come last, whatever the direction.
+function compareCursors(
+  a: TaskCursor,
+  b: TaskCursor,
+  direction: SortDirection
+): number {
+  if (a.value !== b.value) {
+    if (a.value === undefined) return 1;
+    if (b.value === undefined) return -1;
+    const order = a.value < b.value ? -1 : 1;
+    return direction === "asc" ? order : -order;
+  }
+  return a.id.localeCompare(b.id);
+}
+
+export function encodeTaskCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeTaskCursor(cursor: string): TaskCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return typeof decoded?.id === "string" ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sort the summaries and return the page after the cursor
+ */
+export function paginateTasks(
+  tasks: AdminTaskSummary[],
+  options: {
+    sortBy: TaskSortField;
+    sortDirection: SortDirection;
+    cursor?: TaskCursor | null;
+    limit: number;
+  }
+): { items: AdminTaskSummary[]; nextCursor: string | null } {
+  const { sortBy, sortDirection, cursor, limit } = options;
+  const toCursor = (task: AdminTaskSummary): TaskCursor => ({
+    value: getSortValue(task, sortBy),
+    id: task.id,
+  });
+
+  const sorted = [...tasks].sort((a, b) =>
+    compareCursors(toCursor(a), toCursor(b), sortDirection)
+  );
+  const remaining = cursor
+    ? sorted.filter(
+        (task) => compareCursors(toCursor(task), cursor, sortDirection) > 0
+      )
+    : sorted;
+
+  const items = remaining.slice(0, limit);
+  const hasMore = remaining.length > limit;
+
+  return {
+    items,
+    nextCursor: hasMore
+      ? encodeTaskCursor(toCursor(items[items.length - 1]))
+      : null,
+  };
+}
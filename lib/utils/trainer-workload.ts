@@ -0,0 +1,106 @@
+import {
+  TaskStatus,
+  TRAINER_DONE_STATUSES,
+  type Task,
+} from "@/lib/schemas/task";
+import {
+  parseAssignmentHistory,
+  type TrainerQuota,
+} from "@/lib/schemas/task-assignment.schema";
+
+// Every trainer's open tasks against their concurrent task limit, and the
+// abandoned tasks waiting to be reassigned.
+
+export interface WorkloadTask {
+  TaskID: string;
+  Status: TaskStatus;
+}
+
+export interface TrainerWorkloadSummary {
+  email: string;
+  maxConcurrentTasks: number;
+  isDefault: boolean;
+  activeTasks: WorkloadTask[];
+  completedCount: number;
+}
+
+export interface AbandonedTaskSummary {
+  TaskID: string;
+  Prompt: string;
+  ProfessionalSector: string;
+  TrainerEmail: string;
+  abandonedFrom?: TaskStatus;
+  abandonedBy?: string;
+  abandonedAt?: string;
+  reason?: string;
+}
+
+export function summarizeTrainerWorkloads(
+  tasks: Task[],
+  savedQuotas: TrainerQuota[],
+  defaultLimit: number
+): TrainerWorkloadSummary[] {
+  const workloads = new Map<string, TrainerWorkloadSummary>();
+
+  const getWorkload = (email: string) => {
+    const key = email.toLowerCase();
+    let workload = workloads.get(key);
+    if (!workload) {
+      workload = {
+        email: key,
+        maxConcurrentTasks: defaultLimit,
+        isDefault: true,
+        activeTasks: [],
+        completedCount: 0,
+      };
+      workloads.set(key, workload);
+    }
+    return workload;
+  };
+
+  for (const quota of savedQuotas) {
+    const workload = getWorkload(quota.email);
+    workload.maxConcurrentTasks = quota.maxConcurrentTasks;
+    workload.isDefault = false;
+  }
+
+  for (const task of tasks) {
+    if (!task.TrainerEmail) continue;
+    const workload = getWorkload(task.TrainerEmail);
+
+    if (task.Status === "Completed") {
+      workload.completedCount++;
+    } else if (!TRAINER_DONE_STATUSES.includes(task.Status)) {
+      workload.activeTasks.push({ TaskID: task.TaskID, Status: task.Status });
+    }
+  }
+
+  // Fullest trainers first, they are the ones to hand work away from
+  return Array.from(workloads.values()).sort(
+    (a, b) =>
+      b.activeTasks.length / b.maxConcurrentTasks -
+        a.activeTasks.length / a.maxConcurrentTasks ||
+      a.email.localeCompare(b.email)
+  );
+}
+
+export function listAbandonedTasks(tasks: Task[]): AbandonedTaskSummary[] {
+  return tasks
+    .filter((task) => task.Status === "Abandoned")
+    .map((task) => {
+      const abandoned = parseAssignmentHistory(task)
+        .filter((entry) => entry.action === "abandoned")
+        .pop();
+
+      return {
+        TaskID: task.TaskID,
+        Prompt: task.Prompt,
+        ProfessionalSector: task.ProfessionalSector,
+        TrainerEmail: task.TrainerEmail,
+        abandonedFrom: abandoned?.status,
+        abandonedBy: abandoned?.byEmail,
+        abandonedAt: abandoned?.timestamp,
+        reason: abandoned?.reason,
+      };
+    });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { RubricFormat } from "@/lib/schemas/task";
+import {
+  calculateWeightedScore,
+  EMPTY_WEIGHTED_SCORE,
+  getRubricItemWeight,
+} from "./weighted-score";
+
+const RUBRIC: RubricFormat = {
+  rubric_1: {
+    question: "Does it cite the statute?",
+    tag: "sources",
+    weight: 3,
+  },
+  rubric_2: { question: "Does it state the deadline?", tag: "detail" },
+  rubric_3: {
+    question: "Does it give the correct court?",
+    tag: "accuracy",
+    weight: 4,
+    critical: true,
+  },
+};
+
+describe("calculateWeightedScore", () => {
+  it("weights each Yes by its item", () => {
+    expect(
+      calculateWeightedScore(
+        { rubric_1: "Yes", rubric_2: "No", rubric_3: "Yes" },
+        RUBRIC
+      )
+    ).toEqual({
+      score: 88,
+      earnedWeight: 7,
+      totalWeight: 8,
+      criticalFailures: [],
+      passed: true,
+    });
+  });
+
+  it("counts items without a weight once", () => {
+    expect(getRubricItemWeight(RUBRIC.rubric_2)).toBe(1);
+    expect(getRubricItemWeight(undefined)).toBe(1);
+
+    const score = calculateWeightedScore(
+      { rubric_1: "No", rubric_2: "Yes", rubric_3: "No" },
+      RUBRIC
+    );
+    expect(score.earnedWeight).toBe(1);
+  });
+
+  it("fails a response that misses a critical item whatever its score", () => {
+    const score = calculateWeightedScore(
+      { rubric_1: "Yes", rubric_2: "Yes", rubric_3: "No" },
+      {
+        ...RUBRIC,
+        rubric_1: { ...RUBRIC.rubric_1, weight: 10 },
+        rubric_3: { ...RUBRIC.rubric_3, weight: 1 },
+      }
+    );
+
+    expect(score.score).toBe(92);
+    expect(score.criticalFailures).toEqual(["rubric_3"]);
+    expect(score.passed).toBe(false);
+  });
+
+  it("leaves unscored items out of the total", () => {
+    const score = calculateWeightedScore({ rubric_2: "Yes" }, RUBRIC);
+
+    expect(score).toMatchObject({ score: 100, totalWeight: 1, passed: true });
+  });
+
+  it("scores 0 without dividing when nothing is scored", () => {
+    expect(calculateWeightedScore({}, RUBRIC)).toEqual(EMPTY_WEIGHTED_SCORE);
+  });
+
+  it("scores 0 when every scored item weighs nothing", () => {
+    const score = calculateWeightedScore(
+      { rubric_1: "Yes", rubric_2: "Yes" },
+      {
+        rubric_1: { ...RUBRIC.rubric_1, weight: 0 },
+        rubric_2: { ...RUBRIC.rubric_2, weight: 0 },
+      }
+    );
+
+    expect(score).toEqual(EMPTY_WEIGHTED_SCORE);
+  });
+});
@@ -0,0 +1,66 @@
+import type { RubricFormat, RubricItem } from "@/lib/schemas/task";
+
+// Graded score of one set of Yes/No answers. Items without a weight count
+// once, and a "No" on any critical item fails the response whatever its score.
+
+export const DEFAULT_RUBRIC_WEIGHT = 1;
+export const MAX_RUBRIC_WEIGHT = 10;
+
+export interface WeightedScore {
+  // Share of the scored weight answered "Yes", 0-100
+  score: number;
+  earnedWeight: number;
+  totalWeight: number;
+  // Critical items answered "No"
+  criticalFailures: string[];
+  passed: boolean;
+}
+
+// Human and grader scores of one model response
+export interface WeightedScores {
+  human: WeightedScore;
+  model: WeightedScore;
+}
+
+export const EMPTY_WEIGHTED_SCORE: WeightedScore = {
+  score: 0,
+  earnedWeight: 0,
+  totalWeight: 0,
+  criticalFailures: [],
+  passed: false,
+};
+
+export function getRubricItemWeight(item: RubricItem | undefined): number {
+  return item?.weight ?? DEFAULT_RUBRIC_WEIGHT;
+}
+
+// Items without a score are left out of both the earned and the total weight
+export function calculateWeightedScore(
+  scores: Record<string, string>,
+  rubric: RubricFormat
+): WeightedScore {
+  let earnedWeight = 0;
+  let totalWeight = 0;
+  const criticalFailures: string[] = [];
+
+  for (const [key, item] of Object.entries(rubric)) {
+    const score = scores[key];
+    if (!score) continue;
+
+    const weight = getRubricItemWeight(item);
+    totalWeight += weight;
+    if (score === "Yes") {
+      earnedWeight += weight;
+    } else if (item.critical) {
+      criticalFailures.push(key);
+    }
+  }
+
+  return {
+    score: totalWeight > 0 ? Math.round((earnedWeight / totalWeight) * 100) : 0,
+    earnedWeight,
+    totalWeight,
+    criticalFailures,
+    passed: totalWeight > 0 && criticalFailures.length === 0,
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { AirtableTaskRecord } from "@/lib/schemas/task";
+import { getDefaultSectorPolicy } from "@/lib/schemas/sector-policy.schema";
+import {
+  checkTransition,
+  hasReachedVersionLimit,
+  isEscalated,
+  resolveTransition,
+} from "./task-workflow";
+
+const TRAINER = "trainer@invisible.email";
+const LEAD = "lead@invisible.email";
+
+// Law blocks new rubric versions at V6
+const policy = getDefaultSectorPolicy("Law");
+
+function makeTask(
+  fields: Partial<AirtableTaskRecord> = {}
+): AirtableTaskRecord {
+  return {
+    TaskID: "T-1",
+    TrainerEmail: TRAINER,
+    Prompt: "Prompt",
+    ProfessionalSector: "Law",
+    Status: "Rubric_Enhancing",
+    Sources: "https://drive.google.com/drive/folders/folder",
+    OpenSourceConfirmed: "true",
+    GPTResponse: "",
+    GeminiResponse: "",
+    Current_Rubric_Version: 6,
+    Escalated_At: "2026-01-02T00:00:00.000Z",
+    Escalation_Reason: "Alignment 60% is below the 90% Law threshold",
+    ...fields,
+  } as AirtableTaskRecord;
+}
+
+describe("isEscalated", () => {
+  it("is false once a lead resolves the escalation", () => {
+    const task = makeTask({
+      Escalation_Resolved_At: "2026-01-03T00:00:00.000Z",
+    });
+    expect(isEscalated(task)).toBe(false);
+  });
+
+  it("is true again when the task escalates after the resolution", () => {
+    const task = makeTask({
+      Escalation_Resolved_At: "2026-01-01T00:00:00.000Z",
+    });
+    expect(isEscalated(task)).toBe(true);
+  });
+});
+
+describe("hasReachedVersionLimit", () => {
+  it("counts rubric versions granted by a lead", () => {
+    expect(hasReachedVersionLimit(makeTask(), policy)).toBe(true);
+    expect(
+      hasReachedVersionLimit(makeTask({ Extra_Rubric_Versions: 2 }), policy)
+    ).toBe(false);
+  });
+});
+
+describe("resolveEscalation", () => {
+  it("blocks new rubric versions until a lead allows more", () => {
+    expect(
+      checkTransition("submitRubricEnhanced", { task: makeTask(), policy })
+        .allowed
+    ).toBe(false);
+    expect(
+      checkTransition("submitRubricEnhanced", {
+        task: makeTask({ Extra_Rubric_Versions: 2 }),
+        policy,
+      }).allowed
+    ).toBe(true);
+  });
+
+  it.each([
+    ["extend", "Rubric_Enhancing"],
+    ["send_to_review", "In_Review"],
+    ["abandon", "Abandoned"],
+  ] as const)("resolves %s to %s", (resolution, status) => {
+    const context = { task: makeTask(), reviewerEmail: LEAD, resolution };
+    expect(checkTransition("resolveEscalation", context)).toEqual({
+      allowed: true,
+    });
+    expect(resolveTransition("resolveEscalation", context)).toBe(status);
+  });
+
+  it("rejects tasks that are not escalated", () => {
+    const task = makeTask({ Escalated_At: undefined });
+    expect(
+      checkTransition("resolveEscalation", {
+        task,
+        reviewerEmail: LEAD,
+        resolution: "extend",
+      })
+    ).toEqual({ allowed: false, reason: "The task is not escalated." });
+  });
+
+  it("does not let leads resolve their own task", () => {
+    expect(
+      checkTransition("resolveEscalation", {
+        task: makeTask(),
+        reviewerEmail: TRAINER.toUpperCase(),
+        resolution: "abandon",
+      }).allowed
+    ).toBe(false);
+  });
+
+  it("leaves finished tasks alone", () => {
+    expect(
+      checkTransition("resolveEscalation", {
+        task: makeTask({ Status: "Completed" }),
+        reviewerEmail: LEAD,
+        resolution: "extend",
+      }).allowed
+    ).toBe(false);
+  });
+});
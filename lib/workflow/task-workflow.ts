@@ -0,0 +1,905 @@
+import type {
+  AirtableTaskRecord,
+  TaskStatus,
+  WorkflowStep,
+} from "@/lib/schemas/task";
+import type { TaskRepository } from "@/lib/repositories/task-repository";
+import type { SectorPolicy } from "@/lib/schemas/sector-policy.schema";
+import { isSameEmail } from "@/lib/schemas/users.schema";
+import {
+  EscalationResolution,
+  getEscalationResolutionInfo,
+  getReturnStageInfo,
+  ReviewReturnStage,
+} from "@/lib/schemas/review.schema";
+import { getAbandonedFromStatus } from "@/lib/schemas/task-assignment.schema";
+import {
+  getActiveComparisonModel,
+  getComparisonModels,
+  getModelEvaluation,
+  getPrimaryAlignment,
+  getPrimaryModel,
+  LEGACY_TASK_MODELS,
+  TaskModel,
+} from "@/lib/schemas/task-models";
+
+// Default minimum human/model alignment (%) required to leave the primary
+// model's evaluation loop. Sector policies can raise or lower it.
+export const ALIGNMENT_THRESHOLD = 80;
+
+export type WorkflowCategory = "setup" | "rubric" | "evaluation" | "completion";
+
+type WorkflowStepInfo = Omit<
+  WorkflowStep,
+  "status" | "modelId" | "route" | "isComplete"
+>;
+
+export type EvaluationKind = "human" | "model";
+
+export interface WorkflowStateDefinition {
+  label: string;
+  color: string;
+  step: number;
+  description: string;
+  progress: number;
+  category: WorkflowCategory;
+  /** Page for this step, relative to /dashboard/tasks/[taskId] */
+  route: string;
+  /**
+   * Evaluation states are shown once per model. The "Gemini" statuses are the
+   * primary model's stage, the "GPT" statuses the comparison models' stage.
+   */
+  evaluation?: {
+    models: "primary" | "comparison";
+    kind: EvaluationKind;
+    step: (model: TaskModel) => WorkflowStepInfo;
+  };
+  /** How the step is shown in the step list */
+  workflowStep: WorkflowStepInfo;
+  /** Shown instead of workflowStep while this is the next step to work on */
+  pendingStep?: WorkflowStepInfo;
+  /** Replaces another step's slot in the step list while active */
+  iteration?: {
+    replaces: TaskStatus;
+    isActive: (task: AirtableTaskRecord, threshold: number) => boolean;
+    step: (task: AirtableTaskRecord, threshold: number) => WorkflowStepInfo;
+  };
+  /** The step to work on after this status has been reached */
+  next: (alignment?: number, threshold?: number) => TaskStatus;
+}
+
+export function meetsAlignmentThreshold(
+  alignment?: number,
+  threshold: number = ALIGNMENT_THRESHOLD
+): boolean {
+  return alignment !== undefined && alignment >= threshold;
+}
+
+// True while a lead review has sent the task back to this stage
+export function isRevisingForReview(
+  task: AirtableTaskRecord,
+  stage: ReviewReturnStage
+): boolean {
+  return task.Review_Return_Stage === stage;
+}
+
+// Check if task needs rubric iteration: below threshold, or sent back to the rubric by a lead
+export function needsRubricIteration(
+  task: AirtableTaskRecord,
+  threshold: number = ALIGNMENT_THRESHOLD
+): boolean {
+  const alignment = getPrimaryAlignment(task);
+  return (
+    task.Status === "Rubric_Enhancing" &&
+    alignment !== undefined &&
+    (!meetsAlignmentThreshold(alignment, threshold) ||
+      isRevisingForReview(task, "rubric"))
+  );
+}
+
+export function getPolicyThreshold(policy?: SectorPolicy): number {
+  return policy?.alignmentThreshold ?? ALIGNMENT_THRESHOLD;
+}
+
+// Display-only kappa target for the results page; no transition checks it
+export function getPolicyKappaThreshold(
+  policy?: SectorPolicy
+): number | undefined {
+  return policy?.kappaThreshold;
+}
+
+export function meetsKappaThreshold(
+  kappa: number | null | undefined,
+  threshold?: number
+): boolean {
+  if (threshold === undefined) return true;
+  return kappa !== null && kappa !== undefined && kappa >= threshold;
+}
+
+// Rubric versions the task may reach: the policy limit plus any a lead granted
+export function getRubricVersionLimit(
+  task: AirtableTaskRecord,
+  policy: SectorPolicy
+): number {
+  return policy.maxRubricVersions + (task.Extra_Rubric_Versions || 0);
+}
+
+// True once the current rubric version is the last one the task may reach
+export function hasReachedVersionLimit(
+  task: AirtableTaskRecord,
+  policy?: SectorPolicy
+): boolean {
+  if (!policy) return false;
+  return (
+    (task.Current_Rubric_Version || 1) >= getRubricVersionLimit(task, policy)
+  );
+}
+
+// Below threshold with no rubric versions left: hand the task to the policy's escalation
+export function shouldEscalate(
+  task: AirtableTaskRecord,
+  alignment: number,
+  policy?: SectorPolicy
+): boolean {
+  return (
+    !meetsAlignmentThreshold(alignment, getPolicyThreshold(policy)) &&
+    hasReachedVersionLimit(task, policy)
+  );
+}
+
+// Escalated and not yet resolved; a later escalation reopens a resolved one
+export function isEscalated(task: AirtableTaskRecord): boolean {
+  return (
+    !!task.Escalated_At &&
+    !(
+      task.Escalation_Resolved_At &&
+      task.Escalation_Resolved_At >= task.Escalated_At
+    )
+  );
+}
+
+// Single source of truth for every TaskStatus. Order matters: it is the step order.
+export const TASK_WORKFLOW_STATES: Record<TaskStatus, WorkflowStateDefinition> =
+  {
+    Task_Creation: {
+      label: "Task Created",
+      color: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+      step: 1,
+      description: "Ready for rubric creation",
+      progress: 12.5,
+      category: "setup",
+      route: "",
+      workflowStep: {
+        title: "Task Creation",
+        label: "Task Setup",
+        description: "Create prompt and gather AI responses",
+        estimatedTime: "30-45 minutes",
+      },
+      next: () => "Rubric_V1",
+    },
+    Rubric_V1: {
+      label: "V1 Rubric",
+      color:
+        "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+      step: 2,
+      description: "Initial rubric created",
+      progress: 25,
+      category: "rubric",
+      route: "rubric/v1",
+      workflowStep: {
+        title: "Rubric V1",
+        label: "Create V1 Rubric",
+        description: "Generate initial rubric using AI prompt",
+        estimatedTime: "10-15 minutes",
+      },
+      next: () => "Rubric_V2", // Go to V2 creation, not enhancement
+    },
+    Rubric_V2: {
+      label: "V2 Rubric",
+      color:
+        "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400",
+      step: 3,
+      description: "Enhanced rubric ready",
+      progress: 37.5,
+      category: "rubric",
+      route: "rubric/enhance",
+      workflowStep: {
+        title: "Rubric V2",
+        label: "V2 Rubric",
+        description: "Enhanced rubric ready",
+        estimatedTime: "Complete",
+      },
+      pendingStep: {
+        title: "Rubric V2",
+        label: "Enhance to V2 Rubric",
+        description: "Refine and improve the initial rubric",
+        estimatedTime: "15-20 minutes",
+      },
+      next: () => "Human_Eval_Gemini",
+    },
+    Rubric_Enhancing: {
+      label: "Enhancing Rubric",
+      color:
+        "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+      step: 3,
+      description: "Improving rubric for better alignment",
+      progress: 37.5, // Same as V2 since it's iterative improvement
+      category: "rubric",
+      route: "rubric/enhance",
+      workflowStep: {
+        title: "Rubric Enhancement",
+        label: "Enhance Rubric",
+        description: "Improving rubric for better alignment",
+        estimatedTime: "15-25 minutes",
+      },
+      iteration: {
+        replaces: "Rubric_V2",
+        isActive: needsRubricIteration,
+        step: (task, threshold) => {
+          const currentVersion = task.Current_Rubric_Version || 2;
+          const targetVersion = currentVersion + 1;
+          const alignment = getPrimaryAlignment(task) || 0;
+          const requestedInReview = meetsAlignmentThreshold(
+            alignment,
+            threshold
+          );
+
+          return {
+            label: `Create V${targetVersion} Rubric`,
+            title: `Rubric V${targetVersion}`,
+            description: requestedInReview
+              ? "Revise the rubric as requested in lead review"
+              : `Enhance rubric for better alignment (was ${alignment}%)`,
+            estimatedTime: "15-25 minutes",
+            isIterative: true,
+            iterationInfo: {
+              currentVersion,
+              targetVersion,
+              reason: requestedInReview
+                ? "Requested in lead review"
+                : `Previous alignment: ${alignment}% (need ≥${threshold}%)`,
+            },
+          };
+        },
+      },
+      next: () => "Human_Eval_Gemini",
+    },
+    Human_Eval_Gemini: {
+      label: "Human Eval (Primary)",
+      color: "bg-cyan-100 text-cyan-800 dark:bg-cyan-900/30 dark:text-cyan-400",
+      step: 4,
+      description: "Human evaluation in progress",
+      progress: 50,
+      category: "evaluation",
+      route: "",
+      workflowStep: {
+        title: "Human Eval",
+        label: "Human Evaluate Primary Model",
+        description: "Manually evaluate the primary model's response",
+        estimatedTime: "10-15 minutes",
+      },
+      evaluation: {
+        models: "primary",
+        kind: "human",
+        step: (model) => ({
+          title: `Human Eval ${model.label}`,
+          label: `Human Evaluate ${model.label}`,
+          description: `Manually evaluate ${model.label}'s response`,
+          estimatedTime: "10-15 minutes",
+        }),
+      },
+      next: () => "Model_Eval_Gemini",
+    },
+    Model_Eval_Gemini: {
+      label: "Model Eval (Primary)",
+      color: "bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-400",
+      step: 5,
+      description: "Model evaluation in progress",
+      progress: 62.5,
+      category: "evaluation",
+      route: "",
+      workflowStep: {
+        title: "Model Eval",
+        label: "Model Evaluate Primary Model",
+        description: "Get AI to evaluate the primary model's response",
+        estimatedTime: "5-10 minutes",
+      },
+      evaluation: {
+        models: "primary",
+        kind: "model",
+        step: (model) => ({
+          title: `Model Eval ${model.label}`,
+          label: `Model Evaluate ${model.label}`,
+          description: `Get AI to evaluate ${model.label}'s response`,
+          estimatedTime: "5-10 minutes",
+        }),
+      },
+      // Dynamic decision based on alignment
+      next: (alignment, threshold) =>
+        alignment === undefined || meetsAlignmentThreshold(alignment, threshold)
+          ? "Human_Eval_GPT"
+          : "Rubric_Enhancing",
+    },
+    Human_Eval_GPT: {
+      label: "Human Eval (Comparison)",
+      color:
+        "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+      step: 6,
+      description: "Comparison human evaluation in progress",
+      progress: 75,
+      category: "evaluation",
+      route: "",
+      workflowStep: {
+        title: "Human Eval",
+        label: "Human Evaluate Comparison Model",
+        description: "Manually evaluate a comparison model's response",
+        estimatedTime: "10-15 minutes",
+      },
+      evaluation: {
+        models: "comparison",
+        kind: "human",
+        step: (model) => ({
+          title: `Human Eval ${model.label}`,
+          label: `Human Evaluate ${model.label}`,
+          description: `Manually evaluate ${model.label}'s response`,
+          estimatedTime: "10-15 minutes",
+        }),
+      },
+      next: () => "Model_Eval_GPT",
+    },
+    Model_Eval_GPT: {
+      label: "Model Eval (Comparison)",
+      color: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+      step: 7,
+      description: "Comparison model evaluation in progress",
+      progress: 87.5,
+      category: "evaluation",
+      route: "",
+      workflowStep: {
+        title: "Model Eval",
+        label: "Model Evaluate Comparison Model",
+        description: "Get AI to evaluate a comparison model's response",
+        estimatedTime: "5-10 minutes",
+      },
+      evaluation: {
+        models: "comparison",
+        kind: "model",
+        step: (model) => ({
+          title: `Model Eval ${model.label}`,
+          label: `Model Evaluate ${model.label}`,
+          description: `Get AI to evaluate ${model.label}'s response`,
+          estimatedTime: "5-10 minutes",
+        }),
+      },
+      // Only kept while other comparison models still need evaluating
+      next: () => "Human_Eval_GPT",
+    },
+    In_Review: {
+      label: "In Review",
+      color:
+        "bg-violet-100 text-violet-800 dark:bg-violet-900/30 dark:text-violet-400",
+      step: 8,
+      description: "Awaiting lead review",
+      progress: 95,
+      category: "completion",
+      route: "review",
+      workflowStep: {
+        title: "Lead Review",
+        label: "Submit for Review",
+        description: "Evaluations submitted to a lead for review",
+        estimatedTime: "Automatic",
+      },
+      next: () => "Completed",
+    },
+    Changes_Requested: {
+      label: "Changes Requested",
+      color: "bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-400",
+      step: 8,
+      description: "A lead requested changes",
+      progress: 90,
+      category: "completion",
+      route: "review",
+      workflowStep: {
+        title: "Changes Requested",
+        label: "Address Review Comments",
+        description: "Read the lead's comments and start revising",
+        estimatedTime: "5 minutes",
+      },
+      iteration: {
+        replaces: "In_Review",
+        isActive: (task) => task.Status === "Changes_Requested",
+        step: (task) => ({
+          title: "Changes Requested",
+          label: "Address Review Comments",
+          description: task.Review_Return_Stage
+            ? `A lead sent the task back to ${getReturnStageInfo(
+                task.Review_Return_Stage
+              ).label.toLowerCase()}`
+            : "Read the lead's comments and start revising",
+          estimatedTime: "5 minutes",
+        }),
+      },
+      next: () => "In_Review",
+    },
+    Completed: {
+      label: "Completed",
+      color:
+        "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+      step: 9,
+      description: "All evaluations completed",
+      progress: 100,
+      category: "completion",
+      route: "results",
+      workflowStep: {
+        title: "Completed",
+        label: "Evaluation Complete",
+        description: "All evaluations finished and approved",
+        estimatedTime: "Complete",
+      },
+      pendingStep: {
+        title: "Completed",
+        label: "Awaiting Lead Approval",
+        description: "A lead approves the task or requests changes",
+        estimatedTime: "Lead review",
+      },
+      next: () => "Completed",
+    },
+    Abandoned: {
+      label: "Abandoned",
+      color: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+      step: 0,
+      description: "Given up before completion",
+      progress: 0,
+      category: "completion",
+      route: "",
+      workflowStep: {
+        title: "Abandoned",
+        label: "Task Abandoned",
+        description: "No one is working on the task",
+        estimatedTime: "-",
+      },
+      iteration: {
+        replaces: "Completed",
+        isActive: (task) => task.Status === "Abandoned",
+        step: () => ({
+          title: "Abandoned",
+          label: "Task Abandoned",
+          description: "A lead can reassign the task to reopen it",
+          estimatedTime: "-",
+        }),
+      },
+      next: () => "Abandoned",
+    },
+  };
+
+export function getWorkflowState(
+  status: TaskStatus
+): WorkflowStateDefinition | undefined {
+  return TASK_WORKFLOW_STATES[status];
+}
+
+export function getEvaluationRoute(
+  taskId: string,
+  modelId: string,
+  kind: EvaluationKind
+): string {
+  return `/dashboard/tasks/${taskId}/evaluation/${modelId}/${kind}`;
+}
+
+export function getStepRoute(taskId: string, step: WorkflowStep): string {
+  return step.route
+    ? `/dashboard/tasks/${taskId}/${step.route}`
+    : `/dashboard/tasks/${taskId}`;
+}
+
+function isStepComplete(
+  task: AirtableTaskRecord,
+  state: WorkflowStateDefinition,
+  model?: TaskModel
+): boolean {
+  // Comparison models are evaluated one after another under the same statuses
+  if (model && state.evaluation?.models === "comparison") {
+    const evaluation = getModelEvaluation(task, model.id);
+    return state.evaluation.kind === "human"
+      ? !!evaluation.humanScores
+      : !!evaluation.modelScores;
+  }
+  const currentStep = getWorkflowState(task.Status)?.step || 0;
+  return state.step <= currentStep;
+}
+
+// Build the ordered step list, swapping in iteration steps when they apply
+export function buildWorkflowSteps(
+  task?: AirtableTaskRecord,
+  threshold: number = ALIGNMENT_THRESHOLD
+): WorkflowStep[] {
+  const entries = Object.entries(TASK_WORKFLOW_STATES) as Array<
+    [TaskStatus, WorkflowStateDefinition]
+  >;
+  const pendingStatus = task
+    ? getWorkflowState(task.Status)?.next(getPrimaryAlignment(task), threshold)
+    : undefined;
+
+  const comparisonStates = entries.filter(
+    ([, state]) => state.evaluation?.models === "comparison"
+  );
+  const steps: WorkflowStep[] = [];
+
+  for (const [status, state] of entries) {
+    if (state.iteration) continue;
+
+    const activeIteration = task
+      ? entries.find(
+          ([, candidate]) =>
+            candidate.iteration?.replaces === status &&
+            candidate.iteration.isActive(task, threshold)
+        )
+      : undefined;
+
+    if (task && activeIteration) {
+      const [iterationStatus, iterationState] = activeIteration;
+      steps.push({
+        status: iterationStatus,
+        route: iterationState.route,
+        isComplete: false,
+        ...iterationState.iteration!.step(task, threshold),
+      });
+      continue;
+    }
+
+    if (state.evaluation) {
+      const primary = state.evaluation.models === "primary";
+      // Comparison models go through both evaluation states one model at a
+      // time, so all their steps are listed once, grouped by model
+      if (!primary && state !== comparisonStates[0][1]) continue;
+
+      const models = primary
+        ? [task ? getPrimaryModel(task) : LEGACY_TASK_MODELS[0]]
+        : task
+        ? getComparisonModels(task)
+        : LEGACY_TASK_MODELS.slice(1);
+      const modelStates = primary
+        ? [[status, state] as const]
+        : comparisonStates;
+
+      for (const model of models) {
+        for (const [modelStatus, modelState] of modelStates) {
+          const { evaluation } = modelState;
+          steps.push({
+            status: modelStatus,
+            modelId: model.id,
+            route: `evaluation/${model.id}/${evaluation!.kind}`,
+            isComplete: task
+              ? isStepComplete(task, modelState, model)
+              : undefined,
+            ...evaluation!.step(model),
+          });
+        }
+      }
+      continue;
+    }
+
+    const stepInfo =
+      state.pendingStep && pendingStatus === status
+        ? state.pendingStep
+        : state.workflowStep;
+    steps.push({
+      status,
+      route: state.route,
+      isComplete: task ? isStepComplete(task, state) : undefined,
+      ...stepInfo,
+    });
+  }
+
+  return steps;
+}
+
+// Transitions triggered by the task mutations
+
+export type TaskWorkflowEvent =
+  | "submitRubricV1"
+  | "submitRubricEnhanced"
+  | "submitPrimaryHumanEval"
+  | "submitPrimaryModelEval"
+  | "submitComparisonHumanEval"
+  | "submitComparisonModelEval"
+  | "approveReview"
+  | "requestReviewChanges"
+  | "resumeAfterReview"
+  | "resolveEscalation"
+  | "abandonTask"
+  | "reopenTask";
+
+export interface TransitionContext {
+  task: AirtableTaskRecord;
+  /** Alignment (%) computed by the transition itself, if any */
+  alignment?: number;
+  /** Sector policy for the task; defaults apply when omitted */
+  policy?: SectorPolicy;
+  /** Model being evaluated, for evaluation events */
+  modelId?: string;
+  /** Lead acting on the task, for review events */
+  reviewerEmail?: string;
+  /** Stage the lead sends the task back to */
+  returnStage?: ReviewReturnStage;
+  /** How the lead settles an escalated task */
+  resolution?: EscalationResolution;
+}
+
+export interface TransitionEffectContext {
+  task: AirtableTaskRecord;
+  repository: TaskRepository;
+}
+
+export interface WorkflowGuard {
+  check: (context: TransitionContext) => boolean;
+  message: string | ((context: TransitionContext) => string);
+}
+
+export interface WorkflowTransition {
+  from: TaskStatus[];
+  invalidStateMessage: string;
+  guards?: WorkflowGuard[];
+  to: (context: TransitionContext) => TaskStatus;
+  /** Run before the new status is persisted */
+  effects?: Array<(context: TransitionEffectContext) => Promise<unknown>>;
+}
+
+// Comparison models are evaluated in order, one at a time
+const activeComparisonModelGuard: WorkflowGuard = {
+  check: ({ task, modelId }) =>
+    !!modelId && getActiveComparisonModel(task)?.id === modelId,
+  message: ({ task }) => {
+    const active = getActiveComparisonModel(task);
+    return active
+      ? `${active.label} must be evaluated next.`
+      : "All comparison models have already been evaluated.";
+  },
+};
+
+// Leads review other trainers' work, never their own
+const notOwnTaskGuard: WorkflowGuard = {
+  check: ({ task, reviewerEmail }) =>
+    !!reviewerEmail && !isSameEmail(reviewerEmail, task.TrainerEmail),
+  message: "You cannot review your own task.",
+};
+
+// Ensure the next rubric version field exists (for future use)
+const ensureNextRubricVersionField = ({
+  task,
+  repository,
+}: TransitionEffectContext) =>
+  repository.ensureRubricVersionFields((task.Current_Rubric_Version || 1) + 1);
+
+export const TASK_WORKFLOW_TRANSITIONS: Record<
+  TaskWorkflowEvent,
+  WorkflowTransition
+> = {
+  submitRubricV1: {
+    from: ["Task_Creation", "Rubric_V1"],
+    invalidStateMessage:
+      "Task is not in the correct state for V1 rubric creation.",
+    to: () => "Rubric_V1",
+  },
+  submitRubricEnhanced: {
+    from: ["Rubric_V1", "Rubric_Enhancing"],
+    invalidStateMessage:
+      "Task is not in the correct state for rubric enhancement.",
+    guards: [
+      {
+        // Only the "block" escalation stops further rubric versions
+        check: ({ task, policy }) =>
+          task.Status === "Rubric_V1" ||
+          policy?.escalationAction !== "block" ||
+          !hasReachedVersionLimit(task, policy),
+        message: ({ task, policy }) =>
+          `This task may have at most ${
+            policy && getRubricVersionLimit(task, policy)
+          } rubric versions. It has been escalated and waits for a lead.`,
+      },
+    ],
+    // For iterations, we go back to enhancing mode until evaluation
+    to: ({ task }) =>
+      task.Status === "Rubric_V1" ? "Rubric_V2" : "Rubric_Enhancing",
+    effects: [ensureNextRubricVersionField],
+  },
+  submitPrimaryHumanEval: {
+    from: ["Rubric_V2", "Rubric_Enhancing", "Human_Eval_Gemini"],
+    invalidStateMessage:
+      "Task is not in the correct state for human evaluation.",
+    to: () => "Human_Eval_Gemini",
+  },
+  submitPrimaryModelEval: {
+    from: ["Human_Eval_Gemini", "Model_Eval_Gemini"],
+    invalidStateMessage:
+      "Task is not in the correct state for model evaluation.",
+    to: ({ task, alignment, policy }) => {
+      if (meetsAlignmentThreshold(alignment, getPolicyThreshold(policy))) {
+        return "Model_Eval_Gemini";
+      }
+      // Out of rubric versions and the policy lets the task move on anyway
+      if (
+        policy?.escalationAction === "advance" &&
+        hasReachedVersionLimit(task, policy)
+      ) {
+        return "Model_Eval_Gemini";
+      }
+      return "Rubric_Enhancing";
+    },
+    effects: [ensureNextRubricVersionField],
+  },
+  submitComparisonHumanEval: {
+    from: ["Model_Eval_Gemini", "Human_Eval_GPT", "Model_Eval_GPT"],
+    invalidStateMessage:
+      "Task is not in the correct state for comparison evaluation.",
+    guards: [
+      {
+        check: ({ task, policy }) =>
+          meetsAlignmentThreshold(
+            getPrimaryAlignment(task),
+            getPolicyThreshold(policy)
+          ) ||
+          (policy?.escalationAction === "advance" && isEscalated(task)),
+        message: ({ task, policy }) =>
+          `${
+            getPrimaryModel(task).label
+          } alignment must be ≥${getPolicyThreshold(
+            policy
+          )}% before proceeding to comparison evaluation.`,
+      },
+      activeComparisonModelGuard,
+    ],
+    to: () => "Human_Eval_GPT",
+  },
+  submitComparisonModelEval: {
+    from: ["Human_Eval_GPT", "Model_Eval_GPT"],
+    invalidStateMessage:
+      "Task is not in the correct state for comparison model evaluation.",
+    guards: [
+      activeComparisonModelGuard,
+      {
+        check: ({ task, modelId }) =>
+          !!modelId && !!getModelEvaluation(task, modelId).humanScores,
+        message: "Human evaluation must be completed first.",
+      },
+    ],
+    // Stay in the comparison stage until every comparison model is evaluated
+    to: ({ task, modelId }) =>
+      getComparisonModels(task).some(
+        (model) =>
+          model.id !== modelId &&
+          !getModelEvaluation(task, model.id).modelScores
+      )
+        ? "Model_Eval_GPT"
+        : "In_Review",
+  },
+  approveReview: {
+    from: ["In_Review"],
+    invalidStateMessage: "Only tasks in review can be approved.",
+    guards: [notOwnTaskGuard],
+    to: () => "Completed",
+  },
+  requestReviewChanges: {
+    from: ["In_Review"],
+    invalidStateMessage: "Only tasks in review can be sent back.",
+    guards: [
+      notOwnTaskGuard,
+      {
+        // A new rubric version would be rejected by submitRubricEnhanced
+        check: ({ task, policy, returnStage }) =>
+          returnStage !== "rubric" ||
+          policy?.escalationAction !== "block" ||
+          !hasReachedVersionLimit(task, policy),
+        message: ({ task, policy }) =>
+          `This task may have at most ${
+            policy && getRubricVersionLimit(task, policy)
+          } rubric versions, so it cannot be sent back to the rubric.`,
+      },
+    ],
+    to: () => "Changes_Requested",
+  },
+  resumeAfterReview: {
+    from: ["Changes_Requested"],
+    invalidStateMessage: "The task has no pending change request.",
+    guards: [
+      {
+        check: ({ task }) => !!task.Review_Return_Stage,
+        message: "The change request does not name a stage to return to.",
+      },
+    ],
+    to: ({ task }) =>
+      getReturnStageInfo(task.Review_Return_Stage as ReviewReturnStage).status,
+    effects: [ensureNextRubricVersionField],
+  },
+  // A lead settles an escalation: more versions, straight to review, or abandon
+  resolveEscalation: {
+    from: [
+      "Rubric_Enhancing",
+      "Human_Eval_Gemini",
+      "Model_Eval_Gemini",
+      "Human_Eval_GPT",
+      "Model_Eval_GPT",
+    ],
+    invalidStateMessage:
+      "Only escalated tasks still being worked on can be resolved.",
+    guards: [
+      {
+        check: ({ task }) => isEscalated(task),
+        message: "The task is not escalated.",
+      },
+      notOwnTaskGuard,
+      {
+        check: ({ resolution }) => !!resolution,
+        message: "Choose how to resolve the escalation.",
+      },
+    ],
+    to: ({ resolution }) =>
+      getEscalationResolutionInfo(resolution as EscalationResolution).status,
+    effects: [ensureNextRubricVersionField],
+  },
+  abandonTask: {
+    from: [
+      "Task_Creation",
+      "Rubric_V1",
+      "Rubric_V2",
+      "Rubric_Enhancing",
+      "Human_Eval_Gemini",
+      "Model_Eval_Gemini",
+      "Human_Eval_GPT",
+      "Model_Eval_GPT",
+      "In_Review",
+      "Changes_Requested",
+    ],
+    invalidStateMessage: "Only tasks still in progress can be abandoned.",
+    to: () => "Abandoned",
+  },
+  // Assigning an abandoned task picks it up where it was left
+  reopenTask: {
+    from: ["Abandoned"],
+    invalidStateMessage: "Only abandoned tasks can be reopened.",
+    to: ({ task }) => getAbandonedFromStatus(task) || "Task_Creation",
+  },
+};
+
+/**
+ * Check whether an event may fire for the task's current status
+ */
+export function checkTransition(
+  event: TaskWorkflowEvent,
+  context: TransitionContext
+): { allowed: boolean; reason?: string } {
+  const transition = TASK_WORKFLOW_TRANSITIONS[event];
+
+  if (!transition.from.includes(context.task.Status)) {
+    return { allowed: false, reason: transition.invalidStateMessage };
+  }
+
+  const failedGuard = transition.guards?.find((guard) => !guard.check(context));
+  if (failedGuard) {
+    return {
+      allowed: false,
+      reason:
+        typeof failedGuard.message === "function"
+          ? failedGuard.message(context)
+          : failedGuard.message,
+    };
+  }
+
+  return { allowed: true };
+}
+
+export function resolveTransition(
+  event: TaskWorkflowEvent,
+  context: TransitionContext
+): TaskStatus {
+  return TASK_WORKFLOW_TRANSITIONS[event].to(context);
+}
+
+export async function runTransitionEffects(
+  event: TaskWorkflowEvent,
+  context: TransitionEffectContext
+): Promise<void> {
+  for (const effect of TASK_WORKFLOW_TRANSITIONS[event].effects || []) {
+    await effect(context);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth0 } from "./lib/auth0";
 import { getUserInfoFromAPI } from "./lib/utils/auth-utils";
+import { canAccessAdminPath } from "./lib/schemas/users.schema";
 
 export async function middleware(request: NextRequest) {
   const authRes = await auth0.middleware(request);
@@ -29,7 +30,10 @@ export async function middleware(request: NextRequest) {
       const userInfo = await getUserInfoFromAPI(session);
       const userRole = userInfo?.role;
 
-      if (!userRole || userRole !== "admin") {
+      if (
+        !userRole ||
+        !canAccessAdminPath(userRole, request.nextUrl.pathname)
+      ) {
         console.warn("Unauthorized admin access attempt", {
           url: request.nextUrl.pathname,
           userId: session.user.sub,
@@ -10,6 +10,16 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  // Evaluation pages used to be per provider; old links go to the generic pages
+  async redirects() {
+    return ["gemini", "gpt"].flatMap((modelId) =>
+      ["human", "model"].map((kind) => ({
+        source: `/dashboard/tasks/:taskId/evaluation/${kind}-${modelId}`,
+        destination: `/dashboard/tasks/:taskId/evaluation/${modelId}/${kind}`,
+        permanent: true,
+      }))
+    );
+  },
 };
 
 export default nextConfig;